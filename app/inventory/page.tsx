@@ -3,7 +3,7 @@ import AuthGuard from "@/components/auth/auth-guard";
 
 export default function Page() {
   return (
-    <AuthGuard>
+    <AuthGuard permission="inventory.read">
       <InventoryPage />
     </AuthGuard>
   );
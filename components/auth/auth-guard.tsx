@@ -1,19 +1,25 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuthStore } from "@/lib/stores/authStore";
+import { useShiftStore } from "@/lib/stores/shiftStore";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { ROUTE_PERMISSIONS } from "@/lib/config/permissions";
+import { Button } from "@/components/ui/button";
 
 interface AuthGuardProps {
   children: React.ReactNode;
   fallback?: React.ReactNode; // Optional fallback component to show while loading
+  permission?: string; // Permission required to open the page, see lib/config/permissions.ts
 }
 
-export default function AuthGuard({ children, fallback }: AuthGuardProps) {
+export default function AuthGuard({ children, fallback, permission }: AuthGuardProps) {
   const router = useRouter();
   const isMobile = useIsMobile();
-  const { isAuthenticated, loading, initializeAuth } = useAuthStore();
+  const { isAuthenticated, loading, initializeAuth, user, permissionsUserId, can, offlineGraceExpiresAt, logout } = useAuthStore();
+  const { shiftStatus } = useShiftStore();
+  const [graceExpired, setGraceExpired] = useState(false);
 
   useEffect(() => {
     // Initialize authentication state
@@ -28,8 +34,29 @@ export default function AuthGuard({ children, fallback }: AuthGuardProps) {
     }
   }, [isAuthenticated, loading, router]);
 
+  useEffect(() => {
+    if (!offlineGraceExpiresAt) {
+      setGraceExpired(false);
+      return;
+    }
+    const check = () => setGraceExpired(Date.now() >= offlineGraceExpiresAt);
+    check();
+    const timer = setInterval(check, 60000);
+    return () => clearInterval(timer);
+  }, [offlineGraceExpiresAt]);
+
+  useEffect(() => {
+    // Once offline access has expired the user must sign in online again, but only after any open shift is closed
+    if (graceExpired && isAuthenticated && shiftStatus !== 'open') {
+      logout().then(() => router.push("/"));
+    }
+  }, [graceExpired, isAuthenticated, shiftStatus, logout, router]);
+
+  // Permissions are resolved asynchronously after the user is set
+  const checkingPermissions = !!permission && !!user && user.role !== 'owner' && permissionsUserId !== user.id;
+
   // Show fallback while checking authentication status
- if (loading || !isAuthenticated) {
+ if (loading || !isAuthenticated || checkingPermissions) {
     return fallback || (
       <div className="flex items-center justify-center min-h-screen bg-background">
         <div className="text-center">
@@ -40,6 +67,40 @@ export default function AuthGuard({ children, fallback }: AuthGuardProps) {
     );
   }
 
+  if (graceExpired && shiftStatus === 'open' && permission !== 'reports.read') {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <div className="text-center space-y-4 max-w-sm">
+          <p className="text-lg font-semibold text-foreground">Masa offline berakhir</p>
+          <p className="text-muted-foreground">
+            Tutup shift yang sedang berjalan, lalu login ulang saat perangkat kembali online.
+          </p>
+          <Button onClick={() => router.push("/reports")}>
+            Tutup Shift
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (permission && !can(permission)) {
+    const allowedRoute = Object.keys(ROUTE_PERMISSIONS).find(route => can(ROUTE_PERMISSIONS[route]));
+
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <div className="text-center space-y-4">
+          <p className="text-lg font-semibold text-foreground">Akses ditolak</p>
+          <p className="text-muted-foreground">Anda tidak memiliki hak akses ke halaman ini.</p>
+          {allowedRoute && (
+            <Button variant="outline" onClick={() => router.push(allowedRoute)}>
+              Kembali
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   // If authenticated, render children
   return <>{children}</>;
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { WifiOff } from "lucide-react";
+import { useAuthStore } from "@/lib/stores/authStore";
+
+const formatRemaining = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000));
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days} hari ${hours} jam`;
+  if (hours > 0) return `${hours} jam ${minutes} menit`;
+  return `${minutes} menit`;
+};
+
+// Shown while the device works offline, counting down to the forced re-login
+export default function OfflineGraceBanner() {
+  const { offlineGraceExpiresAt } = useAuthStore();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!offlineGraceExpiresAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [offlineGraceExpiresAt]);
+
+  if (!offlineGraceExpiresAt) return null;
+
+  const remaining = offlineGraceExpiresAt - now;
+  const expired = remaining <= 0;
+
+  return (
+    <div className={`flex items-center justify-center gap-2 px-4 py-1.5 text-xs ${expired ? "bg-destructive/10 text-destructive" : "bg-yellow-500/10 text-yellow-700 dark:text-yellow-400"}`}>
+      <WifiOff className="h-3.5 w-3.5" />
+      {expired
+        ? "Masa offline berakhir. Tutup shift yang berjalan lalu login ulang saat online."
+        : `Mode offline: login ulang secara online diperlukan dalam ${formatRemaining(remaining)}`}
+    </div>
+  );
+}
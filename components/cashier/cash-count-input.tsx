@@ -0,0 +1,120 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { CashCount } from "@/lib/db"
+import { CashCountService, CashCountLine, DEFAULT_CURRENCY } from "@/lib/services/cashCountService"
+
+interface CashCountInputProps {
+  id: string
+  label: string
+  disabled?: boolean
+  // `amount` is the typed or counted total as entered, `count` the breakdown when counted by denomination
+  onChange: (amount: string, count: CashCount | null) => void
+}
+
+export const formatMoney = (currency: string, amount: number) =>
+  `${currency === DEFAULT_CURRENCY ? "Rp" : currency} ${amount.toLocaleString("id-ID")}`
+
+// Cash amount counted note by note, or typed as one number when the store has no denominations set up
+export default function CashCountInput({ id, label, disabled = false, onChange }: CashCountInputProps) {
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
+  const [lines, setLines] = useState<CashCountLine[]>([])
+  const [byDenomination, setByDenomination] = useState(true)
+  const [typed, setTyped] = useState("")
+
+  useEffect(() => {
+    CashCountService.getDenominations()
+      .then(({ currency, denominations }) => {
+        setCurrency(currency)
+        setLines(CashCountService.emptyLines(denominations))
+        setByDenomination(denominations.length > 0)
+      })
+      .catch((error) => {
+        console.error("Error loading denominations:", error)
+        setByDenomination(false)
+      })
+  }, [])
+
+  const emitCount = (next: CashCountLine[]) => {
+    const count = CashCountService.createCount(currency, next)
+    onChange(count.lines.length > 0 ? String(count.total) : "", count)
+  }
+
+  const updateQty = (index: number, qty: number) => {
+    const next = lines.map((line, i) => (i === index ? { ...line, qty: Math.max(0, Math.floor(qty) || 0) } : line))
+    setLines(next)
+    emitCount(next)
+  }
+
+  const toggleMode = () => {
+    if (byDenomination) {
+      setByDenomination(false)
+      onChange(typed, null)
+    } else {
+      setByDenomination(true)
+      emitCount(lines)
+    }
+  }
+
+  const total = CashCountService.calculateTotal(lines)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor={id} className="text-sm font-medium text-foreground">{label}</label>
+        {lines.length > 0 && (
+          <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={toggleMode} disabled={disabled}>
+            {byDenomination ? "Ketik total saja" : "Hitung per pecahan"}
+          </Button>
+        )}
+      </div>
+
+      {byDenomination && lines.length > 0 ? (
+        <div className="rounded-lg border border-border">
+          <div className="max-h-64 overflow-y-auto divide-y divide-border">
+            {lines.map((line, index) => (
+              <div key={`${line.kind}-${line.value}`} className="grid grid-cols-[1fr_5rem_1fr] items-center gap-2 px-3 py-1.5">
+                <span className="text-sm">
+                  {formatMoney(currency, line.value)}
+                  {line.kind === "coin" && <span className="ml-1 text-xs text-muted-foreground">koin</span>}
+                </span>
+                <Input
+                  id={index === 0 ? id : undefined}
+                  type="number"
+                  min="0"
+                  inputMode="numeric"
+                  value={line.qty || ""}
+                  onChange={(e) => updateQty(index, Number(e.target.value))}
+                  placeholder="0"
+                  disabled={disabled}
+                  className="h-8 text-right"
+                />
+                <span className="text-sm text-right text-muted-foreground">{formatMoney(currency, line.value * line.qty)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between border-t border-border px-3 py-2 text-sm font-semibold">
+            <span>Total</span>
+            <span>{formatMoney(currency, total)}</span>
+          </div>
+        </div>
+      ) : (
+        <Input
+          id={id}
+          type="number"
+          placeholder="0"
+          value={typed}
+          onChange={(e) => {
+            setTyped(e.target.value)
+            onChange(e.target.value, null)
+          }}
+          disabled={disabled}
+          className="text-right"
+          min="0"
+        />
+      )}
+    </div>
+  )
+}
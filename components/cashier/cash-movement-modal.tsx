@@ -0,0 +1,120 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { toast } from "react-hot-toast"
+import { CashMovementService, CashMovementType, CASH_MOVEMENT_TYPE_LABELS } from "@/lib/services/cashMovementService"
+import { useAuthStore } from "@/lib/stores/authStore"
+
+interface CashMovementModalProps {
+  type: CashMovementType | null // Closed when null
+  shiftId: string | null
+  onClose: () => void
+}
+
+export default function CashMovementModal({ type, shiftId, onClose }: CashMovementModalProps) {
+  const { user } = useAuthStore()
+  const [amount, setAmount] = useState("")
+  const [reason, setReason] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    setAmount("")
+    setReason("")
+    setError("")
+  }, [type])
+
+  if (!type) return null
+
+  const handleSubmit = async () => {
+    if (!user || !shiftId) {
+      setError("Belum ada shift aktif")
+      return
+    }
+    if (!(Number(amount) > 0)) {
+      setError("Jumlah harus lebih dari 0")
+      return
+    }
+    if (!reason.trim()) {
+      setError("Keterangan wajib diisi")
+      return
+    }
+
+    setLoading(true)
+    setError("")
+    try {
+      await CashMovementService.recordMovement({
+        shiftId,
+        type,
+        amount: Number(amount),
+        reason,
+        userId: user.id,
+      })
+      toast.success(`${CASH_MOVEMENT_TYPE_LABELS[type]} Rp ${Number(amount).toLocaleString("id-ID")} dicatat`)
+      onClose()
+    } catch (err) {
+      console.error("Error recording cash movement:", err)
+      setError(err instanceof Error ? err.message : "Gagal mencatat kas")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!type} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{CASH_MOVEMENT_TYPE_LABELS[type]}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {type === "in"
+              ? "Uang yang dimasukkan ke laci di luar penjualan, misalnya tambahan uang kembalian."
+              : "Uang yang diambil dari laci di luar refund, misalnya beli es atau bayar kurir."}
+          </p>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Jumlah</label>
+            <Input
+              type="number"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0"
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Keterangan</label>
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={type === "in" ? "Tambahan uang kecil" : "Beli es batu"}
+              disabled={loading}
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" onClick={onClose} disabled={loading} className="flex-1">
+              Batal
+            </Button>
+            <Button onClick={handleSubmit} disabled={loading} className="flex-1">
+              {loading ? "Menyimpan..." : "Simpan"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,9 +1,11 @@
 "use client";
 
-import { Bell, Lock, Menu, LogOut } from "lucide-react";
+import { Bell, Lock, Menu, LogOut, ArrowDownToLine, ArrowUpFromLine, ArrowLeftRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState, useEffect } from "react";
 import NotificationPanel from "@/components/notifications/notification-panel";
+import CashMovementModal from "./cash-movement-modal";
+import ShiftHandoverModal from "./shift-handover-modal";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,6 +16,7 @@ import {
 import { useAuthStore } from "@/lib/stores/authStore";
 import { useShiftStore } from "@/lib/stores/shiftStore";
 import { useNotificationStore } from "@/lib/services/notificationService";
+import { CashMovementType } from "@/lib/services/cashMovementService";
 import { format } from "date-fns";
 
 export default function CashierHeader() {
@@ -24,6 +27,8 @@ export default function CashierHeader() {
   const { unreadCount } = useNotificationStore();
   const [shiftData, setShiftData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [cashMovementType, setCashMovementType] = useState<CashMovementType | null>(null);
+  const [showHandover, setShowHandover] = useState(false);
 
   useEffect(() => {
     const fetchShiftData = async () => {
@@ -95,6 +100,20 @@ export default function CashierHeader() {
           <span className="text-xs text-muted-foreground">{isOnline ? "Online" : "Offline"}</span>
         </div>
 
+        {/* Cash In / Out */}
+        {shiftData && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => setCashMovementType("in")} className="gap-1">
+              <ArrowDownToLine className="w-4 h-4" />
+              Kas Masuk
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCashMovementType("out")} className="gap-1">
+              <ArrowUpFromLine className="w-4 h-4" />
+              Kas Keluar
+            </Button>
+          </>
+        )}
+
         {/* Notifications */}
         <div className="relative">
           <Button
@@ -128,6 +147,12 @@ export default function CashierHeader() {
           <DropdownMenuContent align="end" className="w-48">
             <DropdownMenuItem>Settings</DropdownMenuItem>
             <DropdownMenuItem>Account</DropdownMenuItem>
+            {shiftData && (
+              <DropdownMenuItem onClick={() => setShowHandover(true)}>
+                <ArrowLeftRight className="w-4 h-4 mr-2" />
+                Serah Terima Kasir
+              </DropdownMenuItem>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={handleLogout} className="text-destructive">
               <LogOut className="w-4 h-4 mr-2" />
@@ -136,6 +161,18 @@ export default function CashierHeader() {
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+
+      <CashMovementModal
+        type={cashMovementType}
+        shiftId={shiftData?.id || null}
+        onClose={() => setCashMovementType(null)}
+      />
+
+      <ShiftHandoverModal
+        isOpen={showHandover}
+        shiftId={shiftData?.id || null}
+        onClose={() => setShowHandover(false)}
+      />
     </header>
   );
 }
@@ -1,12 +1,20 @@
 "use client"
 
 import { useState } from "react"
-import { X, CreditCard, Smartphone, QrCode } from "lucide-react"
+import { X, CreditCard, Smartphone, QrCode, Plus, Trash2, Printer, CheckCircle } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Separator } from "@/components/ui/separator"
 import { useCashierStore } from "@/lib/stores/cashierStore"
+import { useSettingsStore } from "@/lib/stores/settingsStore"
+import { useAuthStore } from "@/lib/stores/authStore"
+import { Transaction } from "@/lib/db"
 import { PaymentService } from "@/lib/services/paymentService"
+import { QrisService } from "@/lib/services/qrisService"
+import { printingService } from "@/lib/services/printingService"
+import { toast } from "react-hot-toast"
+import { InsufficientStockError, StockShortage } from "@/lib/utils/errorHandler"
+import QrisCode from "./qris-code"
 
 interface CheckoutModalProps {
   isOpen: boolean
@@ -15,44 +23,110 @@ interface CheckoutModalProps {
 
 type PaymentMethod = 'cash' | 'ewallet' | 'qris'
 
+interface PaymentRow {
+  method: PaymentMethod
+  amount: string
+}
+
 export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
   const { cart, selectedCustomer, calculateTotal, checkout } = useCashierStore()
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash')
-  const [paymentAmount, setPaymentAmount] = useState("")
+  const { getSetting } = useSettingsStore()
+  const { user } = useAuthStore()
+  const [payments, setPayments] = useState<PaymentRow[]>([{ method: 'cash', amount: "" }])
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState("")
+  const [stockShortages, setStockShortages] = useState<StockShortage[]>([])
+  const [paidTransaction, setPaidTransaction] = useState<Transaction | null>(null) // Waiting for "print receipt?"
 
   const total = calculateTotal()
-  const paymentAmountNum = parseFloat(paymentAmount) || 0
-  const change = Math.max(paymentAmountNum - total, 0)
+  const tenders = payments.map(payment => ({ method: payment.method, amount: parseFloat(payment.amount) || 0 }))
+  const summary = PaymentService.summarizeTenders(total, tenders)
+  const canPay = summary.remaining === 0 && !summary.nonCashExceedsTotal
+
+  const updatePayment = (index: number, changes: Partial<PaymentRow>) => {
+    setPayments(payments.map((payment, i) => (i === index ? { ...payment, ...changes } : payment)))
+  }
+
+  // New rows default to the amount still missing
+  const addPayment = () => {
+    const usedMethods = payments.map(payment => payment.method)
+    const method = (['qris', 'ewallet', 'cash'] as PaymentMethod[]).find(m => !usedMethods.includes(m)) || 'cash'
+    setPayments([...payments, { method, amount: summary.remaining > 0 ? String(summary.remaining) : "" }])
+  }
+
+  // Dynamic QRIS for the row's amount, or null when no merchant QRIS is configured
+  const getQrisPayload = (amount: number): string | null => {
+    const staticPayload = getSetting('business')?.qrisPayload
+    if (!staticPayload || amount <= 0) return null
+    try {
+      return QrisService.toDynamic(staticPayload, amount)
+    } catch (err) {
+      console.error("Failed to create dynamic QRIS:", err)
+      return null
+    }
+  }
+
+  const removePayment = (index: number) => {
+    setPayments(payments.filter((_, i) => i !== index))
+  }
 
   const handlePayment = async () => {
-    if (paymentAmountNum < total) {
+    if (summary.remaining > 0) {
       setError("Jumlah pembayaran kurang dari total")
       return
     }
+    if (summary.nonCashExceedsTotal) {
+      setError("Pembayaran non-tunai tidak boleh melebihi total. Kembalian hanya dari tunai.")
+      return
+    }
 
     setIsProcessing(true)
     setError("")
+    setStockShortages([])
 
     try {
-      await checkout({
-        method: paymentMethod,
-        amount: paymentAmountNum
-      })
+      const transaction = await checkout(tenders.filter(tender => tender.amount > 0))
+      // Reset form
+      setPayments([{ method: 'cash', amount: "" }])
 
+      const autoPrint = getSetting('receipt')?.autoPrint ?? 'ask'
+      if (autoPrint === 'ask') {
+        setPaidTransaction(transaction)
+        return
+      }
+      if (autoPrint === 'always') {
+        printReceipt(transaction)
+      }
       // Success - close modal
       onClose()
-      // Reset form
-      setPaymentAmount("")
-      setPaymentMethod('cash')
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Payment failed")
+      if (err instanceof InsufficientStockError) {
+        setError("Stok tidak mencukupi. Tidak ada perubahan yang disimpan.")
+        setStockShortages(err.shortages)
+      } else {
+        setError(err instanceof Error ? err.message : "Payment failed")
+      }
     } finally {
       setIsProcessing(false)
     }
   }
 
+  // The sale is already saved, so a printer problem only gets a toast and never blocks the next customer
+  const printReceipt = (transaction: Transaction) => {
+    if (!user) return
+    printingService
+      .printTransactionReceipt(transaction, { printedBy: user.id })
+      .catch((err) => toast.error(`Struk gagal dicetak: ${err instanceof Error ? err.message : "printer tidak merespons"}`))
+  }
+
+  const finishReceipt = (print: boolean) => {
+    if (print && paidTransaction) {
+      printReceipt(paidTransaction)
+    }
+    setPaidTransaction(null)
+    onClose()
+  }
+
   const getPaymentMethodIcon = (method: PaymentMethod) => {
     switch (method) {
       case 'cash':
@@ -77,9 +151,37 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
 
   if (!isOpen) return null
 
+  if (paidTransaction) {
+    return (
+      <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
+        <div className="bg-background w-full max-w-sm rounded-lg p-6 space-y-4 text-center">
+          <CheckCircle className="w-12 h-12 mx-auto text-green-600" />
+          <div className="space-y-1">
+            <h2 className="text-lg font-semibold">Pembayaran Berhasil</h2>
+            <p className="text-sm text-muted-foreground">{paidTransaction.transactionNumber}</p>
+            {paidTransaction.change > 0 && (
+              <p className="text-sm">
+                Kembalian <span className="font-semibold">Rp {paidTransaction.change.toLocaleString("id-ID")}</span>
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => finishReceipt(false)} className="flex-1">
+              Tanpa Struk
+            </Button>
+            <Button onClick={() => finishReceipt(true)} className="flex-1 gap-2" autoFocus>
+              <Printer className="w-4 h-4" />
+              Cetak Struk
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
-      <div className="bg-background w-full max-w-md rounded-lg">
+      <div className="bg-background w-full max-w-md rounded-lg max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-border">
           <h2 className="text-lg font-semibold">Checkout</h2>
@@ -117,57 +219,116 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
             </div>
           </div>
 
-          {/* Payment Method */}
+          {/* Payments */}
           <div className="space-y-3">
-            <label className="text-sm font-medium">Metode Pembayaran</label>
-            <div className="grid grid-cols-3 gap-2">
-              {(['cash', 'ewallet', 'qris'] as PaymentMethod[]).map((method) => (
-                <Button
-                  key={method}
-                  variant={paymentMethod === method ? "default" : "outline"}
-                  onClick={() => setPaymentMethod(method)}
-                  className="flex flex-col items-center gap-1 h-auto py-3"
+            <label className="text-sm font-medium">Pembayaran</label>
+            {payments.map((payment, index) => (
+              <div key={index} className="space-y-2 p-3 border border-border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <div className="grid grid-cols-3 gap-2 flex-1">
+                    {(['cash', 'ewallet', 'qris'] as PaymentMethod[]).map((method) => (
+                      <Button
+                        key={method}
+                        variant={payment.method === method ? "default" : "outline"}
+                        onClick={() => updatePayment(index, { method })}
+                        className="flex flex-col items-center gap-1 h-auto py-2"
+                        disabled={isProcessing}
+                      >
+                        {getPaymentMethodIcon(method)}
+                        <span className="text-xs">{getPaymentMethodLabel(method)}</span>
+                      </Button>
+                    ))}
+                  </div>
+                  {payments.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removePayment(index)}
+                      disabled={isProcessing}
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                <Input
+                  id={`payment-amount-${index}`}
+                  type="number"
+                  placeholder="0"
+                  value={payment.amount}
+                  onChange={(e) => updatePayment(index, { amount: e.target.value })}
                   disabled={isProcessing}
-                >
-                  {getPaymentMethodIcon(method)}
-                  <span className="text-xs">{getPaymentMethodLabel(method)}</span>
-                </Button>
-              ))}
-            </div>
-          </div>
-
-          {/* Payment Amount */}
-          <div className="space-y-2">
-            <label htmlFor="payment-amount" className="text-sm font-medium">
-              Jumlah Bayar
-            </label>
-            <Input
-              id="payment-amount"
-              type="number"
-              placeholder="0"
-              value={paymentAmount}
-              onChange={(e) => setPaymentAmount(e.target.value)}
-              disabled={isProcessing}
-              className="text-right"
-            />
+                  className="text-right"
+                />
+                {payment.method === 'qris' && (() => {
+                  const qrisPayload = getQrisPayload(tenders[index].amount)
+                  return qrisPayload && (
+                    <div className="flex flex-col items-center gap-1 pt-2">
+                      <QrisCode payload={qrisPayload} />
+                      <p className="text-xs text-muted-foreground">
+                        Pindai untuk membayar Rp {tenders[index].amount.toLocaleString("id-ID")}
+                      </p>
+                    </div>
+                  )
+                })()}
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              onClick={addPayment}
+              disabled={isProcessing || summary.remaining === 0}
+              className="w-full gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Tambah Pembayaran
+            </Button>
           </div>
 
-          {/* Change */}
-          {paymentAmountNum > 0 && paymentAmountNum >= total && (
-            <div className="p-3 bg-green-50 dark:bg-green-950/20 rounded-lg">
+          {/* Remaining / Change */}
+          {summary.remaining > 0 ? (
+            <div className="p-3 bg-muted/50 rounded-lg">
               <div className="flex justify-between text-sm">
-                <span>Kembalian</span>
-                <span className="font-semibold text-green-700 dark:text-green-300">
-                  Rp {change.toLocaleString("id-ID")}
-                </span>
+                <span>Sisa Tagihan</span>
+                <span className="font-semibold">Rp {summary.remaining.toLocaleString("id-ID")}</span>
               </div>
             </div>
+          ) : summary.nonCashExceedsTotal ? (
+            <div className="p-3 bg-destructive/10 rounded-lg">
+              <p className="text-sm text-destructive">
+                Pembayaran non-tunai melebihi total. Kembalian hanya dapat diberikan dari tunai.
+              </p>
+            </div>
+          ) : (
+            summary.change > 0 && (
+              <div className="p-3 bg-green-50 dark:bg-green-950/20 rounded-lg">
+                <div className="flex justify-between text-sm">
+                  <span>Kembalian (tunai)</span>
+                  <span className="font-semibold text-green-700 dark:text-green-300">
+                    Rp {summary.change.toLocaleString("id-ID")}
+                  </span>
+                </div>
+              </div>
+            )
           )}
 
           {/* Error Message */}
           {error && (
             <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
               <p className="text-sm text-destructive">{error}</p>
+              {stockShortages.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm text-destructive list-disc pl-4">
+                  {stockShortages.map((shortage, index) => (
+                    <li key={`${shortage.productId}-${shortage.materialId ?? "product"}-${index}`}>
+                      <span className="font-medium">{shortage.productName}</span>
+                      {shortage.materialName && <> &middot; bahan {shortage.materialName}</>}
+                      {": "}
+                      {shortage.reason === "insufficient"
+                        ? `butuh ${shortage.requiredQty.toLocaleString("id-ID")}, tersedia ${shortage.availableQty.toLocaleString("id-ID")}`
+                        : "produk/bahan tidak ditemukan"}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
 
@@ -183,7 +344,7 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
             </Button>
             <Button
               onClick={handlePayment}
-              disabled={isProcessing || paymentAmountNum < total || cart.length === 0}
+              disabled={isProcessing || !canPay || cart.length === 0}
               className="flex-1"
             >
               {isProcessing ? "Memproses..." : "Bayar"}
@@ -3,10 +3,11 @@
 import { useState, useEffect } from "react"
 import { X, DollarSign } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { useAuthStore } from "@/lib/stores/authStore"
 import { useShiftStore } from "@/lib/stores/shiftStore"
+import { CashCount } from "@/lib/db"
+import CashCountInput from "./cash-count-input"
 import { toast } from "sonner"
 
 interface OpenCashierModalProps {
@@ -18,6 +19,7 @@ interface OpenCashierModalProps {
 export default function OpenCashierModal({ isOpen, onClose, onSuccess }: OpenCashierModalProps) {
   const { user } = useAuthStore()
   const [openingBalance, setOpeningBalance] = useState("")
+  const [openingCount, setOpeningCount] = useState<CashCount | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState("")
 
@@ -25,6 +27,7 @@ export default function OpenCashierModal({ isOpen, onClose, onSuccess }: OpenCas
   useEffect(() => {
     if (isOpen) {
       setOpeningBalance("")
+      setOpeningCount(null)
       setError("")
     }
   }, [isOpen])
@@ -55,7 +58,7 @@ export default function OpenCashierModal({ isOpen, onClose, onSuccess }: OpenCas
 
     try {
       const balance = parseFloat(openingBalance)
-      await useShiftStore.getState().openShift(user.id, balance)
+      await useShiftStore.getState().openShift(user.id, balance, openingCount)
 
       toast.success("Kasir berhasil dibuka")
       onClose()
@@ -68,9 +71,9 @@ export default function OpenCashierModal({ isOpen, onClose, onSuccess }: OpenCas
     }
   }
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value
+  const handleInputChange = (value: string, count: CashCount | null) => {
     setOpeningBalance(value)
+    setOpeningCount(count)
 
     // Clear error when user starts typing
     if (error) {
@@ -100,21 +103,12 @@ export default function OpenCashierModal({ isOpen, onClose, onSuccess }: OpenCas
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <label htmlFor="opening-balance" className="text-sm font-medium text-foreground">Saldo Awal (Rp)</label>
-              <Input
-                id="opening-balance"
-                type="number"
-                placeholder="0"
-                value={openingBalance}
-                onChange={handleInputChange}
-                disabled={isLoading}
-                className="text-right"
-                min="0"
-                step="0.01"
-                required
-              />
-            </div>
+            <CashCountInput
+              id="opening-balance"
+              label="Saldo Awal"
+              onChange={handleInputChange}
+              disabled={isLoading}
+            />
 
             {/* Error Message */}
             {error && (
@@ -1,9 +1,13 @@
 "use client"
 
-import { X } from "lucide-react"
+import { X, Trash2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useState, useEffect } from "react"
+import { toast } from "react-hot-toast"
 import { useCashierStore } from "@/lib/stores/cashierStore"
+import { useAuthStore } from "@/lib/stores/authStore"
+import { ApprovalService } from "@/lib/services/approvalService"
+import ApprovalModal, { ApprovalPrompt } from "@/components/security/approval-modal"
 
 interface OrderListModalProps {
   isOpen: boolean
@@ -20,7 +24,9 @@ interface Order {
 }
 
 export default function OrderListModal({ isOpen, onClose }: OrderListModalProps) {
-  const { savedOrders, initializeCashier, loadSavedOrder } = useCashierStore()
+  const { savedOrders, initializeCashier, loadSavedOrder, deleteSavedOrder } = useCashierStore()
+  const { user, can } = useAuthStore()
+  const [approvalPrompt, setApprovalPrompt] = useState<ApprovalPrompt | null>(null)
   const [startDate, setStartDate] = useState("")
   const [endDate, setEndDate] = useState("")
   const [paymentStatus, setPaymentStatus] = useState("all")
@@ -71,6 +77,35 @@ export default function OrderListModal({ isOpen, onClose }: OrderListModalProps)
     }
   }
 
+  const removeOrder = async (orderId: string) => {
+    try {
+      await deleteSavedOrder(orderId)
+      toast.success("Order dihapus")
+    } catch (error) {
+      console.error('Failed to delete saved order:', error)
+      toast.error("Gagal menghapus order")
+    }
+  }
+
+  const handleDeleteOrder = async (order: Order) => {
+    if (!user) return
+    try {
+      if (await ApprovalService.requiresApproval('deleteSavedOrder', user)) {
+        setApprovalPrompt({
+          action: 'deleteSavedOrder',
+          description: `Hapus order ${order.orderNumber} senilai Rp ${order.amount.toLocaleString("id-ID")}.`,
+          transactionId: order.id,
+          details: { transactionNumber: order.orderNumber, total: order.amount },
+        })
+        return
+      }
+      if (!window.confirm(`Hapus order ${order.orderNumber}?`)) return
+      await removeOrder(order.id)
+    } catch (error) {
+      console.error('Failed to check approval:', error)
+    }
+  }
+
   if (!isOpen) return null
 
   return (
@@ -160,14 +195,26 @@ export default function OrderListModal({ isOpen, onClose }: OrderListModalProps)
                     </td>
                     <td className="px-4 py-3 text-sm">{getStatusBadge(order.status)}</td>
                     <td className="px-4 py-3 text-sm text-center">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleLoadOrder(order.id)}
-                        className="text-xs"
-                      >
-                        Load
-                      </Button>
+                      <div className="flex items-center justify-center gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleLoadOrder(order.id)}
+                          className="text-xs"
+                        >
+                          Load
+                        </Button>
+                        {can('cashier.delete') && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDeleteOrder(order)}
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
                     </td>
                   </tr>
                 ))}
@@ -176,6 +223,14 @@ export default function OrderListModal({ isOpen, onClose }: OrderListModalProps)
           )}
         </div>
       </div>
+      <ApprovalModal
+        prompt={approvalPrompt}
+        onApproved={(approval) => {
+          setApprovalPrompt(null)
+          if (approval.transactionId) removeOrder(approval.transactionId)
+        }}
+        onClose={() => setApprovalPrompt(null)}
+      />
     </div>
   )
 }
@@ -0,0 +1,35 @@
+"use client"
+
+import { useMemo } from "react"
+import { encodeQrCode } from "@/lib/utils/qrCode"
+
+interface QrisCodeProps {
+  payload: string
+  size?: number
+}
+
+const QUIET_ZONE = 4
+
+export default function QrisCode({ payload, size = 200 }: QrisCodeProps) {
+  const modules = useMemo(() => encodeQrCode(payload), [payload])
+  const dimension = modules.length + QUIET_ZONE * 2
+
+  // One path for all dark modules keeps the SVG small
+  const path = useMemo(() => modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : "")))
+    .join(""), [modules])
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QRIS"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  )
+}
@@ -0,0 +1,201 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { toast } from "react-hot-toast"
+import { ArrowLeftRight, User as UserIcon } from "lucide-react"
+import { db, CashCount, User } from "@/lib/db"
+import { CashCountService } from "@/lib/services/cashCountService"
+import { PermissionService } from "@/lib/services/permissionService"
+import { PinService } from "@/lib/services/pinService"
+import { ReportService } from "@/lib/services/reportService"
+import { useAuthStore } from "@/lib/stores/authStore"
+import { useShiftStore } from "@/lib/stores/shiftStore"
+import PinPad from "@/components/security/pin-pad"
+import CashCountInput from "./cash-count-input"
+
+interface ShiftHandoverModalProps {
+  isOpen: boolean
+  shiftId: string | null
+  onClose: () => void
+}
+
+// The outgoing cashier counts the drawer, then the incoming cashier accepts it with their PIN.
+// The shift stays open; it just gets a new cashier segment.
+export default function ShiftHandoverModal({ isOpen, shiftId, onClose }: ShiftHandoverModalProps) {
+  const { user } = useAuthStore()
+  const [step, setStep] = useState<"count" | "accept">("count")
+  const [countedCash, setCountedCash] = useState("")
+  const [count, setCount] = useState<CashCount | null>(null)
+  const [expectedCash, setExpectedCash] = useState<number | null>(null)
+  const [cashiers, setCashiers] = useState<User[]>([])
+  const [incomingId, setIncomingId] = useState<string | null>(null)
+  const [pin, setPin] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!isOpen || !shiftId) return
+    setStep("count")
+    setCountedCash("")
+    setCount(null)
+    setIncomingId(null)
+    setPin("")
+    setError("")
+
+    // Expected cash stays hidden when the store closes blind, handovers included
+    Promise.all([CashCountService.getSettings(), ReportService.getCloseCashierReport(shiftId)])
+      .then(([settings, report]) => setExpectedCash(settings.blindClose ? null : report.summary.expectedCash))
+      .catch((err) => console.error("Error loading expected cash:", err))
+
+    // Only cashiers who have set a PIN can accept the drawer
+    db.users
+      .filter((u) => !u.deletedAt && !!u.pin && u.id !== user?.id)
+      .toArray()
+      .then(setCashiers)
+      .catch((err) => console.error("Error loading cashiers:", err))
+  }, [isOpen, shiftId, user?.id])
+
+  if (!isOpen) return null
+
+  const handleAccept = async () => {
+    if (!user || !shiftId || !incomingId) return
+
+    setLoading(true)
+    setError("")
+    try {
+      const incoming = cashiers.find((c) => c.id === incomingId)
+      if (!incoming || !(await PinService.verifyUserPin(incomingId, pin))) {
+        setError("PIN salah")
+        setPin("")
+        return
+      }
+      if (!(await PermissionService.userCan(incoming, "cashier.read"))) {
+        setError(`${incoming.name} tidak punya akses kasir`)
+        setPin("")
+        return
+      }
+
+      await useShiftStore.getState().handoverShift(shiftId, {
+        fromUserId: user.id,
+        toUserId: incomingId,
+        countedCash: Number(countedCash),
+        count,
+      })
+      await useAuthStore.getState().switchUser(incomingId, pin)
+
+      toast.success(`Laci diserahkan ke ${incoming.name}`)
+      onClose()
+    } catch (err) {
+      console.error("Error handing over shift:", err)
+      setError(err instanceof Error ? err.message : "Gagal serah terima kasir")
+      setPin("")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const variance = countedCash && expectedCash !== null ? Number(countedCash) - expectedCash : null
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="w-5 h-5" />
+            Serah Terima Kasir
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === "count" ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {user?.name}, hitung uang di laci sebelum menyerahkannya ke kasir berikutnya.
+            </p>
+
+            <CashCountInput
+              id="handover-cash"
+              label="Uang di Laci"
+              onChange={(amount, counted) => {
+                setCountedCash(amount)
+                setCount(counted)
+              }}
+            />
+
+            {expectedCash !== null && (
+              <div className="text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Kas seharusnya</span>
+                  <span>Rp {expectedCash.toLocaleString("id-ID")}</span>
+                </div>
+                {variance !== null && (
+                  <div className={`flex justify-between font-medium ${variance >= 0 ? "text-green-600" : "text-red-600"}`}>
+                    <span>Selisih</span>
+                    <span>{variance >= 0 ? "+" : "-"}Rp {Math.abs(variance).toLocaleString("id-ID")}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" onClick={onClose} className="flex-1">
+                Batal
+              </Button>
+              <Button onClick={() => setStep("accept")} disabled={!countedCash} className="flex-1">
+                Lanjut
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Kasir berikutnya memilih namanya dan memasukkan PIN untuk menerima laci berisi Rp{" "}
+              {Number(countedCash).toLocaleString("id-ID")}.
+            </p>
+
+            <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+              {cashiers.map((cashier) => (
+                <Button
+                  key={cashier.id}
+                  type="button"
+                  variant={incomingId === cashier.id ? "default" : "outline"}
+                  onClick={() => {
+                    setIncomingId(cashier.id)
+                    setPin("")
+                    setError("")
+                  }}
+                  disabled={loading}
+                  className="justify-start gap-2"
+                >
+                  <UserIcon className="w-4 h-4" />
+                  <span className="truncate">{cashier.name}</span>
+                </Button>
+              ))}
+              {cashiers.length === 0 && (
+                <p className="col-span-2 text-sm text-muted-foreground">Belum ada kasir lain yang memiliki PIN</p>
+              )}
+            </div>
+
+            {incomingId && <PinPad value={pin} onChange={setPin} disabled={loading} />}
+
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+                <p className="text-sm text-destructive">{error}</p>
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" onClick={() => setStep("count")} disabled={loading} className="flex-1">
+                Kembali
+              </Button>
+              <Button onClick={handleAccept} disabled={loading || !incomingId || pin.length < 4} className="flex-1">
+                {loading ? "Memproses..." : "Terima Laci"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
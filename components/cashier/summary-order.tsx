@@ -4,14 +4,23 @@ import { useState, useEffect } from "react"
 import { CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Plus, Minus, X } from "lucide-react"
+import { Plus, Minus, X, Percent, Banknote } from "lucide-react"
 import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import OrderListModal from "./order-list-modal"
 import CustomerSelectionModal from "./customer-selection-modal"
 import CheckoutModal from "./checkout-modal"
+import ApprovalModal, { ApprovalPrompt } from "@/components/security/approval-modal"
 import { useCashierStore } from "@/lib/stores/cashierStore"
+import { useAuthStore } from "@/lib/stores/authStore"
+import { useShiftStore } from "@/lib/stores/shiftStore"
+import { ApprovalService } from "@/lib/services/approvalService"
+import { AuditLogService } from "@/lib/services/auditLogService"
+import { escposService } from "@/lib/services/escposService"
+import { toast } from "react-hot-toast"
 import { useSettingsStore } from "@/lib/stores/settingsStore"
 import { TaxSettings } from "@/lib/types/settings"
+import { Approval } from "@/lib/db"
 
 export default function SummaryOrder() {
   const {
@@ -20,15 +29,26 @@ export default function SummaryOrder() {
     selectedCustomer,
     removeFromCart,
     updateQuantity,
+    setItemDiscount,
+    setOrderDiscount,
+    setItemPrice,
+    addApproval,
+    getRequiredApprovals,
+    orderDiscount,
     clearCart,
-    calculateSubtotal,
-    calculateTotal,
+    calculateTotals,
     saveOrder
   } = useCashierStore()
 
   const { getSetting } = useSettingsStore()
+  const { user } = useAuthStore()
+  const { currentShiftId } = useShiftStore()
   
-  const [discountPercent, setDiscountPercent] = useState(0)
+  const [editingDiscountId, setEditingDiscountId] = useState<string | null>(null)
+  const [editingPriceId, setEditingPriceId] = useState<string | null>(null)
+  // Approvals still needed before `afterApproval` runs, asked one at a time
+  const [approvalQueue, setApprovalQueue] = useState<ApprovalPrompt[]>([])
+  const [afterApproval, setAfterApproval] = useState<"save" | "checkout" | "openDrawer" | null>(null)
   const [taxSettings, setTaxSettings] = useState<TaxSettings>({
     taxEnabled: true,
     taxRate: 10,
@@ -47,10 +67,8 @@ export default function SummaryOrder() {
     }
   }, [getSetting])
 
-  const subtotal = calculateSubtotal()
-  const discountAmount = (subtotal * discountPercent) / 100
-  const taxAmount = taxSettings.taxEnabled ? ((subtotal - discountAmount) * taxSettings.taxRate) / 100 : 0
-  const total = subtotal - discountAmount + taxAmount
+  // Same calculation that is stored on the transaction
+  const totals = calculateTotals()
 
   const handleUpdateQuantity = (productId: string, quantity: number) => {
     updateQuantity(productId, quantity)
@@ -64,6 +82,72 @@ export default function SummaryOrder() {
     clearCart()
   }
 
+  const proceed = (next: "save" | "checkout" | "openDrawer", approval?: Approval) => {
+    if (next === "save") {
+      handleSaveOrder()
+    } else if (next === "checkout") {
+      setIsCheckoutModalOpen(true)
+    } else {
+      openDrawer(approval)
+    }
+  }
+
+  const openDrawer = async (approval?: Approval) => {
+    try {
+      await escposService.openCashDrawer()
+      AuditLogService.record({
+        action: "cash_drawer.open",
+        entityType: "cashierShifts",
+        entityId: currentShiftId,
+        after: approval ? { approvalId: approval.id, approvedBy: approval.approvedBy } : null,
+        note: "Tanpa penjualan",
+      }).catch(error => console.error('Error writing audit log:', error))
+    } catch (error) {
+      console.error('Failed to open cash drawer:', error)
+      toast.error("Gagal membuka laci")
+    }
+  }
+
+  // Opening the drawer without a sale may need an owner's or supervisor's PIN
+  const handleOpenDrawer = async () => {
+    if (!user) return
+    try {
+      if (await ApprovalService.requiresApproval("openDrawer", user)) {
+        setApprovalQueue([{ action: "openDrawer", description: "Buka laci kas tanpa penjualan." }])
+        setAfterApproval("openDrawer")
+        return
+      }
+      await openDrawer()
+    } catch (error) {
+      console.error('Failed to check approval:', error)
+    }
+  }
+
+  // Large discounts and price overrides are approved by PIN before the order is saved or paid
+  const withApprovals = async (next: "save" | "checkout") => {
+    try {
+      const required = await getRequiredApprovals()
+      if (required.length === 0) {
+        proceed(next)
+        return
+      }
+      setApprovalQueue(required)
+      setAfterApproval(next)
+    } catch (error) {
+      console.error('Failed to check approvals:', error)
+    }
+  }
+
+  const handleApproved = (approval: Approval) => {
+    addApproval(approval)
+    const remaining = approvalQueue.slice(1)
+    setApprovalQueue(remaining)
+    if (remaining.length === 0 && afterApproval) {
+      proceed(afterApproval, approval)
+      setAfterApproval(null)
+    }
+  }
+
   const handleSaveOrder = async () => {
     if (cart.length === 0) return
 
@@ -82,7 +166,7 @@ export default function SummaryOrder() {
   return (
     <div className="h-full flex flex-col bg-card rounded-lg border border-border overflow-hidden">
       {/* Header */}
-      <div className="grid grid-cols-2 gap-2 p-3 border-b border-border flex-shrink-0">
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-2 p-3 border-b border-border flex-shrink-0">
         <Button variant="outline" className="text-sm bg-transparent relative" onClick={() => setIsOrderListOpen(true)}>
           <span>Daftar Order</span>
           {savedOrders.length > 0 && (
@@ -94,6 +178,9 @@ export default function SummaryOrder() {
         <Button variant="outline" className="text-sm bg-transparent" onClick={() => setIsCustomerModalOpen(true)}>
           {selectedCustomer ? selectedCustomer.name : 'Pilih Pelanggan'}
         </Button>
+        <Button variant="outline" size="icon" className="bg-transparent" onClick={handleOpenDrawer} title="Buka Laci">
+          <Banknote className="w-4 h-4" />
+        </Button>
       </div>
 
       {/* Items */}
@@ -110,7 +197,65 @@ export default function SummaryOrder() {
             >
               <div className="flex-1 min-w-0">
                 <p className="font-medium text-sm text-foreground truncate">{item.name}</p>
-                <p className="text-xs text-muted-foreground">Rp {item.price.toLocaleString("id-ID")}</p>
+                {editingPriceId === item.productId ? (
+                  <Input
+                    type="number"
+                    min="0"
+                    autoFocus
+                    defaultValue={item.price}
+                    onBlur={(e) => {
+                      setItemPrice(item.productId, Number(e.target.value))
+                      setEditingPriceId(null)
+                    }}
+                    onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                    className="h-7 text-xs mt-1"
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:underline"
+                    onClick={() => setEditingPriceId(item.productId)}
+                  >
+                    Rp {item.price.toLocaleString("id-ID")}
+                    {item.price !== item.listPrice && (
+                      <span className="ml-1 line-through">Rp {item.listPrice.toLocaleString("id-ID")}</span>
+                    )}
+                  </button>
+                )}
+                {item.discount && item.discount.value > 0 && (
+                  <p className="text-xs text-destructive">
+                    Diskon {item.discount.type === "percent" ? `${item.discount.value}%` : `Rp ${item.discount.value.toLocaleString("id-ID")}`}
+                    {" · "}Rp {item.subtotal.toLocaleString("id-ID")}
+                  </p>
+                )}
+                {editingDiscountId === item.productId && (
+                  <div className="flex items-center gap-1 mt-1">
+                    <Select
+                      value={item.discount?.type || "percent"}
+                      onValueChange={(value) =>
+                        setItemDiscount(item.productId, { type: value as "percent" | "nominal", value: item.discount?.value || 0 })
+                      }
+                    >
+                      <SelectTrigger className="h-7 w-16 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="percent">%</SelectItem>
+                        <SelectItem value="nominal">Rp</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={item.discount?.type === "nominal" ? undefined : 100}
+                      value={item.discount?.value || 0}
+                      onChange={(e) =>
+                        setItemDiscount(item.productId, { type: item.discount?.type || "percent", value: Number(e.target.value) })
+                      }
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                )}
               </div>
 
               <div className="flex items-center gap-1">
@@ -133,6 +278,15 @@ export default function SummaryOrder() {
                 </Button>
               </div>
 
+              <Button
+                size="sm"
+                variant="ghost"
+                className={`h-6 w-6 p-0 ${item.discount?.value ? "text-destructive" : ""}`}
+                onClick={() => setEditingDiscountId(editingDiscountId === item.productId ? null : item.productId)}
+              >
+                <Percent className="w-3 h-3" />
+              </Button>
+
               <Button
                 size="sm"
                 variant="ghost"
@@ -148,37 +302,58 @@ export default function SummaryOrder() {
 
       {/* Totals */}
       <div className="border-t border-border p-3 space-y-3 flex-shrink-0">
-        {/* Discount Input */}
+        {/* Order Discount Input */}
         <div className="space-y-1">
-          <label className="text-xs font-medium text-muted-foreground">Diskon (%)</label>
-          <Input
-            type="number"
-            min="0"
-            max="100"
-            value={discountPercent}
-            onChange={(e) => setDiscountPercent(Number(e.target.value))}
-            className="h-8 text-sm"
-          />
+          <label className="text-xs font-medium text-muted-foreground">Diskon Order</label>
+          <div className="flex gap-2">
+            <Select
+              value={orderDiscount?.type || "percent"}
+              onValueChange={(value) => setOrderDiscount({ type: value as "percent" | "nominal", value: orderDiscount?.value || 0 })}
+            >
+              <SelectTrigger className="h-8 w-20 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">%</SelectItem>
+                <SelectItem value="nominal">Rp</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              max={orderDiscount?.type === "nominal" ? undefined : 100}
+              value={orderDiscount?.value || 0}
+              onChange={(e) => setOrderDiscount({ type: orderDiscount?.type || "percent", value: Number(e.target.value) })}
+              className="h-8 text-sm"
+            />
+          </div>
         </div>
 
         {/* Calculations */}
         <div className="space-y-2 text-sm">
           <div className="flex justify-between text-muted-foreground">
             <span>Subtotal</span>
-            <span>Rp {subtotal.toLocaleString("id-ID")}</span>
+            <span>Rp {totals.grossSubtotal.toLocaleString("id-ID")}</span>
           </div>
 
-          {discountAmount > 0 && (
+          {totals.lineDiscount > 0 && (
+            <div className="flex justify-between text-muted-foreground">
+              <span>Diskon Item</span>
+              <span className="text-destructive">-Rp {totals.lineDiscount.toLocaleString("id-ID")}</span>
+            </div>
+          )}
+
+          {totals.orderDiscount > 0 && (
             <div className="flex justify-between text-muted-foreground">
-              <span>Discount</span>
-              <span className="text-destructive">-Rp {discountAmount.toLocaleString("id-ID")}</span>
+              <span>Diskon Order{orderDiscount?.type === "percent" ? ` (${orderDiscount.value}%)` : ""}</span>
+              <span className="text-destructive">-Rp {totals.orderDiscount.toLocaleString("id-ID")}</span>
             </div>
           )}
 
           {taxSettings.taxEnabled && (
             <div className="flex justify-between text-muted-foreground">
               <span>Tax ({taxSettings.taxRate}%)</span>
-              <span>Rp {taxAmount.toLocaleString("id-ID")}</span>
+              <span>Rp {totals.taxAmount.toLocaleString("id-ID")}</span>
             </div>
           )}
 
@@ -186,7 +361,7 @@ export default function SummaryOrder() {
 
           <div className="flex justify-between font-semibold text-base">
             <span>Total</span>
-            <span className="text-primary">Rp {total.toLocaleString("id-ID")}</span>
+            <span className="text-primary">Rp {totals.total.toLocaleString("id-ID")}</span>
           </div>
         </div>
 
@@ -195,14 +370,14 @@ export default function SummaryOrder() {
           <Button
             variant="outline"
             disabled={cart.length === 0 || isSaving}
-            onClick={handleSaveOrder}
+            onClick={() => withApprovals("save")}
           >
             {isSaving ? "Menyimpan..." : "Simpan Order"}
           </Button>
           <Button
             className="bg-primary hover:bg-primary/90"
             disabled={cart.length === 0}
-            onClick={() => setIsCheckoutModalOpen(true)}
+            onClick={() => withApprovals("checkout")}
           >
             Checkout
           </Button>
@@ -212,6 +387,14 @@ export default function SummaryOrder() {
       <OrderListModal isOpen={isOrderListOpen} onClose={() => setIsOrderListOpen(false)} />
       <CustomerSelectionModal isOpen={isCustomerModalOpen} onClose={() => setIsCustomerModalOpen(false)} />
       <CheckoutModal isOpen={isCheckoutModalOpen} onClose={() => setIsCheckoutModalOpen(false)} />
+      <ApprovalModal
+        prompt={approvalQueue[0] || null}
+        onApproved={handleApproved}
+        onClose={() => {
+          setApprovalQueue([])
+          setAfterApproval(null)
+        }}
+      />
     </div>
   )
 }
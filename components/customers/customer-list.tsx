@@ -8,6 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge"
 import { Edit, Trash2, Search, Phone, Download } from "lucide-react"
 import { useCustomerStore } from "@/lib/stores/customerStore"
+import { useAuthStore } from "@/lib/stores/authStore"
 import { Customer } from "@/lib/db"
 import { ExportService } from "@/lib/services/exportService";
 import { toast } from "react-hot-toast"
@@ -19,6 +20,7 @@ interface CustomerListProps {
 export default function CustomerList({ onEdit }: CustomerListProps) {
   const [searchQuery, setSearchQuery] = useState("")
   const { customers, deleteCustomer, loading, fetchCustomers, searchCustomers, getCustomerStats } = useCustomerStore()
+  const { can } = useAuthStore()
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
   const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null)
@@ -131,19 +133,23 @@ export default function CustomerList({ onEdit }: CustomerListProps) {
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
-                      <Button size="sm" variant="outline" onClick={() => onEdit(customer)} className="gap-1" disabled={loading}>
-                        <Edit className="w-4 h-4" />
-                        Edit
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleDeleteClick(customer)}
-                        className="text-destructive hover:text-destructive"
-                        disabled={loading || deletingId === customer.id}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      {can("customers.update") && (
+                        <Button size="sm" variant="outline" onClick={() => onEdit(customer)} className="gap-1" disabled={loading}>
+                          <Edit className="w-4 h-4" />
+                          Edit
+                        </Button>
+                      )}
+                      {can("customers.delete") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDeleteClick(customer)}
+                          className="text-destructive hover:text-destructive"
+                          disabled={loading || deletingId === customer.id}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
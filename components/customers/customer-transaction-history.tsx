@@ -4,7 +4,12 @@ import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+import { toast } from "react-hot-toast";
 import { ReportService } from "@/lib/services/reportService";
+import { printingService } from "@/lib/services/printingService";
+import { useAuthStore } from "@/lib/stores/authStore";
 import { Transaction } from "@/lib/db";
 
 interface CustomerTransactionHistoryProps {
@@ -14,6 +19,7 @@ interface CustomerTransactionHistoryProps {
 export default function CustomerTransactionHistory({ customerId }: CustomerTransactionHistoryProps) {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(false);
+  const { user } = useAuthStore();
 
   useEffect(() => {
     const fetchTransactionHistory = async () => {
@@ -36,6 +42,16 @@ export default function CustomerTransactionHistory({ customerId }: CustomerTrans
     fetchTransactionHistory();
   }, [customerId]);
 
+  const handleReprint = async (transaction: Transaction) => {
+    if (!user) return;
+    try {
+      await printingService.printTransactionReceipt(transaction, { printedBy: user.id, copy: true });
+      toast.success(`Receipt ${transaction.transactionNumber} reprinted`);
+    } catch (error) {
+      toast.error(`Failed to reprint receipt: ${error instanceof Error ? error.message : 'printer not responding'}`);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "paid":
@@ -71,6 +87,7 @@ export default function CustomerTransactionHistory({ customerId }: CustomerTrans
                 <TableHead className="text-right">Total</TableHead>
                 <TableHead className="text-right">Items</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -83,6 +100,14 @@ export default function CustomerTransactionHistory({ customerId }: CustomerTrans
                   <TableCell>
                     <Badge className={getStatusColor(transaction.status)}>{transaction.status}</Badge>
                   </TableCell>
+                  <TableCell className="text-right">
+                    {transaction.status === 'paid' && (
+                      <Button variant="ghost" size="sm" className="gap-1" onClick={() => handleReprint(transaction)}>
+                        <Printer className="w-4 h-4" />
+                        Reprint
+                      </Button>
+                    )}
+                  </TableCell>
                 </TableRow>
               ))}
             </TableBody>
@@ -10,6 +10,7 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { Eye, Edit, Trash2, Search, RefreshCw, Plus, MoreHorizontal } from "lucide-react";
 import { useProductStore } from "@/lib/stores/productStore";
 import { useNotificationStore } from "@/lib/stores/notificationStore";
+import { useAuthStore } from "@/lib/stores/authStore";
 import { Invoice } from "@/lib/db";
 import UpdatePaymentModal from "./update-payment-modal";
 
@@ -20,6 +21,7 @@ interface InvoiceDetailsProps {
 export default function InvoiceDetails({ onNewInvoiceClick }: InvoiceDetailsProps) {
   const { invoices, products, suppliers, fetchProducts, fetchSuppliers, fetchInvoices, loading } = useProductStore();
   const { showNotification } = useNotificationStore();
+  const { can } = useAuthStore();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
@@ -240,19 +242,21 @@ export default function InvoiceDetails({ onNewInvoiceClick }: InvoiceDetailsProp
                               <Eye className="mr-2 h-4 w-4" />
                               View
                             </DropdownMenuItem>
-                            {invoice.paidAmount < invoice.total && (
+                            {invoice.paidAmount < invoice.total && can("inventory.purchase_invoice.approve") && (
                               <DropdownMenuItem onClick={() => handleEditInvoice(invoice)}>
                                 <Edit className="mr-2 h-4 w-4" />
                                 Edit
                               </DropdownMenuItem>
                             )}
-                            <DropdownMenuItem
-                              onClick={() => handleDeleteInvoice(invoice)}
-                              className="text-destructive focus:text-destructive"
-                            >
-                              <Trash2 className="mr-2 h-4 w-4" />
-                              Delete
-                            </DropdownMenuItem>
+                            {can("inventory.purchase_invoice.delete") && (
+                              <DropdownMenuItem
+                                onClick={() => handleDeleteInvoice(invoice)}
+                                className="text-destructive focus:text-destructive"
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
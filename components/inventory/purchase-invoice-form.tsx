@@ -8,6 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, Trash2, Search } from "lucide-react";
 import { useProductStore } from "@/lib/stores/productStore";
+import { useAuthStore } from "@/lib/stores/authStore";
 import { useNotificationStore } from "@/lib/stores/notificationStore";
 import ProductSelectionModal from "./product-selection-modal";
 import { Supplier } from "@/lib/db";
@@ -24,6 +25,7 @@ interface InvoiceItem {
 export default function PurchaseInvoiceForm({ onClose }: { onClose: () => void }) {
   const { products, suppliers, addPurchaseInvoice, fetchProducts, fetchSuppliers } = useProductStore();
   const { showNotification } = useNotificationStore();
+  const { user } = useAuthStore();
   const [loading, setLoading] = useState(false);
   const [supplierId, setSupplierId] = useState("");
   const [invoiceDate, setInvoiceDate] = useState(new Date().toISOString().split('T')[0]);
@@ -95,6 +97,16 @@ export default function PurchaseInvoiceForm({ onClose }: { onClose: () => void }
       return;
     }
 
+    if (!user?.id) {
+      showNotification({
+        type: 'low_stock',
+        title: "Error",
+        message: "User ID tidak ditemukan",
+        data: null,
+      });
+      return;
+    }
+
     setLoading(true);
     try {
       // Calculate payment status
@@ -127,7 +139,7 @@ export default function PurchaseInvoiceForm({ onClose }: { onClose: () => void }
         paidAmount: paidAmount,
         remainingDebt: remainingDebt,
         paymentDate: paidAmount > 0 ? new Date(paymentDate) : null,
-        createdBy: 'current-user-id', // Will be replaced with actual user ID
+        createdBy: user.id,
       });
 
       showNotification({
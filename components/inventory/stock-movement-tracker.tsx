@@ -165,6 +165,8 @@ export default function StockMovementTracker() {
         return "Buang Stok";
       case 'stock_return':
         return "Retur Stok";
+      case 'refund':
+        return "Refund Pelanggan";
       default:
         return referenceType;
     }
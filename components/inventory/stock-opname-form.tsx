@@ -23,7 +23,7 @@ interface OpnameItem {
 
 export default function StockOpnameForm({ open, onClose }: { open: boolean; onClose: () => void }) {
   const { products, addStockOpname, fetchProducts } = useProductStore();
-  const { user } = useAuthStore();
+  const { user, can } = useAuthStore();
   const { showNotification } = useNotificationStore();
   const [loading, setLoading] = useState(false);
   const [opnameDate, setOpnameDate] = useState(new Date().toISOString().split('T')[0]);
@@ -249,12 +249,23 @@ return (
             </Table>
           </div>
 
+          {/* Saving applies the counted stock, which needs the approve permission */}
+          {!can("inventory.stock_opname.approve") && (
+            <p className="text-sm text-muted-foreground text-right">
+              Anda tidak memiliki hak untuk menerapkan hasil stok opname ke stok.
+            </p>
+          )}
+
           {/* Submit Button */}
           <div className="flex justify-end gap-2 pt-2">
             <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
               Batal
             </Button>
-            <Button onClick={handleSubmit} disabled={loading || opnameItems.length === 0} className="gap-2">
+            <Button
+              onClick={handleSubmit}
+              disabled={loading || opnameItems.length === 0 || !can("inventory.stock_opname.approve")}
+              className="gap-2"
+            >
               {loading ? "Menyimpan..." : "Simpan Opname"}
             </Button>
           </div>
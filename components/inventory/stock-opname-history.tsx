@@ -192,10 +192,12 @@ const handleViewDetails = (opname: OpnameWithProducts) => {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg">Filter & Search</CardTitle>
-            <Button onClick={onNewOpname} className="gap-2">
-              <Plus className="w-4 h-4" />
-              Stok Opname Baru
-            </Button>
+            {onNewOpname && (
+              <Button onClick={onNewOpname} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Stok Opname Baru
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
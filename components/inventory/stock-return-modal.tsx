@@ -12,6 +12,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { ArrowLeft, ArrowRight, Plus, Minus, Trash2 } from "lucide-react";
 import { StockReturnService, CreateStockReturnData } from "@/lib/services/stockReturnService";
 import { db, Supplier, Invoice, Product } from "@/lib/db";
+import { useAuthStore } from "@/lib/stores/authStore";
 import SupplierSelectionModal from "./supplier-selection-modal";
 import InvoiceSelectionModal from "./invoice-selection-modal";
 import ProductSelectionModal from "./product-selection-modal";
@@ -31,6 +32,7 @@ interface ReturnItem {
 }
 
 export default function StockReturnModal({ onClose, onReturnCreated }: StockReturnModalProps) {
+  const { user } = useAuthStore();
   const [currentStep, setCurrentStep] = useState(1);
   const [loading, setLoading] = useState(false);
   const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
@@ -117,7 +119,7 @@ export default function StockReturnModal({ onClose, onReturnCreated }: StockRetu
   };
 
   const handleConfirmReturn = async () => {
-    if (!selectedSupplier || !selectedInvoice || returnItems.length === 0) {
+    if (!selectedSupplier || !selectedInvoice || returnItems.length === 0 || !user?.id) {
       return;
     }
 
@@ -139,7 +141,7 @@ export default function StockReturnModal({ onClose, onReturnCreated }: StockRetu
         }))
       };
 
-      await StockReturnService.createStockReturn(returnData, "current-user-id"); // TODO: Get actual user ID
+      await StockReturnService.createStockReturn(returnData, user.id);
       
       setShowConfirmDialog(false);
       onReturnCreated();
@@ -11,6 +11,7 @@ import { Search, Plus, FileText } from "lucide-react";
 import { StockReturnService, StockReturnWithItems } from "@/lib/services/stockReturnService";
 import StockReturnModal from "./stock-return-modal";
 import ReconciliationModal from "./reconciliation-modal";
+import { useAuthStore } from "@/lib/stores/authStore";
 
 export default function StockReturnTab() {
   const [stockReturns, setStockReturns] = useState<StockReturnWithItems[]>([]);
@@ -19,6 +20,7 @@ export default function StockReturnTab() {
   const [selectedStatus, setSelectedStatus] = useState<string>("all");
   const [showReturnModal, setShowReturnModal] = useState(false);
   const [showReconciliationModal, setShowReconciliationModal] = useState(false);
+  const { can } = useAuthStore();
 
   // Fetch stock returns
   const fetchStockReturns = async () => {
@@ -105,25 +107,27 @@ export default function StockReturnTab() {
               <option value="selesai">Selesai</option>
             </select>
           </div>
-          <div className="flex gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowReconciliationModal(true)}
-              className="h-9"
-            >
-              <FileText className="w-4 h-4 mr-2" />
-              Rekonsiliasi Retur
-            </Button>
-            <Button
-              size="sm"
-              onClick={() => setShowReturnModal(true)}
-              className="h-9"
-            >
-              <Plus className="w-4 h-4 mr-2" />
-              + Retur Stok
-            </Button>
-          </div>
+          {can("inventory.stock_return.create") && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowReconciliationModal(true)}
+                className="h-9"
+              >
+                <FileText className="w-4 h-4 mr-2" />
+                Rekonsiliasi Retur
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => setShowReturnModal(true)}
+                className="h-9"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                + Retur Stok
+              </Button>
+            </div>
+          )}
         </div>
       </div>
 
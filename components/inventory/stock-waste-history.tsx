@@ -194,10 +194,12 @@ const handleViewDetails = (waste: WasteWithProduct) => {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg">Filter & Search</CardTitle>
-            <Button onClick={onNewWaste} className="gap-2">
-              <Plus className="w-4 h-4" />
-              Catat Buang Stok
-            </Button>
+            {onNewWaste && (
+              <Button onClick={onNewWaste} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Catat Buang Stok
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -8,6 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Edit, Trash2, Plus, Search } from "lucide-react";
 import { useProductStore } from "@/lib/stores/productStore";
 import { useNotificationStore } from "@/lib/stores/notificationStore";
+import { useAuthStore } from "@/lib/stores/authStore";
 import { Supplier } from "@/lib/db";
 
 export default function SupplierList() {
@@ -19,6 +20,7 @@ export default function SupplierList() {
     searchSuppliers: storeSearchSuppliers
   } = useProductStore();
   const { showNotification } = useNotificationStore();
+  const { user, can } = useAuthStore();
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -95,7 +97,7 @@ export default function SupplierList() {
         name: formData.name.trim(),
         phone: formData.phone.trim() || null,
         address: formData.address.trim() || null,
-        createdBy: 'current-user-id', // Will be replaced with actual user ID
+        createdBy: user?.id || 'system',
       });
 
       // Reset form
@@ -205,10 +207,12 @@ export default function SupplierList() {
             className="pl-10 h-9"
           />
         </div>
-        <Button onClick={() => setShowForm(true)} className="gap-2 h-9">
-          <Plus className="w-4 h-4" />
-          Add Supplier
-        </Button>
+        {can("inventory.supplier.update") && (
+          <Button onClick={() => setShowForm(true)} className="gap-2 h-9">
+            <Plus className="w-4 h-4" />
+            Add Supplier
+          </Button>
+        )}
       </div>
 
       {/* Suppliers Table */}
@@ -235,25 +239,27 @@ export default function SupplierList() {
                     <TableCell className="px-3 py-1 text-sm text-muted-foreground">{supplier.phone || '-'}</TableCell>
                     <TableCell className="px-3 py-1 text-sm text-muted-foreground">{supplier.address || '-'}</TableCell>
                     <TableCell className="px-3 py-1 text-right">
-                      <div className="flex justify-end gap-1">
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => startEditing(supplier)}
-                          className="h-7 px-2 gap-1 text-xs"
-                        >
-                          <Edit className="w-3.5 h-3.5" />
-                          Edit
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => handleDeleteSupplier(supplier.id, supplier.name)}
-                          className="h-7 px-2 text-destructive hover:text-destructive hover:bg-destructive/10"
-                        >
-                          <Trash2 className="w-3.5 h-3.5" />
-                        </Button>
-                      </div>
+                      {can("inventory.supplier.update") && (
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => startEditing(supplier)}
+                            className="h-7 px-2 gap-1 text-xs"
+                          >
+                            <Edit className="w-3.5 h-3.5" />
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDeleteSupplier(supplier.id, supplier.name)}
+                            className="h-7 px-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        </div>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
@@ -16,7 +16,7 @@ import { useNotificationStore } from "@/lib/services/notificationService"
 
 export default function Header() {
   const [showNotifications, setShowNotifications] = useState(false)
-  const [isOnline, setIsOnline] = useState(true)
+  const { isOnline, offlineGraceExpiresAt } = useAuthStore()
   const { unreadCount } = useNotificationStore()
 
   const handleLogout = async () => {
@@ -50,6 +50,11 @@ export default function Header() {
         <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-muted">
           <div className={`w-2 h-2 rounded-full ${isOnline ? "bg-green-500" : "bg-yellow-500"}`}></div>
           <span className="text-xs text-muted-foreground">{isOnline ? "Online" : "Offline"}</span>
+          {offlineGraceExpiresAt && (
+            <span className="text-xs text-muted-foreground" title="Batas login ulang secara online">
+              · s.d. {new Date(offlineGraceExpiresAt).toLocaleString("id-ID", { dateStyle: "short", timeStyle: "short" })}
+            </span>
+          )}
         </div>
 
         {/* Notifications */}
@@ -4,6 +4,7 @@ import type { ReactNode } from "react"
 import { useState, useEffect } from "react"
 import Sidebar from "./sidebar"
 import LockScreen from "@/components/security/lock-screen"
+import OfflineGraceBanner from "@/components/auth/offline-grace-banner"
 import NotificationProvider from "@/components/providers/notification-provider"
 import { useIsMobile } from "@/hooks/use-mobile"
 import { useLockScreenStore } from "@/lib/services/lockScreenService"
@@ -41,6 +42,8 @@ export default function MainLayout({ children, showSidebar = true, header }: Mai
       {/* Lock Screen */}
       {isLocked && <LockScreen onUnlock={handleUnlock} />}
       
+      <OfflineGraceBanner />
+
       {/* Header - if provided */}
       {header && header}
       
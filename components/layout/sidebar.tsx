@@ -18,31 +18,37 @@ const menuItems = [
     label: "Kasir",
     icon: ShoppingCart,
     href: "/cashier",
+    permission: "cashier.read",
   },
   {
     label: "Produk",
     icon: Package,
     href: "/products",
+    permission: "products.read",
   },
   {
     label: "Inventory",
     icon: Boxes,
     href: "/inventory",
+    permission: "inventory.read",
   },
   {
     label: "Pelanggan",
     icon: Users,
     href: "/customers",
+    permission: "customers.read",
   },
   {
     label: "Laporan",
     icon: BarChart3,
     href: "/reports",
+    permission: "reports.read",
   },
   {
     label: "Pengaturan",
     icon: Settings,
     href: "/settings",
+    permission: "settings.read",
   },
 ]
 
@@ -51,7 +57,7 @@ export default function Sidebar() {
   const [expandedMenu, setExpandedMenu] = useState<string | null>(null)
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [isHydrated, setIsHydrated] = useState(false)
-  const { user, logout } = useAuthStore()
+  const { user, logout, can } = useAuthStore()
   const router = useRouter()
   const { getCurrentShift } = useShiftStore();
   const [shiftData, setShiftData] = useState<any>(null);
@@ -109,6 +115,9 @@ export default function Sidebar() {
     }
   }
 
+  // Hide pages the user has no access to. Wait for hydration so server and client render the same menu.
+  const visibleMenuItems = isHydrated ? menuItems.filter((item) => can(item.permission)) : menuItems
+
   // Only render the close cashier button if hydrated to prevent hydration errors
   const renderCloseCashierButton = () => {
     if (!isHydrated) return null
@@ -198,7 +207,7 @@ export default function Sidebar() {
 
       {/* Menu Items */}
       <div className="space-y-4 flex-1">
-        {menuItems.map((item) => {
+        {visibleMenuItems.map((item) => {
           const Icon = item.icon
           const isActive = pathname.startsWith(item.href)
 
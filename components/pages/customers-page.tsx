@@ -6,10 +6,12 @@ import CustomerList from "@/components/customers/customer-list"
 import CustomerForm from "@/components/customers/customer-form"
 import { Button } from "@/components/ui/button"
 import { Plus } from "lucide-react"
+import { useAuthStore } from "@/lib/stores/authStore"
 
 export default function CustomersPage() {
   const [showForm, setShowForm] = useState(false)
   const [editingCustomer, setEditingCustomer] = useState(null)
+  const { can } = useAuthStore()
 
   const handleAddCustomer = () => {
     setEditingCustomer(null)
@@ -32,10 +34,12 @@ export default function CustomersPage() {
         {/* Header */}
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold text-foreground">Customer Management</h1>
-          <Button onClick={handleAddCustomer} className="gap-2">
-            <Plus className="w-4 h-4" />
-            Add Customer
-          </Button>
+          {can("customers.create") && (
+            <Button onClick={handleAddCustomer} className="gap-2">
+              <Plus className="w-4 h-4" />
+              Add Customer
+            </Button>
+          )}
         </div>
 
         {/* Customer List */}
@@ -16,12 +16,14 @@ import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Plus } from "lucide-react"
+import { useAuthStore } from "@/lib/stores/authStore"
 
 export default function InventoryPage() {
   const [activeTab, setActiveTab] = useState("stock")
   const [showInvoiceForm, setShowInvoiceForm] = useState(false)
   const [showOpnameForm, setShowOpnameForm] = useState(false)
   const [showWasteForm, setShowWasteForm] = useState(false)
+  const { can } = useAuthStore()
 
   // Handle tab changes to trigger data fetching when needed
   const handleTabChange = (value: string) => {
@@ -70,7 +72,9 @@ export default function InventoryPage() {
 
           {/* Invoices Tab */}
           <TabsContent value="invoices" className="space-y-4">
-            <InvoiceDetails onNewInvoiceClick={() => setShowInvoiceForm(true)} />
+            <InvoiceDetails
+              onNewInvoiceClick={can("inventory.purchase_invoice.create") ? () => setShowInvoiceForm(true) : undefined}
+            />
             
             {/* New Invoice Modal */}
             <Dialog open={showInvoiceForm} onOpenChange={setShowInvoiceForm}>
@@ -89,7 +93,9 @@ export default function InventoryPage() {
             
             {/* Always show Opname History */}
             <div className="mt-6">
-              <StockOpnameHistory onNewOpname={() => setShowOpnameForm(true)} />
+              <StockOpnameHistory
+                onNewOpname={can("inventory.stock_opname.create") ? () => setShowOpnameForm(true) : undefined}
+              />
             </div>
           </TabsContent>
 
@@ -99,7 +105,9 @@ export default function InventoryPage() {
             
             {/* Always show Waste History */}
             <div className="mt-6">
-              <StockWasteHistory onNewWaste={() => setShowWasteForm(true)} />
+              <StockWasteHistory
+                onNewWaste={can("inventory.stock_waste.create") ? () => setShowWasteForm(true) : undefined}
+              />
             </div>
           </TabsContent>
 
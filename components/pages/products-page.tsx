@@ -8,10 +8,12 @@ import CategoryManager from "@/components/products/category-manager"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Plus } from "lucide-react"
+import { useAuthStore } from "@/lib/stores/authStore"
 
 export default function ProductsPage() {
   const [showProductForm, setShowProductForm] = useState(false)
   const [editingProduct, setEditingProduct] = useState(null)
+  const { can } = useAuthStore()
 
   const handleAddProduct = () => {
     setEditingProduct(null)
@@ -47,10 +49,12 @@ export default function ProductsPage() {
             {/* Products tab header with Add Product button */}
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold text-foreground">List Produk</h2>
-              <Button onClick={handleAddProduct} className="gap-2">
-                <Plus className="w-4 h-4" />
-                Tambah Produk
-              </Button>
+              {can("products.create") && (
+                <Button onClick={handleAddProduct} className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  Tambah Produk
+                </Button>
+              )}
             </div>
             <ProductList onEdit={handleEditProduct} />
           </TabsContent>
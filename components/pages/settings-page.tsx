@@ -4,12 +4,26 @@ import ReceiptSettings from "@/components/settings/receipt-settings"
 import TaxSettings from "@/components/settings/tax-settings"
 import AccountSettings from "@/components/settings/account-settings"
 import BusinessSettings from "@/components/settings/business-settings"
+import NumberingSettings from "@/components/settings/numbering-settings"
 import DataHealth from "@/components/settings/data-health"
 import LanguageSettings from "@/components/settings/language-settings"
 import CashierSettings from "@/components/settings/cashier-settings"
+import ConflictInbox from "@/components/settings/conflict-inbox"
+import AccessSettings from "@/components/settings/access-settings"
+import TeamSettings from "@/components/settings/team-settings"
+import AuditLogViewer from "@/components/settings/audit-log-viewer"
+import PrintJobLog from "@/components/settings/print-job-log"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useAuthStore } from "@/lib/stores/authStore"
 
 export default function SettingsPage() {
+  const { user, can } = useAuthStore()
+  const canManageAccess = can("settings.access")
+  const canManageTeam = can("settings.team")
+  const canViewAudit = user?.role === "owner"
+  const tabCount = 8 + [canManageAccess, canManageTeam, canViewAudit].filter(Boolean).length
+  const gridCols: Record<number, string> = { 8: "grid-cols-8", 9: "grid-cols-9", 10: "grid-cols-10", 11: "grid-cols-11" }
+
   return (
     <MainLayout>
       <div className="p-4 space-y-4">
@@ -18,18 +32,23 @@ export default function SettingsPage() {
 
         {/* Tabs */}
         <Tabs defaultValue="business" className="w-full">
-          <TabsList className="grid w-full max-w-4xl grid-cols-7">
+          <TabsList className={`grid w-full max-w-5xl ${gridCols[tabCount]}`}>
             <TabsTrigger value="business">Bisnis</TabsTrigger>
             <TabsTrigger value="receipt">Struk</TabsTrigger>
             <TabsTrigger value="tax">Pajak</TabsTrigger>
             <TabsTrigger value="account">Akun</TabsTrigger>
             <TabsTrigger value="cashier">Kasir</TabsTrigger>
             <TabsTrigger value="data">Data</TabsTrigger>
+            <TabsTrigger value="sync">Sinkron</TabsTrigger>
             <TabsTrigger value="language">Bahasa</TabsTrigger>
+            {canManageTeam && <TabsTrigger value="team">Tim</TabsTrigger>}
+            {canManageAccess && <TabsTrigger value="access">Akses</TabsTrigger>}
+            {canViewAudit && <TabsTrigger value="audit">Audit</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="business" className="space-y-4">
             <BusinessSettings />
+            <NumberingSettings />
           </TabsContent>
 
           <TabsContent value="receipt" className="space-y-4">
@@ -51,10 +70,33 @@ export default function SettingsPage() {
           <TabsContent value="data" className="space-y-4">
             <DataHealth />
           </TabsContent>
+
+          <TabsContent value="sync" className="space-y-4">
+            <ConflictInbox />
+          </TabsContent>
           
           <TabsContent value="language" className="space-y-4">
             <LanguageSettings />
           </TabsContent>
+
+          {canManageTeam && (
+            <TabsContent value="team" className="space-y-4">
+              <TeamSettings />
+            </TabsContent>
+          )}
+
+          {canManageAccess && (
+            <TabsContent value="access" className="space-y-4">
+              <AccessSettings />
+            </TabsContent>
+          )}
+
+          {canViewAudit && (
+            <TabsContent value="audit" className="space-y-4">
+              <AuditLogViewer />
+              <PrintJobLog />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </MainLayout>
@@ -4,6 +4,7 @@ import type React from "react"
 import { useState } from "react"
 import { useProductStore } from "@/lib/stores/productStore"
 import { useNotificationStore } from "@/lib/stores/notificationStore"
+import { useAuthStore } from "@/lib/stores/authStore"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -18,6 +19,7 @@ interface CategoryFormProps {
 export default function CategoryForm({ category, onClose }: CategoryFormProps) {
   const { addCategory, updateCategory, loading } = useProductStore()
   const { showNotification } = useNotificationStore()
+  const { user } = useAuthStore()
   const [formData, setFormData] = useState({
     name: category?.name || "",
     description: category?.description || "",
@@ -48,7 +50,7 @@ export default function CategoryForm({ category, onClose }: CategoryFormProps) {
         await addCategory({
           name: formData.name.trim(),
           description: formData.description.trim() || null,
-          createdBy: 'current-user-id', // TODO: Get from authStore
+          createdBy: user?.id || 'system',
         })
         showNotification({
           type: 'saved_order',
@@ -4,6 +4,7 @@ import type React from "react"
 import { useState, useEffect } from "react"
 import { useProductStore } from "@/lib/stores/productStore"
 import { useNotificationStore } from "@/lib/stores/notificationStore"
+import { useAuthStore } from "@/lib/stores/authStore"
 import { validateProductForm } from "@/lib/utils/validators"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -24,6 +25,7 @@ interface UomConversion {
 export default function ProductForm({ product, onClose }: ProductFormProps) {
   const { addProduct, updateProduct, categories, fetchCategories } = useProductStore()
   const { showNotification } = useNotificationStore()
+  const { user } = useAuthStore()
   const [loading, setLoading] = useState(false)
   const [formData, setFormData] = useState({
     name: product?.name || "",
@@ -50,6 +52,17 @@ export default function ProductForm({ product, onClose }: ProductFormProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    if (!user?.id) {
+      showNotification({
+        type: 'low_stock',
+        title: "Error",
+        message: "User ID tidak ditemukan",
+        data: null,
+      })
+      return
+    }
+
     setLoading(true)
     
     try {
@@ -68,7 +81,7 @@ export default function ProductForm({ product, onClose }: ProductFormProps) {
         calculatedStock: null, // Will be calculated for recipe goods
         uom: formData.uom,
         recipe: formData.type === 'recipe_goods' ? formData.recipe : [],
-        createdBy: 'current-user-id', // TODO: Get from authStore
+        createdBy: user.id,
       }
 
       // Validate the data
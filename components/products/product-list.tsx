@@ -11,6 +11,7 @@ import { Edit, Trash2, Search } from "lucide-react"
 import { useProductStore } from "@/lib/stores/productStore"
 import { Product as ProductType } from "@/lib/db"
 import { useNotificationStore } from "@/lib/stores/notificationStore"
+import { useAuthStore } from "@/lib/stores/authStore"
 
 interface ProductListProps {
   onEdit: (product: ProductType) => void
@@ -19,6 +20,7 @@ interface ProductListProps {
 export default function ProductList({ onEdit }: ProductListProps) {
   const { products, loading, searchProducts, deleteProduct, fetchProducts } = useProductStore()
   const { showNotification } = useNotificationStore()
+  const { can } = useAuthStore()
   const [searchQuery, setSearchQuery] = useState("")
 
   useEffect(() => {
@@ -142,23 +144,27 @@ export default function ProductList({ onEdit }: ProductListProps) {
                   </TableCell>
                   <TableCell className="px-3 py-1 text-right">
                     <div className="flex justify-end gap-1">
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => onEdit(product)}
-                        className="h-7 px-2 gap-1 text-xs"
-                      >
-                        <Edit className="w-3.5 h-3.5" />
-                        Edit
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => handleDelete(product)}
-                        className="h-7 px-2 text-destructive hover:text-destructive hover:bg-destructive/10"
-                      >
-                        <Trash2 className="w-3.5 h-3.5" />
-                      </Button>
+                      {can("products.update") && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => onEdit(product)}
+                          className="h-7 px-2 gap-1 text-xs"
+                        >
+                          <Edit className="w-3.5 h-3.5" />
+                          Edit
+                        </Button>
+                      )}
+                      {can("products.delete") && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(product)}
+                          className="h-7 px-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
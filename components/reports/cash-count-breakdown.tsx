@@ -0,0 +1,30 @@
+"use client"
+
+import { CashCount } from "@/lib/db"
+import { formatMoney } from "@/components/cashier/cash-count-input"
+
+interface CashCountBreakdownProps {
+  title: string
+  count: CashCount
+}
+
+// Read-only list of a stored cash count, one row per denomination
+export default function CashCountBreakdown({ title, count }: CashCountBreakdownProps) {
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium text-foreground">{title}</p>
+      {count.lines.map((line) => (
+        <div key={`${line.kind}-${line.value}`} className="flex justify-between text-xs text-muted-foreground">
+          <span>
+            {formatMoney(count.currency, line.value)}{line.kind === "coin" ? " koin" : ""} × {line.qty}
+          </span>
+          <span>{formatMoney(count.currency, line.value * line.qty)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between border-t border-border pt-1 text-sm font-medium">
+        <span>Total</span>
+        <span>{formatMoney(count.currency, count.total)}</span>
+      </div>
+    </div>
+  )
+}
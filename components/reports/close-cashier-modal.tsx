@@ -5,15 +5,19 @@ import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { AlertCircle, Printer, CheckCircle2, X } from "lucide-react";
-import { CashierShiftService } from "@/lib/services/cashierShiftService";
+import { AlertCircle, Printer, CheckCircle2, X, EyeOff } from "lucide-react";
+import { CashierShiftService, SegmentStats } from "@/lib/services/cashierShiftService";
 import { ReportService } from "@/lib/services/reportService";
 import { useAuthStore } from "@/lib/stores/authStore";
 import { useShiftStore } from "@/lib/stores/shiftStore";
 import { toast } from "react-hot-toast";
 import { AlertDialog, AlertDialogContent, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { escposService } from "@/lib/services/escposService";
-import { Transaction } from "@/lib/db";
+import { escposService, EscPosCommand } from "@/lib/services/escposService";
+import { CashCount, CashMovement, Transaction } from "@/lib/db";
+import { CashCountService } from "@/lib/services/cashCountService";
+import CashCountInput from "@/components/cashier/cash-count-input";
+import CashCountBreakdown from "./cash-count-breakdown";
+import ShiftSegments from "./shift-segments";
 
 interface CloseCashierModalProps {
   isOpen: boolean;
@@ -22,6 +26,9 @@ interface CloseCashierModalProps {
 
 export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModalProps) {
   const [actualCash, setActualCash] = useState("");
+  const [closingCount, setClosingCount] = useState<CashCount | null>(null);
+  const [blindClose, setBlindClose] = useState(false);
+  const [countSubmitted, setCountSubmitted] = useState(false);
   const [notes, setNotes] = useState("");
   const [loading, setLoading] = useState(false);
   const [shiftData, setShiftData] = useState<any>(null);
@@ -30,8 +37,12 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
     totalCash: 0,
     totalNonCash: 0,
     totalSales: 0,
+    cashIn: 0,
+    cashOut: 0,
     expectedCash: 0
   });
+  const [cashMovements, setCashMovements] = useState<CashMovement[]>([]);
+  const [segments, setSegments] = useState<SegmentStats[]>([]);
   const [printAllProducts, setPrintAllProducts] = useState(false);
   const [printSimplifiedSummary, setPrintSimplifiedSummary] = useState(false);
   const { user } = useAuthStore();
@@ -42,7 +53,12 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
       if (!user?.id) return;
       
       setLoading(true);
+      setCountSubmitted(false);
       try {
+        CashCountService.getSettings()
+          .then((settings) => setBlindClose(settings.blindClose))
+          .catch((error) => console.error("Error loading cash count settings:", error));
+
         // Use the shift store to get current shift status
         await useShiftStore.getState().checkShiftStatus(user.id);
         const currentShift = await useShiftStore.getState().getCurrentShift();
@@ -50,6 +66,8 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
           const report = await ReportService.getCloseCashierReport(currentShift.id);
           setShiftData(report.shift);
           setSummary(report.summary);
+          setCashMovements(report.cashMovements);
+          setSegments(report.segments);
         } else {
           // If no active shift found, create a minimal shift summary
           setShiftData({
@@ -70,8 +88,12 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
             totalCash: 0,
             totalNonCash: 0,
             totalSales: 0,
+            cashIn: 0,
+            cashOut: 0,
             expectedCash: 0
           });
+          setCashMovements([]);
+          setSegments([]);
           toast("No active shift found, creating summary with no sales");
         }
       } catch (error) {
@@ -87,7 +109,9 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
     }
   }, [user?.id, isOpen]);
 
-  const expectedCash = summary.openingBalance + summary.totalCash;
+  const expectedCash = summary.expectedCash;
+  // In blind close the cashier commits to a count before seeing what the drawer should hold
+  const hideExpected = blindClose && !countSubmitted;
   const variance = actualCash ? Number(actualCash) - expectedCash : 0;
   const variancePercent = actualCash ? ((variance / expectedCash) * 100).toFixed(2) : 0;
 
@@ -167,9 +191,13 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
         totalNonCash: shiftData.totalNonCash,
         totalSales: shiftData.totalSales,
         openingBalance: shiftData.openingBalance,
+        cashIn: summary.cashIn,
+        cashOut: summary.cashOut,
+        cashMovements,
         expectedCash: shiftData.closingBalance || expectedCash,
         actualCash: Number(actualCash) || 0,
-        variance: Number(actualCash) ? Number(actualCash) - (shiftData.openingBalance + shiftData.totalCash) : 0,
+        variance: Number(actualCash) ? Number(actualCash) - expectedCash : 0,
+        closingCount,
       };
 
       // Print the simplified summary
@@ -189,7 +217,7 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
       console.log("Printing detailed product report:", reportData);
       
       // In a real implementation, you would send the report to the printer
-      const commands = [
+      const commands: EscPosCommand[] = [
         { command: 'INIT' },
         { command: 'TEXT', data: { text: reportData.businessName, bold: true, align: 'center' } },
         { command: 'TEXT', data: { text: reportData.transactionDate, align: 'center' } },
@@ -201,8 +229,7 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
 
       // Add sold products
       reportData.items.forEach((item: any) => {
-        commands.push({ command: 'TEXT', data: { text: `${item.name} (${item.qty}x)`, align: 'left' } });
-        commands.push({ command: 'TEXT', data: { text: `Rp ${item.subtotal.toLocaleString('id-ID')}`, align: 'right' } });
+        commands.push({ command: 'COLUMNS', data: { left: `${item.name} (${item.qty}x)`, right: `Rp ${item.subtotal.toLocaleString('id-ID')}` } });
       });
 
       commands.push({ command: 'LINE' });
@@ -227,7 +254,7 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
       console.log("Printing simplified summary report:", reportData);
       
       // In a real implementation, you would send the report to the printer
-      const commands = [
+      const commands: EscPosCommand[] = [
         { command: 'INIT' },
         { command: 'TEXT', data: { text: reportData.businessName, bold: true, align: 'center' } },
         { command: 'TEXT', data: { text: reportData.date, align: 'center' } },
@@ -243,12 +270,31 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
         { command: 'TEXT', data: { text: 'Perhitungan Kas', bold: true, align: 'left' } },
         { command: 'LINE' },
         { command: 'TEXT', data: { text: `Saldo Awal: Rp ${reportData.openingBalance.toLocaleString('id-ID')}`, align: 'left' } },
+        { command: 'TEXT', data: { text: `Kas Masuk: Rp ${reportData.cashIn.toLocaleString('id-ID')}`, align: 'left' } },
+        { command: 'TEXT', data: { text: `Kas Keluar: Rp ${reportData.cashOut.toLocaleString('id-ID')}`, align: 'left' } },
         { command: 'TEXT', data: { text: `Kas Harusnya: Rp ${reportData.expectedCash.toLocaleString('id-ID')}`, align: 'left' } },
         { command: 'TEXT', data: { text: `Kas Aktual: Rp ${reportData.actualCash.toLocaleString('id-ID')}`, align: 'left' } },
         { command: 'TEXT', data: { text: `Selisih: Rp ${reportData.variance.toLocaleString('id-ID')}`, align: 'left' } },
-        { command: 'CUT' },
       ];
 
+      // Every top-up and petty cash withdrawal, so the variance can be traced back
+      if (reportData.cashMovements.length > 0) {
+        commands.push({ command: 'LINE' });
+        commands.push({ command: 'TEXT', data: { text: 'Kas Masuk/Keluar', bold: true, align: 'left' } });
+        reportData.cashMovements.forEach((movement: CashMovement) => {
+          commands.push({ command: 'COLUMNS', data: { left: `${new Date(movement.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })} ${movement.reason}`, right: `${movement.type === 'in' ? '+' : '-'}Rp ${movement.amount.toLocaleString('id-ID')}` } });
+        });
+      }
+
+      if (reportData.closingCount) {
+        commands.push({ command: 'LINE' });
+        commands.push({ command: 'TEXT', data: { text: 'Rincian Kas Aktual', bold: true, align: 'left' } });
+        reportData.closingCount.lines.forEach((line: CashCount['lines'][number]) => {
+          commands.push({ command: 'COLUMNS', data: { left: `${line.value.toLocaleString('id-ID')}${line.kind === 'coin' ? ' koin' : ''} x ${line.qty}`, right: `Rp ${(line.value * line.qty).toLocaleString('id-ID')}` } });
+        });
+      }
+      commands.push({ command: 'CUT' });
+
       // Send to printer
       await escposService.sendToPrinter(commands);
     } catch (error) {
@@ -257,6 +303,14 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
     }
   };
 
+  const handleSubmitCount = () => {
+    if (!actualCash) {
+      toast.error("Enter the actual cash count first");
+      return;
+    }
+    setCountSubmitted(true);
+  };
+
   const handleSelesai = async () => {
     setLoading(true);
     try {
@@ -271,11 +325,11 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
 
       // Close the shift with actual cash if provided
       if (shiftData && actualCash) {
-        await useShiftStore.getState().closeShift(shiftData.id, Number(actualCash));
+        await useShiftStore.getState().closeShift(shiftData.id, Number(actualCash), { closingCount, blindClose });
         toast.success("Cashier closed successfully");
       } else if (shiftData) {
         // Close shift even if no actual cash provided (for cases with no sales)
-        await useShiftStore.getState().closeShift(shiftData.id, 0);
+        await useShiftStore.getState().closeShift(shiftData.id, 0, { blindClose });
         toast.success("Cashier closed successfully");
       }
       
@@ -323,7 +377,11 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
 
             <Card className="p-4">
               <p className="text-sm text-muted-foreground mb-1">Total Cash Sales</p>
-              <p className="text-2xl font-bold text-primary">Rp {summary.totalCash.toLocaleString("id-ID")}</p>
+              {hideExpected ? (
+                <p className="text-sm text-muted-foreground flex items-center gap-2 h-8"><EyeOff className="w-4 h-4" /> Hidden until counted</p>
+              ) : (
+                <p className="text-2xl font-bold text-primary">Rp {summary.totalCash.toLocaleString("id-ID")}</p>
+              )}
             </Card>
 
             <Card className="p-4">
@@ -333,10 +391,16 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
 
             <Card className="p-4">
               <p className="text-sm text-muted-foreground mb-1">Total Sales</p>
-              <p className="text-2xl font-bold text-foreground">Rp {summary.totalSales.toLocaleString("id-ID")}</p>
+              {hideExpected ? (
+                <p className="text-sm text-muted-foreground flex items-center gap-2 h-8"><EyeOff className="w-4 h-4" /> Hidden until counted</p>
+              ) : (
+                <p className="text-2xl font-bold text-foreground">Rp {summary.totalSales.toLocaleString("id-ID")}</p>
+              )}
             </Card>
           </div>
 
+          <ShiftSegments segments={segments} hideCash={hideExpected} />
+
           {/* Print Options */}
           <div className="border rounded-lg p-4 space-y-4">
             <h3 className="font-semibold text-lg">Pilihan Cetak</h3>
@@ -379,23 +443,26 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <label className="text-sm font-medium text-foreground">Expected Cash</label>
-                  <Input value={`Rp ${expectedCash.toLocaleString("id-ID")}`} disabled className="bg-muted" />
-                </div>
-
-                <div className="space-y-2">
-                  <label className="text-sm font-medium text-foreground">Actual Cash Count *</label>
                   <Input
-                    type="number"
-                    value={actualCash}
-                    onChange={(e) => setActualCash(e.target.value)}
-                    placeholder="Enter actual cash amount"
-                    disabled={loading}
+                    value={hideExpected ? "Hidden until the count is submitted" : `Rp ${expectedCash.toLocaleString("id-ID")}`}
+                    disabled
+                    className="bg-muted"
                   />
                 </div>
+
+                <CashCountInput
+                  id="actual-cash"
+                  label="Actual Cash Count *"
+                  onChange={(amount, count) => {
+                    setActualCash(amount);
+                    setClosingCount(count);
+                  }}
+                  disabled={loading || (blindClose && countSubmitted)}
+                />
               </div>
 
               {/* Variance Display */}
-              {actualCash && (
+              {actualCash && !hideExpected && (
                 <div
                   className={`p-4 rounded-lg border-2 ${variance >= 0 ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"}`}
                 >
@@ -414,6 +481,18 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
                 </div>
               )}
 
+              {/* Counted breakdowns */}
+              {(shiftData?.openingCount || (closingCount && closingCount.lines.length > 0)) && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {shiftData?.openingCount && (
+                    <CashCountBreakdown title="Opening Count" count={shiftData.openingCount} />
+                  )}
+                  {closingCount && closingCount.lines.length > 0 && (
+                    <CashCountBreakdown title="Closing Count" count={closingCount} />
+                  )}
+                </div>
+              )}
+
               {/* Notes */}
               <div className="space-y-2">
                 <label className="text-sm font-medium text-foreground">Notes</label>
@@ -443,7 +522,7 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
               <Button 
                 type="button" 
                 variant="outline" 
-                disabled={loading || !printSimplifiedSummary}
+                disabled={loading || !printSimplifiedSummary || hideExpected}
                 onClick={handlePrintSimplifiedSummary}
               >
                 <Printer className="w-4 h-4 mr-2" />
@@ -451,14 +530,24 @@ export default function CloseCashierModal({ isOpen, onClose }: CloseCashierModal
               </Button>
             </div>
             
-            <Button 
-              type="button" 
-              className="bg-green-600 hover:bg-green-700"
-              onClick={handleSelesai}
-              disabled={loading}
-            >
-              {loading ? "Processing..." : "Selesai"}
-            </Button>
+            {hideExpected ? (
+              <Button
+                type="button"
+                onClick={handleSubmitCount}
+                disabled={loading || !actualCash}
+              >
+                Submit Count
+              </Button>
+            ) : (
+              <Button 
+                type="button" 
+                className="bg-green-600 hover:bg-green-700"
+                onClick={handleSelesai}
+                disabled={loading}
+              >
+                {loading ? "Processing..." : "Selesai"}
+              </Button>
+            )}
           </div>
         </div>
       </AlertDialogContent>
@@ -5,15 +5,25 @@ import { useState, useEffect } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { AlertCircle } from "lucide-react"
+import { AlertCircle, EyeOff } from "lucide-react"
 import { useShiftStore } from "@/lib/stores/shiftStore";
 import { ReportService } from "@/lib/services/reportService";
 import { ExportService } from "@/lib/services/exportService";
 import { useAuthStore } from "@/lib/stores/authStore";
 import { toast } from "react-hot-toast";
+import { CashCount, CashMovement, Transaction } from "@/lib/db";
+import { CashCountService } from "@/lib/services/cashCountService";
+import CashCountInput from "@/components/cashier/cash-count-input";
+import CashCountBreakdown from "./cash-count-breakdown";
+import ShiftSegments from "./shift-segments";
+import { SegmentStats } from "@/lib/services/cashierShiftService";
+import { VOID_REASON_LABELS } from "@/lib/services/voidService";
 
 export default function CloseCashierReport() {
   const [actualCash, setActualCash] = useState("");
+  const [closingCount, setClosingCount] = useState<CashCount | null>(null);
+  const [blindClose, setBlindClose] = useState(false);
+  const [countSubmitted, setCountSubmitted] = useState(false);
   const [notes, setNotes] = useState("");
   const [loading, setLoading] = useState(false);
   const [shiftData, setShiftData] = useState<any>(null);
@@ -22,8 +32,15 @@ export default function CloseCashierReport() {
     totalCash: 0,
     totalNonCash: 0,
     totalSales: 0,
-    expectedCash: 0
+    cashIn: 0,
+    cashOut: 0,
+    expectedCash: 0,
+    voidCount: 0,
+    voidTotal: 0
   });
+  const [voids, setVoids] = useState<Transaction[]>([]);
+  const [cashMovements, setCashMovements] = useState<CashMovement[]>([]);
+  const [segments, setSegments] = useState<SegmentStats[]>([]);
   const { user } = useAuthStore();
 
   // Fetch current shift data
@@ -31,6 +48,10 @@ export default function CloseCashierReport() {
     const fetchShiftData = async () => {
       setLoading(true);
       try {
+        CashCountService.getSettings()
+          .then((settings) => setBlindClose(settings.blindClose))
+          .catch((error) => console.error("Error loading cash count settings:", error));
+
         // Use the shift store to get current shift status
         await useShiftStore.getState().checkShiftStatus(user?.id || "");
         const currentShift = await useShiftStore.getState().getCurrentShift();
@@ -38,6 +59,9 @@ export default function CloseCashierReport() {
           const report = await ReportService.getCloseCashierReport(currentShift.id);
           setShiftData(report.shift);
           setSummary(report.summary);
+          setVoids(report.voids);
+          setCashMovements(report.cashMovements);
+          setSegments(report.segments);
         } else {
           toast.error("No active shift found");
         }
@@ -54,17 +78,23 @@ export default function CloseCashierReport() {
     }
   }, [user?.id]);
 
- const expectedCash = summary.openingBalance + summary.totalCash;
+  const expectedCash = summary.expectedCash;
+  // In blind close the cashier commits to a count before seeing what the drawer should hold
+  const hideExpected = blindClose && !countSubmitted;
   const variance = actualCash ? Number(actualCash) - expectedCash : 0;
   const variancePercent = actualCash ? ((variance / expectedCash) * 10).toFixed(2) : 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (hideExpected) {
+      setCountSubmitted(true);
+      return;
+    }
     setLoading(true);
     try {
       // Close the shift with actual cash
       if (shiftData) {
-        await useShiftStore.getState().closeShift(shiftData.id, Number(actualCash));
+        await useShiftStore.getState().closeShift(shiftData.id, Number(actualCash), { closingCount, blindClose });
         toast.success("Cashier closed successfully");
         
         // After successfully closing cashier, log out the user
@@ -89,9 +119,9 @@ export default function CloseCashierReport() {
     try {
       if (shiftData && actualCash) {
         if (format === 'excel') {
-          await ExportService.exportCloseCashierReportToExcel(shiftData, summary, Number(actualCash));
+          await ExportService.exportCloseCashierReportToExcel(shiftData, summary, Number(actualCash), closingCount);
         } else {
-          await ExportService.exportCloseCashierReportToPDF(shiftData, summary, Number(actualCash));
+          await ExportService.exportCloseCashierReportToPDF(shiftData, summary, Number(actualCash), closingCount);
         }
         toast.success(`Close cashier report exported as ${format.toUpperCase()} successfully`);
       } else {
@@ -114,7 +144,11 @@ export default function CloseCashierReport() {
 
         <Card className="p-4">
           <p className="text-sm text-muted-foreground mb-1">Total Cash Sales</p>
-          <p className="text-2xl font-bold text-primary">Rp {summary.totalCash.toLocaleString("id-ID")}</p>
+          {hideExpected ? (
+            <p className="text-sm text-muted-foreground flex items-center gap-2 h-8"><EyeOff className="w-4 h-4" /> Hidden until counted</p>
+          ) : (
+            <p className="text-2xl font-bold text-primary">Rp {summary.totalCash.toLocaleString("id-ID")}</p>
+          )}
         </Card>
 
         <Card className="p-4">
@@ -124,10 +158,67 @@ export default function CloseCashierReport() {
 
         <Card className="p-4">
           <p className="text-sm text-muted-foreground mb-1">Total Sales</p>
-          <p className="text-2xl font-bold text-foreground">Rp {summary.totalSales.toLocaleString("id-ID")}</p>
+          {hideExpected ? (
+            <p className="text-sm text-muted-foreground flex items-center gap-2 h-8"><EyeOff className="w-4 h-4" /> Hidden until counted</p>
+          ) : (
+            <p className="text-2xl font-bold text-foreground">Rp {summary.totalSales.toLocaleString("id-ID")}</p>
+          )}
         </Card>
       </div>
 
+      {/* Cashier handovers */}
+      <ShiftSegments segments={segments} hideCash={hideExpected} />
+
+      {/* Cash In / Out */}
+      {cashMovements.length > 0 && (
+        <Card className="p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-foreground">Cash In / Out</h3>
+            <span className="text-sm text-muted-foreground">
+              In Rp {summary.cashIn.toLocaleString("id-ID")} · Out Rp {summary.cashOut.toLocaleString("id-ID")}
+            </span>
+          </div>
+          <div className="space-y-2">
+            {cashMovements.map((movement) => (
+              <div key={movement.id} className="flex items-start justify-between gap-3 text-sm border-t border-border pt-2">
+                <div>
+                  <p className="font-medium">{movement.reason}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(movement.createdAt).toLocaleString("id-ID")}</p>
+                </div>
+                <span className={movement.type === "in" ? "text-green-600" : "text-red-600"}>
+                  {movement.type === "in" ? "+" : "-"}Rp {movement.amount.toLocaleString("id-ID")}
+                </span>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Voided Transactions */}
+      {voids.length > 0 && (
+        <Card className="p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-foreground">Voided Transactions ({summary.voidCount})</h3>
+            <span className="text-sm font-medium text-red-600">Rp {summary.voidTotal.toLocaleString("id-ID")}</span>
+          </div>
+          <div className="space-y-2">
+            {voids.map((transaction) => (
+              <div key={transaction.id} className="flex items-start justify-between gap-3 text-sm border-t border-border pt-2">
+                <div>
+                  <p className="font-medium line-through">{transaction.transactionNumber}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {transaction.voidReason ? VOID_REASON_LABELS[transaction.voidReason] : "-"}
+                    {transaction.voidNote && ` · ${transaction.voidNote}`}
+                    {transaction.voidedAt && ` · ${new Date(transaction.voidedAt).toLocaleString("id-ID")}`}
+                  </p>
+                </div>
+                <span className="text-muted-foreground">Rp {transaction.total.toLocaleString("id-ID")}</span>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Close Form */}
       <Card className="p-6">
         <form onSubmit={handleSubmit} className="space-y-6">
@@ -135,24 +226,26 @@ export default function CloseCashierReport() {
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">Expected Cash</label>
-              <Input value={`Rp ${expectedCash.toLocaleString("id-ID")}`} disabled className="bg-muted" />
-            </div>
-
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-foreground">Actual Cash Count *</label>
               <Input
-                type="number"
-                value={actualCash}
-                onChange={(e) => setActualCash(e.target.value)}
-                placeholder="Enter actual cash amount"
-                required
-                disabled={loading}
+                value={hideExpected ? "Hidden until the count is submitted" : `Rp ${expectedCash.toLocaleString("id-ID")}`}
+                disabled
+                className="bg-muted"
               />
             </div>
+
+            <CashCountInput
+              id="actual-cash"
+              label="Actual Cash Count *"
+              onChange={(amount, count) => {
+                setActualCash(amount);
+                setClosingCount(count);
+              }}
+              disabled={loading || (blindClose && countSubmitted)}
+            />
           </div>
 
           {/* Variance Display */}
-          {actualCash && (
+          {actualCash && !hideExpected && (
             <div
               className={`p-4 rounded-lg border-2 ${variance >= 0 ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"}`}
             >
@@ -171,6 +264,18 @@ export default function CloseCashierReport() {
             </div>
           )}
 
+          {/* Counted breakdowns */}
+          {(shiftData?.openingCount || (closingCount && closingCount.lines.length > 0)) && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {shiftData?.openingCount && (
+                <CashCountBreakdown title="Opening Count" count={shiftData.openingCount} />
+              )}
+              {closingCount && closingCount.lines.length > 0 && (
+                <CashCountBreakdown title="Closing Count" count={closingCount} />
+              )}
+            </div>
+          )}
+
           {/* Notes */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-foreground">Notes</label>
@@ -185,17 +290,17 @@ export default function CloseCashierReport() {
 
           {/* Actions */}
           <div className="flex flex-col sm:flex-row gap-2 justify-end pt-4 border-t border-border">
-            <Button type="button" variant="outline" onClick={() => handleExport('pdf')} disabled={loading}>
+            <Button type="button" variant="outline" onClick={() => handleExport('pdf')} disabled={loading || hideExpected}>
               Export PDF
             </Button>
-            <Button type="button" variant="outline" onClick={() => handleExport('excel')} disabled={loading}>
+            <Button type="button" variant="outline" onClick={() => handleExport('excel')} disabled={loading || hideExpected}>
               Export Excel
             </Button>
             <Button type="button" variant="outline" disabled={loading}>
               Cancel
             </Button>
             <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={loading || !actualCash}>
-              {loading ? "Processing..." : "Close Cashier"}
+              {loading ? "Processing..." : hideExpected ? "Submit Count" : "Close Cashier"}
             </Button>
           </div>
         </form>
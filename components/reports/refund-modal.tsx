@@ -0,0 +1,198 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Separator } from "@/components/ui/separator"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "react-hot-toast"
+import { Refund, Transaction } from "@/lib/db"
+import { RefundService, RefundableLine } from "@/lib/services/refundService"
+import { useAuthStore } from "@/lib/stores/authStore"
+
+interface RefundModalProps {
+  transaction: Transaction | null
+  onClose: () => void
+  onRefunded: () => void
+}
+
+type RefundMethod = 'cash' | 'ewallet' | 'qris'
+
+export default function RefundModal({ transaction, onClose, onRefunded }: RefundModalProps) {
+  const { user } = useAuthStore()
+  const [previousRefunds, setPreviousRefunds] = useState<Refund[]>([])
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [reason, setReason] = useState("")
+  const [method, setMethod] = useState<RefundMethod>('cash')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!transaction) return
+
+    setQuantities({})
+    setReason("")
+    setError("")
+    // Default to the method the customer paid with most
+    const mainPayment = [...transaction.payments].sort((a, b) => b.amount - a.amount)[0]
+    setMethod(mainPayment?.method || 'cash')
+
+    RefundService.getByTransaction(transaction.id)
+      .then(setPreviousRefunds)
+      .catch(err => {
+        console.error("Error loading refunds:", err)
+        setError("Gagal memuat data refund")
+      })
+  }, [transaction])
+
+  if (!transaction) return null
+
+  const lines = RefundService.getRefundableLines(transaction, previousRefunds)
+  const requested = lines
+    .map(line => ({ productId: line.productId, qty: quantities[line.productId] || 0 }))
+    .filter(item => item.qty > 0)
+
+  let refundAmount = 0
+  let previewError = ""
+  if (requested.length > 0) {
+    try {
+      refundAmount = RefundService.calculateRefund(transaction, previousRefunds, requested).totalAmount
+    } catch (err) {
+      previewError = err instanceof Error ? err.message : "Jumlah refund tidak valid"
+    }
+  }
+
+  const setQuantity = (line: RefundableLine, value: number) => {
+    const qty = Math.max(0, Math.min(line.refundableQty, Math.floor(value) || 0))
+    setQuantities(prev => ({ ...prev, [line.productId]: qty }))
+  }
+
+  const refundAll = () => {
+    setQuantities(Object.fromEntries(lines.map(line => [line.productId, line.refundableQty])))
+  }
+
+  const handleSubmit = async () => {
+    if (!user || requested.length === 0) return
+    if (!reason.trim()) {
+      setError("Alasan refund wajib diisi")
+      return
+    }
+
+    setLoading(true)
+    setError("")
+    try {
+      const refund = await RefundService.createRefund({
+        transactionId: transaction.id,
+        items: requested,
+        reason,
+        payments: [{ method, amount: refundAmount }],
+        createdBy: user.id
+      })
+
+      toast.success(`Refund ${refund.refundNumber} berhasil: Rp ${refund.totalAmount.toLocaleString("id-ID")}`)
+      onRefunded()
+      onClose()
+    } catch (err) {
+      console.error("Error creating refund:", err)
+      setError(err instanceof Error ? err.message : "Refund gagal")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refund {transaction.transactionNumber}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Item dikembalikan</span>
+            <Button variant="outline" size="sm" onClick={refundAll} disabled={loading}>
+              Refund Semua
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            {lines.map(line => (
+              <div key={line.productId} className="flex items-center justify-between gap-3 text-sm">
+                <div className="flex-1">
+                  <p className="font-medium">{line.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Terjual {line.soldQty}
+                    {line.refundedQty > 0 && ` · sudah direfund ${line.refundedQty}`}
+                    {` · Rp ${Math.round(line.unitAmount).toLocaleString("id-ID")}/unit`}
+                  </p>
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  max={line.refundableQty}
+                  value={quantities[line.productId] || ""}
+                  placeholder="0"
+                  onChange={(e) => setQuantity(line, Number(e.target.value))}
+                  disabled={loading || line.refundableQty === 0}
+                  className="w-20 text-right"
+                />
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Alasan</label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Contoh: produk rusak, salah pesanan"
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Dikembalikan melalui</label>
+            <Select value={method} onValueChange={(value) => setMethod(value as RefundMethod)} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cash">Tunai</SelectItem>
+                <SelectItem value="ewallet">E-Wallet</SelectItem>
+                <SelectItem value="qris">QRIS</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-between font-semibold">
+            <span>Total Refund</span>
+            <span className="text-primary">Rp {refundAmount.toLocaleString("id-ID")}</span>
+          </div>
+
+          {(error || previewError) && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">{error || previewError}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" onClick={onClose} disabled={loading} className="flex-1">
+              Batal
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={loading || requested.length === 0 || !!previewError}
+              className="flex-1"
+            >
+              {loading ? "Memproses..." : "Proses Refund"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -9,6 +9,7 @@ import { Download } from "lucide-react"
 import { ReportService } from "@/lib/services/reportService";
 import { ExportService } from "@/lib/services/exportService";
 import { toast } from "react-hot-toast";
+import { useAuthStore } from "@/lib/stores/authStore";
 
 export default function SalesReport() {
   const [startDate, setStartDate] = useState(() => {
@@ -18,6 +19,7 @@ export default function SalesReport() {
   });
   const [endDate, setEndDate] = useState(() => new Date().toISOString().split('T')[0]);
   const [loading, setLoading] = useState(false);
+  const { can } = useAuthStore();
   const [salesItems, setSalesItems] = useState<Array<{
     id: string;
     productName: string;
@@ -29,6 +31,7 @@ export default function SalesReport() {
   const [summary, setSummary] = useState({
     totalQuantity: 0,
     totalRevenue: 0,
+    totalDiscount: 0,
     topProduct: null as string | null
   });
 
@@ -95,21 +98,23 @@ export default function SalesReport() {
             />
           </div>
 
-          <div className="space-y-2 flex items-end justify-end">
-            <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => handleExport('excel')} disabled={loading}>
-              <Download className="w-4 h-4" />
-              Excel
-            </Button>
-            <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => handleExport('pdf')} disabled={loading}>
-              <Download className="w-4 h-4" />
-              PDF
-            </Button>
-          </div>
+          {can('reports.export') && (
+            <div className="space-y-2 flex items-end justify-end">
+              <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => handleExport('excel')} disabled={loading}>
+                <Download className="w-4 h-4" />
+                Excel
+              </Button>
+              <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => handleExport('pdf')} disabled={loading}>
+                <Download className="w-4 h-4" />
+                PDF
+              </Button>
+            </div>
+          )}
         </div>
       </Card>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card className="p-4">
           <p className="text-sm text-muted-foreground mb-1">Total Items Sold</p>
           <p className="text-2xl font-bold text-foreground">{summary.totalQuantity}</p>
@@ -118,6 +123,12 @@ export default function SalesReport() {
         <Card className="p-4">
           <p className="text-sm text-muted-foreground mb-1">Total Revenue</p>
           <p className="text-2xl font-bold text-primary">Rp {summary.totalRevenue.toLocaleString("id-ID")}</p>
+          <p className="text-xs text-muted-foreground mt-1">After item and order discounts</p>
+        </Card>
+
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground mb-1">Total Discount</p>
+          <p className="text-2xl font-bold text-destructive">Rp {summary.totalDiscount.toLocaleString("id-ID")}</p>
         </Card>
 
         <Card className="p-4">
@@ -0,0 +1,70 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card } from "@/components/ui/card"
+import { db } from "@/lib/db"
+import { SegmentStats } from "@/lib/services/cashierShiftService"
+
+interface ShiftSegmentsProps {
+  segments: SegmentStats[]
+  hideCash?: boolean // Blind close: counts and expected cash stay hidden until the closing count is in
+}
+
+const formatTime = (date: Date | null) =>
+  date ? new Date(date).toLocaleTimeString("id-ID", { hour: "2-digit", minute: "2-digit" }) : "now"
+
+// Who held the drawer during the shift, what each of them sold, and what they counted at handover
+export default function ShiftSegments({ segments, hideCash = false }: ShiftSegmentsProps) {
+  const [userNames, setUserNames] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    const ids = Array.from(new Set(segments.map((segment) => segment.userId)))
+    db.users
+      .bulkGet(ids)
+      .then((users) => {
+        const names: Record<string, string> = {}
+        users.forEach((user) => {
+          if (user) names[user.id] = user.name
+        })
+        setUserNames(names)
+      })
+      .catch((error) => console.error("Error loading cashier names:", error))
+  }, [segments])
+
+  // A shift without a handover has nothing to add to the summary cards
+  if (segments.length < 2) return null
+
+  return (
+    <Card className="p-4">
+      <h3 className="font-semibold text-foreground mb-3">Cashiers ({segments.length})</h3>
+      <div className="space-y-2">
+        {segments.map((segment, index) => {
+          const variance =
+            segment.countedCash != null && segment.expectedCash != null ? segment.countedCash - segment.expectedCash : null
+          return (
+            <div key={`${segment.userId}-${index}`} className="flex items-start justify-between gap-3 text-sm border-t border-border pt-2">
+              <div>
+                <p className="font-medium">{userNames[segment.userId] || segment.userId}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatTime(segment.startedAt)} – {formatTime(segment.endedAt)} · {segment.totalTransactions} transactions
+                  {!hideCash && ` · Cash Rp ${segment.totalCash.toLocaleString("id-ID")}`}
+                </p>
+                {!hideCash && segment.acceptedBy && segment.countedCash != null && (
+                  <p className="text-xs text-muted-foreground">
+                    Handed over with Rp {segment.countedCash.toLocaleString("id-ID")}
+                    {variance !== null && variance !== 0 && (
+                      <span className={variance > 0 ? "text-green-600" : "text-red-600"}>
+                        {" "}({variance > 0 ? "+" : "-"}Rp {Math.abs(variance).toLocaleString("id-ID")})
+                      </span>
+                    )}
+                  </p>
+                )}
+              </div>
+              {!hideCash && <span className="font-medium">Rp {segment.totalSales.toLocaleString("id-ID")}</span>}
+            </div>
+          )
+        })}
+      </div>
+    </Card>
+  )
+}
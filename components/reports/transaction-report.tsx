@@ -7,12 +7,16 @@ import { Input } from "@/components/ui/input"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Download } from "lucide-react"
+import { Download, RotateCcw, Ban, Printer } from "lucide-react"
 import { ReportService } from "@/lib/services/reportService";
 import { ExportService } from "@/lib/services/exportService";
+import { printingService } from "@/lib/services/printingService";
 import { Transaction as TransactionType } from "@/lib/db";
 import { useCustomerStore } from "@/lib/stores/customerStore";
+import { useAuthStore } from "@/lib/stores/authStore";
 import { toast } from "react-hot-toast";
+import RefundModal from "./refund-modal";
+import VoidTransactionModal from "./void-transaction-modal";
 
 export default function TransactionReport() {
   const [startDate, setStartDate] = useState(() => {
@@ -27,10 +31,18 @@ export default function TransactionReport() {
   const [summary, setSummary] = useState({
     totalTransactions: 0,
     totalRevenue: 0,
+    totalDiscount: 0,
+    totalRefunds: 0,
+    netRevenue: 0,
     paidCount: 0,
-    unpaidCount: 0
+    unpaidCount: 0,
+    voidCount: 0
   });
+  const [refundTransaction, setRefundTransaction] = useState<TransactionType | null>(null);
+  const [voidTransaction, setVoidTransaction] = useState<TransactionType | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   const { fetchCustomers } = useCustomerStore();
+  const { user, can } = useAuthStore();
 
   // Fetch customers to ensure data is available
   useEffect(() => {
@@ -47,7 +59,7 @@ export default function TransactionReport() {
         const dateTo = new Date(endDate);
         dateTo.setHours(23, 59, 59, 999);
         
-        const status = statusFilter === "all" ? undefined : statusFilter as 'paid' | 'unpaid' | 'saved';
+        const status = statusFilter === "all" ? undefined : statusFilter as TransactionType['status'];
         const report = await ReportService.getTransactionReport(dateFrom, dateTo, status);
         setTransactions(report.transactions);
         setSummary(report.summary);
@@ -60,7 +72,7 @@ export default function TransactionReport() {
     };
 
     fetchReportData();
-  }, [startDate, endDate, statusFilter]);
+  }, [startDate, endDate, statusFilter, reloadKey]);
 
   const handleExport = async (format: 'excel' | 'pdf') => {
     try {
@@ -76,6 +88,17 @@ export default function TransactionReport() {
     }
   };
 
+  // Printed with a COPY marker and recorded in the print job log
+  const handleReprint = async (transaction: TransactionType) => {
+    if (!user) return;
+    try {
+      await printingService.printTransactionReceipt(transaction, { printedBy: user.id, copy: true });
+      toast.success(`Receipt ${transaction.transactionNumber} reprinted`);
+    } catch (error) {
+      toast.error(`Failed to reprint receipt: ${error instanceof Error ? error.message : 'printer not responding'}`);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "paid":
@@ -84,6 +107,8 @@ export default function TransactionReport() {
         return "bg-red-100 text-red-800";
       case "saved":
         return "bg-yellow-100 text-yellow-800";
+      case "void":
+        return "bg-gray-200 text-gray-600 line-through";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -129,25 +154,28 @@ export default function TransactionReport() {
                 <SelectItem value="paid">Paid</SelectItem>
                 <SelectItem value="unpaid">Unpaid</SelectItem>
                 <SelectItem value="saved">Saved</SelectItem>
+                <SelectItem value="void">Void</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-          <div className="space-y-2 flex items-end justify-end">
-            <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => handleExport('excel')} disabled={loading}>
-              <Download className="w-4 h-4" />
-              Excel
-            </Button>
-            <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => handleExport('pdf')} disabled={loading}>
-              <Download className="w-4 h-4" />
-              PDF
-            </Button>
-          </div>
+          {can('reports.export') && (
+            <div className="space-y-2 flex items-end justify-end">
+              <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => handleExport('excel')} disabled={loading}>
+                <Download className="w-4 h-4" />
+                Excel
+              </Button>
+              <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => handleExport('pdf')} disabled={loading}>
+                <Download className="w-4 h-4" />
+                PDF
+              </Button>
+            </div>
+          )}
         </div>
       </Card>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
         <Card className="p-4">
           <p className="text-sm text-muted-foreground mb-1">Total Transactions</p>
           <p className="text-2xl font-bold text-foreground">{summary.totalTransactions}</p>
@@ -158,6 +186,12 @@ export default function TransactionReport() {
           <p className="text-2xl font-bold text-primary">Rp {summary.totalRevenue.toLocaleString("id-ID")}</p>
         </Card>
 
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground mb-1">Refunds</p>
+          <p className="text-2xl font-bold text-orange-600">Rp {summary.totalRefunds.toLocaleString("id-ID")}</p>
+          <p className="text-xs text-muted-foreground mt-1">Net Rp {summary.netRevenue.toLocaleString("id-ID")}</p>
+        </Card>
+
         <Card className="p-4">
           <p className="text-sm text-muted-foreground mb-1">Paid</p>
           <p className="text-2xl font-bold text-green-600">{summary.paidCount}</p>
@@ -166,6 +200,9 @@ export default function TransactionReport() {
         <Card className="p-4">
           <p className="text-sm text-muted-foreground mb-1">Unpaid</p>
           <p className="text-2xl font-bold text-red-60">{summary.unpaidCount}</p>
+          {summary.voidCount > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">Void: {summary.voidCount}</p>
+          )}
         </Card>
       </div>
 
@@ -191,6 +228,7 @@ export default function TransactionReport() {
                   <TableHead className="text-right">Total</TableHead>
                   <TableHead>Payment</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -206,6 +244,31 @@ export default function TransactionReport() {
                     <TableCell className="text-sm">{transaction.payments.map(p => p.method).join(', ')}</TableCell>
                     <TableCell>
                       <Badge className={getStatusColor(transaction.status)}>{transaction.status}</Badge>
+                      {(transaction.refundedAmount || 0) > 0 && (
+                        <p className="text-xs text-orange-600 mt-1">
+                          Refund Rp {(transaction.refundedAmount || 0).toLocaleString("id-ID")}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {transaction.status === 'paid' && (
+                        <Button variant="ghost" size="sm" className="gap-1" onClick={() => handleReprint(transaction)}>
+                          <Printer className="w-4 h-4" />
+                          Reprint
+                        </Button>
+                      )}
+                      {can('transactions.refund') && transaction.status === 'paid' && (transaction.refundedAmount || 0) < transaction.total && (
+                        <Button variant="ghost" size="sm" className="gap-1" onClick={() => setRefundTransaction(transaction)}>
+                          <RotateCcw className="w-4 h-4" />
+                          Refund
+                        </Button>
+                      )}
+                      {transaction.status === 'paid' && !transaction.refundIds?.length && (
+                        <Button variant="ghost" size="sm" className="gap-1 text-destructive hover:text-destructive" onClick={() => setVoidTransaction(transaction)}>
+                          <Ban className="w-4 h-4" />
+                          Void
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -220,6 +283,18 @@ export default function TransactionReport() {
           </div>
         )}
       </Card>
+
+      <RefundModal
+        transaction={refundTransaction}
+        onClose={() => setRefundTransaction(null)}
+        onRefunded={() => setReloadKey((key) => key + 1)}
+      />
+
+      <VoidTransactionModal
+        transaction={voidTransaction}
+        onClose={() => setVoidTransaction(null)}
+        onVoided={() => setReloadKey((key) => key + 1)}
+      />
     </div>
   )
 }
@@ -0,0 +1,148 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "react-hot-toast"
+import { Approval, Transaction } from "@/lib/db"
+import { VoidService, VoidReason, VOID_REASON_LABELS } from "@/lib/services/voidService"
+import { useAuthStore } from "@/lib/stores/authStore"
+import ApprovalModal, { ApprovalPrompt } from "@/components/security/approval-modal"
+
+interface VoidTransactionModalProps {
+  transaction: Transaction | null
+  onClose: () => void
+  onVoided: () => void
+}
+
+export default function VoidTransactionModal({ transaction, onClose, onVoided }: VoidTransactionModalProps) {
+  const { user } = useAuthStore()
+  const [reason, setReason] = useState<VoidReason>('wrong_item')
+  const [note, setNote] = useState("")
+  const [needsApproval, setNeedsApproval] = useState(false)
+  const [approvalPrompt, setApprovalPrompt] = useState<ApprovalPrompt | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    setReason('wrong_item')
+    setNote("")
+    setApprovalPrompt(null)
+    setError("")
+  }, [transaction])
+
+  // Same rule VoidService.requiresApproval enforces when the void is submitted
+  useEffect(() => {
+    if (!user) return
+    VoidService.requiresApproval(user).then(setNeedsApproval).catch((err) => {
+      console.error("Error checking void approval:", err)
+      setNeedsApproval(true)
+    })
+  }, [user])
+
+  if (!transaction || !user) return null
+
+  const handleSubmit = async () => {
+    if (reason === 'other' && !note.trim()) {
+      setError("Keterangan wajib diisi untuk alasan lainnya")
+      return
+    }
+    if (needsApproval) {
+      setApprovalPrompt({
+        action: 'void',
+        description: `Void ${transaction.transactionNumber} senilai Rp ${transaction.total.toLocaleString("id-ID")}.`,
+        transactionId: transaction.id,
+        details: { reason, total: transaction.total },
+      })
+      return
+    }
+    await submitVoid()
+  }
+
+  const submitVoid = async (approval?: Approval) => {
+    setApprovalPrompt(null)
+    setLoading(true)
+    setError("")
+    try {
+      await VoidService.voidTransaction({
+        transactionId: transaction.id,
+        reason,
+        note,
+        user,
+        approvalId: approval?.id
+      })
+      toast.success(`Transaksi ${transaction.transactionNumber} berhasil di-void`)
+      onVoided()
+      onClose()
+    } catch (err) {
+      console.error("Error voiding transaction:", err)
+      setError(err instanceof Error ? err.message : "Void gagal")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <>
+      <Dialog open={!!transaction} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Void {transaction.transactionNumber}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Total Rp {transaction.total.toLocaleString("id-ID")}. Stok yang terpotong akan dikembalikan dan transaksi tetap tercatat dengan status void.
+            </p>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Alasan</label>
+              <Select value={reason} onValueChange={(value) => setReason(value as VoidReason)} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(VOID_REASON_LABELS) as VoidReason[]).map((code) => (
+                    <SelectItem key={code} value={code}>{VOID_REASON_LABELS[code]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Keterangan</label>
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Keterangan tambahan"
+                disabled={loading}
+              />
+            </div>
+
+            {needsApproval && (
+              <p className="text-xs text-muted-foreground">Void memerlukan PIN owner atau supervisor.</p>
+            )}
+
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+                <p className="text-sm text-destructive">{error}</p>
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" onClick={onClose} disabled={loading} className="flex-1">
+                Batal
+              </Button>
+              <Button variant="destructive" onClick={handleSubmit} disabled={loading} className="flex-1">
+                {loading ? "Memproses..." : "Void Transaksi"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+      <ApprovalModal prompt={approvalPrompt} onApproved={submitVoid} onClose={() => setApprovalPrompt(null)} />
+    </>
+  )
+}
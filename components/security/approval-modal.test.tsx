@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { v7 as uuidv7 } from 'uuid';
+import { db, User } from '@/lib/db';
+import { useAuthStore } from '@/lib/stores/authStore';
+import { useLockScreenStore } from '@/lib/services/lockScreenService';
+import { ApprovalService } from '@/lib/services/approvalService';
+import ApprovalModal from './approval-modal';
+
+const now = new Date();
+
+const person = (fields: Partial<User>): User => ({
+  id: uuidv7(),
+  supabaseId: uuidv7(),
+  email: `${uuidv7()}@example.com`,
+  name: 'Pengguna',
+  role: 'kasir',
+  pin: '',
+  createdAt: now,
+  updatedAt: now,
+  deletedAt: null,
+  ...fields
+});
+
+const owner = person({ name: 'Pemilik', role: 'owner', pin: '1357' });
+const cashier = person({ name: 'Kasir', pin: '2468' });
+
+const failedAttempts = () => db.auditLog.where('action').equals('approval.fail').count();
+
+const enterPin = (pin: string) => {
+  for (const digit of pin) {
+    fireEvent.click(screen.getByRole('button', { name: digit }));
+  }
+  fireEvent.click(screen.getByRole('button', { name: 'Setujui' }));
+};
+
+beforeEach(async () => {
+  await db.users.bulkPut([owner, cashier]);
+  await db.auditLog.clear();
+  useAuthStore.setState({ user: cashier });
+  useLockScreenStore.setState({ approvalAttempts: 0, approvalLockoutLevel: 0, approvalLockoutUntil: null });
+});
+
+afterEach(cleanup);
+
+describe('ApprovalModal', () => {
+  it('locks after too many wrong PINs, even for the right one', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const onApproved = vi.fn();
+    render(<ApprovalModal prompt={{ action: 'void' }} onApproved={onApproved} onClose={() => undefined} />);
+
+    const { maxAttempts } = useLockScreenStore.getState();
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      enterPin('0000');
+      await waitFor(async () => expect(await failedAttempts()).toBe(attempt));
+      await waitFor(() => expect(screen.getByRole('button', { name: 'Batal' })).toHaveProperty('disabled', false));
+    }
+
+    expect(await screen.findByText(/Terlalu banyak PIN salah/)).toBeTruthy();
+    expect(screen.getByRole('button', { name: '1' })).toHaveProperty('disabled', true);
+
+    // The pad is disabled, but the lockout holds in the service too
+    await expect(ApprovalService.approve({ action: 'void', pin: owner.pin, requestedBy: cashier.id })).rejects.toThrow(/locked/);
+    expect(onApproved).not.toHaveBeenCalled();
+
+    const failures = await db.auditLog.where('action').equals('approval.fail').sortBy('sequence');
+    expect(failures).toHaveLength(maxAttempts + 1);
+    expect(failures[maxAttempts].after).toMatchObject({ action: 'void', lockedOut: true });
+  });
+
+  it('approves with the right PIN', async () => {
+    const onApproved = vi.fn();
+    render(<ApprovalModal prompt={{ action: 'void' }} onApproved={onApproved} onClose={() => undefined} />);
+
+    enterPin(owner.pin);
+
+    await waitFor(() => expect(onApproved).toHaveBeenCalledWith(expect.objectContaining({ approvedBy: owner.id })));
+  });
+});
@@ -0,0 +1,115 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ShieldCheck } from "lucide-react";
+import { Approval } from "@/lib/db";
+import { ApprovalAction } from "@/lib/types/settings";
+import { ApprovalService, APPROVAL_ACTION_LABELS } from "@/lib/services/approvalService";
+import { useAuthStore } from "@/lib/stores/authStore";
+import { useLockScreenStore } from "@/lib/services/lockScreenService";
+import PinPad from "./pin-pad";
+
+export interface ApprovalPrompt {
+  action: ApprovalAction;
+  description?: string; // What exactly is being approved, shown above the PIN pad
+  transactionId?: string | null;
+  details?: Record<string, any> | null;
+}
+
+interface ApprovalModalProps {
+  prompt: ApprovalPrompt | null;
+  onApproved: (approval: Approval) => void;
+  onClose: () => void;
+}
+
+// An owner or supervisor enters their PIN on the cashier's device to let one restricted action through
+export default function ApprovalModal({ prompt, onApproved, onClose }: ApprovalModalProps) {
+  const { user } = useAuthStore();
+  const [pin, setPin] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const { approvalLockoutUntil } = useLockScreenStore();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setPin("");
+    setError("");
+  }, [prompt]);
+
+  // Tick while approvals are locked out so the countdown updates and the PIN pad re-enables by itself
+  useEffect(() => {
+    setNow(Date.now());
+    if (!approvalLockoutUntil || approvalLockoutUntil <= Date.now()) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [approvalLockoutUntil]);
+
+  if (!prompt || !user) return null;
+
+  const lockoutSeconds = approvalLockoutUntil ? Math.max(0, Math.ceil((approvalLockoutUntil - now) / 1000)) : 0;
+  const isLockedOut = lockoutSeconds > 0;
+
+  const handleApprove = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const approval = await ApprovalService.approve({
+        action: prompt.action,
+        pin,
+        requestedBy: user.id,
+        transactionId: prompt.transactionId,
+        details: prompt.details,
+      });
+      onApproved(approval);
+    } catch (err) {
+      console.error("Approval failed:", err);
+      setError("PIN salah atau tidak berhak menyetujui aksi ini");
+      setPin("");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!prompt} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Persetujuan: {APPROVAL_ACTION_LABELS[prompt.action]}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {prompt.description || "Aksi ini memerlukan persetujuan."} Minta owner atau supervisor memasukkan PIN.
+          </p>
+
+          <PinPad value={pin} onChange={setPin} disabled={loading || isLockedOut} />
+
+          {isLockedOut ? (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">
+                Terlalu banyak PIN salah. Coba lagi dalam {lockoutSeconds} detik.
+              </p>
+            </div>
+          ) : error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={loading} className="flex-1">
+              Batal
+            </Button>
+            <Button onClick={handleApprove} disabled={loading || isLockedOut || pin.length < 4} className="flex-1">
+              {loading ? "Memeriksa..." : "Setujui"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
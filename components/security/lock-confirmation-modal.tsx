@@ -6,6 +6,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Lock, AlertTriangle, X } from "lucide-react"
 import { LockScreenService } from "@/lib/services/lockScreenService"
 import { useLockScreenStore } from "@/lib/services/lockScreenService"
+import { useAuthStore } from "@/lib/stores/authStore"
 
 interface LockConfirmationModalProps {
   isOpen: boolean
@@ -16,6 +17,9 @@ interface LockConfirmationModalProps {
 export default function LockConfirmationModal({ isOpen, onClose, onLock }: LockConfirmationModalProps) {
   const [isLoading, setIsLoading] = useState(false)
   const { isLocked } = useLockScreenStore()
+  const { user } = useAuthStore()
+  // Without a PIN there would be no way to unlock again
+  const hasPin = !!user?.pin
 
   if (!isOpen) return null
 
@@ -66,7 +70,9 @@ export default function LockConfirmationModal({ isOpen, onClose, onLock }: LockC
           <Alert variant="destructive">
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
-              Kasir akan terkunci dan memerlukan PIN untuk membuka kembali.
+              {hasPin
+                ? "Kasir akan terkunci dan memerlukan PIN untuk membuka kembali."
+                : "Anda belum mengatur PIN. Atur PIN di Pengaturan > Kasir sebelum mengunci kasir."}
             </AlertDescription>
           </Alert>
         </div>
@@ -92,7 +98,7 @@ export default function LockConfirmationModal({ isOpen, onClose, onLock }: LockC
           </Button>
           <Button
             onClick={handleLockConfirm}
-            disabled={isLoading || isLocked}
+            disabled={isLoading || isLocked || !hasPin}
             className="flex-1 bg-destructive hover:bg-destructive/90"
           >
             {isLoading ? (
@@ -1,11 +1,13 @@
 "use client";
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useLockScreenStore } from "@/lib/services/lockScreenService";
 import { useAuthStore } from "@/lib/stores/authStore";
-import { Lock, Unlock, User } from "lucide-react";
+import { db, User as UserRecord } from "@/lib/db";
+import PinPad from "./pin-pad";
+import { Lock, Unlock, User, Users, ArrowLeft } from "lucide-react";
 
 interface LockScreenProps {
   onUnlock: () => void;
@@ -15,8 +17,39 @@ export default function LockScreen({ onUnlock }: LockScreenProps) {
   const [pin, setPin] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const { isLocked, unlockAttempts, maxAttempts } = useLockScreenStore();
+  const { isLocked, unlockAttempts, maxAttempts, lockoutUntil } = useLockScreenStore();
   const { user } = useAuthStore();
+  const [now, setNow] = useState(() => Date.now());
+  const [mode, setMode] = useState<"unlock" | "switch">("unlock");
+  const [cashiers, setCashiers] = useState<UserRecord[]>([]);
+  const [selectedCashierId, setSelectedCashierId] = useState<string | null>(null);
+
+  // Tick while locked out so the countdown updates and the form re-enables by itself
+  useEffect(() => {
+    if (!lockoutUntil || lockoutUntil <= Date.now()) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockoutUntil]);
+
+  // Only cashiers who have set a PIN can take over the terminal
+  useEffect(() => {
+    if (mode !== "switch") return;
+    db.users
+      .filter(u => !u.deletedAt && !!u.pin && u.id !== user?.id)
+      .toArray()
+      .then(setCashiers)
+      .catch((err) => console.error("Error loading cashiers:", err));
+  }, [mode, user?.id]);
+
+  // Always reopen in unlock mode
+  useEffect(() => {
+    if (!isLocked) {
+      setMode("unlock");
+      setSelectedCashierId(null);
+      setPin("");
+      setError(null);
+    }
+  }, [isLocked]);
 
   // If screen is not locked, don't render anything
   if (!isLocked) {
@@ -41,6 +74,7 @@ export default function LockScreen({ onUnlock }: LockScreenProps) {
       if (success) {
         onUnlock();
       } else {
+        setNow(Date.now());
         setError("Incorrect PIN. Please try again.");
         setPin("");
       }
@@ -52,7 +86,50 @@ export default function LockScreen({ onUnlock }: LockScreenProps) {
     }
   };
 
+  const handleSwitch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedCashierId) {
+      setError("Please choose a cashier");
+      return;
+    }
+    if (!pin) {
+      setError("Please enter the cashier's PIN");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { switchUser } = useLockScreenStore.getState();
+      const success = await switchUser(selectedCashierId, pin);
+
+      if (success) {
+        onUnlock();
+      } else {
+        setNow(Date.now());
+        setError("Incorrect PIN. Please try again.");
+        setPin("");
+      }
+    } catch (err) {
+      console.error("Error switching cashier:", err);
+      setError(err instanceof Error ? err.message : "Failed to switch cashier. Please try again.");
+      setPin("");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changeMode = (next: "unlock" | "switch") => {
+    setMode(next);
+    setSelectedCashierId(null);
+    setPin("");
+    setError(null);
+  };
+
   const remainingAttempts = maxAttempts - unlockAttempts;
+  const lockoutSeconds = lockoutUntil ? Math.max(0, Math.ceil((lockoutUntil - now) / 1000)) : 0;
+  const isLockedOut = lockoutSeconds > 0;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
@@ -61,12 +138,86 @@ export default function LockScreen({ onUnlock }: LockScreenProps) {
           <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
             <Lock className="h-6 w-6 text-primary" />
           </div>
-          <CardTitle className="text-2xl font-bold">Screen Locked</CardTitle>
+          <CardTitle className="text-2xl font-bold">
+            {mode === "switch" ? "Switch Cashier" : "Screen Locked"}
+          </CardTitle>
           <p className="text-sm text-muted-foreground">
-            Enter your PIN to unlock
+            {mode === "switch" ? "Choose a cashier and enter their PIN" : "Enter your PIN to unlock"}
           </p>
         </CardHeader>
         <CardContent>
+          {mode === "switch" ? (
+            <form onSubmit={handleSwitch} className="space-y-4">
+              <div className="grid max-h-40 grid-cols-2 gap-2 overflow-y-auto">
+                {cashiers.map((cashier) => (
+                  <Button
+                    key={cashier.id}
+                    type="button"
+                    variant={selectedCashierId === cashier.id ? "default" : "outline"}
+                    className="justify-start gap-2 truncate"
+                    onClick={() => {
+                      setSelectedCashierId(cashier.id);
+                      setPin("");
+                      setError(null);
+                    }}
+                    disabled={isLoading}
+                  >
+                    <User className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{cashier.name}</span>
+                  </Button>
+                ))}
+                {cashiers.length === 0 && (
+                  <p className="col-span-2 py-2 text-center text-sm text-muted-foreground">
+                    No other cashier has a PIN set
+                  </p>
+                )}
+              </div>
+
+              {selectedCashierId && (
+                <PinPad value={pin} onChange={setPin} disabled={isLoading || isLockedOut} />
+              )}
+
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+
+              {isLockedOut ? (
+                <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+                  Too many incorrect attempts. Try again in {lockoutSeconds}s
+                </div>
+              ) : remainingAttempts < maxAttempts && (
+                <div className="rounded-md bg-warning/10 p-3 text-center text-sm text-warning">
+                  {remainingAttempts} attempts remaining
+                </div>
+              )}
+
+              <div className="flex items-center justify-between pt-2">
+                <Button type="button" variant="ghost" className="gap-2" onClick={() => changeMode("unlock")} disabled={isLoading}>
+                  <ArrowLeft className="h-4 w-4" />
+                  Back
+                </Button>
+                <Button
+                  type="submit"
+                  className="gap-2"
+                  disabled={isLoading || isLockedOut || !selectedCashierId || !pin}
+                >
+                  {isLoading ? (
+                    <>
+                      <div className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                      Switching...
+                    </>
+                  ) : (
+                    <>
+                      <Users className="h-4 w-4" />
+                      Switch
+                    </>
+                  )}
+                </Button>
+              </div>
+            </form>
+          ) : (
           <form onSubmit={handleUnlock} className="space-y-4">
             <div className="space-y-2">
               <div className="text-sm font-medium text-foreground">
@@ -81,7 +232,7 @@ export default function LockScreen({ onUnlock }: LockScreenProps) {
                   placeholder="••••"
                   className="pr-10 text-center text-2xl tracking-widest"
                   maxLength={6}
-                  disabled={isLoading}
+                  disabled={isLoading || isLockedOut}
                   autoFocus
                 />
                 <div className="absolute right-3 top-1/2 -translate-y-1/2">
@@ -96,7 +247,11 @@ export default function LockScreen({ onUnlock }: LockScreenProps) {
               </div>
             )}
 
-            {remainingAttempts < maxAttempts && (
+            {isLockedOut ? (
+              <div className="rounded-md bg-destructive/10 p-3 text-center text-sm text-destructive">
+                Too many incorrect attempts. Try again in {lockoutSeconds}s
+              </div>
+            ) : remainingAttempts < maxAttempts && (
               <div className="rounded-md bg-warning/10 p-3 text-center text-sm text-warning">
                 {remainingAttempts} attempts remaining
               </div>
@@ -110,7 +265,7 @@ export default function LockScreen({ onUnlock }: LockScreenProps) {
               <Button
                 type="submit"
                 className="gap-2"
-                disabled={isLoading || !pin.trim()}
+                disabled={isLoading || isLockedOut || !pin.trim()}
               >
                 {isLoading ? (
                   <>
@@ -125,7 +280,13 @@ export default function LockScreen({ onUnlock }: LockScreenProps) {
                 )}
               </Button>
             </div>
+
+            <Button type="button" variant="outline" className="w-full gap-2" onClick={() => changeMode("switch")} disabled={isLoading}>
+              <Users className="h-4 w-4" />
+              Switch Cashier
+            </Button>
           </form>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,48 @@
+"use client";
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Delete } from "lucide-react";
+
+interface PinPadProps {
+  value: string;
+  onChange: (value: string) => void;
+  maxLength?: number;
+  disabled?: boolean;
+}
+
+const DIGITS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+export default function PinPad({ value, onChange, maxLength = 6, disabled = false }: PinPadProps) {
+  const press = (digit: string) => {
+    if (value.length < maxLength) onChange(value + digit);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex h-10 items-center justify-center gap-2">
+        {Array.from({ length: maxLength }).map((_, i) => (
+          <div
+            key={i}
+            className={`h-3 w-3 rounded-full border border-primary ${i < value.length ? "bg-primary" : ""}`}
+          />
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {DIGITS.map((digit) => (
+          <Button key={digit} type="button" variant="outline" className="h-12 text-lg" onClick={() => press(digit)} disabled={disabled}>
+            {digit}
+          </Button>
+        ))}
+        <Button type="button" variant="ghost" className="h-12" onClick={() => onChange("")} disabled={disabled || !value}>
+          Clear
+        </Button>
+        <Button type="button" variant="outline" className="h-12 text-lg" onClick={() => press("0")} disabled={disabled}>
+          0
+        </Button>
+        <Button type="button" variant="ghost" className="h-12" onClick={() => onChange(value.slice(0, -1))} disabled={disabled || !value}>
+          <Delete className="h-5 w-5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client"
+import React, { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, Save, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { AccessTemplate } from "@/lib/db";
+import { PermissionService } from "@/lib/services/permissionService";
+import { ALL_PERMISSIONS, PERMISSION_MODULES, hasPermission } from "@/lib/config/permissions";
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+// Wildcards are expanded so each permission can be toggled on its own
+const toDraft = (template: AccessTemplate): TemplateDraft => ({
+  id: template.id,
+  name: template.name,
+  description: template.description || "",
+  permissions: ALL_PERMISSIONS.filter(permission => hasPermission(template.permissions, permission)),
+});
+
+export default function AccessSettings() {
+  const [templates, setTemplates] = useState<AccessTemplate[]>([]);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const templateList = await PermissionService.getTemplates();
+      setTemplates(templateList);
+      return templateList;
+    } catch (error) {
+      console.error("Error loading access templates:", error);
+      toast.error("Gagal memuat hak akses");
+      return [];
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData().then((templateList) => {
+      const supervisor = templateList.find(template => template.id === 'system_supervisor');
+      if (supervisor) setDraft(toDraft(supervisor));
+    });
+  }, [loadData]);
+
+  const isOwnerTemplate = draft?.id === 'system_owner';
+  const selectedTemplate = templates.find(template => template.id === draft?.id);
+
+  const togglePermission = (permission: string, checked: boolean) => {
+    setDraft((prev) => prev && ({
+      ...prev,
+      permissions: checked
+        ? [...prev.permissions, permission]
+        : prev.permissions.filter(p => p !== permission),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error("Nama template wajib diisi");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await PermissionService.saveTemplate(draft);
+      await loadData();
+      setDraft(toDraft(saved));
+      toast.success("Template hak akses berhasil disimpan");
+    } catch (error) {
+      console.error("Failed to save access template:", error);
+      toast.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedTemplate || selectedTemplate.isSystem) return;
+    if (!window.confirm(`Hapus template "${selectedTemplate.name}"? Pengguna template ini kembali ke template bawaan perannya.`)) return;
+
+    try {
+      await PermissionService.deleteTemplate(selectedTemplate.id);
+      await loadData();
+      setDraft(null);
+      toast.success("Template dihapus");
+    } catch (error) {
+      console.error("Failed to delete access template:", error);
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Template Hak Akses</CardTitle>
+          <CardDescription>
+            Atur modul dan aksi yang boleh dilakukan setiap template. Owner selalu memiliki akses penuh.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {templates.map((template) => (
+              <Button
+                key={template.id}
+                variant={draft?.id === template.id ? "default" : "outline"}
+                size="sm"
+                onClick={() => setDraft(toDraft(template))}
+                className="gap-2"
+              >
+                {template.name}
+                {template.isSystem && <Badge variant="secondary" className="text-xs">Bawaan</Badge>}
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ name: "", description: "", permissions: [] })}
+              className="gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Template Baru
+            </Button>
+          </div>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Nama</label>
+                  <Input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    disabled={isOwnerTemplate || saving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Keterangan</label>
+                  <Input
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    disabled={isOwnerTemplate || saving}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {PERMISSION_MODULES.map((module) => (
+                  <div key={module.key} className="p-3 border border-border rounded-lg space-y-2">
+                    <p className="text-sm font-semibold">{module.label}</p>
+                    {module.permissions.map((permission) => (
+                      <label key={permission.key} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.permissions.includes(permission.key)}
+                          onCheckedChange={(checked) => togglePermission(permission.key, checked === true)}
+                          disabled={isOwnerTemplate || saving}
+                        />
+                        {permission.label}
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              {!isOwnerTemplate && (
+                <div className="flex justify-end gap-2">
+                  {selectedTemplate && !selectedTemplate.isSystem && (
+                    <Button variant="outline" onClick={handleDelete} disabled={saving} className="gap-2 text-destructive hover:text-destructive">
+                      <Trash2 className="w-4 h-4" />
+                      Hapus
+                    </Button>
+                  )}
+                  <Button onClick={handleSave} disabled={saving} className="gap-2">
+                    <Save className="w-4 h-4" />
+                    {saving ? "Menyimpan..." : "Simpan Template"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
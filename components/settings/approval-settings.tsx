@@ -0,0 +1,89 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { toast } from "react-hot-toast"
+import { ShieldCheck } from "lucide-react"
+import { settingsService } from "@/lib/services/settingsService"
+import { APPROVAL_ACTION_LABELS } from "@/lib/services/approvalService"
+import { useAuthStore } from "@/lib/stores/authStore"
+import { ApprovalAction, ApprovalRule, ApprovalSettings as ApprovalPolicy } from "@/lib/types/settings"
+
+const ACTIONS = Object.keys(APPROVAL_ACTION_LABELS) as ApprovalAction[]
+
+const THRESHOLD_LABELS: Partial<Record<ApprovalAction, string>> = {
+  discount: "Kasir boleh memberi diskon sampai (%)",
+  priceOverride: "Kasir boleh mengubah harga sampai (%)",
+}
+
+// Which cashier actions need an owner's or supervisor's PIN
+export default function ApprovalSettings() {
+  const { user, can } = useAuthStore()
+  const [policy, setPolicy] = useState<ApprovalPolicy | null>(null)
+  const canEdit = can("settings.update")
+
+  useEffect(() => {
+    settingsService.getSettings('approvals').then((settings) => setPolicy(settings ?? null))
+  }, [])
+
+  const updateRule = async (action: ApprovalAction, changes: Partial<ApprovalRule>) => {
+    if (!user || !policy) return
+    const updated = { ...policy, [action]: { ...policy[action], ...changes } }
+    try {
+      await settingsService.saveSettings('approvals', updated, user.id)
+      setPolicy(updated)
+    } catch (error) {
+      console.error('Error saving approval policy:', error)
+      toast.error("Gagal menyimpan kebijakan persetujuan")
+    }
+  }
+
+  if (!policy) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Persetujuan Owner/Supervisor
+        </CardTitle>
+        <CardDescription>
+          Kasir bisa meminta aksi berikut, tetapi owner atau supervisor harus memasukkan PIN untuk menyetujuinya
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {ACTIONS.map((action) => (
+          <div key={action} className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <label htmlFor={`approval-${action}`} className="text-sm font-medium text-foreground">
+                {APPROVAL_ACTION_LABELS[action]}
+              </label>
+              <Switch
+                id={`approval-${action}`}
+                checked={policy[action].required}
+                onCheckedChange={(required) => updateRule(action, { required })}
+                disabled={!canEdit}
+              />
+            </div>
+            {THRESHOLD_LABELS[action] && policy[action].required && (
+              <div className="flex items-center justify-between gap-4 pl-4">
+                <span className="text-xs text-muted-foreground">{THRESHOLD_LABELS[action]}</span>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  defaultValue={policy[action].threshold}
+                  onBlur={(e) => updateRule(action, { threshold: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                  disabled={!canEdit}
+                  className="h-8 w-24 text-sm"
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
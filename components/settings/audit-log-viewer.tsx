@@ -0,0 +1,205 @@
+"use client"
+import React, { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, ShieldAlert, ShieldCheck } from "lucide-react";
+import toast from "react-hot-toast";
+import { db, AuditLogEntry } from "@/lib/db";
+import { AuditLogService, AuditChainIssue, AuditChainReport } from "@/lib/services/auditLogService";
+import { ExportService } from "@/lib/services/exportService";
+
+const ALL = "all";
+
+const ACTION_LABELS: Record<string, string> = {
+  "user.switch": "Ganti kasir",
+  "product.update": "Ubah harga/HPP/stok produk",
+  "stock.adjust": "Penyesuaian stok",
+  "stock_opname.apply": "Terapkan stok opname",
+  "invoice.payment": "Pembayaran faktur",
+  "transaction.delete": "Hapus transaksi",
+  "transaction.hard_delete": "Hapus permanen transaksi",
+  "transaction.restore": "Pulihkan transaksi",
+  "settings.update": "Ubah pengaturan",
+  "approval.grant": "Persetujuan PIN",
+  "approval.fail": "PIN persetujuan salah",
+  "cash_drawer.open": "Buka laci tanpa penjualan",
+  "cash_movement.create": "Kas masuk/keluar",
+  "shift.handover": "Serah terima kasir",
+};
+
+const CHAIN_ISSUE_LABELS: Record<AuditChainIssue["reason"], string> = {
+  gap: "catatan hilang",
+  broken_link: "rantai terputus",
+  modified: "isi diubah",
+  truncated: "catatan terbaru dihapus",
+};
+
+const formatChanges = (values: Record<string, any> | null) =>
+  values ? Object.entries(values).map(([key, value]) => `${key}: ${typeof value === "object" ? JSON.stringify(value) : value}`).join(", ") : "-";
+
+export default function AuditLogViewer() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [action, setAction] = useState(ALL);
+  const [actorId, setActorId] = useState(ALL);
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [report, setReport] = useState<AuditChainReport | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [list, users] = await Promise.all([
+        AuditLogService.getEntries({
+          action: action === ALL ? undefined : action,
+          actorId: actorId === ALL ? undefined : actorId,
+          dateFrom: dateFrom ? new Date(`${dateFrom}T00:00:00`) : undefined,
+          dateTo: dateTo ? new Date(`${dateTo}T23:59:59.999`) : undefined,
+        }),
+        db.users.toArray(),
+      ]);
+      setEntries(list);
+      setUserNames(Object.fromEntries(users.map(user => [user.id, user.name])));
+    } catch (error) {
+      console.error("Error loading audit log:", error);
+      toast.error("Gagal memuat audit log");
+    } finally {
+      setLoading(false);
+    }
+  }, [action, actorId, dateFrom, dateTo]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleVerify = async () => {
+    try {
+      setReport(await AuditLogService.verifyChain());
+    } catch (error) {
+      console.error("Error verifying audit log:", error);
+      toast.error("Gagal memverifikasi audit log");
+    }
+  };
+
+  const handleExport = async (format: "excel" | "csv") => {
+    try {
+      const date = new Date().toISOString().split("T")[0];
+      await ExportService.exportAuditLog(entries, userNames, {
+        format,
+        fileName: `audit-log-${date}.${format === "excel" ? "xlsx" : "csv"}`,
+        title: "Audit Log",
+      });
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      toast.error("Gagal mengekspor audit log");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+        <CardDescription>
+          Riwayat perubahan harga, stok, pembayaran, transaksi dan pengaturan. Catatan tidak bisa diubah atau dihapus.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger>
+              <SelectValue placeholder="Aksi" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua aksi</SelectItem>
+              {Object.entries(ACTION_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={actorId} onValueChange={setActorId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Pengguna" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua pengguna</SelectItem>
+              {Object.entries(userNames).map(([id, name]) => (
+                <SelectItem key={id} value={id}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+          <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={handleVerify} className="gap-2">
+            <ShieldCheck className="w-4 h-4" />
+            Verifikasi Rantai
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport("excel")} disabled={entries.length === 0} className="gap-2">
+            <Download className="w-4 h-4" />
+            Excel
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport("csv")} disabled={entries.length === 0} className="gap-2">
+            <Download className="w-4 h-4" />
+            CSV
+          </Button>
+        </div>
+
+        {report && (
+          <Alert variant={report.issues.length > 0 ? "destructive" : "default"}>
+            {report.issues.length > 0 ? <ShieldAlert className="h-4 w-4" /> : <ShieldCheck className="h-4 w-4" />}
+            <AlertDescription>
+              {report.issues.length > 0
+                ? `${report.issues.length} masalah ditemukan dari ${report.checked} catatan: ` +
+                  report.issues.slice(0, 5).map(issue =>
+                    `#${issue.sequence ?? "?"} (${CHAIN_ISSUE_LABELS[issue.reason]})`
+                  ).join(", ")
+                : `${report.checked} catatan terverifikasi, tidak ada yang dihapus atau diubah.`}
+              {report.unchained > 0 && ` ${report.unchained} catatan lama belum memiliki hash.`}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Waktu</TableHead>
+                <TableHead>Pengguna</TableHead>
+                <TableHead>Aksi</TableHead>
+                <TableHead>Keterangan</TableHead>
+                <TableHead>Sebelum</TableHead>
+                <TableHead>Sesudah</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap text-xs">{new Date(entry.createdAt).toLocaleString("id-ID")}</TableCell>
+                  <TableCell className="text-xs">{userNames[entry.actorId] || entry.actorId}</TableCell>
+                  <TableCell className="text-xs">{ACTION_LABELS[entry.action] || entry.action}</TableCell>
+                  <TableCell className="text-xs">{entry.note || entry.entityId || "-"}</TableCell>
+                  <TableCell className="text-xs max-w-xs break-words">{formatChanges(entry.before)}</TableCell>
+                  <TableCell className="text-xs max-w-xs break-words">{formatChanges(entry.after)}</TableCell>
+                </TableRow>
+              ))}
+              {entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground py-6">
+                    {loading ? "Memuat..." : "Belum ada catatan"}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
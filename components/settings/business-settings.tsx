@@ -2,14 +2,18 @@
 
 import type React from "react";
 import { useState, useEffect } from "react";
+import Image from "next/image";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Save } from "lucide-react";
+import { Save, Trash2 } from "lucide-react";
 import toast from "react-hot-toast";
 import { useSettingsStore } from "@/lib/stores/settingsStore";
 import { useAuthStore } from "@/lib/stores/authStore";
 import { BusinessSettings as BusinessSettingsType } from "@/lib/types/settings";
+import { QrisService } from "@/lib/services/qrisService";
+import { imageService } from "@/lib/services/imageService";
+import { PAPER_DOTS } from "@/lib/services/receiptLayout";
 import BusinessSettingsConfirmationModal from "./business-settings-modal";
 
 export default function BusinessSettings() {
@@ -23,6 +27,8 @@ export default function BusinessSettings() {
     businessAddress: "",
     businessEmail: "",
     businessWebsite: "",
+    qrisPayload: "",
+    businessLogo: "",
   });
 
   // Load initial settings
@@ -37,6 +43,31 @@ export default function BusinessSettings() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  // Stored small enough to sync with the other settings; printing dithers it down to the paper width
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const validation = imageService.validateImageFile(file);
+    if (!validation.isValid) {
+      toast.error(validation.error || "File logo tidak valid");
+      return;
+    }
+
+    try {
+      const compressed = await imageService.compressImage(file, {
+        maxSizeMB: 0.1,
+        maxWidthOrHeight: PAPER_DOTS["80mm"],
+      });
+      handleChange("businessLogo", await imageService.readAsDataUrl(compressed.file));
+      URL.revokeObjectURL(compressed.url);
+    } catch (error) {
+      console.error("Failed to load logo:", error);
+      toast.error("Gagal memuat logo");
+    }
+  };
+
   const handleSaveClick = (e: React.FormEvent) => {
     e.preventDefault();
     setLocalLoading(true);
@@ -85,12 +116,22 @@ export default function BusinessSettings() {
       });
       throw new Error("Invalid URL format");
     }
+
+    // Validate the static QRIS string, including its CRC
+    if (formData.qrisPayload && !QrisService.isValid(formData.qrisPayload)) {
+      toast.error("Kode QRIS tidak valid. Salin ulang string QRIS statis dari penyedia Anda.", {
+        duration: 4000,
+        position: 'top-right',
+      });
+      throw new Error("Invalid QRIS payload");
+    }
     
     try {
       // Format the URL before saving
       const formattedData = {
         ...formData,
-        businessWebsite: formatUrl(formData.businessWebsite || '')
+        businessWebsite: formatUrl(formData.businessWebsite || ''),
+        qrisPayload: (formData.qrisPayload || '').trim()
       };
       
       await updateSetting('business', formattedData, user.id);
@@ -185,6 +226,45 @@ export default function BusinessSettings() {
             />
           </div>
 
+          <div className="space-y-2">
+            <label htmlFor="business-logo" className="text-sm font-medium text-foreground">Logo Struk</label>
+            <div className="flex items-center gap-3">
+              {formData.businessLogo && (
+                <div className="relative h-16 w-16 shrink-0 border border-border rounded-lg bg-white overflow-hidden">
+                  <Image src={formData.businessLogo} alt="Logo" fill className="object-contain" />
+                </div>
+              )}
+              <Input id="business-logo" type="file" accept="image/*" onChange={handleLogoChange} className="flex-1" />
+              {formData.businessLogo && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => handleChange("businessLogo", "")}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Dicetak hitam putih di bagian atas struk jika &quot;Tampilkan Logo&quot; aktif.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">QRIS Statis</label>
+            <textarea
+              value={formData.qrisPayload || ""}
+              onChange={(e) => handleChange("qrisPayload", e.target.value)}
+              placeholder="00020101021126..."
+              className="w-full h-20 p-3 border border-border rounded-lg bg-background text-foreground font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              String hasil pindai QRIS statis toko. Dipakai untuk membuat QRIS dinamis dengan nominal saat pembayaran.
+            </p>
+          </div>
+
           <div className="flex justify-end pt-4 border-t border-border">
             <Button
               type="button"
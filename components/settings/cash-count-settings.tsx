@@ -0,0 +1,108 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { toast } from "react-hot-toast"
+import { Coins } from "lucide-react"
+import { settingsService } from "@/lib/services/settingsService"
+import { CashCountService, DEFAULT_CURRENCY } from "@/lib/services/cashCountService"
+import { useAuthStore } from "@/lib/stores/authStore"
+import { CashCountSettings as CashCountPolicy, Denomination } from "@/lib/types/settings"
+
+const KIND_LABELS: Record<Denomination["kind"], string> = {
+  note: "Uang kertas",
+  coin: "Uang koin",
+}
+
+// "100000, 50000" <-> denominations of one kind
+const formatValues = (denominations: Denomination[], kind: Denomination["kind"]) =>
+  denominations.filter((d) => d.kind === kind).map((d) => d.value).join(", ")
+
+const parseValues = (text: string, kind: Denomination["kind"]): Denomination[] =>
+  Array.from(new Set(text.split(",").map((v) => Number(v.trim())).filter((v) => v > 0)))
+    .sort((a, b) => b - a)
+    .map((value) => ({ value, kind }))
+
+// Denominations offered when counting the drawer, and whether the close is blind
+export default function CashCountSettings() {
+  const { user, can } = useAuthStore()
+  const [policy, setPolicy] = useState<CashCountPolicy | null>(null)
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
+  const canEdit = can("settings.update")
+
+  useEffect(() => {
+    Promise.all([CashCountService.getSettings(), settingsService.getSettings('general')]).then(([settings, general]) => {
+      setPolicy(settings)
+      setCurrency(general?.currency || DEFAULT_CURRENCY)
+    })
+  }, [])
+
+  const save = async (updated: CashCountPolicy) => {
+    if (!user) return
+    try {
+      await settingsService.saveSettings('cashCount', updated, user.id)
+      setPolicy(updated)
+    } catch (error) {
+      console.error('Error saving cash count settings:', error)
+      toast.error("Gagal menyimpan pengaturan hitung kas")
+    }
+  }
+
+  const updateKind = (kind: Denomination["kind"], text: string) => {
+    if (!policy) return
+    const current = policy.denominations[currency] || []
+    const denominations = [...current.filter((d) => d.kind !== kind), ...parseValues(text, kind)]
+    save({ ...policy, denominations: { ...policy.denominations, [currency]: denominations } })
+  }
+
+  if (!policy) return null
+
+  const denominations = policy.denominations[currency] || []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="w-5 h-5" />
+          Hitung Kas
+        </CardTitle>
+        <CardDescription>
+          Pecahan uang {currency} yang dihitung kasir saat buka dan tutup kasir. Kosongkan untuk mengetik total saja.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(["note", "coin"] as const).map((kind) => (
+          <div key={`${currency}-${kind}`} className="space-y-2">
+            <label htmlFor={`denominations-${kind}`} className="text-sm font-medium text-foreground">
+              {KIND_LABELS[kind]}
+            </label>
+            <Input
+              id={`denominations-${kind}`}
+              defaultValue={formatValues(denominations, kind)}
+              onBlur={(e) => updateKind(kind, e.target.value)}
+              placeholder={kind === "note" ? "100000, 50000, 20000" : "1000, 500"}
+              disabled={!canEdit}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <label htmlFor="blind-close" className="text-sm font-medium text-foreground">Tutup kasir buta</label>
+            <p className="text-xs text-muted-foreground">
+              Kasir tidak melihat kas yang seharusnya ada sampai hitungannya dikirim
+            </p>
+          </div>
+          <Switch
+            id="blind-close"
+            checked={policy.blindClose}
+            onCheckedChange={(blindClose) => save({ ...policy, blindClose })}
+            disabled={!canEdit}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
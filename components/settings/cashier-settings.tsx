@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -8,7 +8,12 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { LockScreenService } from "@/lib/services/lockScreenService"
 import { useAuthStore } from "@/lib/stores/authStore"
 import { useLockScreenStore } from "@/lib/services/lockScreenService"
+import { PinService } from "@/lib/services/pinService"
+import { settingsService } from "@/lib/services/settingsService"
+import { DEFAULT_OFFLINE_GRACE_DAYS } from "@/lib/services/offlineGraceService"
 import { Lock, Shield, AlertTriangle, CheckCircle } from "lucide-react"
+import ApprovalSettings from "./approval-settings"
+import CashCountSettings from "./cash-count-settings"
 
 export default function CashierSettings() {
   const [isLoading, setIsLoading] = useState(false)
@@ -17,11 +22,18 @@ export default function CashierSettings() {
   const [newPin, setNewPin] = useState("")
   const [confirmPin, setConfirmPin] = useState("")
   const [timeoutValue, setTimeoutValue] = useState(15)
+  const [graceDays, setGraceDays] = useState(DEFAULT_OFFLINE_GRACE_DAYS)
   
-  const { user } = useAuthStore()
+  const { user, can } = useAuthStore()
   const { isLocked } = useLockScreenStore()
   const [isPinEnabled, setIsPinEnabled] = useState(user?.pin ? true : false)
 
+  useEffect(() => {
+    settingsService.getSettings('lockScreen').then((settings) => {
+      if (settings?.offlineGraceDays) setGraceDays(settings.offlineGraceDays)
+    })
+  }, [])
+
   const showMessage = (type: 'success' | 'error', text: string) => {
     setMessage({ type, text })
     setTimeout(() => setMessage(null), 3000)
@@ -61,7 +73,6 @@ export default function CashierSettings() {
         const { updateUserPin } = useAuthStore.getState()
         await updateUserPin(newPin)
         setIsPinEnabled(true)
-        setCurrentPin(newPin)
         setNewPin("")
         setConfirmPin("")
         showMessage('success', "PIN berhasil diaktifkan")
@@ -94,10 +105,15 @@ export default function CashierSettings() {
     setIsLoading(true)
     try {
       if (user) {
+        if (!(await PinService.verifyUserPin(user.id, currentPin))) {
+          showMessage('error', "PIN saat ini salah")
+          return
+        }
+
         // Update the user's PIN using the store function
         const { updateUserPin } = useAuthStore.getState()
         await updateUserPin(newPin)
-        setCurrentPin(newPin)
+        setCurrentPin("")
         setNewPin("")
         setConfirmPin("")
         showMessage('success', "PIN berhasil diubah")
@@ -110,9 +126,31 @@ export default function CashierSettings() {
     }
   }
 
-  const handleDisablePin = () => {
-    setIsPinEnabled(false)
-    showMessage('success', "PIN berhasil dinonaktifkan")
+  const handleDisablePin = async () => {
+    if (!user) return
+    if (!currentPin.trim()) {
+      showMessage('error', "Masukkan PIN saat ini untuk menonaktifkan PIN")
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      if (!(await PinService.verifyUserPin(user.id, currentPin))) {
+        showMessage('error', "PIN saat ini salah")
+        return
+      }
+
+      const { updateUserPin } = useAuthStore.getState()
+      await updateUserPin("")
+      setIsPinEnabled(false)
+      setCurrentPin("")
+      showMessage('success', "PIN berhasil dinonaktifkan")
+    } catch (error) {
+      console.error('Error disabling PIN:', error)
+      showMessage('error', "Gagal menonaktifkan PIN")
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   const handleTimeoutChange = (newTimeout: number) => {
@@ -121,6 +159,23 @@ export default function CashierSettings() {
     showMessage('success', "Timeout lock screen berhasil diperbarui")
   }
 
+  const handleGraceDaysChange = async (days: number) => {
+    if (!user) return
+    try {
+      const current = await settingsService.getSettings('lockScreen')
+      await settingsService.saveSettings('lockScreen', {
+        lockScreenEnabled: current?.lockScreenEnabled ?? false,
+        lockScreenTimeout: current?.lockScreenTimeout ?? 15,
+        offlineGraceDays: days,
+      }, user.id)
+      setGraceDays(days)
+      showMessage('success', "Masa offline berhasil diperbarui")
+    } catch (error) {
+      console.error('Error saving offline grace period:', error)
+      showMessage('error', "Gagal menyimpan masa offline")
+    }
+  }
+
   return (
     <div className="space-y-6">
       <div>
@@ -313,6 +368,42 @@ export default function CashierSettings() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Masa Offline</CardTitle>
+          <CardDescription>
+            Berapa lama perangkat boleh dipakai tanpa login ulang secara online
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="offline-grace" className="text-sm font-medium text-foreground">Masa Offline (hari)</label>
+            <select
+              id="offline-grace"
+              value={graceDays}
+              onChange={(e) => handleGraceDaysChange(Number(e.target.value))}
+              disabled={!can("settings.update")}
+              className="w-full p-2 border border-input rounded-md bg-background"
+            >
+              {[1, 3, 7, 14, 30].map((days) => (
+                <option key={days} value={days}>{days} hari</option>
+              ))}
+            </select>
+          </div>
+
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Setelah masa ini habis pengguna harus login ulang saat online. Shift yang sedang berjalan tetap bisa ditutup.
+            </AlertDescription>
+          </Alert>
+        </CardContent>
+      </Card>
+
+      <ApprovalSettings />
+
+      <CashCountSettings />
+
       {/* Messages */}
       {message && (
         <Alert variant={message.type === 'error' ? 'destructive' : 'default'}>
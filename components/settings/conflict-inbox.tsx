@@ -0,0 +1,205 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw, GitMerge, CheckCircle } from "lucide-react";
+import toast from "react-hot-toast";
+import { SyncConflict } from "@/lib/db";
+import { ConflictService } from "@/lib/services/conflictService";
+import { useAuthStore } from "@/lib/stores/authStore";
+import { useSyncStore } from "@/lib/stores/syncStore";
+
+const TABLE_LABELS: Record<string, string> = {
+  products: "Produk",
+  customers: "Pelanggan",
+  categories: "Kategori",
+  suppliers: "Supplier",
+  settings: "Pengaturan",
+  transactions: "Transaksi",
+  cashierShifts: "Shift Kasir",
+};
+
+const RULE_LABELS: Record<SyncConflict["fields"][number]["rule"], string> = {
+  delta: "Digabung (selisih)",
+  last_writer: "Perubahan terakhir",
+  manual: "Pilih manual",
+};
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === "") return "-";
+  if (typeof value === "number") return value.toLocaleString("id-ID");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export default function ConflictInbox() {
+  const { user } = useAuthStore();
+  const { isSyncing, pendingCount, lastSyncedAt, error, syncNow, refreshPendingCount } = useSyncStore();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const isOwner = user?.role === "owner";
+
+  const loadConflicts = useCallback(async () => {
+    try {
+      const result = await ConflictService.getConflicts(showResolved ? undefined : "open");
+      setConflicts(result);
+    } catch (error) {
+      console.error("Error loading conflicts:", error);
+      toast.error("Gagal memuat konflik sinkronisasi");
+    }
+  }, [showResolved]);
+
+  useEffect(() => {
+    loadConflicts();
+    refreshPendingCount();
+  }, [loadConflicts, refreshPendingCount]);
+
+  const handleSync = async () => {
+    await syncNow();
+    await loadConflicts();
+  };
+
+  const handleResolve = async (conflict: SyncConflict, winner: "local" | "remote") => {
+    if (!user?.id) return;
+
+    setResolvingId(conflict.id);
+    try {
+      await ConflictService.resolveConflict(conflict.id, winner, user.id);
+      toast.success("Konflik diselesaikan");
+      await loadConflicts();
+      await refreshPendingCount();
+    } catch (error) {
+      console.error("Error resolving conflict:", error);
+      toast.error((error as Error).message);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <RefreshCw className="w-5 h-5" />
+            Sinkronisasi
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center justify-between gap-4">
+          <div className="space-y-1 text-sm">
+            <p>Perubahan menunggu dikirim: <span className="font-semibold">{pendingCount}</span></p>
+            <p className="text-muted-foreground">
+              Terakhir sinkron: {lastSyncedAt ? new Date(lastSyncedAt).toLocaleString("id-ID") : "-"}
+            </p>
+            {error && <p className="text-destructive">{error}</p>}
+          </div>
+          <Button onClick={handleSync} disabled={isSyncing} className="gap-2">
+            <RefreshCw className={`w-4 h-4 ${isSyncing ? "animate-spin" : ""}`} />
+            {isSyncing ? "Menyinkronkan..." : "Sinkronkan Sekarang"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5" />
+            Konflik Data
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setShowResolved(!showResolved)}>
+            {showResolved ? "Sembunyikan Riwayat" : "Tampilkan Riwayat"}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!isOwner && (
+            <p className="text-sm text-muted-foreground">Hanya pemilik yang dapat memilih versi yang dipakai.</p>
+          )}
+
+          {conflicts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <CheckCircle className="w-8 h-8 mx-auto mb-2 text-green-600" />
+              Tidak ada konflik
+            </div>
+          ) : (
+            conflicts.map((conflict) => (
+              <div key={conflict.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">
+                      {TABLE_LABELS[conflict.tableName] || conflict.tableName}
+                      {" · "}
+                      {conflict.fields.find(f => f.field === "name")?.resolvedValue ?? conflict.recordId}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(conflict.createdAt).toLocaleString("id-ID")}
+                    </p>
+                  </div>
+                  <Badge
+                    className={
+                      conflict.status === "open" ? "bg-yellow-100 text-yellow-800" : "bg-green-100 text-green-800"
+                    }
+                  >
+                    {conflict.status === "open"
+                      ? "Perlu dipilih"
+                      : conflict.resolution === "auto"
+                        ? "Otomatis"
+                        : `Dipilih: ${conflict.resolution === "local" ? "perangkat ini" : "perangkat lain"}`}
+                  </Badge>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="py-1 pr-4">Field</th>
+                        <th className="py-1 pr-4">Aturan</th>
+                        <th className="py-1 pr-4">Perangkat ini</th>
+                        <th className="py-1 pr-4">Perangkat lain</th>
+                        <th className="py-1">Hasil</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {conflict.fields.map((field) => (
+                        <tr key={field.field} className="border-t">
+                          <td className="py-1 pr-4 font-medium">{field.field}</td>
+                          <td className="py-1 pr-4">{RULE_LABELS[field.rule]}</td>
+                          <td className="py-1 pr-4">{formatValue(field.localValue)}</td>
+                          <td className="py-1 pr-4">{formatValue(field.remoteValue)}</td>
+                          <td className="py-1">{formatValue(field.resolvedValue)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {conflict.status === "open" && isOwner && (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={resolvingId === conflict.id}
+                      onClick={() => handleResolve(conflict, "local")}
+                    >
+                      Pakai Perangkat Ini
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={resolvingId === conflict.id}
+                      onClick={() => handleResolve(conflict, "remote")}
+                    >
+                      Pakai Perangkat Lain
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
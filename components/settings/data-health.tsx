@@ -11,9 +11,11 @@ import {
   AlertTriangle, 
   CheckCircle,
   Database,
-  Trash2
+  Trash2,
+  ClipboardCheck
 } from "lucide-react";
 import { db } from "@/lib/db";
+import { StockLedgerService, StockVerificationResult } from "@/lib/services/stockLedgerService";
 
 export default function DataHealth() {
   const [isOptimizing, setIsOptimizing] = useState(false);
@@ -21,6 +23,8 @@ export default function DataHealth() {
   const [optimizationStatus, setOptimizationStatus] = useState<string | null>(null);
  const [archiveStatus, setArchiveStatus] = useState<string | null>(null);
   const [dbSize, setDbSize] = useState<number | null>(null);
+  const [isVerifyingStock, setIsVerifyingStock] = useState(false);
+  const [stockDrift, setStockDrift] = useState<StockVerificationResult[] | null>(null);
 
   // Get database size information
   const getDatabaseInfo = async () => {
@@ -119,6 +123,20 @@ export default function DataHealth() {
     }
   };
 
+  // Replay the stock ledger and compare it with each product's current stock
+  const verifyStock = async () => {
+    setIsVerifyingStock(true);
+    try {
+      const results = await StockLedgerService.verifyAllStock();
+      setStockDrift(results);
+    } catch (error) {
+      console.error("Stock verification error:", error);
+      setStockDrift(null);
+    } finally {
+      setIsVerifyingStock(false);
+    }
+  };
+
   React.useEffect(() => {
     getDatabaseInfo();
   }, []);
@@ -235,6 +253,52 @@ export default function DataHealth() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5" />
+            Stock Ledger Verification
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">
+            Replay every stock movement and compare the result with the current stock of each product.
+          </p>
+
+          <div className="space-y-4">
+            <Button
+              onClick={verifyStock}
+              disabled={isVerifyingStock}
+              variant="outline"
+              className="gap-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${isVerifyingStock ? 'animate-spin' : ''}`} />
+              {isVerifyingStock ? 'Verifying...' : 'Verify Stock'}
+            </Button>
+
+            {stockDrift && stockDrift.length === 0 && (
+              <Alert className="border-green-200 bg-green-50">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                <AlertDescription>All product stock matches the ledger.</AlertDescription>
+              </Alert>
+            )}
+
+            {stockDrift && stockDrift.length > 0 && (
+              <div className="space-y-2">
+                {stockDrift.map((result) => (
+                  <div key={result.productId} className="flex items-center justify-between p-3 bg-red-50 border border-red-200 rounded-lg text-sm">
+                    <span className="font-medium">{result.productName}</span>
+                    <span>
+                      Stock {result.currentStock} / Ledger {result.ledgerStock} ({result.difference > 0 ? '+' : ''}{result.difference})
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
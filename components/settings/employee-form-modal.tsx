@@ -0,0 +1,164 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "react-hot-toast"
+import { AccessTemplate, User } from "@/lib/db"
+import { EmployeeService } from "@/lib/services/employeeService"
+import { PinService } from "@/lib/services/pinService"
+import { getDefaultTemplateId } from "@/lib/config/permissions"
+
+interface EmployeeFormModalProps {
+  open: boolean
+  employee: User | null // Null to add a new employee
+  templates: AccessTemplate[]
+  onClose: () => void
+  onSaved: () => void
+}
+
+export default function EmployeeFormModal({ open, employee, templates, onClose, onSaved }: EmployeeFormModalProps) {
+  const [name, setName] = useState("")
+  const [email, setEmail] = useState("")
+  const [role, setRole] = useState<User["role"]>("kasir")
+  const [templateId, setTemplateId] = useState(getDefaultTemplateId("kasir"))
+  const [pin, setPin] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!open) return
+    setName(employee?.name || "")
+    setEmail(employee?.email || "")
+    setRole(employee?.role || "kasir")
+    setTemplateId(employee?.accessTemplateId || getDefaultTemplateId(employee?.role || "kasir"))
+    setPin("")
+    setError("")
+  }, [open, employee])
+
+  const isNew = !employee
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      setError("Nama wajib diisi")
+      return
+    }
+    if (isNew && !email.trim() && !pin) {
+      setError("Karyawan tanpa email wajib memiliki PIN")
+      return
+    }
+    if (isNew && pin && !PinService.isValidFormat(pin)) {
+      setError("PIN harus 4 sampai 6 digit angka")
+      return
+    }
+
+    setLoading(true)
+    setError("")
+    try {
+      const accessTemplateId = role === "owner" ? null : templateId
+      if (isNew) {
+        await EmployeeService.createEmployee({ name, email, role, pin, accessTemplateId })
+        toast.success(email.trim()
+          ? `${name} diundang. Akun aktif setelah login dengan ${email.trim()}`
+          : `${name} ditambahkan sebagai staf PIN`)
+      } else {
+        await EmployeeService.updateEmployee(employee.id, { name, role, accessTemplateId })
+        toast.success(`Data ${name} diperbarui`)
+      }
+      onSaved()
+      onClose()
+    } catch (err) {
+      console.error("Error saving employee:", err)
+      setError(err instanceof Error ? err.message : "Gagal menyimpan karyawan")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "Tambah Karyawan" : `Ubah ${employee.name}`}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Nama</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} disabled={loading} />
+          </div>
+
+          {isNew && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Email (opsional)</label>
+              <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} disabled={loading} />
+              <p className="text-xs text-muted-foreground">
+                Kosongkan untuk staf yang hanya masuk dengan PIN di perangkat ini.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Peran</label>
+            <Select value={role} onValueChange={(value) => setRole(value as User["role"])} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="kasir">Kasir</SelectItem>
+                <SelectItem value="owner">Owner</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {role !== "owner" && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Template Hak Akses</label>
+              <Select value={templateId} onValueChange={setTemplateId} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.filter(template => template.id !== "system_owner").map((template) => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {isNew && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">PIN {email.trim() ? "(opsional)" : ""}</label>
+              <Input
+                type="password"
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                maxLength={6}
+                disabled={loading}
+              />
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" onClick={onClose} disabled={loading} className="flex-1">
+              Batal
+            </Button>
+            <Button onClick={handleSubmit} disabled={loading} className="flex-1">
+              {loading ? "Menyimpan..." : "Simpan"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,151 @@
+"use client"
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save } from "lucide-react";
+import toast from "react-hot-toast";
+import { useSettingsStore } from "@/lib/stores/settingsStore";
+import { useAuthStore } from "@/lib/stores/authStore";
+import { settingsService } from "@/lib/services/settingsService";
+import { NumberingService } from "@/lib/services/numberingService";
+import { getDefaultDevicePrefix, getDevicePrefix, setDevicePrefix } from "@/lib/utils/device";
+import { DocumentType, NumberingPattern, NumberingSettings as NumberingSettingsType } from "@/lib/types/settings";
+
+const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  TRX: "Transaksi Penjualan",
+  INV: "Faktur Pembelian",
+  RT: "Retur Stok",
+  PO: "Pesanan Pembelian",
+  REFUND: "Refund Pelanggan",
+};
+
+export default function NumberingSettings() {
+  const { getSetting, updateSetting } = useSettingsStore();
+  const { user } = useAuthStore();
+  const [localLoading, setLocalLoading] = useState(false);
+  const [settings, setSettings] = useState<NumberingSettingsType | null>(null);
+  const [prefix, setPrefix] = useState("");
+  const [defaultPrefix, setDefaultPrefix] = useState("");
+
+  // Load initial settings
+  useEffect(() => {
+    const initialSettings = getSetting('numbering');
+    if (initialSettings) {
+      setSettings(initialSettings);
+    } else {
+      settingsService.getSettings('numbering').then((numbering) => setSettings(numbering || null));
+    }
+    setPrefix(getDevicePrefix());
+    setDefaultPrefix(getDefaultDevicePrefix());
+  }, [getSetting]);
+
+  const handleChange = (docType: DocumentType, field: keyof NumberingPattern, value: any) => {
+    setSettings((prev) => prev && ({ ...prev, [docType]: { ...prev[docType], [field]: value } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !settings) return;
+
+    const invalid = (Object.keys(settings) as DocumentType[]).find(docType => !settings[docType].pattern.includes('{SEQ}'));
+    if (invalid) {
+      toast.error(`Format ${DOCUMENT_LABELS[invalid]} harus memuat {SEQ}`);
+      return;
+    }
+
+    setLocalLoading(true);
+    try {
+      setDevicePrefix(prefix);
+      await updateSetting('numbering', settings, user.id);
+      toast.success("Pengaturan penomoran berhasil disimpan!", {
+        duration: 3000,
+        position: 'top-right',
+      });
+    } catch (error) {
+      console.error("Failed to save numbering settings:", error);
+      toast.error("Gagal menyimpan pengaturan penomoran. Silakan coba lagi.", {
+        duration: 4000,
+        position: 'top-right',
+      });
+    } finally {
+      setLocalLoading(false);
+    }
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Penomoran Dokumen</CardTitle>
+        <CardDescription>
+          Token: {"{DEVICE}"} kode perangkat, {"{YYYY}"} {"{YY}"} {"{MM}"} {"{DD}"} tanggal, {"{SEQ}"} nomor urut
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Device prefix, stored on this device only */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Kode Perangkat</label>
+            <Input
+              value={prefix}
+              maxLength={6}
+              placeholder={defaultPrefix}
+              onChange={(e) => setPrefix(e.target.value.toUpperCase())}
+            />
+            <p className="text-xs text-muted-foreground">
+              Terisi otomatis dari ID perangkat. Boleh diganti, misalnya K1, asal berbeda di setiap perangkat.
+            </p>
+          </div>
+
+          {(Object.keys(DOCUMENT_LABELS) as DocumentType[]).map((docType) => (
+            <div key={docType} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end border-t border-border pt-4">
+              <div className="space-y-2 md:col-span-2">
+                <label className="text-sm font-medium text-foreground">{DOCUMENT_LABELS[docType]}</label>
+                <Input
+                  value={settings[docType].pattern}
+                  onChange={(e) => handleChange(docType, "pattern", e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Contoh: {NumberingService.format(settings[docType], 1, new Date(), prefix || defaultPrefix)}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Reset Nomor</label>
+                <Select value={settings[docType].reset} onValueChange={(value) => handleChange(docType, "reset", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Harian</SelectItem>
+                    <SelectItem value="monthly">Bulanan</SelectItem>
+                    <SelectItem value="never">Tidak Pernah</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Jumlah Digit</label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="10"
+                  value={settings[docType].padding}
+                  onChange={(e) => handleChange(docType, "padding", Number(e.target.value))}
+                />
+              </div>
+            </div>
+          ))}
+
+          <div className="flex justify-end pt-4 border-t border-border">
+            <Button type="submit" className="gap-2 bg-primary hover:bg-primary/90" disabled={localLoading}>
+              <Save className="w-4 h-4" />
+              {localLoading ? 'Menyimpan...' : 'Simpan Pengaturan'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
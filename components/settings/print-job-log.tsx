@@ -0,0 +1,133 @@
+"use client"
+import React, { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import toast from "react-hot-toast";
+import { db, PrintJob } from "@/lib/db";
+import { printingService } from "@/lib/services/printingService";
+
+const ALL = "all";
+
+const KIND_LABELS: Record<PrintJob["kind"], string> = {
+  receipt: "Struk",
+  reprint: "Cetak ulang (COPY)",
+};
+
+// Every receipt sent to a printer, so the owner can see which receipts were printed again and by whom
+export default function PrintJobLog() {
+  const [jobs, setJobs] = useState<PrintJob[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [kind, setKind] = useState<string>("reprint");
+  const [printedBy, setPrintedBy] = useState(ALL);
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const loadJobs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [list, users] = await Promise.all([
+        printingService.getPrintJobs({
+          kind: kind === ALL ? undefined : kind as PrintJob["kind"],
+          printedBy: printedBy === ALL ? undefined : printedBy,
+          dateFrom: dateFrom ? new Date(`${dateFrom}T00:00:00`) : undefined,
+          dateTo: dateTo ? new Date(`${dateTo}T23:59:59.999`) : undefined,
+        }),
+        db.users.toArray(),
+      ]);
+      setJobs(list);
+      setUserNames(Object.fromEntries(users.map(user => [user.id, user.name])));
+    } catch (error) {
+      console.error("Error loading print jobs:", error);
+      toast.error("Gagal memuat log cetak");
+    } finally {
+      setLoading(false);
+    }
+  }, [kind, printedBy, dateFrom, dateTo]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Log Cetak Struk</CardTitle>
+        <CardDescription>
+          Struk yang dikirim ke printer, termasuk cetak ulang dan percobaan yang gagal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <Select value={kind} onValueChange={setKind}>
+            <SelectTrigger>
+              <SelectValue placeholder="Jenis" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua jenis</SelectItem>
+              {Object.entries(KIND_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={printedBy} onValueChange={setPrintedBy}>
+            <SelectTrigger>
+              <SelectValue placeholder="Pengguna" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua pengguna</SelectItem>
+              {Object.entries(userNames).map(([id, name]) => (
+                <SelectItem key={id} value={id}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+          <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Waktu</TableHead>
+                <TableHead>No. Transaksi</TableHead>
+                <TableHead>Jenis</TableHead>
+                <TableHead>Dicetak oleh</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell className="whitespace-nowrap text-xs">{new Date(job.createdAt).toLocaleString("id-ID")}</TableCell>
+                  <TableCell className="text-xs font-medium">{job.transactionNumber}</TableCell>
+                  <TableCell className="text-xs">{KIND_LABELS[job.kind]}</TableCell>
+                  <TableCell className="text-xs">{userNames[job.printedBy] || job.printedBy}</TableCell>
+                  <TableCell className="text-xs">
+                    {job.status === "printed" ? (
+                      <Badge className="bg-green-100 text-green-800">Tercetak</Badge>
+                    ) : (
+                      <span className="text-destructive" title={job.error || undefined}>
+                        Gagal{job.error ? `: ${job.error}` : ""}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {jobs.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-sm text-muted-foreground py-6">
+                    {loading ? "Memuat..." : "Belum ada catatan"}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
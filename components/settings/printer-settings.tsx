@@ -0,0 +1,287 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { toast } from "react-hot-toast"
+import { Printer, Search, Usb, Cable, Wifi } from "lucide-react"
+import { PrinterSettings as PrinterConfig } from "@/lib/types/settings"
+import { getPrinterSettings, setPrinterSettings } from "@/lib/utils/device"
+import { escposService } from "@/lib/services/escposService"
+import { PairedPrinter, TcpBridgeTransport, WebSerialTransport, WebUsbTransport } from "@/lib/services/printerTransport"
+import { PAPER_COLUMNS } from "@/lib/services/receiptLayout"
+
+const TRANSPORT_LABELS: Record<PrinterConfig["transport"], string> = {
+  none: "Tidak ada printer",
+  usb: "USB (WebUSB)",
+  serial: "Serial / Bluetooth SPP (Web Serial)",
+  tcp: "Jaringan (TCP 9100)",
+}
+
+const CODE_PAGE_LABELS: Record<PrinterConfig["codePage"], string> = {
+  cp437: "PC437 (standar)",
+  cp850: "PC850 (Latin-1)",
+  cp858: "PC858 (Latin-1 + €)",
+  cp1252: "Windows-1252",
+}
+
+// The receipt printer of this device: how it is connected, pairing, and a test print
+export default function PrinterSettings() {
+  const [config, setConfig] = useState<PrinterConfig>(() => getPrinterSettings())
+  const [paired, setPaired] = useState<PairedPrinter[]>([])
+  const [subnet, setSubnet] = useState("192.168.1")
+  const [discovered, setDiscovered] = useState<PairedPrinter[]>([])
+  const [status, setStatus] = useState<boolean | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const refreshPaired = () => {
+    escposService.getAvailablePrinters()
+      .then(setPaired)
+      .catch((error) => console.error("Error listing printers:", error))
+  }
+
+  useEffect(() => {
+    refreshPaired()
+  }, [])
+
+  useEffect(() => {
+    setStatus(null)
+    escposService.isPrinterAvailable()
+      .then(setStatus)
+      .catch(() => setStatus(false))
+  }, [config])
+
+  const save = (changes: Partial<PrinterConfig>) => {
+    const updated = { ...config, ...changes }
+    try {
+      setPrinterSettings(updated)
+      setConfig(updated)
+    } catch (error) {
+      console.error("Error saving printer settings:", error)
+      toast.error("Pengaturan printer tidak valid")
+    }
+  }
+
+  const choose = (printer: PairedPrinter) => {
+    save({
+      transport: printer.transport,
+      name: printer.name,
+      usbVendorId: printer.usbVendorId,
+      usbProductId: printer.usbProductId,
+      ...(printer.host ? { host: printer.host, port: printer.port ?? 9100 } : {}),
+    })
+    toast.success(`Printer ${printer.name} dipilih`)
+  }
+
+  const handlePair = async () => {
+    try {
+      const printer = config.transport === "usb"
+        ? await WebUsbTransport.requestPrinter()
+        : await WebSerialTransport.requestPrinter()
+      choose(printer)
+      refreshPaired()
+    } catch (error) {
+      // Closing the browser's picker also lands here
+      console.error("Error pairing printer:", error)
+    }
+  }
+
+  const handleDiscover = async () => {
+    setBusy(true)
+    try {
+      const printers = await TcpBridgeTransport.discover(config.bridgeUrl, subnet, config.port)
+      setDiscovered(printers)
+      if (printers.length === 0) toast("Tidak ada printer yang ditemukan")
+    } catch (error) {
+      console.error("Error discovering printers:", error)
+      toast.error(`Bridge printer tidak bisa dihubungi di ${config.bridgeUrl}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleTestPrint = async () => {
+    setBusy(true)
+    try {
+      await escposService.printTestPage()
+      toast.success("Halaman tes dikirim ke printer")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Gagal mencetak halaman tes")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const supported =
+    config.transport === "usb" ? WebUsbTransport.isSupported()
+    : config.transport === "serial" ? WebSerialTransport.isSupported()
+    : true
+  const candidates = config.transport === "tcp" ? discovered : paired.filter((p) => p.transport === config.transport)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Printer className="w-5 h-5" />
+          Printer Struk
+        </CardTitle>
+        <CardDescription>
+          Printer yang terhubung ke perangkat ini. Pengaturan ini hanya berlaku di perangkat ini.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label htmlFor="printer-transport" className="text-sm font-medium text-foreground">Koneksi</label>
+          <select
+            id="printer-transport"
+            value={config.transport}
+            onChange={(e) => save({ transport: e.target.value as PrinterConfig["transport"] })}
+            className="w-full h-10 px-3 border border-border rounded-lg bg-background text-foreground"
+          >
+            {(Object.keys(TRANSPORT_LABELS) as PrinterConfig["transport"][]).map((transport) => (
+              <option key={transport} value={transport}>{TRANSPORT_LABELS[transport]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <label htmlFor="printer-paper" className="text-xs text-muted-foreground">Lebar kertas</label>
+            <select
+              id="printer-paper"
+              value={config.paperWidth}
+              onChange={(e) => save({ paperWidth: e.target.value as PrinterConfig["paperWidth"] })}
+              className="w-full h-10 px-3 border border-border rounded-lg bg-background text-foreground"
+            >
+              <option value="58mm">58 mm</option>
+              <option value="80mm">80 mm</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="printer-font" className="text-xs text-muted-foreground">Font</label>
+            <select
+              id="printer-font"
+              value={config.font}
+              onChange={(e) => save({ font: e.target.value as PrinterConfig["font"] })}
+              className="w-full h-10 px-3 border border-border rounded-lg bg-background text-foreground"
+            >
+              <option value="A">Font A ({PAPER_COLUMNS[config.paperWidth].A} kolom)</option>
+              <option value="B">Font B ({PAPER_COLUMNS[config.paperWidth].B} kolom)</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="printer-codepage" className="text-xs text-muted-foreground">Code page</label>
+            <select
+              id="printer-codepage"
+              value={config.codePage}
+              onChange={(e) => save({ codePage: e.target.value as PrinterConfig["codePage"] })}
+              className="w-full h-10 px-3 border border-border rounded-lg bg-background text-foreground"
+            >
+              {(Object.keys(CODE_PAGE_LABELS) as PrinterConfig["codePage"][]).map((codePage) => (
+                <option key={codePage} value={codePage}>{CODE_PAGE_LABELS[codePage]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {!supported && (
+          <p className="text-sm text-destructive">
+            Browser ini tidak mendukung koneksi ini. Gunakan Chrome atau Edge versi terbaru.
+          </p>
+        )}
+
+        {(config.transport === "usb" || config.transport === "serial") && supported && (
+          <div className="space-y-2">
+            <Button type="button" variant="outline" onClick={handlePair} className="gap-2">
+              {config.transport === "usb" ? <Usb className="w-4 h-4" /> : <Cable className="w-4 h-4" />}
+              Pasangkan Printer
+            </Button>
+            {config.transport === "serial" && (
+              <div className="flex items-center gap-2">
+                <label htmlFor="printer-baud" className="text-sm text-muted-foreground">Baud rate</label>
+                <Input
+                  id="printer-baud"
+                  type="number"
+                  defaultValue={config.baudRate}
+                  onBlur={(e) => save({ baudRate: Number(e.target.value) || 9600 })}
+                  className="h-8 w-28"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {config.transport === "tcp" && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-[1fr_6rem] gap-2">
+              <Input
+                defaultValue={config.host}
+                onBlur={(e) => save({ host: e.target.value.trim() })}
+                placeholder="Alamat IP printer, mis. 192.168.1.50"
+              />
+              <Input
+                type="number"
+                defaultValue={config.port}
+                onBlur={(e) => save({ port: Number(e.target.value) || 9100 })}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="printer-bridge" className="text-xs text-muted-foreground">
+                Alamat bridge printer (jalankan <code>npm run printer:bridge</code> di perangkat ini)
+              </label>
+              <Input
+                id="printer-bridge"
+                defaultValue={config.bridgeUrl}
+                onBlur={(e) => save({ bridgeUrl: e.target.value.trim() || "http://localhost:9101" })}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Input value={subnet} onChange={(e) => setSubnet(e.target.value)} placeholder="192.168.1" className="w-40" />
+              <Button type="button" variant="outline" onClick={handleDiscover} disabled={busy} className="gap-2">
+                <Search className="w-4 h-4" />
+                Cari Printer
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {candidates.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">
+              {config.transport === "tcp" ? "Ditemukan di jaringan" : "Sudah dipasangkan"}
+            </p>
+            {candidates.map((printer) => (
+              <Button
+                key={`${printer.name}-${printer.usbVendorId ?? printer.host}`}
+                type="button"
+                variant="outline"
+                onClick={() => choose(printer)}
+                className="w-full justify-start gap-2"
+              >
+                {printer.transport === "tcp" ? <Wifi className="w-4 h-4" /> : <Usb className="w-4 h-4" />}
+                {printer.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {config.transport !== "none" && (
+          <div className="flex items-center justify-between gap-4 pt-2 border-t border-border">
+            <div className="flex items-center gap-2 text-sm">
+              <div className={`w-2 h-2 rounded-full ${status ? "bg-green-500" : status === false ? "bg-red-500" : "bg-muted"}`} />
+              <span className="text-muted-foreground">
+                {config.transport === "tcp" ? `${config.host || "-"}:${config.port}` : config.name || "Belum dipasangkan"}
+                {status === false && " · tidak terhubung"}
+              </span>
+            </div>
+            <Button type="button" onClick={handleTestPrint} disabled={busy} className="gap-2">
+              <Printer className="w-4 h-4" />
+              Tes Cetak
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { ReceiptSettings } from "@/lib/types/settings"
+import { escposService, ReceiptData } from "@/lib/services/escposService"
+import { getColumns } from "@/lib/services/receiptLayout"
+import { getPrinterSettings } from "@/lib/utils/device"
+import { useSettings } from "@/lib/contexts/settingsContext"
+import { useAuthStore } from "@/lib/stores/authStore"
+
+interface ReceiptPreviewProps {
+  settings: ReceiptSettings
+}
+
+// The sample receipt laid out by the same engine that prints, for this device's paper profile
+export default function ReceiptPreview({ settings }: ReceiptPreviewProps) {
+  const { businessSettings } = useSettings()
+  const { user } = useAuthStore()
+  const profile = getPrinterSettings()
+
+  const sample: ReceiptData = {
+    businessName: businessSettings.businessName,
+    businessAddress: businessSettings.businessAddress,
+    businessPhone: businessSettings.businessPhone,
+    businessLogo: businessSettings.businessLogo,
+    transactionNumber: "TRX-001",
+    transactionDate: new Date().toLocaleString("id-ID"),
+    cashierName: user?.name || "Demo User",
+    customerName: "Budi",
+    items: [
+      { name: "Bakso Urat", qty: 2, price: 15000, subtotal: 30000 },
+      { name: "Es Teh Manis", qty: 1, price: 5000, discount: { type: "nominal", value: 1000, amount: 1000 }, subtotal: 4000 },
+    ],
+    subtotal: 34000,
+    discount: { type: "percent", value: 0, amount: 0 },
+    tax: { enabled: true, rate: 10, amount: 3400 },
+    total: 37400,
+    payments: [{ method: "cash", amount: 50000 }],
+    change: 12600,
+    qrisPayload: "QRIS",
+  }
+
+  const lines = escposService.preview(escposService.generateReceiptCommands(sample, settings), profile)
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Kertas {profile.paperWidth}, Font {profile.font} ({getColumns(profile)} kolom)
+      </p>
+      <pre
+        className="box-content p-3 bg-white text-black font-mono text-xs leading-snug border rounded overflow-x-auto"
+        style={{ width: `${getColumns(profile)}ch` }}
+      >
+        {lines.join("\n")}
+      </pre>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { ArrowDown, ArrowUp, GripVertical, Plus, Trash2 } from "lucide-react"
+import { ReceiptSection, ReceiptTemplate } from "@/lib/types/settings"
+import { getSectionOrder } from "@/lib/services/escposService"
+
+type SocialPlatform = ReceiptTemplate["socials"][number]["platform"]
+
+const SECTION_LABELS: Record<ReceiptSection, string> = {
+  logo: "Logo",
+  business: "Nama, alamat & telepon bisnis",
+  header: "Teks header",
+  transaction: "Info transaksi",
+  items: "Daftar barang",
+  totals: "Subtotal, diskon, pajak & total",
+  payments: "Pembayaran & kembalian",
+  footer: "Pesan footer",
+  wifi: "Password WiFi",
+  social: "Media sosial",
+  qris: "QRIS pembayaran",
+  receiptLink: "QR struk digital",
+  barcode: "Barcode transaksi",
+}
+
+const SOCIAL_LABELS: Record<SocialPlatform, string> = {
+  instagram: "Instagram",
+  tiktok: "TikTok",
+  facebook: "Facebook",
+  x: "X (Twitter)",
+  whatsapp: "WhatsApp",
+  website: "Website",
+}
+
+interface ReceiptTemplateEditorProps {
+  template: ReceiptTemplate
+  onChange: (template: ReceiptTemplate) => void
+}
+
+// Section order (drag, or the arrows on touch screens), header text, WiFi and social media lines
+export default function ReceiptTemplateEditor({ template, onChange }: ReceiptTemplateEditorProps) {
+  const [dragging, setDragging] = useState<ReceiptSection | null>(null)
+  const sections = getSectionOrder(template)
+
+  const update = (changes: Partial<ReceiptTemplate>) => onChange({ ...template, ...changes })
+
+  const moveSection = (section: ReceiptSection, toIndex: number) => {
+    if (toIndex < 0 || toIndex >= sections.length) return
+    const reordered = sections.filter((s) => s !== section)
+    reordered.splice(toIndex, 0, section)
+    update({ sections: reordered })
+  }
+
+  const updateSocial = (index: number, changes: Partial<ReceiptTemplate["socials"][number]>) => {
+    update({ socials: template.socials.map((social, i) => (i === index ? { ...social, ...changes } : social)) })
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-3">
+        <h3 className="font-semibold text-foreground">Urutan Bagian</h3>
+        <p className="text-xs text-muted-foreground">
+          Geser untuk mengubah urutan. Bagian yang kosong atau dimatikan tidak dicetak.
+        </p>
+        <ol className="space-y-1">
+          {sections.map((section, index) => (
+            <li
+              key={section}
+              draggable
+              onDragStart={() => setDragging(section)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault()
+                if (dragging) moveSection(dragging, index)
+                setDragging(null)
+              }}
+              onDragEnd={() => setDragging(null)}
+              className={`flex items-center gap-2 px-2 py-1.5 border border-border rounded-lg bg-background text-sm cursor-grab ${
+                dragging === section ? "opacity-50" : ""
+              }`}
+            >
+              <GripVertical className="w-4 h-4 text-muted-foreground shrink-0" />
+              <span className="flex-1">{SECTION_LABELS[section]}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => moveSection(section, index - 1)}
+                disabled={index === 0}
+                aria-label="Naik"
+              >
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => moveSection(section, index + 1)}
+                disabled={index === sections.length - 1}
+                aria-label="Turun"
+              >
+                <ArrowDown className="w-3 h-3" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <label htmlFor="receipt-header-text" className="text-sm font-medium text-foreground">Teks Header</label>
+          <Textarea
+            id="receipt-header-text"
+            value={template.headerText}
+            onChange={(e) => update({ headerText: e.target.value })}
+            placeholder="mis. Selamat datang, {customer}!"
+            rows={2}
+          />
+          <p className="text-xs text-muted-foreground">
+            Bisa dipakai di header dan pesan footer: {"{transactionNumber}"}, {"{cashier}"}, {"{customer}"}, {"{date}"}, {"{businessName}"}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-foreground">WiFi</p>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              value={template.wifiName}
+              onChange={(e) => update({ wifiName: e.target.value })}
+              placeholder="Nama WiFi"
+            />
+            <Input
+              value={template.wifiPassword}
+              onChange={(e) => update({ wifiPassword: e.target.value })}
+              placeholder="Password"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="receipt-link-url" className="text-sm font-medium text-foreground">Link Struk Digital</label>
+          <Input
+            id="receipt-link-url"
+            value={template.receiptLinkUrl}
+            onChange={(e) => update({ receiptLinkUrl: e.target.value })}
+            placeholder="https://warungkita.id/struk/{transactionNumber}"
+          />
+          <p className="text-xs text-muted-foreground">Dicetak sebagai kode QR. Kosongkan jika tidak dipakai.</p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-foreground">Media Sosial</p>
+          {template.socials.map((social, index) => (
+            <div key={index} className="flex gap-2">
+              <select
+                value={social.platform}
+                onChange={(e) => updateSocial(index, { platform: e.target.value as SocialPlatform })}
+                className="h-10 px-2 border border-border rounded-lg bg-background text-foreground text-sm"
+              >
+                {(Object.keys(SOCIAL_LABELS) as SocialPlatform[]).map((platform) => (
+                  <option key={platform} value={platform}>{SOCIAL_LABELS[platform]}</option>
+                ))}
+              </select>
+              <Input
+                value={social.handle}
+                onChange={(e) => updateSocial(index, { handle: e.target.value })}
+                placeholder="@warungkita"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-10 w-10 p-0 text-destructive hover:text-destructive"
+                onClick={() => update({ socials: template.socials.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => update({ socials: [...template.socials, { platform: "instagram", handle: "" }] })}
+          >
+            <Plus className="w-4 h-4" />
+            Tambah Akun
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from "react-hot-toast"
+import { User } from "@/lib/db"
+import { PinService } from "@/lib/services/pinService"
+import { useAuthStore } from "@/lib/stores/authStore"
+
+interface ResetPinModalProps {
+  user: User | null // Staff member whose PIN is reset
+  onClose: () => void
+}
+
+export default function ResetPinModal({ user, onClose }: ResetPinModalProps) {
+  const { user: owner } = useAuthStore()
+  const [newPin, setNewPin] = useState("")
+  const [confirmPin, setConfirmPin] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    setNewPin("")
+    setConfirmPin("")
+    setError("")
+  }, [user])
+
+  if (!user || !owner) return null
+
+  const handleSubmit = async () => {
+    if (!PinService.isValidFormat(newPin)) {
+      setError("PIN harus 4 sampai 6 digit angka")
+      return
+    }
+    if (newPin !== confirmPin) {
+      setError("Konfirmasi PIN tidak cocok")
+      return
+    }
+
+    setLoading(true)
+    setError("")
+    try {
+      await PinService.resetPin(user.id, newPin, owner)
+      toast.success(`PIN ${user.name} berhasil direset`)
+      onClose()
+    } catch (err) {
+      console.error("Error resetting PIN:", err)
+      setError(err instanceof Error ? err.message : "Gagal mereset PIN")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Reset PIN {user.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">PIN Baru</label>
+            <Input
+              type="password"
+              inputMode="numeric"
+              value={newPin}
+              onChange={(e) => setNewPin(e.target.value)}
+              maxLength={6}
+              disabled={loading}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Konfirmasi PIN</label>
+            <Input
+              type="password"
+              inputMode="numeric"
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value)}
+              maxLength={6}
+              disabled={loading}
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" onClick={onClose} disabled={loading} className="flex-1">
+              Batal
+            </Button>
+            <Button onClick={handleSubmit} disabled={loading || !newPin || !confirmPin} className="flex-1">
+              {loading ? "Menyimpan..." : "Reset PIN"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,202 @@
+"use client"
+import React, { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, KeyRound, Pencil, Plus, UserCheck, UserX } from "lucide-react";
+import toast from "react-hot-toast";
+import { AccessTemplate, CashierShift, User } from "@/lib/db";
+import { EmployeeService } from "@/lib/services/employeeService";
+import { PermissionService } from "@/lib/services/permissionService";
+import { CashierShiftService } from "@/lib/services/cashierShiftService";
+import { useAuthStore } from "@/lib/stores/authStore";
+import { getDefaultTemplateId } from "@/lib/config/permissions";
+import EmployeeFormModal from "./employee-form-modal";
+import ResetPinModal from "./reset-pin-modal";
+
+const SHIFT_HISTORY_LIMIT = 10;
+
+const formatDateTime = (date: Date | null | undefined) => date ? new Date(date).toLocaleString("id-ID") : "-";
+
+export default function TeamSettings() {
+  const [employees, setEmployees] = useState<User[]>([]);
+  const [templates, setTemplates] = useState<AccessTemplate[]>([]);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<User | null>(null);
+  const [resetPinUser, setResetPinUser] = useState<User | null>(null);
+  const [historyUserId, setHistoryUserId] = useState<string | null>(null);
+  const [shifts, setShifts] = useState<CashierShift[]>([]);
+  const { user: currentUser } = useAuthStore();
+
+  const loadData = useCallback(async () => {
+    try {
+      const [employeeList, templateList] = await Promise.all([
+        EmployeeService.getEmployees(),
+        PermissionService.getTemplates(),
+      ]);
+      setEmployees(employeeList);
+      setTemplates(templateList);
+    } catch (error) {
+      console.error("Error loading employees:", error);
+      toast.error("Gagal memuat data karyawan");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const toggleHistory = async (employee: User) => {
+    if (historyUserId === employee.id) {
+      setHistoryUserId(null);
+      return;
+    }
+    try {
+      const list = await CashierShiftService.getShiftsByUser(employee.id);
+      setShifts(list.slice(0, SHIFT_HISTORY_LIMIT));
+      setHistoryUserId(employee.id);
+    } catch (error) {
+      console.error("Error loading shift history:", error);
+      toast.error("Gagal memuat riwayat shift");
+    }
+  };
+
+  const handleToggleActive = async (employee: User) => {
+    if (!currentUser) return;
+    try {
+      if (employee.deletedAt) {
+        await EmployeeService.reactivateEmployee(employee.id);
+        toast.success(`${employee.name} diaktifkan kembali`);
+      } else {
+        if (!window.confirm(`Nonaktifkan ${employee.name}? Karyawan ini tidak bisa login atau memakai PIN lagi.`)) return;
+        await EmployeeService.deactivateEmployee(employee.id, currentUser);
+        toast.success(`${employee.name} dinonaktifkan`);
+      }
+      await loadData();
+    } catch (error) {
+      console.error("Failed to change employee status:", error);
+      toast.error((error as Error).message);
+    }
+  };
+
+  const templateName = (employee: User) => {
+    if (employee.role === "owner") return "Owner";
+    const id = employee.accessTemplateId && templates.some(t => t.id === employee.accessTemplateId)
+      ? employee.accessTemplateId
+      : getDefaultTemplateId(employee.role);
+    return templates.find(t => t.id === id)?.name || "-";
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Karyawan</CardTitle>
+            <CardDescription>
+              Undang karyawan dengan email atau tambahkan staf yang hanya memakai PIN di perangkat ini.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => {
+              setEditing(null);
+              setFormOpen(true);
+            }}
+            className="gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Tambah Karyawan
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {employees.map((employee) => (
+            <div key={employee.id} className={`p-3 border border-border rounded-lg space-y-3 ${employee.deletedAt ? "opacity-60" : ""}`}>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium truncate">{employee.name}</p>
+                    <Badge variant={employee.role === "owner" ? "default" : "secondary"}>{templateName(employee)}</Badge>
+                    {employee.deletedAt && <Badge variant="outline">Nonaktif</Badge>}
+                    {!employee.deletedAt && EmployeeService.isPendingInvite(employee) && <Badge variant="outline">Menunggu login</Badge>}
+                    {EmployeeService.isPinOnly(employee) && <Badge variant="outline">Staf PIN</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {employee.email || "Tanpa email"} · Login terakhir: {formatDateTime(employee.lastLoginAt)}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => toggleHistory(employee)} className="gap-1">
+                    <History className="w-4 h-4" />
+                    Shift
+                  </Button>
+                  {!employee.deletedAt && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setEditing(employee);
+                          setFormOpen(true);
+                        }}
+                        className="gap-1"
+                      >
+                        <Pencil className="w-4 h-4" />
+                        Ubah
+                      </Button>
+                      {currentUser?.role === "owner" && employee.id !== currentUser.id && (
+                        <Button variant="ghost" size="sm" onClick={() => setResetPinUser(employee)} className="gap-1">
+                          <KeyRound className="w-4 h-4" />
+                          Reset PIN
+                        </Button>
+                      )}
+                    </>
+                  )}
+                  {employee.id !== currentUser?.id && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleToggleActive(employee)}
+                      className={`gap-1 ${employee.deletedAt ? "" : "text-destructive hover:text-destructive"}`}
+                    >
+                      {employee.deletedAt ? <UserCheck className="w-4 h-4" /> : <UserX className="w-4 h-4" />}
+                      {employee.deletedAt ? "Aktifkan" : "Nonaktifkan"}
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {historyUserId === employee.id && (
+                <div className="border-t border-border pt-3 space-y-1">
+                  {shifts.map((shift) => (
+                    <div key={shift.id} className="flex flex-wrap justify-between gap-2 text-xs">
+                      <span>{formatDateTime(shift.openedAt)} – {shift.closedAt ? formatDateTime(shift.closedAt) : "masih buka"}</span>
+                      <span className="text-muted-foreground">
+                        {shift.totalTransactions} transaksi · Rp {shift.totalSales.toLocaleString("id-ID")}
+                        {shift.variance !== null && ` · Selisih Rp ${shift.variance.toLocaleString("id-ID")}`}
+                      </span>
+                    </div>
+                  ))}
+                  {shifts.length === 0 && (
+                    <p className="text-xs text-muted-foreground">Belum pernah membuka shift</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+          {employees.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">Belum ada karyawan</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <EmployeeFormModal
+        open={formOpen}
+        employee={editing}
+        templates={templates}
+        onClose={() => setFormOpen(false)}
+        onSaved={loadData}
+      />
+      <ResetPinModal user={resetPinUser} onClose={() => setResetPinUser(null)} />
+    </div>
+  );
+}
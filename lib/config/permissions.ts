@@ -0,0 +1,166 @@
+// Permission catalog and the built-in access templates (see Right_Access.md)
+
+export interface PermissionDefinition {
+  key: string;
+  label: string;
+}
+
+export interface PermissionModule {
+  key: string;
+  label: string;
+  permissions: PermissionDefinition[];
+}
+
+export const PERMISSION_MODULES: PermissionModule[] = [
+  {
+    key: 'cashier',
+    label: 'Kasir',
+    permissions: [
+      { key: 'cashier.read', label: 'Buka halaman kasir' },
+      { key: 'cashier.create', label: 'Buat transaksi, buka/tutup shift' },
+      { key: 'cashier.update', label: 'Ubah pesanan tersimpan' },
+      { key: 'cashier.delete', label: 'Hapus pesanan tersimpan' },
+    ],
+  },
+  {
+    key: 'transactions',
+    label: 'Transaksi',
+    permissions: [
+      { key: 'transactions.refund', label: 'Refund transaksi' },
+      { key: 'transactions.void', label: 'Void transaksi tanpa persetujuan owner' },
+      { key: 'transactions.approve', label: 'Menyetujui aksi kasir dengan PIN (diskon besar, ubah harga, buka laci, hapus order)' },
+    ],
+  },
+  {
+    key: 'products',
+    label: 'Produk',
+    permissions: [
+      { key: 'products.read', label: 'Lihat produk' },
+      { key: 'products.create', label: 'Tambah produk' },
+      { key: 'products.update', label: 'Ubah produk' },
+      { key: 'products.delete', label: 'Hapus produk' },
+    ],
+  },
+  {
+    key: 'inventory',
+    label: 'Inventory',
+    permissions: [
+      { key: 'inventory.read', label: 'Buka halaman inventory' },
+      { key: 'inventory.purchase_invoice.create', label: 'Buat faktur pembelian' },
+      { key: 'inventory.purchase_invoice.approve', label: 'Catat pembayaran faktur' },
+      { key: 'inventory.purchase_invoice.delete', label: 'Hapus faktur pembelian' },
+      { key: 'inventory.stock_opname.create', label: 'Buat stok opname' },
+      { key: 'inventory.stock_opname.approve', label: 'Terapkan hasil stok opname' },
+      { key: 'inventory.stock_waste.create', label: 'Catat buang stok' },
+      { key: 'inventory.stock_return.create', label: 'Retur stok ke pemasok' },
+      { key: 'inventory.supplier.update', label: 'Kelola pemasok' },
+    ],
+  },
+  {
+    key: 'customers',
+    label: 'Pelanggan',
+    permissions: [
+      { key: 'customers.read', label: 'Lihat pelanggan' },
+      { key: 'customers.create', label: 'Tambah pelanggan' },
+      { key: 'customers.update', label: 'Ubah pelanggan' },
+      { key: 'customers.delete', label: 'Hapus pelanggan' },
+    ],
+  },
+  {
+    key: 'reports',
+    label: 'Laporan',
+    permissions: [
+      { key: 'reports.read', label: 'Buka laporan dan tutup kasir' },
+      { key: 'reports.export', label: 'Ekspor laporan' },
+    ],
+  },
+  {
+    key: 'settings',
+    label: 'Pengaturan',
+    permissions: [
+      { key: 'settings.read', label: 'Buka pengaturan' },
+      { key: 'settings.update', label: 'Ubah pengaturan toko' },
+      { key: 'settings.access', label: 'Kelola hak akses' },
+      { key: 'settings.team', label: 'Kelola karyawan' },
+    ],
+  },
+];
+
+export const ALL_PERMISSIONS = PERMISSION_MODULES.flatMap(module => module.permissions.map(p => p.key));
+
+// Page a user must be allowed to open, by route prefix
+export const ROUTE_PERMISSIONS: Record<string, string> = {
+  '/cashier': 'cashier.read',
+  '/products': 'products.read',
+  '/inventory': 'inventory.read',
+  '/customers': 'customers.read',
+  '/reports': 'reports.read',
+  '/settings': 'settings.read',
+};
+
+export interface SystemTemplateDefinition {
+  id: string;
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+// Fixed ids so every device seeds the same rows and sync does not duplicate them
+export const SYSTEM_TEMPLATES: SystemTemplateDefinition[] = [
+  {
+    id: 'system_owner',
+    name: 'Owner',
+    description: 'Akses penuh ke semua modul',
+    permissions: ['*'],
+  },
+  {
+    id: 'system_supervisor',
+    name: 'Supervisor',
+    description: 'Kasir plus refund, void, produk dan inventory tanpa persetujuan akhir',
+    permissions: [
+      'cashier.*',
+      'transactions.*',
+      'products.read',
+      'products.create',
+      'products.update',
+      'inventory.read',
+      'inventory.purchase_invoice.create',
+      'inventory.stock_opname.create',
+      'inventory.stock_waste.create',
+      'inventory.stock_return.create',
+      'customers.*',
+      'reports.*',
+    ],
+  },
+  {
+    id: 'system_kasir',
+    name: 'Kasir',
+    description: 'Transaksi penjualan dan tutup kasir',
+    permissions: [
+      'cashier.*',
+      'products.read',
+      'customers.read',
+      'customers.create',
+      'customers.update',
+      'reports.read',
+    ],
+  },
+];
+
+// Template used for a user without an explicit template
+export const getDefaultTemplateId = (role: 'owner' | 'kasir'): string => {
+  return role === 'owner' ? 'system_owner' : 'system_kasir';
+};
+
+// `*` grants everything, `module.*` grants every permission under that module,
+// and `!permission` revokes one permission a wildcard would otherwise grant
+export const hasPermission = (granted: string[], permission: string): boolean => {
+  if (granted.includes(`!${permission}`)) return false;
+  if (granted.includes('*') || granted.includes(permission)) return true;
+
+  const parts = permission.split('.');
+  for (let i = parts.length - 1; i > 0; i--) {
+    if (granted.includes(`${parts.slice(0, i).join('.')}.*`)) return true;
+  }
+  return false;
+};
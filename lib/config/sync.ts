@@ -0,0 +1,59 @@
+// Sync configuration for pushing the local Dexie database to Supabase (PostgREST)
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+
+// REST endpoint used by the sync engine. Defaults to the Supabase REST API, but can point
+// to any PostgREST-compatible server (e.g. `npm run sync:stand-in` on http://localhost:54321/rest/v1)
+export const SYNC_REST_URL =
+  process.env.NEXT_PUBLIC_SYNC_REST_URL || (SUPABASE_URL ? `${SUPABASE_URL.replace(/\/$/, '')}/rest/v1` : '');
+
+export const SYNC_API_KEY =
+  process.env.NEXT_PUBLIC_SYNC_API_KEY || process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY || '';
+
+// Max rows per push request / pull page
+export const SYNC_BATCH_SIZE = 200;
+
+// How often a device that stays online pushes its outbox and pulls remote changes
+export const SYNC_INTERVAL_MS = 60 * 1000;
+
+// Pull re-reads this window before the last watermark to tolerate small clock drift between devices
+export const SYNC_PULL_OVERLAP_MS = 5 * 60 * 1000;
+
+export interface SyncTableConfig {
+  table: string; // Dexie table name
+  remote: string; // Remote (Supabase) table name
+  watermark: 'updatedAt' | 'createdAt'; // Column used to pull changes incrementally
+}
+
+// Every Dexie table that leaves the device. Notifications and document counters stay local.
+export const SYNC_TABLES: SyncTableConfig[] = [
+  { table: 'users', remote: 'users', watermark: 'updatedAt' },
+  { table: 'categories', remote: 'categories', watermark: 'updatedAt' },
+  { table: 'products', remote: 'products', watermark: 'updatedAt' },
+  { table: 'suppliers', remote: 'suppliers', watermark: 'updatedAt' },
+  { table: 'invoices', remote: 'invoices', watermark: 'updatedAt' },
+  { table: 'stockOpnames', remote: 'stock_opnames', watermark: 'createdAt' }, // append-only
+  { table: 'stockWastes', remote: 'stock_wastes', watermark: 'createdAt' }, // append-only
+  { table: 'customers', remote: 'customers', watermark: 'updatedAt' },
+  { table: 'transactions', remote: 'transactions', watermark: 'updatedAt' },
+  { table: 'cashierShifts', remote: 'cashier_shifts', watermark: 'updatedAt' },
+  { table: 'stockReturns', remote: 'stock_returns', watermark: 'updatedAt' },
+  { table: 'stockReturnItems', remote: 'stock_return_items', watermark: 'updatedAt' },
+  { table: 'settings', remote: 'settings', watermark: 'updatedAt' },
+  { table: 'stockMovements', remote: 'stock_movements', watermark: 'createdAt' }, // append-only
+  { table: 'refunds', remote: 'refunds', watermark: 'updatedAt' },
+  { table: 'accessTemplates', remote: 'access_templates', watermark: 'updatedAt' },
+  { table: 'userPermissions', remote: 'user_permissions', watermark: 'updatedAt' },
+  { table: 'auditLog', remote: 'audit_log', watermark: 'createdAt' }, // append-only
+  { table: 'approvals', remote: 'approvals', watermark: 'updatedAt' },
+  { table: 'cashMovements', remote: 'cash_movements', watermark: 'createdAt' }, // append-only
+  { table: 'printJobs', remote: 'print_jobs', watermark: 'createdAt' }, // append-only
+];
+
+export const isSyncConfigured = (): boolean => {
+  return Boolean(SYNC_REST_URL && SYNC_API_KEY);
+};
+
+export const getSyncTableConfig = (table: string): SyncTableConfig | undefined => {
+  return SYNC_TABLES.find(config => config.table === table);
+};
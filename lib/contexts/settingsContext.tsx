@@ -9,7 +9,8 @@ import {
   GeneralSettings,
   LockScreenSettings,
   ExportSettings,
-  DataHealthSettings
+  DataHealthSettings,
+  DEFAULT_RECEIPT_TEMPLATE
 } from "@/lib/types/settings";
 
 interface SettingsContextType {
@@ -76,6 +77,9 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     showChange: true,
     customMessage: "Terima kasih atas kunjungan Anda!",
     showBarcode: true,
+    printQris: false,
+    autoPrint: 'ask',
+    template: DEFAULT_RECEIPT_TEMPLATE,
   });
   
   const [taxSettings, setTaxSettings] = useState<TaxSettings>({
@@ -108,6 +112,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
   const [lockScreenSettings, setLockScreenSettings] = useState<LockScreenSettings>({
     lockScreenEnabled: false,
     lockScreenTimeout: 15,
+    offlineGraceDays: 3,
   });
   
   const [exportSettings, setExportSettings] = useState<ExportSettings>({
@@ -399,6 +404,9 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
             showChange: true,
             customMessage: "Terima kasih atas kunjungan Anda!",
             showBarcode: true,
+            printQris: false,
+            autoPrint: 'ask',
+            template: DEFAULT_RECEIPT_TEMPLATE,
           });
           break;
         case 'tax':
@@ -436,6 +444,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
           setLockScreenSettings(settings || {
             lockScreenEnabled: false,
             lockScreenTimeout: 15,
+            offlineGraceDays: 3,
           });
           break;
         case 'export':
@@ -487,6 +496,9 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
         showChange: true,
         customMessage: "Terima kasih atas kunjungan Anda!",
         showBarcode: true,
+        printQris: false,
+        autoPrint: 'ask',
+        template: DEFAULT_RECEIPT_TEMPLATE,
       });
       
       setTaxSettings({
@@ -519,6 +531,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
       setLockScreenSettings({
         lockScreenEnabled: false,
         lockScreenTimeout: 15,
+        offlineGraceDays: 3,
       });
       
       setExportSettings({
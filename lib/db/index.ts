@@ -1,20 +1,30 @@
 import Dexie, { Table } from 'dexie';
 import { v7 as uuidv7 } from 'uuid';
+import { registerSyncHooks } from './syncHooks';
 
 // Define TypeScript interfaces based on Architecture.md
-export interface User {
+
+// Revision info stamped by the sync hooks on every local write
+export interface SyncMetadata {
+  version?: number; // Incremented on each write, used to detect concurrent edits
+  lastModifiedDevice?: string; // Device that made the latest write
+}
+export interface User extends SyncMetadata {
   id: string;
   supabaseId: string;
   email: string;
   name: string;
   role: 'owner' | 'kasir';
   pin: string; // hashed
+  accessTemplateId?: string | null; // accessTemplates.id, defaults to the system template for the role
+  lastLoginAt?: Date | null; // Last sign-in or PIN switch onto a terminal
+  lastOnlineVerifiedAt?: Date | null; // Last time Supabase confirmed the session, starts the offline grace period
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
 }
 
-export interface Category {
+export interface Category extends SyncMetadata {
   id: string;
   name: string;
   description: string | null;
@@ -24,7 +34,7 @@ export interface Category {
   deletedAt: Date | null;
 }
 
-export interface Product {
+export interface Product extends SyncMetadata {
   id: string;
   name: string;
   type: 'finish_goods' | 'recipe_goods' | 'raw_material';
@@ -48,7 +58,7 @@ export interface Product {
   deletedAt: Date | null;
 }
 
-export interface Supplier {
+export interface Supplier extends SyncMetadata {
   id: string;
   name: string;
   phone: string | null;
@@ -59,7 +69,7 @@ export interface Supplier {
   deletedAt: Date | null;
 }
 
-export interface Invoice {
+export interface Invoice extends SyncMetadata {
   id: string;
   invoiceNumber: string; // Auto-generated
   supplierId: string; // suppliers.id
@@ -84,7 +94,7 @@ export interface Invoice {
   deletedAt: Date | null;
 }
 
-export interface StockOpname {
+export interface StockOpname extends SyncMetadata {
   id: string;
   shiftId?: string | null; // cashierShifts.id - optional to maintain backward compatibility
   items: {
@@ -98,7 +108,7 @@ export interface StockOpname {
   createdAt: Date;
 }
 
-export interface StockWaste {
+export interface StockWaste extends SyncMetadata {
   id: string;
   productId: string; // products.id
   shiftId?: string | null; // cashierShifts.id - optional to maintain backward compatibility
@@ -109,7 +119,7 @@ export interface StockWaste {
   createdAt: Date;
 }
 
-export interface Customer {
+export interface Customer extends SyncMetadata {
   id: string;
   name: string;
   phone: string | null;
@@ -120,7 +130,7 @@ export interface Customer {
   deletedAt: Date | null;
 }
 
-export interface Transaction {
+export interface Transaction extends SyncMetadata {
   id: string;
   transactionNumber: string; // Auto-generated
   customerId: string | null; // customers.id
@@ -130,10 +140,16 @@ export interface Transaction {
     name: string;
     qty: number;
     price: number;
-    subtotal: number;
+    listPrice?: number; // Product price at the time of sale, only set when the cashier overrode it
+    discount?: {
+      type: 'percent' | 'nominal';
+      value: number;
+      amount: number;
+    } | null; // Line discount, already deducted from the line subtotal
+    subtotal: number; // qty × price − line discount
   }[];
-  subtotal: number;
-  discount: {
+  subtotal: number; // Sum of line subtotals
+  discount: { // Order-level discount, applied to the subtotal
     type: 'percent' | 'nominal';
     value: number;
     amount: number;
@@ -149,16 +165,47 @@ export interface Transaction {
     amount: number;
   }[];
   change: number;
-  status: 'paid' | 'unpaid' | 'saved';
+  status: 'paid' | 'unpaid' | 'saved' | 'void';
   savedAt: Date | null;
   paidAt: Date | null;
+  paidBy?: string | null; // user.id of the cashier who took the payment; may differ from createdBy for saved orders
+  voidedAt?: Date | null;
+  voidedBy?: string | null; // user.id of the cashier who voided
+  voidApprovedBy?: string | null; // user.id of the owner or supervisor whose PIN approved the void
+  voidReason?: 'wrong_item' | 'customer_cancelled' | 'payment_failed' | 'duplicate' | 'other' | null;
+  voidNote?: string | null;
+  refundIds?: string[]; // refunds.id, in the order they were made
+  refundedAmount?: number; // Sum of refunds.totalAmount
   createdBy: string; // user.id
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
 }
 
-export interface CashierShift {
+// Cash counted note by note when a shift is opened or closed
+export interface CashCount {
+  currency: string; // e.g. 'IDR'
+  lines: {
+    value: number;
+    kind: 'note' | 'coin';
+    qty: number;
+  }[]; // Denominations that were counted, qty > 0
+  total: number;
+}
+
+// One cashier's stretch at the drawer within a shift. A handover ends the segment with the outgoing
+// cashier's count and starts the next one for the incoming cashier.
+export interface ShiftSegment {
+  userId: string; // user.id holding the drawer
+  startedAt: Date;
+  endedAt: Date | null; // null while this cashier holds the drawer
+  expectedCash?: number | null; // What the drawer should have held at handover
+  countedCash?: number | null; // What the outgoing cashier counted
+  count?: CashCount | null; // Breakdown of countedCash
+  acceptedBy?: string | null; // user.id of the incoming cashier who accepted the drawer
+}
+
+export interface CashierShift extends SyncMetadata {
   id: string;
   openedBy: string; // user.id
   closedBy: string | null; // user.id
@@ -170,12 +217,21 @@ export interface CashierShift {
   totalSales: number;
   totalCash: number;
   totalNonCash: number;
+  voidCount?: number; // Transactions voided during the shift
+  voidTotal?: number;
+  totalCashIn?: number; // Cash put into the drawer outside of sales, set at close
+  totalCashOut?: number; // Cash taken out of the drawer outside of refunds, set at close
+  openingCount?: CashCount | null; // Breakdown of openingBalance, when it was counted by denomination
+  closingCount?: CashCount | null; // Breakdown of actualCash
+  blindClose?: boolean; // The cashier counted without seeing the expected cash
+  segments?: ShiftSegment[]; // Cashiers who held the drawer, oldest first; absent on shifts from before handovers
   openedAt: Date;
   closedAt: Date | null;
   status: 'open' | 'closed';
+  updatedAt?: Date; // Sync watermark - optional for shifts created before version 8
 }
 
-export interface Setting {
+export interface Setting extends SyncMetadata {
   id: string;
   key: string; // Unique setting key
   value: any; // JSON value
@@ -193,7 +249,7 @@ export interface Notification {
   createdAt: Date;
 }
 
-export interface StockReturn {
+export interface StockReturn extends SyncMetadata {
   id: string;
   returnNumber: string; // Auto-generated: RT-{YYYYMMDD}-{sequence}
   supplierId: string; // suppliers.id
@@ -211,7 +267,7 @@ export interface StockReturn {
   deletedAt: Date | null; // Soft delete
 }
 
-export interface StockReturnItem {
+export interface StockReturnItem extends SyncMetadata {
   id: string;
   stockReturnId: string; // stock_returns.id
   productId: string; // products.id
@@ -222,6 +278,190 @@ export interface StockReturnItem {
   updatedAt: Date;
 }
 
+// Named set of permissions assigned to users. System templates are seeded and cannot be deleted.
+export interface AccessTemplate extends SyncMetadata {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[]; // Keys from lib/config/permissions.ts, `module.*` and `*` allowed
+  isSystem: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+// Per-user exception to the user's template: grants an extra permission or revokes one
+export interface UserPermission extends SyncMetadata {
+  id: string;
+  userId: string; // user.id
+  permission: string;
+  granted: boolean;
+  createdBy: string; // user.id
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+// Append-only record of who did what, e.g. a cashier switch on a shared terminal
+export interface AuditLogEntry extends SyncMetadata {
+  id: string;
+  action: string; // e.g. 'user.switch'
+  entityType: string; // Table or concept the action touched, e.g. 'users'
+  entityId: string | null;
+  actorId: string; // user.id
+  shiftId: string | null; // cashierShifts.id
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  note: string | null;
+  deviceId: string;
+  // Each device keeps its own hash chain, see AuditLogService. Missing on entries recorded before version 15.
+  sequence?: number; // 1, 2, 3... per device
+  prevHash?: string | null; // hash of the device's previous entry
+  hash?: string; // SHA-256 over this entry's fields and prevHash
+  createdAt: Date;
+}
+
+// The newest entry a device appended to its audit chain
+export interface AuditChainHead {
+  entryId: string;
+  deviceId: string;
+  sequence: number;
+  hash: string;
+}
+
+// An owner or supervisor entering their PIN to let a cashier do something the approval policy restricts
+export interface Approval extends SyncMetadata {
+  id: string;
+  action: 'discount' | 'priceOverride' | 'void' | 'openDrawer' | 'deleteSavedOrder';
+  transactionId: string | null; // transactions.id; set at checkout for approvals given while the cart was open
+  requestedBy: string; // user.id of the cashier
+  approvedBy: string; // user.id of the owner or supervisor
+  shiftId: string | null; // cashierShifts.id
+  details: Record<string, any> | null; // What was approved, e.g. { percent: 25 }
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Cash put into or taken out of the drawer during a shift without a sale, e.g. a top-up or buying ice.
+// Counted in the shift's expected cash. Rows are never edited.
+export interface CashMovement extends SyncMetadata {
+  id: string;
+  shiftId: string; // cashierShifts.id
+  type: 'in' | 'out';
+  amount: number; // Always positive; `type` gives the direction
+  reason: string;
+  createdBy: string; // user.id
+  createdAt: Date;
+}
+
+// A receipt sent to a printer, including failed attempts, so the owner can see which receipts were
+// printed again and by whom. Rows are never edited.
+export interface PrintJob extends SyncMetadata {
+  id: string;
+  transactionId: string; // transactions.id
+  transactionNumber: string;
+  kind: 'receipt' | 'reprint'; // A reprint is marked COPY on paper
+  status: 'printed' | 'failed';
+  error: string | null;
+  printedBy: string; // user.id
+  shiftId: string | null; // cashierShifts.id
+  deviceId: string;
+  createdAt: Date;
+}
+
+// Customer refund of some or all lines of a paid transaction. Returned stock is put back.
+export interface Refund extends SyncMetadata {
+  id: string;
+  refundNumber: string; // Generated by NumberingService ('REFUND')
+  transactionId: string; // transactions.id
+  items: {
+    productId: string; // products.id
+    name: string;
+    qty: number; // Qty returned by the customer
+    amount: number; // Money back for this line, including its share of order discount and tax
+  }[];
+  reason: string;
+  totalAmount: number;
+  payments: { // Refund tender(s), summing to totalAmount
+    method: 'cash' | 'ewallet' | 'qris';
+    amount: number;
+  }[];
+  shiftId: string | null; // cashierShifts.id
+  createdBy: string; // user.id
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+// Append-only stock ledger: one row per change to a product's currentStock
+export interface StockMovementRecord extends SyncMetadata {
+  id: string;
+  productId: string; // products.id
+  type: 'sale' | 'purchase' | 'opname' | 'waste' | 'return' | 'adjustment';
+  qty: number; // Signed change: positive adds stock, negative removes it
+  qtyBefore: number;
+  qtyAfter: number;
+  unit: string;
+  unitCost: number | null;
+  referenceId: string | null; // transactions.id, invoices.id, stockOpnames.id, stockWastes.id, stockReturns.id, refunds.id
+  referenceType: 'transaction' | 'invoice' | 'opname' | 'waste' | 'stock_return' | 'refund' | 'manual';
+  shiftId: string | null; // cashierShifts.id
+  reason: string | null;
+  createdBy: string; // user.id
+  createdAt: Date;
+}
+
+export interface SyncOutboxEntry {
+  id: string; // UUID v7 so entries sort in write order
+  tableName: string; // Dexie table name
+  recordId: string;
+  operation: 'create' | 'update' | 'soft_delete' | 'delete';
+  payload: any | null; // Full record after the write, null for hard deletes
+  base?: any | null; // Record before the write, used as the common ancestor when merging
+  deviceId: string;
+  attempts: number;
+  lastError: string | null;
+  createdAt: Date;
+}
+
+export interface SyncState {
+  id: string; // Dexie table name
+  lastPulledAt: string | null; // Watermark (ISO) of the newest remote row applied locally
+  lastPushedAt: Date | null;
+  auditHead?: AuditChainHead; // auditLog row only: kept outside the log, so deleting the newest entries shows
+  updatedAt: Date;
+}
+
+export interface SyncConflict {
+  id: string;
+  tableName: string;
+  recordId: string;
+  fields: {
+    field: string;
+    rule: 'delta' | 'last_writer' | 'manual';
+    baseValue: any;
+    localValue: any;
+    remoteValue: any;
+    resolvedValue: any; // Value applied by the merge (local value while a manual conflict is open)
+  }[];
+  localDevice: string | null;
+  remoteDevice: string | null;
+  status: 'open' | 'resolved';
+  resolution: 'auto' | 'local' | 'remote' | null;
+  resolvedBy: string | null; // user.id, 'system' for automatic merges
+  resolvedAt: Date | null;
+  createdAt: Date;
+}
+
+// Last issued sequence per document type and reset period. Local to this device.
+export interface DocumentCounter {
+  id: string; // `${docType}:${periodKey}`
+  docType: string; // TRX, INV, RT, PO, REFUND
+  periodKey: string; // YYYYMMDD (daily reset), YYYYMM (monthly reset) or 'all'
+  lastValue: number;
+  updatedAt: Date;
+}
+
 // Main Dexie database class
 export class POSDatabase extends Dexie {
   users!: Table<User>;
@@ -238,6 +478,18 @@ export class POSDatabase extends Dexie {
   stockReturnItems!: Table<StockReturnItem>;
   settings!: Table<Setting>;
   notifications!: Table<Notification>;
+  syncOutbox!: Table<SyncOutboxEntry>;
+  syncState!: Table<SyncState>;
+  syncConflicts!: Table<SyncConflict>;
+  stockMovements!: Table<StockMovementRecord>;
+  counters!: Table<DocumentCounter>;
+  refunds!: Table<Refund>;
+  accessTemplates!: Table<AccessTemplate>;
+  userPermissions!: Table<UserPermission>;
+  auditLog!: Table<AuditLogEntry>;
+  approvals!: Table<Approval>;
+  cashMovements!: Table<CashMovement>;
+  printJobs!: Table<PrintJob>;
 
   constructor() {
     super('POSDatabase');
@@ -399,6 +651,293 @@ export class POSDatabase extends Dexie {
         }
       });
     });
+
+    // Add sync outbox and pull watermarks in version 8
+    this.version(8).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id'
+    }).upgrade((trans: any) => {
+      // Give existing shifts an updatedAt so they can be pulled by watermark
+      return trans.table('cashierShifts').toCollection().modify((obj: any) => {
+        if (obj.updatedAt === undefined) {
+          obj.updatedAt = obj.closedAt || obj.openedAt;
+        }
+      });
+    });
+
+    // Add sync conflict inbox in version 9
+    this.version(9).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id',
+      syncConflicts: 'id, tableName, recordId, status, createdAt'
+    });
+
+    // Add persistent stock ledger in version 10
+    this.version(10).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id',
+      syncConflicts: 'id, tableName, recordId, status, createdAt',
+      stockMovements: 'id, productId, type, referenceId, shiftId, createdAt, [productId+createdAt]'
+    });
+
+    // Add per-device document counters in version 11
+    this.version(11).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id',
+      syncConflicts: 'id, tableName, recordId, status, createdAt',
+      stockMovements: 'id, productId, type, referenceId, shiftId, createdAt, [productId+createdAt]',
+      counters: 'id, docType'
+    });
+
+    // Add customer refunds in version 12
+    this.version(12).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id',
+      syncConflicts: 'id, tableName, recordId, status, createdAt',
+      stockMovements: 'id, productId, type, referenceId, shiftId, createdAt, [productId+createdAt]',
+      counters: 'id, docType',
+      refunds: 'id, refundNumber, transactionId, shiftId, createdBy, createdAt, updatedAt, deletedAt'
+    });
+
+    // Add access templates and per-user permissions in version 13
+    this.version(13).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id',
+      syncConflicts: 'id, tableName, recordId, status, createdAt',
+      stockMovements: 'id, productId, type, referenceId, shiftId, createdAt, [productId+createdAt]',
+      counters: 'id, docType',
+      refunds: 'id, refundNumber, transactionId, shiftId, createdBy, createdAt, updatedAt, deletedAt',
+      accessTemplates: 'id, name, isSystem, updatedAt, deletedAt',
+      userPermissions: 'id, userId, permission, updatedAt, deletedAt'
+    });
+
+    // Add the audit log in version 14
+    this.version(14).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id',
+      syncConflicts: 'id, tableName, recordId, status, createdAt',
+      stockMovements: 'id, productId, type, referenceId, shiftId, createdAt, [productId+createdAt]',
+      counters: 'id, docType',
+      refunds: 'id, refundNumber, transactionId, shiftId, createdBy, createdAt, updatedAt, deletedAt',
+      accessTemplates: 'id, name, isSystem, updatedAt, deletedAt',
+      userPermissions: 'id, userId, permission, updatedAt, deletedAt',
+      auditLog: 'id, action, entityType, entityId, actorId, shiftId, createdAt'
+    });
+
+    // Index the audit log hash chain by device in version 15
+    this.version(15).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id',
+      syncConflicts: 'id, tableName, recordId, status, createdAt',
+      stockMovements: 'id, productId, type, referenceId, shiftId, createdAt, [productId+createdAt]',
+      counters: 'id, docType',
+      refunds: 'id, refundNumber, transactionId, shiftId, createdBy, createdAt, updatedAt, deletedAt',
+      accessTemplates: 'id, name, isSystem, updatedAt, deletedAt',
+      userPermissions: 'id, userId, permission, updatedAt, deletedAt',
+      auditLog: 'id, action, entityType, entityId, actorId, shiftId, deviceId, createdAt, [deviceId+sequence]'
+    });
+
+    // Add approvals in version 16
+    this.version(16).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id',
+      syncConflicts: 'id, tableName, recordId, status, createdAt',
+      stockMovements: 'id, productId, type, referenceId, shiftId, createdAt, [productId+createdAt]',
+      counters: 'id, docType',
+      refunds: 'id, refundNumber, transactionId, shiftId, createdBy, createdAt, updatedAt, deletedAt',
+      accessTemplates: 'id, name, isSystem, updatedAt, deletedAt',
+      userPermissions: 'id, userId, permission, updatedAt, deletedAt',
+      auditLog: 'id, action, entityType, entityId, actorId, shiftId, deviceId, createdAt, [deviceId+sequence]',
+      approvals: 'id, action, transactionId, requestedBy, approvedBy, shiftId, createdAt, updatedAt'
+    });
+
+    // Add cash movements in version 17
+    this.version(17).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id',
+      syncConflicts: 'id, tableName, recordId, status, createdAt',
+      stockMovements: 'id, productId, type, referenceId, shiftId, createdAt, [productId+createdAt]',
+      counters: 'id, docType',
+      refunds: 'id, refundNumber, transactionId, shiftId, createdBy, createdAt, updatedAt, deletedAt',
+      accessTemplates: 'id, name, isSystem, updatedAt, deletedAt',
+      userPermissions: 'id, userId, permission, updatedAt, deletedAt',
+      auditLog: 'id, action, entityType, entityId, actorId, shiftId, deviceId, createdAt, [deviceId+sequence]',
+      approvals: 'id, action, transactionId, requestedBy, approvedBy, shiftId, createdAt, updatedAt',
+      cashMovements: 'id, shiftId, type, createdBy, createdAt'
+    });
+
+    // Add print jobs in version 18
+    this.version(18).stores({
+      users: 'id, email, role, createdAt, updatedAt, deletedAt',
+      categories: 'id, name, createdBy, createdAt, updatedAt, deletedAt',
+      products: 'id, name, type, categoryId, sku, createdBy, createdAt, updatedAt, deletedAt',
+      suppliers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      invoices: 'id, invoiceNumber, supplierId, createdBy, createdAt, updatedAt, deletedAt, shiftId, paymentStatus',
+      stockOpnames: 'id, createdBy, createdAt, shiftId',
+      stockWastes: 'id, productId, createdBy, createdAt, shiftId',
+      customers: 'id, name, phone, createdBy, createdAt, updatedAt, deletedAt',
+      transactions: 'id, transactionNumber, customerId, status, createdBy, createdAt, updatedAt, deletedAt, shiftId',
+      cashierShifts: 'id, openedBy, closedBy, openedAt, closedAt, status, updatedAt',
+      stockReturns: 'id, returnNumber, supplierId, originalInvoiceId, status, createdAt, updatedAt, deletedAt',
+      stockReturnItems: 'id, stockReturnId, productId, createdAt',
+      settings: 'id, key, updatedAt',
+      notifications: 'id, type, read, createdAt',
+      syncOutbox: 'id, tableName, recordId, createdAt',
+      syncState: 'id',
+      syncConflicts: 'id, tableName, recordId, status, createdAt',
+      stockMovements: 'id, productId, type, referenceId, shiftId, createdAt, [productId+createdAt]',
+      counters: 'id, docType',
+      refunds: 'id, refundNumber, transactionId, shiftId, createdBy, createdAt, updatedAt, deletedAt',
+      accessTemplates: 'id, name, isSystem, updatedAt, deletedAt',
+      userPermissions: 'id, userId, permission, updatedAt, deletedAt',
+      auditLog: 'id, action, entityType, entityId, actorId, shiftId, deviceId, createdAt, [deviceId+sequence]',
+      approvals: 'id, action, transactionId, requestedBy, approvedBy, shiftId, createdAt, updatedAt',
+      cashMovements: 'id, shiftId, type, createdBy, createdAt',
+      printJobs: 'id, transactionId, kind, printedBy, shiftId, createdAt'
+    });
+
+    // Record every local write in the sync outbox
+    registerSyncHooks(this);
   }
 }
 
@@ -48,17 +48,3 @@ export const initializeDB = async () => {
     throw error;
   }
 };
-
-// Utility function to generate return number
-export const generateReturnNumber = (): string => {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  const dateStr = `${year}${month}${day}`;
-  
-  // For now, use a simple sequence. In production, you might want to store the sequence in a separate counter table
-  const sequence = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-  
-  return `RT-${dateStr}-${sequence}`;
-};
\ No newline at end of file
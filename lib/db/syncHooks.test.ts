@@ -0,0 +1,103 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { v7 as uuidv7 } from 'uuid';
+import { db, Customer, SyncOutboxEntry } from './index';
+import { markSyncApply } from './syncHooks';
+
+// Lets a test hand the next outbox entry an id that is already taken
+const nextId = vi.hoisted(() => ({ value: null as string | null }));
+vi.mock('uuid', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('uuid')>();
+  return { ...actual, v7: (...args: any[]) => nextId.value ?? (actual.v7 as any)(...args) };
+});
+
+const customer = (): Customer => ({
+  id: uuidv7(),
+  name: 'Budi',
+  phone: null,
+  gender: null,
+  createdBy: uuidv7(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  deletedAt: null
+});
+
+describe('sync outbox hooks', () => {
+  beforeEach(async () => {
+    await db.customers.clear();
+    await db.syncOutbox.clear();
+  });
+
+  it('queues a write in the same transaction, even when the caller did not list the outbox', async () => {
+    const record = customer();
+
+    await db.transaction('rw', db.customers, async () => {
+      await db.customers.add(record);
+      await db.customers.update(record.id, { name: 'Budi Santoso', updatedAt: new Date() });
+    });
+
+    const entries = await db.syncOutbox.orderBy('id').toArray();
+    expect(entries.map(entry => entry.operation)).toEqual(['create', 'update']);
+    expect(entries[1].payload.name).toBe('Budi Santoso');
+    expect(entries[1].base.name).toBe('Budi');
+  });
+
+  it('queues single writes outside an explicit transaction', async () => {
+    const record = customer();
+    await db.customers.add(record);
+    await db.customers.update(record.id, { deletedAt: new Date() });
+
+    const entries = await db.syncOutbox.where('recordId').equals(record.id).sortBy('id');
+    expect(entries.map(entry => entry.operation)).toEqual(['create', 'soft_delete']);
+  });
+
+  it('queues nothing for a write that rolls back', async () => {
+    await expect(db.transaction('rw', db.customers, async () => {
+      await db.customers.add(customer());
+      throw new Error('Checkout failed');
+    })).rejects.toThrow('Checkout failed');
+
+    expect(await db.customers.count()).toBe(0);
+    expect(await db.syncOutbox.count()).toBe(0);
+  });
+
+  it('queues nothing for pulled rows, but still queues later local writes', async () => {
+    const pulled = customer();
+    await db.transaction('rw', db.customers, async (trans) => {
+      markSyncApply(trans);
+      await db.customers.put(pulled);
+    });
+    expect(await db.syncOutbox.count()).toBe(0);
+
+    await db.customers.update(pulled.id, { name: 'Budi Santoso', updatedAt: new Date() });
+
+    const entries = await db.syncOutbox.toArray();
+    expect(entries.map(entry => entry.operation)).toEqual(['update']);
+  });
+
+  it('rolls the write back when its outbox entry cannot be written', async () => {
+    const record = customer();
+    const taken: SyncOutboxEntry = {
+      id: uuidv7(),
+      tableName: 'customers',
+      recordId: 'other',
+      operation: 'update',
+      payload: null,
+      deviceId: 'device',
+      attempts: 0,
+      lastError: null,
+      createdAt: new Date()
+    };
+    await db.syncOutbox.add(taken);
+
+    nextId.value = taken.id;
+    try {
+      await expect(db.customers.add(record)).rejects.toThrow('Failed to write sync outbox entries');
+    } finally {
+      nextId.value = null;
+    }
+
+    expect(await db.customers.get(record.id)).toBeUndefined();
+    expect(await db.syncOutbox.count()).toBe(1);
+  });
+});
@@ -0,0 +1,147 @@
+import Dexie, { DBCore, DBCoreTransaction, Middleware, Transaction } from 'dexie';
+import { v7 as uuidv7 } from 'uuid';
+import type { POSDatabase, SyncOutboxEntry } from './index';
+import { SYNC_TABLES } from '../config/sync';
+import { getDeviceId } from '../utils/device';
+
+// Transactions applying pulled remote rows, whose writes must not be queued again
+const syncApplyTransactions = new WeakSet<Transaction>();
+
+// Outbox entries waiting to be written, keyed by the underlying IndexedDB transaction
+const pendingEntries = new WeakMap<DBCoreTransaction, SyncOutboxEntry[]>();
+
+const SYNCED_TABLE_NAMES = SYNC_TABLES.map(({ table }) => table);
+
+export const markSyncApply = (trans: Transaction) => {
+  syncApplyTransactions.add(trans);
+};
+
+const isSyncApply = (trans: Transaction | undefined): boolean => {
+  return Boolean(trans && syncApplyTransactions.has(trans));
+};
+
+const toPlainRecord = (obj: any) => {
+  return obj ? Dexie.deepClone(obj) : null;
+};
+
+// Hooks collect entries on the underlying IndexedDB transaction, and SyncOutboxMiddleware writes them
+// right after the write that produced them, in that same transaction
+const queueEntry = (trans: Transaction, entry: SyncOutboxEntry) => {
+  const entries = pendingEntries.get(trans.idbtrans);
+  if (entries) {
+    entries.push(entry);
+  } else {
+    pendingEntries.set(trans.idbtrans, [entry]);
+  }
+};
+
+// Every read-write transaction on a synced table also gets the outbox, so entries commit or roll back
+// together with the write they describe; callers keep listing only the tables they use.
+// A failed outbox write fails the data write as well, instead of leaving it unsynced.
+const syncOutboxMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'SyncOutboxMiddleware',
+  level: 3, // Above Dexie's hooks, so their onsuccess callbacks have run
+  create: (down) => ({
+    ...down,
+    transaction: (stores, mode, options) => {
+      const needsOutbox = mode === 'readwrite'
+        && !stores.includes('syncOutbox')
+        && stores.some(name => SYNCED_TABLE_NAMES.includes(name));
+      return down.transaction(needsOutbox ? [...stores, 'syncOutbox'] : stores, mode, options);
+    },
+    table: (tableName) => {
+      const table = down.table(tableName);
+      if (!SYNCED_TABLE_NAMES.includes(tableName)) return table;
+
+      return {
+        ...table,
+        // Plain promise chains, not async/await: the outbox write must be issued while the transaction is still active
+        mutate: (req) => table.mutate(req).then(result => {
+          const entries = pendingEntries.get(req.trans);
+          if (!entries || entries.length === 0) return result;
+
+          pendingEntries.delete(req.trans);
+          return down.table('syncOutbox').mutate({ type: 'add', trans: req.trans, values: entries }).then(outbox => {
+            if (outbox.numFailures > 0) {
+              // Dexie has already handled the request error, so without this the data write would still commit
+              req.trans.abort();
+              throw new Error(`Failed to write sync outbox entries: ${Object.values(outbox.failures)[0]}`);
+            }
+            return result;
+          });
+        })
+      };
+    }
+  })
+};
+
+const createEntry = (
+  tableName: string,
+  recordId: any,
+  operation: SyncOutboxEntry['operation'],
+  payload: any | null,
+  base: any | null = null
+): SyncOutboxEntry => ({
+  id: uuidv7(),
+  tableName,
+  recordId: String(recordId),
+  operation,
+  payload,
+  base,
+  deviceId: getDeviceId(),
+  attempts: 0,
+  lastError: null,
+  createdAt: new Date()
+});
+
+// Register creating/updating/deleting hooks on every synced table
+export const registerSyncHooks = (db: POSDatabase) => {
+  db.use(syncOutboxMiddleware);
+
+  SYNC_TABLES.forEach(({ table }) => {
+    const dexieTable = db.table(table);
+
+    dexieTable.hook('creating', function (primKey, obj: any, trans) {
+      if (isSyncApply(trans)) return;
+
+      // Stamp revision info on the new record
+      obj.version = obj.version ?? 1;
+      obj.lastModifiedDevice = getDeviceId();
+
+      this.onsuccess = (key) => {
+        queueEntry(trans, createEntry(table, key ?? primKey, 'create', toPlainRecord(obj)));
+      };
+    });
+
+    dexieTable.hook('updating', function (modifications: any, primKey, obj: any, trans) {
+      if (isSyncApply(trans)) return;
+
+      // Setting deletedAt from null to a date is a soft delete
+      const softDeleted = Boolean(modifications.deletedAt) && !obj.deletedAt;
+
+      const base = toPlainRecord(obj);
+
+      this.onsuccess = (updatedObj) => {
+        queueEntry(
+          trans,
+          createEntry(table, primKey, softDeleted ? 'soft_delete' : 'update', toPlainRecord(updatedObj), base)
+        );
+      };
+
+      // Bump the version counter alongside the caller's modifications
+      return {
+        version: (obj.version ?? 0) + 1,
+        lastModifiedDevice: getDeviceId()
+      };
+    });
+
+    dexieTable.hook('deleting', function (primKey, obj, trans) {
+      if (isSyncApply(trans)) return;
+
+      this.onsuccess = () => {
+        queueEntry(trans, createEntry(table, primKey, 'delete', null));
+      };
+    });
+  });
+};
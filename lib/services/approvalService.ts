@@ -0,0 +1,157 @@
+import { v7 as uuidv7 } from 'uuid';
+import { db, Approval, User } from '../db';
+import { ApprovalAction, ApprovalRule } from '../types/settings';
+import { useShiftStore } from '../stores/shiftStore';
+import { useLockScreenStore } from './lockScreenService';
+import { settingsService } from './settingsService';
+import { PermissionService } from './permissionService';
+import { PinService } from './pinService';
+import { AuditLogService } from './auditLogService';
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+  discount: 'Diskon di atas batas',
+  priceOverride: 'Ubah harga jual',
+  void: 'Void transaksi',
+  openDrawer: 'Buka laci tanpa penjualan',
+  deleteSavedOrder: 'Hapus order tersimpan',
+};
+
+// Users with this permission do the action themselves and may approve it for others
+const APPROVER_PERMISSIONS: Record<ApprovalAction, string> = {
+  discount: 'transactions.approve',
+  priceOverride: 'transactions.approve',
+  void: 'transactions.void',
+  openDrawer: 'transactions.approve',
+  deleteSavedOrder: 'transactions.approve',
+};
+
+// Actions whose rule threshold applies to a size in percent
+const SIZED_ACTIONS: ApprovalAction[] = ['discount', 'priceOverride'];
+
+type PermissionUser = Pick<User, 'id' | 'role' | 'accessTemplateId'>;
+
+export interface ApprovalRequest {
+  action: ApprovalAction;
+  pin: string; // Owner's or supervisor's PIN
+  requestedBy: string; // user.id of the cashier
+  transactionId?: string | null; // Left empty while the transaction does not exist yet, see linkToTransaction
+  details?: Record<string, any> | null;
+}
+
+export class ApprovalService {
+  // Without a stored policy the defaults apply; if even those are missing, everything needs approval
+  static async getRule(action: ApprovalAction): Promise<ApprovalRule> {
+    const policy = await settingsService.getSettings('approvals');
+    return policy?.[action] ?? { required: true, threshold: 0 };
+  }
+
+  static async canApprove(user: PermissionUser, action: ApprovalAction): Promise<boolean> {
+    return PermissionService.userCan(user, APPROVER_PERMISSIONS[action]);
+  }
+
+  // `size` is the discount or price change in percent, for the actions that have a threshold
+  static async requiresApproval(action: ApprovalAction, user: PermissionUser, size = 0): Promise<boolean> {
+    const rule = await this.getRule(action);
+    if (!rule.required) return false;
+    if (SIZED_ACTIONS.includes(action) && size <= rule.threshold) return false;
+    return !(await this.canApprove(user, action));
+  }
+
+  // The active owner or supervisor whose PIN this is. The cashier asking cannot approve for themselves.
+  static async findApproverByPin(action: ApprovalAction, pin: string, requestedBy: string): Promise<User | null> {
+    try {
+      if (!pin) return null;
+
+      const candidates = await db.users
+        .filter(user => !user.deletedAt && !!user.pin && user.id !== requestedBy)
+        .toArray();
+
+      for (const candidate of candidates) {
+        if (await this.canApprove(candidate, action) && await PinService.verify(candidate, pin)) {
+          return candidate;
+        }
+      }
+      return null;
+    } catch (error) {
+      throw new Error(`Failed to verify PIN: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Check the approver's PIN and record the approval. It stays recorded even if the action itself then fails.
+  // Wrong PINs count towards this device's approval lockout and are written to the audit log.
+  static async approve(request: ApprovalRequest): Promise<Approval> {
+    try {
+      let approver = null as User | null;
+      const approved = await useLockScreenStore.getState().attemptApproval(async () => {
+        approver = await this.findApproverByPin(request.action, request.pin, request.requestedBy);
+        return approver !== null;
+      });
+      if (!approved || !approver) {
+        const { approvalLockoutUntil } = useLockScreenStore.getState();
+        const lockedOut = !!approvalLockoutUntil && Date.now() < approvalLockoutUntil;
+        await AuditLogService.record({
+          action: 'approval.fail',
+          entityType: 'approvals',
+          actorId: request.requestedBy,
+          after: { action: request.action, transactionId: request.transactionId ?? null, lockedOut }
+        }).catch(error => console.error('Error writing audit log:', error));
+        throw new Error(lockedOut
+          ? 'Too many wrong PINs, approvals are locked on this device for now'
+          : 'PIN does not belong to an owner or supervisor who may approve this');
+      }
+
+      const now = new Date();
+      const approval: Approval = {
+        id: uuidv7(),
+        action: request.action,
+        transactionId: request.transactionId ?? null,
+        requestedBy: request.requestedBy,
+        approvedBy: approver.id,
+        shiftId: useShiftStore.getState().currentShiftId,
+        details: request.details ?? null,
+        createdAt: now,
+        updatedAt: now
+      };
+      await db.approvals.add(approval);
+
+      AuditLogService.record({
+        action: 'approval.grant',
+        entityType: 'approvals',
+        entityId: approval.id,
+        actorId: request.requestedBy,
+        after: {
+          action: approval.action,
+          approvedBy: approval.approvedBy,
+          transactionId: approval.transactionId,
+          ...approval.details
+        }
+      }).catch(error => console.error('Error writing audit log:', error));
+
+      return approval;
+    } catch (error) {
+      throw new Error(`Failed to approve: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Approvals given while a cart was open belong to the transaction the cart became
+  static async linkToTransaction(approvalIds: string[], transactionId: string): Promise<void> {
+    try {
+      if (approvalIds.length === 0) return;
+      await db.approvals
+        .where('id')
+        .anyOf(approvalIds)
+        .modify({ transactionId, updatedAt: new Date() });
+    } catch (error) {
+      throw new Error(`Failed to link approvals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Oldest first
+  static async getTransactionApprovals(transactionId: string): Promise<Approval[]> {
+    try {
+      return await db.approvals.where('transactionId').equals(transactionId).sortBy('createdAt');
+    } catch (error) {
+      throw new Error(`Failed to get approvals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
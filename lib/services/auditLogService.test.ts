@@ -0,0 +1,49 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../db';
+import { AuditLogService } from './auditLogService';
+
+const recordSwitches = async (count: number) => {
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    entries.push(await AuditLogService.record({ action: 'user.switch', entityType: 'users', actorId: 'owner', shiftId: null }));
+  }
+  return entries;
+};
+
+beforeEach(async () => {
+  await db.auditLog.clear();
+  await db.syncState.clear();
+});
+
+describe('AuditLogService.verifyChain', () => {
+  it('passes an untouched chain', async () => {
+    await recordSwitches(3);
+
+    const report = await AuditLogService.verifyChain();
+
+    expect(report.checked).toBe(3);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('finds the newest entries deleted', async () => {
+    const entries = await recordSwitches(3);
+    await db.auditLog.bulkDelete([entries[1].id, entries[2].id]);
+
+    const report = await AuditLogService.verifyChain();
+
+    expect(report.issues).toEqual([
+      { entryId: entries[2].id, deviceId: entries[2].deviceId, sequence: 3, reason: 'truncated' }
+    ]);
+  });
+
+  it('finds the whole chain deleted', async () => {
+    const entries = await recordSwitches(2);
+    await db.auditLog.clear();
+
+    const report = await AuditLogService.verifyChain();
+
+    expect(report.issues.map(issue => issue.reason)).toEqual(['truncated']);
+    expect(report.issues[0].entryId).toBe(entries[1].id);
+  });
+});
@@ -0,0 +1,226 @@
+import Dexie from 'dexie';
+import { db, AuditChainHead, AuditLogEntry } from '../db';
+import { v7 as uuidv7 } from 'uuid';
+import { getDeviceId } from '../utils/device';
+
+export interface AuditLogInput {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  actorId?: string; // Defaults to the signed-in user
+  shiftId?: string | null; // Defaults to the terminal's open shift
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  note?: string | null;
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  entityType?: string;
+  actorId?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface AuditChainIssue {
+  entryId: string;
+  deviceId: string;
+  sequence: number | null;
+  reason: 'gap' | 'broken_link' | 'modified' | 'truncated';
+}
+
+export interface AuditChainReport {
+  checked: number;
+  unchained: number; // Entries recorded before hashing was introduced
+  issues: AuditChainIssue[];
+}
+
+// Keys are sorted so the hash does not depend on property order, which is not kept by the server's JSON columns
+const stableStringify = (value: any): string => {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const computeHash = async (entry: AuditLogEntry): Promise<string> => {
+  const payload = stableStringify({
+    id: entry.id,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    actorId: entry.actorId,
+    shiftId: entry.shiftId,
+    before: entry.before,
+    after: entry.after,
+    note: entry.note,
+    deviceId: entry.deviceId,
+    createdAt: new Date(entry.createdAt),
+    sequence: entry.sequence,
+    prevHash: entry.prevHash ?? null
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Appends from this tab run one at a time so each entry links to the one before it
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+export class AuditLogService {
+  // Entries are only ever added, never updated or deleted. Each device chains its entries by hash,
+  // so removing or editing one shows up in verifyChain().
+  static async record(input: AuditLogInput): Promise<AuditLogEntry> {
+    const append = appendQueue.then(() => this.append(input));
+    appendQueue = append.catch(() => undefined);
+    return append;
+  }
+
+  // Record only the fields that actually changed; fields missing from `after` were not touched.
+  // Nothing is written when none did.
+  static async recordChanges(
+    input: Omit<AuditLogInput, 'before' | 'after'>,
+    before: Record<string, any>,
+    after: Record<string, any>,
+    fields: string[] = Object.keys(after)
+  ): Promise<AuditLogEntry | null> {
+    const changed = fields.filter(field =>
+      after[field] !== undefined && stableStringify(before[field]) !== stableStringify(after[field])
+    );
+    if (changed.length === 0) return null;
+
+    return this.record({
+      ...input,
+      before: Object.fromEntries(changed.map(field => [field, before[field] ?? null])),
+      after: Object.fromEntries(changed.map(field => [field, after[field] ?? null]))
+    });
+  }
+
+  // Newest first
+  static async getEntries(filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+    try {
+      const entries = await db.auditLog
+        .where('createdAt')
+        .between(filters.dateFrom || new Date(0), filters.dateTo || new Date(8640000000000000), true, true)
+        .filter(entry =>
+          (!filters.action || entry.action === filters.action) &&
+          (!filters.entityType || entry.entityType === filters.entityType) &&
+          (!filters.actorId || entry.actorId === filters.actorId)
+        )
+        .toArray();
+      return entries.reverse();
+    } catch (error) {
+      throw new Error(`Failed to get audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Walks every device's chain. A gap in the sequence means entries were deleted,
+  // a wrong prevHash or hash means an entry was edited or replaced. Deleting a device's newest
+  // entries leaves no gap, so this device's chain is also checked against the head kept in syncState.
+  static async verifyChain(): Promise<AuditChainReport> {
+    try {
+      const entries = await db.auditLog.toArray();
+      const head = (await db.syncState.get(db.auditLog.name))?.auditHead;
+      const report: AuditChainReport = { checked: 0, unchained: 0, issues: [] };
+
+      const byDevice = new Map<string, AuditLogEntry[]>();
+      for (const entry of entries) {
+        if (entry.sequence === undefined || !entry.hash) {
+          report.unchained++;
+          continue;
+        }
+        byDevice.set(entry.deviceId, [...(byDevice.get(entry.deviceId) || []), entry]);
+      }
+
+      for (const [deviceId, chain] of byDevice) {
+        chain.sort((a, b) => a.sequence! - b.sequence!);
+        let previous: AuditLogEntry | null = null;
+
+        for (const entry of chain) {
+          report.checked++;
+          const expectedSequence = previous ? previous.sequence! + 1 : 1;
+          const issue = (reason: AuditChainIssue['reason']) =>
+            report.issues.push({ entryId: entry.id, deviceId, sequence: entry.sequence ?? null, reason });
+
+          if (entry.sequence !== expectedSequence) {
+            issue('gap');
+          } else if ((entry.prevHash ?? null) !== (previous?.hash ?? null)) {
+            issue('broken_link');
+          }
+          if (await computeHash(entry) !== entry.hash) {
+            issue('modified');
+          }
+          previous = entry;
+        }
+      }
+
+      if (head) {
+        const headEntry = byDevice.get(head.deviceId)?.find(entry => entry.sequence === head.sequence);
+        if (!headEntry || headEntry.id !== head.entryId || headEntry.hash !== head.hash) {
+          report.issues.push({
+            entryId: head.entryId,
+            deviceId: head.deviceId,
+            sequence: head.sequence,
+            reason: headEntry ? 'modified' : 'truncated'
+          });
+        }
+      }
+
+      return report;
+    } catch (error) {
+      throw new Error(`Failed to verify audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static async append(input: AuditLogInput): Promise<AuditLogEntry> {
+    try {
+      const deviceId = getDeviceId();
+      const last = await db.auditLog
+        .where('[deviceId+sequence]')
+        .between([deviceId, Dexie.minKey], [deviceId, Dexie.maxKey])
+        .last();
+
+      let actorId = input.actorId;
+      let shiftId = input.shiftId;
+      if (actorId === undefined) {
+        const { useAuthStore } = await import('../stores/authStore');
+        actorId = useAuthStore.getState().user?.id || 'system';
+      }
+      if (shiftId === undefined) {
+        const { useShiftStore } = await import('../stores/shiftStore');
+        shiftId = useShiftStore.getState().currentShiftId;
+      }
+
+      const entry: AuditLogEntry = {
+        id: uuidv7(),
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId ?? null,
+        actorId,
+        shiftId: shiftId ?? null,
+        before: input.before ?? null,
+        after: input.after ?? null,
+        note: input.note ?? null,
+        deviceId,
+        sequence: (last?.sequence ?? 0) + 1,
+        prevHash: last?.hash ?? null,
+        createdAt: new Date()
+      };
+      entry.hash = await computeHash(entry);
+
+      const head: AuditChainHead = { entryId: entry.id, deviceId, sequence: entry.sequence!, hash: entry.hash };
+      await db.transaction('rw', db.auditLog, db.syncState, async () => {
+        await db.auditLog.add(entry);
+        const updated = await db.syncState.update(db.auditLog.name, { auditHead: head });
+        if (!updated) {
+          await db.syncState.add({ id: db.auditLog.name, lastPulledAt: null, lastPushedAt: null, auditHead: head, updatedAt: new Date() });
+        }
+      });
+      return entry;
+    } catch (error) {
+      throw new Error(`Failed to write audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -10,6 +10,21 @@ export interface Tax {
   amount: number;
 }
 
+export interface DiscountInput {
+  type: 'percent' | 'nominal';
+  value: number;
+}
+
+export interface CartTotals {
+  grossSubtotal: number; // Sum of qty × price before any discount
+  lineDiscount: number; // Sum of per-line discounts
+  subtotal: number; // After line discounts
+  orderDiscount: number; // Order-level discount, applied to the subtotal
+  discountTotal: number; // lineDiscount + orderDiscount
+  taxAmount: number;
+  total: number;
+}
+
 export interface Payment {
   method: 'cash' | 'ewallet' | 'qris';
   amount: number;
@@ -18,13 +33,50 @@ export interface Payment {
 export class CalculationService {
   // Calculate discount amount based on type and value
   static calculateDiscount(subtotal: number, discount: { type: 'percent' | 'nominal'; value: number }): number {
+    if (discount.value <= 0 || subtotal <= 0) return 0;
     if (discount.type === 'percent') {
-      return (subtotal * discount.value) / 100;
+      return (subtotal * Math.min(discount.value, 100)) / 100;
     } else {
       return Math.min(discount.value, subtotal); // Don't allow discount to exceed subtotal
     }
   }
 
+  // Discount of a single cart line
+  static calculateLineDiscount(qty: number, price: number, discount?: DiscountInput | null): number {
+    if (!discount) return 0;
+    return this.calculateDiscount(qty * price, discount);
+  }
+
+  // Totals of a cart with per-line and order-level discounts. Tax timing decides whether the
+  // tax base is taken before or after both kinds of discount.
+  static calculateCartTotals(
+    items: { qty: number; price: number; discount?: DiscountInput | null }[],
+    orderDiscount: DiscountInput | null,
+    tax: { enabled: boolean; rate: number; timing?: 'before_discount' | 'after_discount' | 'included' }
+  ): CartTotals {
+    const grossSubtotal = this.calculateSubtotal(items);
+    const lineDiscount = items.reduce((sum, item) => sum + this.calculateLineDiscount(item.qty, item.price, item.discount), 0);
+    const subtotal = grossSubtotal - lineDiscount;
+    const orderDiscountAmount = orderDiscount ? this.calculateDiscount(subtotal, orderDiscount) : 0;
+    const discountTotal = lineDiscount + orderDiscountAmount;
+    const taxAmount = this.calculateTax(grossSubtotal, discountTotal, tax);
+
+    // Included tax is already part of the prices
+    const total = tax.timing === 'included' && tax.enabled
+      ? grossSubtotal - discountTotal
+      : grossSubtotal - discountTotal + taxAmount;
+
+    return {
+      grossSubtotal,
+      lineDiscount,
+      subtotal,
+      orderDiscount: orderDiscountAmount,
+      discountTotal,
+      taxAmount,
+      total
+    };
+  }
+
   // Calculate tax amount
   static calculateTax(subtotal: number, discountAmount: number, tax: { enabled: boolean; rate: number; timing?: 'before_discount' | 'after_discount' | 'included' }): number {
     if (!tax.enabled) return 0;
@@ -39,8 +91,8 @@ export class CalculationService {
       // Tax calculated after discount
       baseAmount = subtotal - discountAmount;
     } else if (tax.timing === 'included') {
-      // Tax is already included in the price
-      baseAmount = subtotal;
+      // Tax is already included in the (discounted) price, so extract it instead of adding it
+      return ((subtotal - discountAmount) * tax.rate) / (100 + tax.rate);
     }
     
     return (baseAmount * tax.rate) / 100;
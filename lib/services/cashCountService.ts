@@ -0,0 +1,39 @@
+import { CashCount } from '../db';
+import { CashCountSettings, Denomination } from '../types/settings';
+import { settingsService } from './settingsService';
+
+export const DEFAULT_CURRENCY = 'IDR';
+
+export type CashCountLine = CashCount['lines'][number];
+
+export class CashCountService {
+  static async getSettings(): Promise<CashCountSettings> {
+    const settings = await settingsService.getSettings('cashCount');
+    return settings ?? { denominations: {}, blindClose: false };
+  }
+
+  // Denominations of the store's currency, notes before coins, largest first.
+  // Empty when none are configured for the currency; the amount is then typed as a single number.
+  static async getDenominations(): Promise<{ currency: string; denominations: Denomination[] }> {
+    const [general, settings] = await Promise.all([settingsService.getSettings('general'), this.getSettings()]);
+    const currency = general?.currency || DEFAULT_CURRENCY;
+    const denominations = [...(settings.denominations[currency] || [])].sort((a, b) =>
+      a.kind === b.kind ? b.value - a.value : a.kind === 'note' ? -1 : 1
+    );
+    return { currency, denominations };
+  }
+
+  static emptyLines(denominations: Denomination[]): CashCountLine[] {
+    return denominations.map(denomination => ({ ...denomination, qty: 0 }));
+  }
+
+  static calculateTotal(lines: CashCountLine[]): number {
+    return lines.reduce((sum, line) => sum + line.value * line.qty, 0);
+  }
+
+  // What is stored on the shift: only the denominations that were actually there
+  static createCount(currency: string, lines: CashCountLine[]): CashCount {
+    const counted = lines.filter(line => line.qty > 0);
+    return { currency, lines: counted, total: this.calculateTotal(counted) };
+  }
+}
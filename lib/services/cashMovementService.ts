@@ -0,0 +1,80 @@
+import { v7 as uuidv7 } from 'uuid';
+import { db, CashMovement } from '../db';
+import { AuditLogService } from './auditLogService';
+
+export type CashMovementType = CashMovement['type'];
+
+export const CASH_MOVEMENT_TYPE_LABELS: Record<CashMovementType, string> = {
+  in: 'Kas Masuk',
+  out: 'Kas Keluar',
+};
+
+export interface CashMovementInput {
+  shiftId: string;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  userId: string;
+}
+
+export class CashMovementService {
+  static async recordMovement(input: CashMovementInput): Promise<CashMovement> {
+    try {
+      const reason = input.reason.trim();
+      if (!(input.amount > 0)) {
+        throw new Error('Amount must be greater than zero');
+      }
+      if (!reason) {
+        throw new Error('A reason is required');
+      }
+
+      const shift = await db.cashierShifts.get(input.shiftId);
+      if (!shift || shift.status !== 'open') {
+        throw new Error('Shift is not open');
+      }
+
+      const movement: CashMovement = {
+        id: uuidv7(),
+        shiftId: input.shiftId,
+        type: input.type,
+        amount: input.amount,
+        reason,
+        createdBy: input.userId,
+        createdAt: new Date()
+      };
+      await db.cashMovements.add(movement);
+
+      AuditLogService.record({
+        action: 'cash_movement.create',
+        entityType: 'cashMovements',
+        entityId: movement.id,
+        actorId: input.userId,
+        shiftId: input.shiftId,
+        after: { type: movement.type, amount: movement.amount, reason: movement.reason }
+      }).catch(error => console.error('Error writing audit log:', error));
+
+      return movement;
+    } catch (error) {
+      throw new Error(`Failed to record cash movement: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Oldest first, the order they happened at the drawer
+  static async getShiftMovements(shiftId: string): Promise<CashMovement[]> {
+    try {
+      return await db.cashMovements.where('shiftId').equals(shiftId).sortBy('createdAt');
+    } catch (error) {
+      throw new Error(`Failed to get cash movements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async getShiftTotals(shiftId: string): Promise<{ cashIn: number; cashOut: number }> {
+    const movements = await this.getShiftMovements(shiftId);
+    return movements.reduce(
+      (totals, movement) => movement.type === 'in'
+        ? { ...totals, cashIn: totals.cashIn + movement.amount }
+        : { ...totals, cashOut: totals.cashOut + movement.amount },
+      { cashIn: 0, cashOut: 0 }
+    );
+  }
+}
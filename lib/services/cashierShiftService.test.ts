@@ -0,0 +1,79 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { v7 as uuidv7 } from 'uuid';
+import { db, CashierShift, Transaction } from '../db';
+import { CashierShiftService } from './cashierShiftService';
+
+const at = (time: string) => new Date(`2026-10-19T${time}:00`);
+
+const sale = (fields: Partial<Transaction>): Transaction => ({
+  id: uuidv7(),
+  transactionNumber: `TRX-${uuidv7()}`,
+  customerId: null,
+  shiftId: null,
+  items: [],
+  subtotal: 10000,
+  discount: { type: 'nominal', value: 0, amount: 0 },
+  tax: { enabled: false, rate: 0, amount: 0 },
+  total: 10000,
+  payments: [{ method: 'cash', amount: 10000 }],
+  change: 0,
+  status: 'paid',
+  savedAt: null,
+  paidAt: null,
+  createdBy: uuidv7(),
+  createdAt: at('09:00'),
+  updatedAt: at('09:00'),
+  deletedAt: null,
+  ...fields
+});
+
+describe('CashierShiftService.calculateShiftStats', () => {
+  it('counts sales paid into the shift and credits them to the cashier who took the payment', async () => {
+    const firstCashier = uuidv7();
+    const secondCashier = uuidv7();
+    const shift: CashierShift = {
+      id: uuidv7(),
+      openedBy: firstCashier,
+      closedBy: null,
+      openingBalance: 0,
+      closingBalance: null,
+      actualCash: null,
+      variance: null,
+      totalTransactions: 0,
+      totalSales: 0,
+      totalCash: 0,
+      totalNonCash: 0,
+      segments: [
+        { userId: firstCashier, startedAt: at('08:00'), endedAt: at('12:00') },
+        { userId: secondCashier, startedAt: at('12:00'), endedAt: null }
+      ],
+      openedAt: at('08:00'),
+      closedAt: at('16:00'),
+      status: 'closed',
+      updatedAt: at('16:00')
+    };
+    await db.cashierShifts.add(shift);
+
+    await db.transactions.bulkAdd([
+      // Saved by the first cashier, paid after the handover
+      sale({ shiftId: shift.id, total: 20000, payments: [{ method: 'cash', amount: 20000 }], savedAt: at('10:00'), paidAt: at('13:00') }),
+      sale({ shiftId: shift.id, paidAt: at('09:00') }),
+      // Another device's shift running at the same time
+      sale({ shiftId: uuidv7(), total: 50000, paidAt: at('10:00') }),
+      // Soft-deleted
+      sale({ shiftId: shift.id, total: 70000, paidAt: at('11:00'), deletedAt: at('11:30') }),
+      // From before sales carried a shiftId
+      sale({ total: 5000, payments: [{ method: 'qris', amount: 5000 }], createdAt: at('14:00'), paidAt: at('14:00') }),
+      sale({ total: 90000, createdAt: at('17:00'), paidAt: at('17:00') })
+    ]);
+
+    const stats = await CashierShiftService.calculateShiftStats(shift.id);
+
+    expect(stats.totalTransactions).toBe(3);
+    expect(stats.totalSales).toBe(35000);
+    expect(stats.totalCash).toBe(30000);
+    expect(stats.totalNonCash).toBe(5000);
+    expect(stats.segments.map(segment => segment.totalSales)).toEqual([10000, 25000]);
+  });
+});
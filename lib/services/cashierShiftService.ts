@@ -1,28 +1,43 @@
-import { db, CashierShift } from '../db';
+import { db, CashierShift, CashCount, ShiftSegment } from '../db';
 import { v7 as uuidv7 } from 'uuid';
 import { Transaction } from '../db';
+import { CashMovementService } from './cashMovementService';
+import { AuditLogService } from './auditLogService';
+
+// Sales made while one cashier held the drawer
+export interface SegmentStats extends ShiftSegment {
+  totalTransactions: number;
+  totalSales: number;
+  totalCash: number;
+  totalNonCash: number;
+}
+
+export interface ShiftHandover {
+  fromUserId: string;
+  toUserId: string;
+  countedCash: number;
+  count?: CashCount | null;
+}
 
 export class CashierShiftService {
-  // Open a new cashier shift
-  static async openShift(userId: string, openingBalance: number): Promise<CashierShift> {
+  // Open a new cashier shift. `openingCount` is the note-by-note breakdown when the cash was counted that way.
+  static async openShift(userId: string, openingBalance: number, openingCount: CashCount | null = null): Promise<CashierShift> {
     try {
       // Check if there's already an open shift for this user
-      const existingOpenShift = await db.cashierShifts
-        .where('openedBy')
-        .equals(userId)
-        .and(shift => shift.status === 'open')
-        .first();
+      const existingOpenShift = await this.getCurrentOpenShift(userId);
       
       if (existingOpenShift) {
         throw new Error('User already has an open shift');
       }
 
       // Create new shift
+      const openedAt = new Date();
       const newShift: CashierShift = {
         id: uuidv7(),
         openedBy: userId,
         closedBy: null,
         openingBalance,
+        openingCount,
         closingBalance: null,
         actualCash: null,
         variance: null,
@@ -30,9 +45,11 @@ export class CashierShiftService {
         totalSales: 0,
         totalCash: 0,
         totalNonCash: 0,
-        openedAt: new Date(),
+        segments: [{ userId, startedAt: openedAt, endedAt: null }],
+        openedAt,
         closedAt: null,
-        status: 'open'
+        status: 'open',
+        updatedAt: new Date()
       };
 
       // Add to database
@@ -45,7 +62,11 @@ export class CashierShiftService {
   }
 
  // Close an existing cashier shift
-  static async closeShift(shiftId: string, actualCash: number): Promise<CashierShift | null> {
+  static async closeShift(
+    shiftId: string,
+    actualCash: number,
+    options: { closingCount?: CashCount | null; blindClose?: boolean; closedBy?: string } = {}
+  ): Promise<CashierShift | null> {
     try {
       // Get the shift
       const shift = await db.cashierShifts.get(shiftId);
@@ -60,24 +81,38 @@ export class CashierShiftService {
       // Calculate shift statistics
       const shiftStats = await this.calculateShiftStats(shiftId);
       
-      // Calculate variance
-      const expectedCash = shift.openingBalance + shiftStats.totalCash;
+      // Calculate variance; cash put in or taken out without a sale is part of what the drawer should hold
+      const expectedCash = shift.openingBalance + shiftStats.totalCash + shiftStats.totalCashIn - shiftStats.totalCashOut;
       const variance = actualCash - expectedCash;
 
+      // The last cashier's segment ends with the closing count
+      const closedAt = new Date();
+      const segments = this.endLastSegment(shift, {
+        endedAt: closedAt,
+        expectedCash,
+        countedCash: actualCash,
+        count: options.closingCount ?? null
+      });
+
       // Update the shift
       const updatedShift = {
         ...shift,
-        closedBy: shift.openedBy, // For now, same as openedBy, but could be different user
+        closedBy: options.closedBy ?? this.getCurrentCashierId(shift), // Whoever holds the drawer at close
         closingBalance: expectedCash,
         actualCash,
+        closingCount: options.closingCount ?? null,
+        blindClose: options.blindClose ?? false,
         variance,
         totalTransactions: shiftStats.totalTransactions,
         totalSales: shiftStats.totalSales,
         totalCash: shiftStats.totalCash,
         totalNonCash: shiftStats.totalNonCash,
-        closedAt: new Date(),
+        totalCashIn: shiftStats.totalCashIn,
+        totalCashOut: shiftStats.totalCashOut,
+        segments,
+        closedAt,
         status: 'closed',
-        updatedAt: new Date() // Note: CashierShift interface doesn't have updatedAt, so we won't include it
+        updatedAt: new Date()
       };
 
       // Update in database
@@ -85,13 +120,19 @@ export class CashierShiftService {
         closedBy: updatedShift.closedBy,
         closingBalance: updatedShift.closingBalance,
         actualCash: updatedShift.actualCash,
+        closingCount: updatedShift.closingCount,
+        blindClose: updatedShift.blindClose,
         variance: updatedShift.variance,
         totalTransactions: updatedShift.totalTransactions,
         totalSales: updatedShift.totalSales,
         totalCash: updatedShift.totalCash,
         totalNonCash: updatedShift.totalNonCash,
+        totalCashIn: updatedShift.totalCashIn,
+        totalCashOut: updatedShift.totalCashOut,
+        segments: updatedShift.segments,
         closedAt: updatedShift.closedAt,
-        status: updatedShift.status as 'closed'
+        status: updatedShift.status as 'closed',
+        updatedAt: updatedShift.updatedAt
       });
 
       // Get the updated shift
@@ -102,13 +143,89 @@ export class CashierShiftService {
     }
   }
 
- // Get current open shift for a user
+  // Hand the drawer to another cashier without closing the shift. The outgoing cashier's count is kept
+  // on their segment next to what the drawer should have held, and the incoming cashier starts a new one.
+  static async handoverShift(shiftId: string, handover: ShiftHandover): Promise<CashierShift> {
+    try {
+      const shift = await db.cashierShifts.get(shiftId);
+      if (!shift) {
+        throw new Error('Shift not found');
+      }
+
+      if (shift.status !== 'open') {
+        throw new Error('Shift is not open');
+      }
+
+      if (this.getCurrentCashierId(shift) !== handover.fromUserId) {
+        throw new Error('Only the cashier holding the drawer can hand it over');
+      }
+
+      if (handover.toUserId === handover.fromUserId) {
+        throw new Error('The incoming cashier must be someone else');
+      }
+
+      if (await this.getCurrentOpenShift(handover.toUserId)) {
+        throw new Error('The incoming cashier already has an open shift');
+      }
+
+      const stats = await this.calculateShiftStats(shiftId);
+      const expectedCash = shift.openingBalance + stats.totalCash + stats.totalCashIn - stats.totalCashOut;
+
+      const now = new Date();
+      const segments = [
+        ...this.endLastSegment(shift, {
+          endedAt: now,
+          expectedCash,
+          countedCash: handover.countedCash,
+          count: handover.count ?? null,
+          acceptedBy: handover.toUserId
+        }),
+        { userId: handover.toUserId, startedAt: now, endedAt: null }
+      ];
+
+      await db.cashierShifts.update(shiftId, { segments, updatedAt: now });
+
+      AuditLogService.record({
+        action: 'shift.handover',
+        entityType: 'cashierShifts',
+        entityId: shiftId,
+        actorId: handover.toUserId,
+        shiftId,
+        before: { userId: handover.fromUserId },
+        after: { userId: handover.toUserId, expectedCash, countedCash: handover.countedCash }
+      }).catch(error => console.error('Error writing audit log:', error));
+
+      return { ...shift, segments, updatedAt: now };
+    } catch (error) {
+      throw new Error(`Failed to hand over shift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // The shift's cashier segments; shifts from before handovers are a single segment for whoever opened them
+  static getSegments(shift: CashierShift): ShiftSegment[] {
+    return shift.segments?.length
+      ? shift.segments
+      : [{ userId: shift.openedBy, startedAt: shift.openedAt, endedAt: shift.closedAt }];
+  }
+
+  // The cashier holding the drawer now
+  static getCurrentCashierId(shift: CashierShift): string {
+    const segments = this.getSegments(shift);
+    return segments[segments.length - 1].userId;
+  }
+
+  private static endLastSegment(shift: CashierShift, end: Partial<ShiftSegment> & { endedAt: Date }): ShiftSegment[] {
+    const segments = this.getSegments(shift);
+    return segments.map((segment, index) => index === segments.length - 1 ? { ...segment, ...end } : segment);
+  }
+
+  // Get the open shift whose drawer the user currently holds, whether they opened it or took it over
   static async getCurrentOpenShift(userId: string): Promise<CashierShift | null> {
     try {
       const shift = await db.cashierShifts
-        .where('openedBy')
-        .equals(userId)
-        .and(shift => shift.status === 'open')
+        .where('status')
+        .equals('open')
+        .filter(shift => this.getCurrentCashierId(shift) === userId)
         .first();
       
       return shift || null;
@@ -154,12 +271,34 @@ export class CashierShiftService {
     }
   }
 
+  // Sales paid into the shift's drawer. Older rows without a shiftId fall back
+  // to the shift period; voided and soft-deleted sales never count.
+  private static async getShiftTransactions(shift: CashierShift): Promise<Transaction[]> {
+    const shiftEnd = shift.closedAt || new Date();
+    return db.transactions
+      .filter(transaction => {
+        if (transaction.status !== 'paid' || transaction.deletedAt) {
+          return false;
+        }
+        if (transaction.shiftId) {
+          return transaction.shiftId === shift.id;
+        }
+        const paidAt = transaction.paidAt ?? transaction.createdAt;
+        return paidAt >= shift.openedAt && paidAt <= shiftEnd;
+      })
+      .toArray();
+  }
+
   // Calculate shift statistics
   static async calculateShiftStats(shiftId: string): Promise<{
     totalTransactions: number;
     totalSales: number;
     totalCash: number;
     totalNonCash: number;
+    totalRefunds: number;
+    totalCashIn: number;
+    totalCashOut: number;
+    segments: SegmentStats[];
   }> {
     try {
       const shift = await db.cashierShifts.get(shiftId);
@@ -167,38 +306,81 @@ export class CashierShiftService {
         throw new Error('Shift not found');
       }
 
-      // Get all transactions during the shift period
-      const transactions = await db.transactions
-        .filter(transaction => {
-          // Check if transaction is within the shift period
-          // If shift is still open, use current time as end
-          const shiftEnd = shift.closedAt || new Date();
-          return (
-            transaction.createdAt >= shift.openedAt &&
-            transaction.createdAt <= shiftEnd &&
-            transaction.status === 'paid' // Only paid transactions count
-          );
-        })
-        .toArray();
+      const shiftEnd = shift.closedAt || new Date();
+      const transactions = await this.getShiftTransactions(shift);
 
       let totalCash = 0;
       let totalNonCash = 0;
+
+      // Each sale and refund is attributed to the cashier who held the drawer at the time
+      const segments: SegmentStats[] = this.getSegments(shift).map(segment => ({
+        ...segment,
+        totalTransactions: 0,
+        totalSales: 0,
+        totalCash: 0,
+        totalNonCash: 0
+      }));
+      const segmentAt = (date: Date): SegmentStats =>
+        segments.filter(segment => new Date(segment.startedAt) <= new Date(date)).pop() ?? segments[0];
       
       for (const transaction of transactions) {
+        // A saved order is credited to the cashier who took the payment, not the one who saved it
+        const segment = segmentAt(transaction.paidAt ?? transaction.createdAt);
+        let cash = 0;
+        let nonCash = 0;
         for (const payment of transaction.payments) {
           if (payment.method === 'cash') {
-            totalCash += payment.amount;
+            cash += payment.amount;
           } else {
-            totalNonCash += payment.amount;
+            nonCash += payment.amount;
           }
         }
+        // Payments are recorded as tendered; the change went back out of the cash drawer
+        cash -= transaction.change || 0;
+
+        totalCash += cash;
+        totalNonCash += nonCash;
+        segment.totalTransactions += 1;
+        segment.totalSales += transaction.total;
+        segment.totalCash += cash;
+        segment.totalNonCash += nonCash;
       }
 
+      // Refunds paid out of this drawer during the shift, whichever shift the original sale was in
+      const refunds = await db.refunds
+        .where('createdAt')
+        .between(shift.openedAt, shiftEnd, true, true)
+        .filter(refund => !refund.deletedAt && (!refund.shiftId || refund.shiftId === shiftId))
+        .toArray();
+
+      let totalRefunds = 0;
+      for (const refund of refunds) {
+        const segment = segmentAt(refund.createdAt);
+        totalRefunds += refund.totalAmount;
+        segment.totalSales -= refund.totalAmount;
+        for (const payment of refund.payments) {
+          if (payment.method === 'cash') {
+            totalCash -= payment.amount;
+            segment.totalCash -= payment.amount;
+          } else {
+            totalNonCash -= payment.amount;
+            segment.totalNonCash -= payment.amount;
+          }
+        }
+      }
+
+      // Top-ups and petty cash are kept apart from totalCash, which stays the cash from sales
+      const { cashIn, cashOut } = await CashMovementService.getShiftTotals(shiftId);
+
       return {
         totalTransactions: transactions.length,
-        totalSales: transactions.reduce((sum, tx) => sum + tx.total, 0),
+        totalSales: transactions.reduce((sum, tx) => sum + tx.total, 0) - totalRefunds,
         totalCash,
-        totalNonCash
+        totalNonCash,
+        totalRefunds,
+        totalCashIn: cashIn,
+        totalCashOut: cashOut,
+        segments
       };
     } catch (error) {
       throw new Error(`Failed to calculate shift stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -224,6 +406,9 @@ export class CashierShiftService {
       totalSales: number;
       totalCash: number;
       totalNonCash: number;
+      totalCashIn: number;
+      totalCashOut: number;
+      segments: SegmentStats[];
     };
   } | null> {
     try {
@@ -232,17 +417,7 @@ export class CashierShiftService {
         return null;
       }
 
-      // Get transactions during the shift
-      const transactions = await db.transactions
-        .filter(transaction => {
-          const shiftEnd = shift.closedAt || new Date();
-          return (
-            transaction.createdAt >= shift.openedAt &&
-            transaction.createdAt <= shiftEnd &&
-            transaction.status === 'paid'
-          );
-        })
-        .toArray();
+      const transactions = await this.getShiftTransactions(shift);
 
       const stats = await this.calculateShiftStats(shiftId);
 
@@ -0,0 +1,78 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { v7 as uuidv7 } from 'uuid';
+import { db, Product } from '../db';
+import { CheckoutService, CheckoutTransactionData } from './checkoutService';
+import { SavedOrderService } from './savedOrderService';
+
+const now = new Date();
+
+const tea: Product = {
+  id: uuidv7(),
+  name: 'Es Teh Manis',
+  type: 'finish_goods',
+  categoryId: uuidv7(),
+  sku: null,
+  price: 5000,
+  cost: 0,
+  image: null,
+  monitorStock: false,
+  minStock: null,
+  currentStock: 0,
+  calculatedStock: null,
+  uom: { base: 'pcs', conversions: [] },
+  recipe: null,
+  createdBy: uuidv7(),
+  createdAt: now,
+  updatedAt: now,
+  deletedAt: null
+};
+
+const cart = (createdBy: string): CheckoutTransactionData => ({
+  customerId: null,
+  shiftId: null,
+  items: [{ productId: tea.id, name: tea.name, qty: 2, price: 5000, discount: null, subtotal: 10000 }],
+  subtotal: 10000,
+  discount: { type: 'nominal', value: 0, amount: 0 },
+  tax: { enabled: false, rate: 0, amount: 0 },
+  total: 10000,
+  createdBy
+});
+
+describe('CheckoutService.checkout', () => {
+  it('records the cashier who takes payment for a saved order, keeping the one who saved it', async () => {
+    await db.products.put(tea);
+    const waiter = uuidv7();
+    const cashier = uuidv7();
+    const saved = await SavedOrderService.saveOrder({
+      ...cart(waiter),
+      payments: [],
+      change: 0,
+      status: 'saved',
+      savedAt: now
+    });
+
+    const { transaction } = await CheckoutService.checkout({
+      transactionData: cart(cashier),
+      payments: [{ method: 'cash', amount: 10000 }],
+      savedOrderId: saved.id
+    });
+
+    expect(transaction.createdBy).toBe(waiter);
+    expect(transaction.paidBy).toBe(cashier);
+    expect((await db.transactions.get(saved.id))?.paidBy).toBe(cashier);
+  });
+
+  it('records the creating cashier as the payer of a new sale', async () => {
+    await db.products.put(tea);
+    const cashier = uuidv7();
+
+    const { transaction } = await CheckoutService.checkout({
+      transactionData: cart(cashier),
+      payments: [{ method: 'cash', amount: 20000 }]
+    });
+
+    expect(transaction.paidBy).toBe(cashier);
+    expect((await db.transactions.get(transaction.id))?.paidBy).toBe(cashier);
+  });
+});
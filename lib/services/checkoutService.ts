@@ -0,0 +1,104 @@
+import { db, Transaction } from '../db';
+import { TransactionService } from './transactionService';
+import { PaymentMethod, PaymentService } from './paymentService';
+import { InsufficientStockError } from '../utils/errorHandler';
+import { safeValidateTransaction } from '../utils/validators';
+
+export type CheckoutTransactionData = Omit<
+  Transaction,
+  'id' | 'transactionNumber' | 'createdAt' | 'updatedAt' | 'deletedAt' | 'payments' | 'change' | 'status' | 'savedAt' | 'paidAt' | 'paidBy'
+>;
+
+export interface CheckoutRequest {
+  transactionData: CheckoutTransactionData; // Current cart
+  payments: PaymentMethod[];
+  savedOrderId?: string | null; // Pay an existing saved order instead of creating a new transaction
+}
+
+export interface CheckoutResult {
+  transaction: Transaction;
+  change: number;
+}
+
+export class CheckoutService {
+  // Create (or convert) the transaction, record the payment and deduct stock in a single Dexie
+  // transaction. Stock for every line is validated before anything is written; on any failure
+  // nothing is committed. Stock shortages are thrown as InsufficientStockError with one entry per line.
+  static async checkout(request: CheckoutRequest): Promise<CheckoutResult> {
+    const { transactionData, payments, savedOrderId } = request;
+
+    try {
+      if (transactionData.items.length === 0) {
+        throw new Error('Cart is empty');
+      }
+
+      // Each tender is recorded as given; change only ever comes out of the cash portion
+      const { change } = PaymentService.validateTenders(transactionData.total, payments);
+
+      return await db.transaction('rw', [db.transactions, db.products, db.stockMovements, db.counters, db.settings], async () => {
+        // Validate all lines up front
+        const { shortages } = await TransactionService.checkStock(transactionData.items);
+        if (shortages.length > 0) {
+          throw new InsufficientStockError(shortages);
+        }
+
+        const now = new Date();
+        let transaction: Transaction;
+
+        if (savedOrderId) {
+          const savedOrder = await db.transactions.get(savedOrderId);
+          if (!savedOrder) {
+            throw new Error('Saved order not found');
+          }
+          if (savedOrder.status !== 'saved') {
+            throw new Error('Order is no longer a saved order');
+          }
+
+          // The cart may have been edited after loading the saved order. The order keeps the cashier who
+          // saved it; the cashier checking out now is recorded as the one who took the payment
+          const { createdBy: cashierId, ...cartData } = transactionData;
+          const paidOrder: Transaction = {
+            ...savedOrder,
+            ...cartData,
+            customerId: cartData.customerId || null,
+            // The money goes into the drawer of the shift that takes the payment, not the one that saved the bill
+            shiftId: cartData.shiftId || savedOrder.shiftId || null,
+            payments,
+            change,
+            status: 'paid',
+            paidAt: now,
+            paidBy: cashierId,
+            updatedAt: now
+          };
+
+          const validation = safeValidateTransaction(paidOrder);
+          if (!validation.success) {
+            throw new Error(`Transaction validation failed: ${validation.error.message}`);
+          }
+
+          await db.transactions.put(paidOrder);
+          transaction = paidOrder;
+        } else {
+          transaction = await TransactionService.create({
+            ...transactionData,
+            payments,
+            change,
+            status: 'paid',
+            savedAt: null,
+            paidAt: now,
+            paidBy: transactionData.createdBy
+          });
+        }
+
+        await TransactionService.deductStock(transaction);
+
+        return { transaction, change };
+      });
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        throw error;
+      }
+      throw new Error(`Failed to checkout: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { ConflictService } from './conflictService';
+
+const user = (fields: Record<string, any>): Record<string, any> => ({
+  id: 'user-1',
+  name: 'Ani',
+  role: 'cashier',
+  version: 3,
+  ...fields
+});
+
+describe('ConflictService.mergeRecords', () => {
+  it('takes the newest online verification of a user signed in on two devices without a manual conflict', () => {
+    const base = user({ lastOnlineVerifiedAt: new Date('2026-10-01T08:00:00Z'), updatedAt: new Date('2026-10-01T08:00:00Z') });
+    const local = user({ lastOnlineVerifiedAt: new Date('2026-10-02T08:00:00Z'), updatedAt: new Date('2026-10-02T08:00:00Z'), lastModifiedDevice: 'a' });
+    const remote = user({ lastOnlineVerifiedAt: new Date('2026-10-02T09:00:00Z'), updatedAt: new Date('2026-10-02T09:00:00Z'), lastModifiedDevice: 'b' });
+
+    const result = ConflictService.mergeRecords('users', base, local, remote);
+
+    expect(result.hasManualConflicts).toBe(false);
+    expect(result.merged.lastOnlineVerifiedAt).toEqual(remote.lastOnlineVerifiedAt);
+  });
+
+  it('takes the newest sign-in of a user who signed in on two devices without a manual conflict', () => {
+    const base = user({ lastLoginAt: new Date('2026-10-01T08:00:00Z'), updatedAt: new Date('2026-10-01T08:00:00Z') });
+    const local = user({ lastLoginAt: new Date('2026-10-02T10:00:00Z'), updatedAt: new Date('2026-10-02T10:00:00Z'), lastModifiedDevice: 'a' });
+    const remote = user({ lastLoginAt: new Date('2026-10-02T09:00:00Z'), updatedAt: new Date('2026-10-02T09:00:00Z'), lastModifiedDevice: 'b' });
+
+    const result = ConflictService.mergeRecords('users', base, local, remote);
+
+    expect(result.hasManualConflicts).toBe(false);
+    expect(result.merged.lastLoginAt).toEqual(local.lastLoginAt);
+  });
+
+  it('still asks the owner when both devices renamed the same user', () => {
+    const base = user({ updatedAt: new Date('2026-10-01T08:00:00Z') });
+    const local = user({ name: 'Ani S', updatedAt: new Date('2026-10-02T08:00:00Z') });
+    const remote = user({ name: 'Ani Susanti', updatedAt: new Date('2026-10-02T09:00:00Z') });
+
+    expect(ConflictService.mergeRecords('users', base, local, remote).hasManualConflicts).toBe(true);
+  });
+});
@@ -0,0 +1,225 @@
+import { db, SyncConflict } from '../db';
+import { v7 as uuidv7 } from 'uuid';
+
+export type MergeRule = 'delta' | 'last_writer' | 'manual';
+
+type FieldConflict = SyncConflict['fields'][number];
+
+export interface MergeResult {
+  merged: any;
+  conflicts: FieldConflict[]; // Fields changed on both sides
+  hasManualConflicts: boolean;
+}
+
+// Per-table field rules. Fields not listed fall back to DEFAULT_MERGE_RULE.
+export const MERGE_RULES: Record<string, Record<string, MergeRule>> = {
+  products: {
+    currentStock: 'delta', // Both devices' sales and purchases count
+    calculatedStock: 'delta',
+    price: 'last_writer',
+    cost: 'last_writer',
+  },
+  customers: {
+    phone: 'manual',
+    name: 'manual',
+  },
+  settings: {
+    value: 'last_writer',
+  },
+  transactions: {
+    refundedAmount: 'delta', // Refunds made on different devices add up
+  },
+  cashierShifts: {
+    totalTransactions: 'last_writer',
+    totalSales: 'last_writer',
+    totalCash: 'last_writer',
+    totalNonCash: 'last_writer',
+    voidCount: 'delta',
+    voidTotal: 'delta',
+  },
+  users: {
+    lastLoginAt: 'last_writer', // Both stamped by every device the user is signed in on
+    lastOnlineVerifiedAt: 'last_writer',
+  },
+};
+
+export const DEFAULT_MERGE_RULE: MergeRule = 'manual';
+
+// Bookkeeping fields that always differ between devices and are not merged
+const IGNORED_FIELDS = ['id', 'version', 'lastModifiedDevice', 'updatedAt', 'createdAt'];
+
+const isEqual = (a: any, b: any): boolean => {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+const getTime = (value: any): number => {
+  if (!value) return 0;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+export class ConflictService {
+  static getRule(tableName: string, field: string): MergeRule {
+    return MERGE_RULES[tableName]?.[field] ?? DEFAULT_MERGE_RULE;
+  }
+
+  // True when the remote record is ordered after the local one: newer updatedAt, then device id as tie-breaker
+  static isRemoteLatest(local: any, remote: any): boolean {
+    const localTime = getTime(local?.updatedAt);
+    const remoteTime = getTime(remote?.updatedAt);
+    if (localTime !== remoteTime) {
+      return remoteTime > localTime;
+    }
+    return String(remote?.lastModifiedDevice ?? '') > String(local?.lastModifiedDevice ?? '');
+  }
+
+  // Three-way merge of a record edited locally (local) and on another device (remote) since base
+  static mergeRecords(tableName: string, base: any | null, local: any, remote: any): MergeResult {
+    const merged: any = { ...remote };
+    const conflicts: FieldConflict[] = [];
+    const remoteLatest = this.isRemoteLatest(local, remote);
+
+    const fields = new Set([...Object.keys(local || {}), ...Object.keys(remote || {})]);
+
+    fields.forEach(field => {
+      if (IGNORED_FIELDS.includes(field)) return;
+
+      const baseValue = base ? base[field] : undefined;
+      const localValue = local[field];
+      const remoteValue = remote[field];
+
+      if (isEqual(localValue, remoteValue)) {
+        merged[field] = remoteValue;
+        return;
+      }
+
+      const localChanged = !base || !isEqual(localValue, baseValue);
+      const remoteChanged = !base || !isEqual(remoteValue, baseValue);
+
+      // Only one side touched the field: take that side
+      if (localChanged && !remoteChanged) {
+        merged[field] = localValue;
+        return;
+      }
+      if (remoteChanged && !localChanged) {
+        merged[field] = remoteValue;
+        return;
+      }
+
+      let rule = this.getRule(tableName, field);
+      // Deltas need a common ancestor and numbers on all sides
+      if (rule === 'delta' && (!base || typeof baseValue !== 'number' || typeof localValue !== 'number' || typeof remoteValue !== 'number')) {
+        rule = 'last_writer';
+      }
+
+      let resolvedValue: any;
+      switch (rule) {
+        case 'delta':
+          resolvedValue = remoteValue + (localValue - baseValue);
+          break;
+        case 'last_writer':
+          resolvedValue = remoteLatest ? remoteValue : localValue;
+          break;
+        default:
+          // Keep the local value until the owner picks a winner
+          resolvedValue = localValue;
+      }
+
+      merged[field] = resolvedValue;
+      conflicts.push({ field, rule, baseValue: baseValue ?? null, localValue, remoteValue, resolvedValue });
+    });
+
+    merged.version = Math.max(local?.version ?? 0, remote?.version ?? 0) + 1;
+    merged.updatedAt = remoteLatest ? remote.updatedAt : local.updatedAt;
+    merged.lastModifiedDevice = local?.lastModifiedDevice;
+
+    return {
+      merged,
+      conflicts,
+      hasManualConflicts: conflicts.some(conflict => conflict.rule === 'manual'),
+    };
+  }
+
+  // Keep a record of every merge that touched a field changed on both devices
+  static async recordConflict(tableName: string, recordId: string, local: any, remote: any, result: MergeResult): Promise<SyncConflict | null> {
+    if (result.conflicts.length === 0) return null;
+
+    try {
+      const conflict: SyncConflict = {
+        id: uuidv7(),
+        tableName,
+        recordId,
+        fields: result.conflicts,
+        localDevice: local?.lastModifiedDevice ?? null,
+        remoteDevice: remote?.lastModifiedDevice ?? null,
+        status: result.hasManualConflicts ? 'open' : 'resolved',
+        resolution: result.hasManualConflicts ? null : 'auto',
+        resolvedBy: result.hasManualConflicts ? null : 'system',
+        resolvedAt: result.hasManualConflicts ? null : new Date(),
+        createdAt: new Date(),
+      };
+
+      await db.syncConflicts.add(conflict);
+      return conflict;
+    } catch (error) {
+      throw new Error(`Failed to record conflict: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async getConflicts(status?: SyncConflict['status']): Promise<SyncConflict[]> {
+    try {
+      const conflicts = status
+        ? await db.syncConflicts.where('status').equals(status).toArray()
+        : await db.syncConflicts.toArray();
+      return conflicts.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    } catch (error) {
+      throw new Error(`Failed to get conflicts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async countOpenConflicts(): Promise<number> {
+    return db.syncConflicts.where('status').equals('open').count();
+  }
+
+  // Owner picks the winning version. The chosen values are written as a normal local edit so they sync back out.
+  static async resolveConflict(conflictId: string, winner: 'local' | 'remote', userId: string): Promise<void> {
+    try {
+      const conflict = await db.syncConflicts.get(conflictId);
+      if (!conflict) {
+        throw new Error('Conflict not found');
+      }
+      if (conflict.status !== 'open') {
+        throw new Error('Conflict already resolved');
+      }
+
+      const table = db.table(conflict.tableName);
+
+      await db.transaction('rw', table, db.syncConflicts, async () => {
+        const record = await table.get(conflict.recordId);
+
+        if (record) {
+          const changes: Record<string, any> = {};
+          conflict.fields
+            .filter(field => field.rule === 'manual')
+            .forEach(field => {
+              changes[field.field] = winner === 'local' ? field.localValue : field.remoteValue;
+            });
+
+          if ('updatedAt' in record) {
+            changes.updatedAt = new Date();
+          }
+          await table.update(conflict.recordId, changes);
+        }
+
+        await db.syncConflicts.update(conflictId, {
+          status: 'resolved',
+          resolution: winner,
+          resolvedBy: userId,
+          resolvedAt: new Date(),
+        });
+      });
+    } catch (error) {
+      throw new Error(`Failed to resolve conflict: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
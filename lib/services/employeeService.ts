@@ -0,0 +1,189 @@
+import { db, User } from '../db';
+import { v7 as uuidv7 } from 'uuid';
+import { PinService } from './pinService';
+
+export interface CreateEmployeeData {
+  name: string;
+  email?: string; // Leave empty for staff who only ever use a PIN on the terminal
+  role: User['role'];
+  pin?: string;
+  accessTemplateId?: string | null;
+}
+
+export interface UpdateEmployeeData {
+  name?: string;
+  role?: User['role'];
+  accessTemplateId?: string | null;
+}
+
+export class EmployeeService {
+  // An employee created with an email has no Supabase account yet until they sign in for the first time
+  static isPendingInvite(user: User): boolean {
+    return !user.supabaseId && !!user.email;
+  }
+
+  static isPinOnly(user: User): boolean {
+    return !user.supabaseId && !user.email;
+  }
+
+  // Active employees first, then by name
+  static async getEmployees(): Promise<User[]> {
+    try {
+      const users = await db.users.toArray();
+      return users.sort((a, b) => Number(!!a.deletedAt) - Number(!!b.deletedAt) || a.name.localeCompare(b.name));
+    } catch (error) {
+      throw new Error(`Failed to get employees: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async createEmployee(data: CreateEmployeeData): Promise<User> {
+    try {
+      const name = data.name.trim();
+      const email = data.email?.trim().toLowerCase() || '';
+      if (!name) {
+        throw new Error('Name is required');
+      }
+      if (!email && !data.pin) {
+        throw new Error('Staff without an email need a PIN to sign in');
+      }
+      if (data.pin && !PinService.isValidFormat(data.pin)) {
+        throw new Error('PIN must be 4 to 6 digits');
+      }
+      if (email) {
+        const existing = await db.users.where('email').equals(email).filter(user => !user.deletedAt).first();
+        if (existing) {
+          throw new Error(`${email} is already used by ${existing.name}`);
+        }
+      }
+
+      const now = new Date();
+      const employee: User = {
+        id: uuidv7(),
+        supabaseId: '', // Filled in when an invited employee signs in
+        email,
+        name,
+        role: data.role,
+        pin: data.pin ? await PinService.hashPin(data.pin) : '',
+        accessTemplateId: data.role === 'owner' ? null : data.accessTemplateId ?? null,
+        lastLoginAt: null,
+        createdAt: now,
+        updatedAt: now,
+        deletedAt: null
+      };
+      await db.users.add(employee);
+      return employee;
+    } catch (error) {
+      throw new Error(`Failed to create employee: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async updateEmployee(id: string, data: UpdateEmployeeData): Promise<User> {
+    try {
+      const user = await db.users.get(id);
+      if (!user) {
+        throw new Error('Employee not found');
+      }
+      if (data.name !== undefined && !data.name.trim()) {
+        throw new Error('Name is required');
+      }
+      if (data.role === 'kasir' && user.role === 'owner') {
+        await this.assertAnotherOwner(id);
+      }
+
+      const role = data.role ?? user.role;
+      const updated: User = {
+        ...user,
+        name: data.name?.trim() ?? user.name,
+        role,
+        accessTemplateId: role === 'owner'
+          ? null
+          : data.accessTemplateId !== undefined ? data.accessTemplateId : user.accessTemplateId ?? null,
+        updatedAt: new Date()
+      };
+      await db.users.put(updated);
+      return updated;
+    } catch (error) {
+      throw new Error(`Failed to update employee: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Leavers are soft deleted so their transactions and shifts keep pointing at a real user
+  static async deactivateEmployee(id: string, deactivatedBy: Pick<User, 'id'>): Promise<void> {
+    try {
+      const user = await db.users.get(id);
+      if (!user) {
+        throw new Error('Employee not found');
+      }
+      if (user.id === deactivatedBy.id) {
+        throw new Error('You cannot deactivate your own account');
+      }
+      if (user.role === 'owner') {
+        await this.assertAnotherOwner(id);
+      }
+
+      const now = new Date();
+      await db.users.update(id, { deletedAt: now, updatedAt: now });
+    } catch (error) {
+      throw new Error(`Failed to deactivate employee: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async reactivateEmployee(id: string): Promise<void> {
+    try {
+      const user = await db.users.get(id);
+      if (!user) {
+        throw new Error('Employee not found');
+      }
+      await db.users.update(id, { deletedAt: null, updatedAt: new Date() });
+    } catch (error) {
+      throw new Error(`Failed to reactivate employee: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Syncs with the user row; sign-ins on two devices settle by last writer (MERGE_RULES.users)
+  static async recordLogin(userId: string): Promise<void> {
+    try {
+      const now = new Date();
+      await db.users.update(userId, { lastLoginAt: now, updatedAt: now });
+    } catch (error) {
+      throw new Error(`Failed to record login: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Called the first time a Supabase account has no local user. If an owner invited this email,
+  // the invite is retired and its name, role, PIN and template carry over to the new account.
+  static async claimInvite(email: string): Promise<Partial<Pick<User, 'name' | 'role' | 'pin' | 'accessTemplateId'>>> {
+    try {
+      if (!email) return {};
+
+      const invite = await db.users
+        .where('email')
+        .equals(email.toLowerCase())
+        .filter(user => !user.deletedAt && this.isPendingInvite(user))
+        .first();
+      if (!invite) return {};
+
+      const now = new Date();
+      await db.users.update(invite.id, { deletedAt: now, updatedAt: now });
+      return {
+        name: invite.name,
+        role: invite.role,
+        pin: invite.pin,
+        accessTemplateId: invite.accessTemplateId ?? null
+      };
+    } catch (error) {
+      throw new Error(`Failed to claim invite: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static async assertAnotherOwner(userId: string): Promise<void> {
+    const owners = await db.users
+      .where('role')
+      .equals('owner')
+      .filter(user => !user.deletedAt && user.id !== userId)
+      .count();
+    if (owners === 0) {
+      throw new Error('At least one active owner is required');
+    }
+  }
+}
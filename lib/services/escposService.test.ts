@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { barcodeCommand, escposService, fillPlaceholders, getSectionOrder, qrCodeCommand, rasterImageCommand, ReceiptData } from './escposService';
+import { imageService } from './imageService';
+import { PaperProfile } from './receiptLayout';
+import { receiptSettingsSchema, receiptTemplateSchema } from '../types/settings';
+
+const bytes = (...values: number[]) => Uint8Array.from(values);
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const latin1 = (data: Uint8Array) => Buffer.from(data).toString('latin1');
+
+const RECEIPT: ReceiptData = {
+  businessName: 'Warung Bakso',
+  businessAddress: 'Jl. Melati No. 12, Bandung',
+  transactionNumber: 'TRX-K1-20261019-0007',
+  transactionDate: '19/10/2026 13:45',
+  cashierName: 'Sari',
+  items: [
+    { name: 'Bakso Urat Spesial Jumbo Pedas Level 5', qty: 2, price: 15000, subtotal: 30000 },
+    { name: 'Es Teh Manis', qty: 1, price: 5000, discount: { type: 'percent', value: 20, amount: 1000 }, subtotal: 4000 }
+  ],
+  subtotal: 34000,
+  total: 34000,
+  payments: [{ method: 'cash', amount: 50000 }],
+  change: 16000
+};
+
+const PROFILES: PaperProfile[] = [
+  { paperWidth: '58mm', font: 'A', codePage: 'cp437' },
+  { paperWidth: '58mm', font: 'B', codePage: 'cp437' },
+  { paperWidth: '80mm', font: 'A', codePage: 'cp437' },
+  { paperWidth: '80mm', font: 'B', codePage: 'cp437' }
+];
+
+describe('qrCodeCommand', () => {
+  it('selects model 2, sets module size and error level, stores and prints the data', () => {
+    expect(qrCodeCommand('ABC', 6)).toEqual(bytes(
+      0x1D, 0x28, 0x6B, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+      0x1D, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x43, 0x06,
+      0x1D, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x45, 0x31,
+      0x1D, 0x28, 0x6B, 0x06, 0x00, 0x31, 0x50, 0x30, 0x41, 0x42, 0x43,
+      0x1D, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x51, 0x30
+    ));
+  });
+
+  it('splits the store length into pL and pH', () => {
+    const command = qrCodeCommand('A'.repeat(300), 4, 'H');
+    // 300 data bytes + 3 = 303 = 0x012F
+    expect(Array.from(command.subarray(25, 32))).toEqual([0x1D, 0x28, 0x6B, 0x2F, 0x01, 0x31, 0x50]);
+    expect(command[24]).toBe(0x33);
+    expect(command.length).toBe(9 + 8 + 8 + 8 + 300 + 8);
+  });
+
+  it('counts UTF-8 bytes, not characters', () => {
+    const command = qrCodeCommand('é', 6);
+    expect(Array.from(command.subarray(25, 35))).toEqual([0x1D, 0x28, 0x6B, 0x05, 0x00, 0x31, 0x50, 0x30, 0xC3, 0xA9]);
+  });
+
+  it('keeps the module size within 1-16', () => {
+    expect(qrCodeCommand('A', 40)[16]).toBe(16);
+    expect(qrCodeCommand('A', 0)[16]).toBe(1);
+  });
+});
+
+describe('barcodeCommand', () => {
+  it('prints a transaction number as CODE128 set B with its text below', () => {
+    // 17 characters: 11 * (17 + 2) + 13 = 222 modules, so bars are 1 dot wide on 384 dots
+    expect(barcodeCommand('TRX-20261019-0001', 384)).toEqual(bytes(
+      0x1D, 0x68, 80,
+      0x1D, 0x77, 0x01,
+      0x1D, 0x48, 0x02,
+      0x1D, 0x66, 0x00,
+      0x1D, 0x6B, 0x49, 19, 0x7B, 0x42, ...ascii('TRX-20261019-0001')
+    ));
+  });
+
+  it('widens the bars when the paper allows it', () => {
+    expect(barcodeCommand('TRX-20261019-0001', 576)[5]).toBe(0x02);
+  });
+
+  it('escapes "{" and replaces characters outside printable ASCII', () => {
+    const command = barcodeCommand('A{é', 384);
+    expect(Array.from(command.subarray(12))).toEqual([0x1D, 0x6B, 0x49, 6, 0x7B, 0x42, 0x41, 0x7B, 0x7B, 0x3F]);
+  });
+});
+
+describe('rasterImageCommand', () => {
+  it('sends a 2x8 image as one GS v 0 band, one byte per row', () => {
+    const image = { width: 2, height: 8, bytesPerRow: 1, data: bytes(0x80, 0x40, 0xC0, 0x00, 0x80, 0x40, 0xC0, 0x00) };
+    expect(rasterImageCommand(image)).toEqual(bytes(
+      0x1D, 0x76, 0x30, 0x00, 0x01, 0x00, 0x08, 0x00,
+      0x80, 0x40, 0xC0, 0x00, 0x80, 0x40, 0xC0, 0x00
+    ));
+  });
+
+  it('splits tall images into bands of 128 rows', () => {
+    const image = { width: 8, height: 200, bytesPerRow: 1, data: new Uint8Array(200).fill(0xFF) };
+    const command = rasterImageCommand(image);
+    expect(Array.from(command.subarray(0, 8))).toEqual([0x1D, 0x76, 0x30, 0x00, 0x01, 0x00, 0x80, 0x00]);
+    expect(Array.from(command.subarray(8 + 128, 8 + 128 + 8))).toEqual([0x1D, 0x76, 0x30, 0x00, 0x01, 0x00, 0x48, 0x00]);
+    expect(command.length).toBe(8 + 128 + 8 + 72);
+  });
+});
+
+describe('imageService.toMonochrome', () => {
+  const pixels = (width: number, height: number, rgba: (x: number, y: number) => number[]) => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) data.set(rgba(x, y), (y * width + x) * 4);
+    }
+    return { width, height, data };
+  };
+
+  it('packs black pixels leftmost-bit first and pads rows to whole bytes', () => {
+    const image = imageService.toMonochrome(pixels(10, 2, x => (x === 0 || x === 9 ? [0, 0, 0, 255] : [255, 255, 255, 255])));
+    expect(image.bytesPerRow).toBe(2);
+    expect(Array.from(image.data)).toEqual([0x80, 0x40, 0x80, 0x40]);
+  });
+
+  it('prints transparent pixels as white', () => {
+    const image = imageService.toMonochrome(pixels(8, 1, () => [0, 0, 0, 0]));
+    expect(Array.from(image.data)).toEqual([0x00]);
+  });
+
+  it('dithers mid grey to about half the dots', () => {
+    const image = imageService.toMonochrome(pixels(16, 16, () => [128, 128, 128, 255]));
+    const black = Array.from(image.data).reduce((sum, byte) => sum + byte.toString(2).split('1').length - 1, 0);
+    expect(black).toBeGreaterThan(96);
+    expect(black).toBeLessThan(160);
+  });
+});
+
+describe('getSectionOrder', () => {
+  it('keeps the template order and appends sections an older template does not list', () => {
+    const template = receiptTemplateSchema.parse({ sections: ['footer', 'items', 'footer', 'business'] });
+
+    expect(getSectionOrder(template)).toEqual([
+      'footer', 'items', 'business',
+      'logo', 'header', 'transaction', 'totals', 'payments', 'wifi', 'social', 'qris', 'receiptLink', 'barcode'
+    ]);
+  });
+
+  it('prints the sections in that order', () => {
+    const settings = receiptSettingsSchema.parse({ template: { sections: ['footer', 'business'] } });
+    const texts = escposService.generateReceiptCommands(RECEIPT, settings)
+      .filter(command => command.command === 'TEXT')
+      .map(command => command.data.text);
+
+    expect(texts.indexOf('Terima kasih atas kunjungan Anda!')).toBeLessThan(texts.indexOf('Warung Bakso'));
+  });
+});
+
+describe('fillPlaceholders', () => {
+  it('replaces known placeholders and prints unknown ones as typed', () => {
+    expect(fillPlaceholders('{businessName} - {transactionNumber} oleh {cashier} untuk {customer} {date} {table}', RECEIPT))
+      .toBe('Warung Bakso - TRX-K1-20261019-0007 oleh Sari untuk  19/10/2026 13:45 {table}');
+  });
+});
+
+describe('escposService.preview', () => {
+  it('shows the same text lines that encode() sends to the printer', async () => {
+    const settings = receiptSettingsSchema.parse({
+      showBarcode: false,
+      template: { headerText: 'Meja {customer} - kasir {cashier}', wifiName: 'Warung Bakso Pak Kumis Lantai Dua', wifiPassword: 'baksoenak' }
+    });
+    const commands = escposService.generateReceiptCommands({ ...RECEIPT, customerName: 'Budi' }, settings);
+
+    for (const profile of PROFILES) {
+      const printed = latin1(await escposService.encode(commands, profile))
+        // Initialise, code page, font, bold, alignment and cut commands
+        .replace(/\x1b[@mi]|\x1b[tEa!M][\s\S]|\x1dV[\s\S]/g, '')
+        .split('\r\n');
+      const preview = escposService.preview(commands, profile);
+
+      // The preview draws the cut as a dashed line; the printer cuts after the last line feed
+      expect(printed).toEqual([...preview.slice(0, -1), '']);
+    }
+  });
+});
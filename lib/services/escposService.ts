@@ -1,15 +1,145 @@
-// Mock ESC/POS service for receipt printing
-// In a real implementation, this would interface with actual ESC/POS printers
+// ESC/POS receipt printing. Receipts are built as commands, laid out for the device's paper profile
+// (lib/services/receiptLayout.ts), encoded with escpos-buffer and handed to the printer transport
+// configured for this device (WebUSB, Web Serial or raw TCP through the local bridge).
+import { Align, Cut, Drawer, InMemory, Model, Printer, Style } from 'escpos-buffer';
+import Epson from 'escpos-buffer/dist/profile/Epson';
+import { Capability } from 'escpos-buffer/dist/capabilities';
+import { getPrinterSettings } from '../utils/device';
+import { RECEIPT_SECTIONS, ReceiptSection, ReceiptSettings, ReceiptTemplate } from '../types/settings';
+import { createPrinterTransport, PairedPrinter, PrinterTransport, WebSerialTransport, WebUsbTransport } from './printerTransport';
+import { EscPosCommand, PaperProfile, PAPER_COLUMNS, PAPER_DOTS, getColumns, layoutReceipt, renderPreview } from './receiptLayout';
+import { imageService, MonochromeImage } from './imageService';
+
+export type { EscPosCommand } from './receiptLayout';
+
+// ESC t n for the code pages offered in printer settings (Epson numbering, followed by most clones)
+const CODE_PAGE_COMMANDS: Record<PaperProfile['codePage'], string> = {
+  cp437: '\x1Bt\x00',
+  cp850: '\x1Bt\x02',
+  cp858: '\x1Bt\x13',
+  cp1252: '\x1Bt\x10'
+};
+
+// escpos-buffer only knows named printer models, so each paper profile is described as its own model
+const toCapability = (profile: PaperProfile): Capability => ({
+  profile: 'epson',
+  brand: 'ESC/POS',
+  model: `${profile.paperWidth} printer`,
+  columns: PAPER_COLUMNS[profile.paperWidth].A,
+  fonts: [
+    { name: 'Font A', columns: PAPER_COLUMNS[profile.paperWidth].A },
+    { name: 'Font B', columns: PAPER_COLUMNS[profile.paperWidth].B }
+  ],
+  codepage: profile.codePage,
+  initialize: '\x1B@',
+  codepages: Object.entries(CODE_PAGE_COMMANDS).map(([code, command]) => ({ code, command }))
+});
+
+// QR module size in dots; a QRIS payload at these sizes still fits the paper
+const DEFAULT_QR_SIZE: Record<PaperProfile['paperWidth'], number> = {
+  '58mm': 6,
+  '80mm': 8
+};
+
+// Some printers drop raster images taller than their receive buffer, so logos go out in bands
+const RASTER_BAND_ROWS = 128;
+
+/**
+ * GS v 0 raster bit image commands for a dithered image
+ */
+export const rasterImageCommand = (image: MonochromeImage): Uint8Array => {
+  const bytes: number[] = [];
+
+  for (let top = 0; top < image.height; top += RASTER_BAND_ROWS) {
+    const rows = Math.min(RASTER_BAND_ROWS, image.height - top);
+    bytes.push(0x1D, 0x76, 0x30, 0x00, image.bytesPerRow & 0xFF, image.bytesPerRow >> 8, rows & 0xFF, rows >> 8);
+    bytes.push(...image.data.subarray(top * image.bytesPerRow, (top + rows) * image.bytesPerRow));
+  }
 
-interface EscPosCommand {
-  command: string;
-  data?: any;
-}
+  return Uint8Array.from(bytes);
+};
+
+/**
+ * GS ( k commands that store and print a model 2 QR code. Data is sent as UTF-8.
+ */
+export const qrCodeCommand = (data: string, size: number, errorLevel: 'L' | 'M' | 'Q' | 'H' = 'M'): Uint8Array => {
+  const payload = new TextEncoder().encode(data);
+  const storeLength = payload.length + 3;
+
+  return Uint8Array.from([
+    // Model 2
+    0x1D, 0x28, 0x6B, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    // Module size in dots, 1-16
+    0x1D, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x43, Math.max(1, Math.min(16, Math.round(size))),
+    // Error correction level, 48 (L) to 51 (H)
+    0x1D, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x45, 0x30 + ['L', 'M', 'Q', 'H'].indexOf(errorLevel),
+    // Store the data in the symbol storage area
+    0x1D, 0x28, 0x6B, storeLength & 0xFF, storeLength >> 8, 0x31, 0x50, 0x30, ...payload,
+    // Print the stored symbol
+    0x1D, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x51, 0x30
+  ]);
+};
+
+/**
+ * GS k commands for a CODE128 (code set B) barcode with its text printed below, with bars as wide as
+ * still fit in maxDots. Characters outside printable ASCII are printed as '?'.
+ */
+export const barcodeCommand = (data: string, maxDots: number): Uint8Array => {
+  const text = data.replace(/[^\x20-\x7E]/g, '?').slice(0, 120);
+  // "{" selects a code set in Epson's CODE128 format, so a literal one is sent as "{{"
+  const payload = Array.from('{B' + text.replace(/\{/g, '{{'), char => char.charCodeAt(0));
+  // Start, data, check and stop symbols are 11 modules each (stop is 13)
+  const modules = 11 * (text.length + 2) + 13;
+  const moduleWidth = Math.max(1, Math.min(3, Math.floor(maxDots / modules)));
+
+  return Uint8Array.from([
+    0x1D, 0x68, 80, // Height in dots
+    0x1D, 0x77, moduleWidth,
+    0x1D, 0x48, 0x02, // Text below the bars
+    0x1D, 0x66, 0x00, // in font A
+    0x1D, 0x6B, 0x49, payload.length, ...payload
+  ]);
+};
+
+const SPACED_SECTIONS: ReceiptSection[] = ['business', 'header', 'transaction', 'totals', 'payments'];
+
+const SOCIAL_PREFIXES: Record<ReceiptTemplate['socials'][number]['platform'], string> = {
+  instagram: 'IG',
+  tiktok: 'TikTok',
+  facebook: 'FB',
+  x: 'X',
+  whatsapp: 'WA',
+  website: 'Web'
+};
+
+/**
+ * The template's section order, with sections it does not list yet (added in a later version) at the end
+ */
+export const getSectionOrder = (template: ReceiptTemplate): ReceiptSection[] => {
+  const listed = template.sections.filter((section, index) => template.sections.indexOf(section) === index);
+  return [...listed, ...RECEIPT_SECTIONS.filter(section => !listed.includes(section))];
+};
+
+/**
+ * Replace {transactionNumber}, {cashier}, {customer}, {date} and {businessName} in header/footer text.
+ * Unknown placeholders are printed as typed.
+ */
+export const fillPlaceholders = (text: string, receiptData: ReceiptData): string => {
+  const values: Record<string, string | undefined> = {
+    transactionNumber: receiptData.transactionNumber,
+    cashier: receiptData.cashierName,
+    customer: receiptData.customerName,
+    date: receiptData.transactionDate,
+    businessName: receiptData.businessName
+  };
+  return text.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key] || '' : match));
+};
 
-interface ReceiptData {
+export interface ReceiptData {
   businessName?: string;
   businessAddress?: string;
   businessPhone?: string;
+  businessLogo?: string; // Data URL, rasterized when printed
   transactionNumber: string;
   transactionDate: string;
   cashierName?: string;
@@ -18,6 +148,11 @@ interface ReceiptData {
     name: string;
     qty: number;
     price: number;
+    discount?: {
+      type: 'percent' | 'nominal';
+      value: number;
+      amount: number;
+    } | null;
     subtotal: number;
   }>;
   subtotal: number;
@@ -39,230 +174,265 @@ interface ReceiptData {
   change: number;
   customMessage?: string;
   showBarcode?: boolean;
+  qrisPayload?: string; // Dynamic QRIS for the amount to be paid
+  copy?: boolean; // Reprint of a receipt that was already handed out
 }
 
 class EscPosService {
   /**
-   * Generate ESC/POS commands for a receipt
+   * Generate ESC/POS commands for a receipt, section by section in the template's order
    */
-  generateReceiptCommands(receiptData: ReceiptData, settings: any): EscPosCommand[] {
+  generateReceiptCommands(receiptData: ReceiptData, settings: ReceiptSettings): EscPosCommand[] {
     const commands: EscPosCommand[] = [];
 
     // Initialize printer
     commands.push({ command: 'INIT' });
 
-    // Business info (if enabled in settings)
-    if (settings.showLogo) {
-      commands.push({ command: 'LOGO' });
+    // Copy marker on top, so a reprint cannot pass as a second original
+    if (receiptData.copy) {
+      commands.push({ command: 'TEXT', data: { text: '*** COPY / SALINAN ***', bold: true, align: 'center' } });
+      commands.push({ command: 'TEXT', data: { text: `Dicetak ulang: ${new Date().toLocaleString('id-ID')}`, align: 'center' } });
+      commands.push({ command: 'SPACING', data: { lines: 1 } });
     }
 
-    if (settings.showBusinessName && receiptData.businessName) {
-      commands.push({ command: 'TEXT', data: { text: receiptData.businessName, bold: true, align: 'center' } });
+    for (const section of getSectionOrder(settings.template)) {
+      commands.push(...this.generateSectionCommands(section, receiptData, settings));
     }
 
-    if (settings.showAddress && receiptData.businessAddress) {
-      commands.push({ command: 'TEXT', data: { text: receiptData.businessAddress, align: 'center' } });
-    }
+    // Cut paper
+    commands.push({ command: 'CUT' });
 
-    if (settings.showPhone && receiptData.businessPhone) {
-      commands.push({ command: 'TEXT', data: { text: `Telp: ${receiptData.businessPhone}`, align: 'center' } });
-    }
+    return commands;
+  }
 
-    // Add spacing
-    commands.push({ command: 'SPACING', data: { lines: 1 } });
+  private generateSectionCommands(section: ReceiptSection, receiptData: ReceiptData, settings: ReceiptSettings): EscPosCommand[] {
+    const commands: EscPosCommand[] = [];
+    const template = settings.template;
+    const money = (amount: number) => `Rp ${amount.toLocaleString('id-ID')}`;
 
-    // Transaction header
-    commands.push({ command: 'TEXT', data: { text: `No. Transaksi: ${receiptData.transactionNumber}`, align: 'left' } });
-    commands.push({ command: 'TEXT', data: { text: `Tanggal: ${receiptData.transactionDate}`, align: 'left' } });
+    switch (section) {
+      case 'logo':
+        if (settings.showLogo && receiptData.businessLogo) {
+          commands.push({ command: 'LOGO', data: { image: receiptData.businessLogo } });
+        }
+        break;
 
-    if (settings.showCashierName) {
-      commands.push({ command: 'TEXT', data: { text: `Kasir: ${receiptData.cashierName || 'N/A'}`, align: 'left' } });
-    }
+      case 'business':
+        if (settings.showBusinessName && receiptData.businessName) {
+          commands.push({ command: 'TEXT', data: { text: receiptData.businessName, bold: true, align: 'center' } });
+        }
+        if (settings.showAddress && receiptData.businessAddress) {
+          commands.push({ command: 'TEXT', data: { text: receiptData.businessAddress, align: 'center' } });
+        }
+        if (settings.showPhone && receiptData.businessPhone) {
+          commands.push({ command: 'TEXT', data: { text: `Telp: ${receiptData.businessPhone}`, align: 'center' } });
+        }
+        break;
 
-    if (receiptData.customerName) {
-      commands.push({ command: 'TEXT', data: { text: `Pelanggan: ${receiptData.customerName}`, align: 'left' } });
-    }
+      case 'header':
+        if (template.headerText.trim()) {
+          commands.push({ command: 'TEXT', data: { text: fillPlaceholders(template.headerText, receiptData), align: 'center' } });
+        }
+        break;
 
-    // Add spacing
-    commands.push({ command: 'SPACING', data: { lines: 1 } });
-
-    // Items header (if enabled)
-    if (settings.showItemList) {
-      commands.push({ command: 'TEXT', data: { text: 'Item', align: 'left', bold: true } });
-      commands.push({ command: 'LINE' }); // Draw line
-      
-      // Add items
-      for (const item of receiptData.items) {
-        // Item name and quantity
-        commands.push({ command: 'TEXT', data: { text: `${item.name} (${item.qty}x)`, align: 'left' } });
-        // Item price
-        commands.push({ command: 'TEXT', data: { text: `Rp ${item.subtotal.toLocaleString('id-ID')}`, align: 'right' } });
-      }
-      
-      commands.push({ command: 'LINE' }); // Draw line
-    }
+      case 'transaction':
+        commands.push({ command: 'TEXT', data: { text: `No. Transaksi: ${receiptData.transactionNumber}`, align: 'left' } });
+        if (settings.showTransactionDate) {
+          commands.push({ command: 'TEXT', data: { text: `Tanggal: ${receiptData.transactionDate}`, align: 'left' } });
+        }
+        if (settings.showCashierName) {
+          commands.push({ command: 'TEXT', data: { text: `Kasir: ${receiptData.cashierName || 'N/A'}`, align: 'left' } });
+        }
+        if (receiptData.customerName) {
+          commands.push({ command: 'TEXT', data: { text: `Pelanggan: ${receiptData.customerName}`, align: 'left' } });
+        }
+        break;
+
+      case 'items':
+        if (settings.showItemList) {
+          commands.push({ command: 'TEXT', data: { text: 'Item', align: 'left', bold: true } });
+          commands.push({ command: 'LINE' });
+          for (const item of receiptData.items) {
+            // Item name and quantity, with the line total on the right
+            commands.push({ command: 'COLUMNS', data: { left: `${item.name} (${item.qty}x)`, right: money(item.subtotal) } });
+            // Line discount (if enabled and exists), already deducted from the line total
+            if (settings.showDiscount && item.discount && item.discount.amount > 0) {
+              const lineDiscountText = item.discount.type === 'percent' ? `  Diskon (${item.discount.value}%)` : '  Diskon';
+              commands.push({ command: 'COLUMNS', data: { left: lineDiscountText, right: `-${money(item.discount.amount)}` } });
+            }
+          }
+          commands.push({ command: 'LINE' });
+        }
+        break;
 
-    // Subtotal (if enabled)
-    if (settings.showSubtotal) {
-      commands.push({ command: 'TEXT', data: { text: `Subtotal: Rp ${receiptData.subtotal.toLocaleString('id-ID')}`, align: 'right' } });
-    }
+      case 'totals':
+        if (settings.showSubtotal) {
+          commands.push({ command: 'COLUMNS', data: { left: 'Subtotal', right: money(receiptData.subtotal) } });
+        }
+        if (settings.showDiscount && receiptData.discount && receiptData.discount.amount > 0) {
+          const discountText = receiptData.discount.type === 'percent'
+            ? `Diskon (${receiptData.discount.value}%)`
+            : 'Diskon';
+          commands.push({ command: 'COLUMNS', data: { left: discountText, right: `-${money(receiptData.discount.amount)}` } });
+        }
+        if (settings.showTax && receiptData.tax && receiptData.tax.enabled) {
+          commands.push({ command: 'COLUMNS', data: { left: `Pajak (${receiptData.tax.rate}%)`, right: money(receiptData.tax.amount) } });
+        }
+        if (settings.showTotal) {
+          commands.push({ command: 'COLUMNS', data: { left: 'TOTAL', right: money(receiptData.total), bold: true } });
+        }
+        break;
 
-    // Discount (if enabled and exists)
-    if (settings.showDiscount && receiptData.discount) {
-      const discountText = receiptData.discount.type === 'percent' 
-        ? `Diskon (${receiptData.discount.value}%):` 
-        : 'Diskon:';
-      commands.push({ command: 'TEXT', data: { text: `${discountText} -Rp ${receiptData.discount.amount.toLocaleString('id-ID')}`, align: 'right' } });
-    }
+      case 'payments':
+        if (settings.showPaymentMethod) {
+          for (const payment of receiptData.payments) {
+            commands.push({ command: 'COLUMNS', data: { left: payment.method, right: money(payment.amount) } });
+          }
+        }
+        if (settings.showChange && receiptData.change > 0) {
+          commands.push({ command: 'COLUMNS', data: { left: 'Kembalian', right: money(receiptData.change) } });
+        }
+        break;
 
-    // Tax (if enabled and exists)
-    if (settings.showTax && receiptData.tax && receiptData.tax.enabled) {
-      commands.push({ command: 'TEXT', data: { text: `Pajak (${receiptData.tax.rate}%): Rp ${receiptData.tax.amount.toLocaleString('id-ID')}`, align: 'right' } });
-    }
+      case 'footer':
+        if (settings.customMessage) {
+          commands.push({ command: 'TEXT', data: { text: fillPlaceholders(settings.customMessage, receiptData), align: 'center', bold: true } });
+        }
+        break;
+
+      case 'wifi':
+        if (template.wifiName.trim()) {
+          commands.push({ command: 'TEXT', data: { text: `WiFi: ${template.wifiName.trim()}`, align: 'center' } });
+          if (template.wifiPassword) {
+            commands.push({ command: 'TEXT', data: { text: `Password: ${template.wifiPassword}`, align: 'center' } });
+          }
+        }
+        break;
 
-    // Total (if enabled)
-    if (settings.showTotal) {
-      commands.push({ command: 'TEXT', data: { text: `TOTAL: Rp ${receiptData.total.toLocaleString('id-ID')}`, align: 'right', bold: true } });
-    }
+      case 'social':
+        for (const social of template.socials) {
+          if (social.handle.trim()) {
+            commands.push({ command: 'TEXT', data: { text: `${SOCIAL_PREFIXES[social.platform]}: ${social.handle.trim()}`, align: 'center' } });
+          }
+        }
+        break;
 
-    // Add spacing
-    commands.push({ command: 'SPACING', data: { lines: 1 } });
+      case 'qris':
+        if (settings.printQris && receiptData.qrisPayload) {
+          commands.push({ command: 'TEXT', data: { text: 'Scan QRIS untuk membayar', align: 'center' } });
+          commands.push({ command: 'QRCODE', data: { text: receiptData.qrisPayload } });
+        }
+        break;
 
-    // Payment info (if enabled)
-    if (settings.showPaymentMethod) {
-      for (const payment of receiptData.payments) {
-        commands.push({ command: 'TEXT', data: { text: `${payment.method}: Rp ${payment.amount.toLocaleString('id-ID')}`, align: 'right' } });
-      }
-    }
+      case 'receiptLink':
+        if (template.receiptLinkUrl.trim()) {
+          commands.push({ command: 'TEXT', data: { text: 'Scan untuk struk digital', align: 'center' } });
+          commands.push({ command: 'QRCODE', data: { text: fillPlaceholders(template.receiptLinkUrl.trim(), receiptData) } });
+        }
+        break;
 
-    // Change (if enabled)
-    if (settings.showChange && receiptData.change > 0) {
-      commands.push({ command: 'TEXT', data: { text: `Kembalian: Rp ${receiptData.change.toLocaleString('id-ID')}`, align: 'right' } });
+      case 'barcode':
+        if (settings.showBarcode) {
+          commands.push({ command: 'BARCODE', data: { text: receiptData.transactionNumber } });
+        }
+        break;
     }
 
-    // Add spacing
-    commands.push({ command: 'SPACING', data: { lines: 1 } });
-
-    // Custom message (if enabled)
-    if (settings.customMessage) {
-      commands.push({ command: 'TEXT', data: { text: settings.customMessage, align: 'center', bold: true } });
+    // A blank line after each block of text that printed something
+    if (commands.length > 0 && SPACED_SECTIONS.includes(section)) {
+      commands.push({ command: 'SPACING', data: { lines: 1 } });
     }
 
-    // Barcode/QR (if enabled)
-    if (settings.showBarcode) {
-      commands.push({ command: 'BARCODE', data: { text: receiptData.transactionNumber } });
+    return commands;
+  }
+
+  /**
+   * Encode commands to the exact bytes sent to a printer with this paper profile
+   */
+  async encode(commands: EscPosCommand[], profile: PaperProfile = getPrinterSettings()): Promise<Uint8Array> {
+    const connection = new InMemory();
+    const printer = await Printer.CONNECT(new Model(new Epson(toCapability(profile))), connection);
+    const dots = PAPER_DOTS[profile.paperWidth];
+    // Picks Font A or B, whichever fits this many columns
+    await printer.setColumns(getColumns(profile));
+
+    for (const row of layoutReceipt(commands, getColumns(profile))) {
+      switch (row.kind) {
+        case 'text':
+          await printer.writeln(row.text, row.bold ? Style.Bold : 0);
+          break;
+        case 'feed':
+          await printer.feed(row.lines);
+          break;
+        case 'qrcode':
+          await printer.setAlignment(Align.Center);
+          await connection.write(Buffer.from(qrCodeCommand(row.data, row.size || DEFAULT_QR_SIZE[profile.paperWidth])));
+          await printer.feed(1);
+          await printer.setAlignment(Align.Left);
+          break;
+        case 'barcode':
+          await printer.setAlignment(Align.Center);
+          await connection.write(Buffer.from(barcodeCommand(row.data, dots)));
+          await printer.feed(1);
+          await printer.setAlignment(Align.Left);
+          break;
+        case 'drawer':
+          // Pulse pin 2 for 50ms on, 500ms off
+          await printer.drawer(Drawer.First, 50, 500);
+          break;
+        case 'cut':
+          await printer.cutter(Cut.Full);
+          break;
+        case 'logo':
+          // A logo that cannot be rasterized is left out rather than failing the whole receipt
+          try {
+            const image = await imageService.rasterizeForPrinter(row.image, dots, dots / 2);
+            await printer.setAlignment(Align.Center);
+            await connection.write(Buffer.from(rasterImageCommand(image)));
+            await printer.setAlignment(Align.Left);
+          } catch (error) {
+            console.warn('Skipping receipt logo:', error);
+          }
+          break;
+      }
     }
 
-    // Cut paper
-    commands.push({ command: 'CUT' });
+    await printer.close();
+    return new Uint8Array(connection.buffer());
+  }
 
-    return commands;
+  /**
+   * Monospace text of what the commands print on this paper profile, one string per line
+   */
+  preview(commands: EscPosCommand[], profile: PaperProfile = getPrinterSettings()): string[] {
+    return renderPreview(layoutReceipt(commands, getColumns(profile)), getColumns(profile));
   }
 
   /**
-   * Send commands to printer (simplified implementation)
-   * In a real implementation, this would communicate with the actual ESC/POS printer
+   * Encode commands and send them to this device's printer
    */
   async sendToPrinter(commands: EscPosCommand[]): Promise<void> {
     try {
-      // Create a new Uint8Array to store the ESC/POS commands
-      const buffer: number[] = [];
-      
-      for (const cmd of commands) {
-        switch (cmd.command) {
-          case 'INIT':
-            // Initialize printer
-            buffer.push(0x1B, 0x40); // ESC @ - Initialize printer
-            break;
-          case 'TEXT':
-            // Add text to buffer
-            if (cmd.data && cmd.data.text) {
-              // Handle text formatting based on data properties
-              if (cmd.data.bold) {
-                buffer.push(0x1B, 0x45, 0x01); // Bold on
-              }
-              if (cmd.data.align === 'center') {
-                buffer.push(0x1B, 0x61, 0x01); // Align center
-              } else if (cmd.data.align === 'right') {
-                buffer.push(0x1B, 0x61, 0x02); // Align right
-              } else {
-                buffer.push(0x1B, 0x61, 0x00); // Align left
-              }
-              
-              // Add the text content
-              const textBytes = new TextEncoder().encode(cmd.data.text);
-              buffer.push(...textBytes);
-              
-              // Add line break
-              buffer.push(0x0A); // LF (Line Feed)
-              
-              // Turn off bold if it was on
-              if (cmd.data.bold) {
-                buffer.push(0x1B, 0x45, 0x00); // Bold off
-              }
-            }
-            break;
-          case 'LINE':
-            // Draw a line
-            buffer.push(...new TextEncoder().encode('--------------------------------'));
-            buffer.push(0x0A); // LF (Line Feed)
-            break;
-          case 'SPACING':
-            // Add spacing (line feeds)
-            if (cmd.data && cmd.data.lines) {
-              for (let i = 0; i < cmd.data.lines; i++) {
-                buffer.push(0x0A); // LF (Line Feed)
-              }
-            } else {
-              buffer.push(0x0A); // Default to one line feed
-            }
-            break;
-          case 'CUT':
-            // Cut the paper
-            buffer.push(0x1D, 0x56, 0x01); // GS V 1 - Full cut
-            break;
-          case 'BARCODE':
-            // Print barcode (simplified)
-            if (cmd.data && cmd.data.text) {
-              buffer.push(0x1D, 0x6B, 0x02); // GS k 2 - Print barcode (CODE128)
-              const textBytes = new TextEncoder().encode(cmd.data.text);
-              buffer.push(...textBytes);
-              buffer.push(0x00); // Null terminator
-            }
-            break;
-          case 'LOGO':
-            // Print logo (if supported by printer)
-            // This is printer-specific and would require custom implementation
-            break;
-          default:
-            // For unknown commands, just log them
-            console.warn(`Unknown command: ${cmd.command}`);
-            break;
-        }
+      const transport = this.getTransport();
+      if (!transport) {
+        throw new Error('No printer is set up on this device');
       }
 
-      // In a real implementation, you would send this buffer to the actual printer
-      // This could be via Web Bluetooth API, a local server, or other methods
-      console.log('ESC/POS command buffer created:', buffer);
-      
-      // Simulate sending to printer and wait for completion
-      return new Promise((resolve, reject) => {
-        // Simulate network delay or printer processing time
-        setTimeout(() => {
-          console.log('Commands sent to printer successfully');
-          resolve();
-        }, 500);
-      });
+      await transport.send(await this.encode(commands));
     } catch (error) {
       console.error('Error in sendToPrinter:', error);
       throw error;
     }
   }
 
+  private getTransport(): PrinterTransport | null {
+    return createPrinterTransport(getPrinterSettings());
+  }
+
   /**
    * Print a transaction receipt
    */
-  async printTransactionReceipt(receiptData: ReceiptData, settings: any): Promise<void> {
+  async printTransactionReceipt(receiptData: ReceiptData, settings: ReceiptSettings): Promise<void> {
     try {
       // Generate ESC/POS commands
       const commands = this.generateReceiptCommands(receiptData, settings);
@@ -279,18 +449,27 @@ class EscPosService {
    * Check if printer is available
    */
   async isPrinterAvailable(): Promise<boolean> {
-    // In a real implementation, this would check actual printer connection
-    // For now, return true to simulate availability
-    return true;
+    const transport = this.getTransport();
+    return transport ? transport.isAvailable() : false;
+  }
+
+  /**
+   * USB and serial printers this browser has already been granted access to.
+   * Network printers are found through the bridge, see TcpBridgeTransport.discover.
+   */
+  async getAvailablePrinters(): Promise<PairedPrinter[]> {
+    const [usb, serial] = await Promise.all([
+      WebUsbTransport.getPairedPrinters(),
+      WebSerialTransport.getPairedPrinters()
+    ]);
+    return [...usb, ...serial];
   }
 
   /**
-   * Get available printers
+   * Open the cash drawer without printing anything
    */
-  async getAvailablePrinters(): Promise<string[]> {
-    // In a real implementation, this would enumerate available printers
-    // For now, return a mock list
-    return ['Default Printer', 'Kitchen Printer', 'Main Receipt Printer'];
+  async openCashDrawer(): Promise<void> {
+    await this.sendToPrinter([{ command: 'INIT' }, { command: 'DRAWER' }]);
   }
 
   /**
@@ -298,13 +477,22 @@ class EscPosService {
    */
   async printTestPage(): Promise<void> {
     try {
+      const profile = getPrinterSettings();
+      const columns = getColumns(profile);
       const testCommands: EscPosCommand[] = [
         { command: 'INIT' },
         { command: 'TEXT', data: { text: 'TEST RECEIPT', bold: true, align: 'center' } },
         { command: 'LINE' },
         { command: 'TEXT', data: { text: 'This is a test print', align: 'center' } },
         { command: 'TEXT', data: { text: new Date().toLocaleString(), align: 'center' } },
+        { command: 'TEXT', data: { text: `${profile.paperWidth} / Font ${profile.font} / ${columns} kolom / ${profile.codePage}`, align: 'center' } },
+        // The last digit must sit on the right edge; a wrapped ruler means the profile is too wide for the paper
+        { command: 'TEXT', data: { text: Array.from({ length: columns }, (_, i) => (i + 1) % 10).join('') } },
+        { command: 'COLUMNS', data: { left: 'Kiri', right: 'Rp 12.345' } },
         { command: 'LINE' },
+        // A missing QR code or barcode below means the printer lacks GS ( k or CODE128 support
+        { command: 'QRCODE', data: { text: 'TEST-0001' } },
+        { command: 'BARCODE', data: { text: 'TEST-0001' } },
         { command: 'CUT' }
       ];
 
@@ -1,4 +1,4 @@
-import { Transaction } from '@/lib/db';
+import { Transaction, AuditLogEntry, CashCount } from '@/lib/db';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
@@ -16,12 +16,16 @@ interface SalesReportItem {
 interface SalesReportSummary {
   totalQuantity: number;
   totalRevenue: number;
+  totalDiscount?: number;
   topProduct: string | null;
 }
 
 interface TransactionSummary {
   totalTransactions: number;
   totalRevenue: number;
+  totalDiscount?: number;
+  totalRefunds?: number;
+  netRevenue?: number;
   paidCount: number;
   unpaidCount: number;
 }
@@ -31,6 +35,8 @@ interface CloseCashierSummary {
   totalCash: number;
   totalNonCash: number;
   totalSales: number;
+  cashIn?: number;
+  cashOut?: number;
   expectedCash: number;
 }
 
@@ -60,6 +66,7 @@ interface CashierShift {
   openedAt: Date;
   closedAt: Date | null;
   status: 'open' | 'closed';
+  openingCount?: CashCount | null;
 }
 
 interface ExportOptions {
@@ -138,6 +145,7 @@ class ExportService {
     const summaryHeaders = ['Summary', '', '', '', ''];
     const summaryData = [
       ['Total Items Sold', '', summary.totalQuantity, '', `Rp ${summary.totalRevenue.toLocaleString('id-ID')}`],
+      ['Total Discount', '', '', '', `Rp ${(summary.totalDiscount || 0).toLocaleString('id-ID')}`],
       ['Top Product', summary.topProduct || 'N/A', '', '', ''],
       ['', '', '', '', ''] // Empty row for spacing
     ];
@@ -261,6 +269,9 @@ class ExportService {
     const summaryHeaders = ['Summary', '', '', '', '', ''];
     const summaryData = [
       ['Total Transactions', '', summary.totalTransactions, '', `Rp ${summary.totalRevenue.toLocaleString('id-ID')}`, '', ''],
+      ['Total Discount', '', '', '', `Rp ${(summary.totalDiscount || 0).toLocaleString('id-ID')}`, '', ''],
+      ['Total Refunds', '', '', '', `Rp ${(summary.totalRefunds || 0).toLocaleString('id-ID')}`, '', ''],
+      ['Net Revenue', '', '', '', `Rp ${(summary.netRevenue ?? summary.totalRevenue).toLocaleString('id-ID')}`, '', ''],
       ['Paid', '', summary.paidCount, '', '', '', ''],
       ['Unpaid', '', summary.unpaidCount, '', '', '', ''],
       ['', '', '', '', '', ''] // Empty row for spacing
@@ -279,9 +290,10 @@ class ExportService {
   static async exportCloseCashierReportToExcel(
     shiftData: CashierShift,
     summary: CloseCashierSummary,
-    actualCash: number
+    actualCash: number,
+    closingCount: CashCount | null = null
   ): Promise<void> {
-    const exportData = this.formatCloseCashierReportData(shiftData, summary, actualCash);
+    const exportData = this.formatCloseCashierReportData(shiftData, summary, actualCash, closingCount);
     await this.exportToExcel(exportData, {
       fileName: `close-cashier-report-${new Date().toISOString().split('T')[0]}.xlsx`,
       title: 'Close Cashier Report'
@@ -294,9 +306,10 @@ class ExportService {
   static async exportCloseCashierReportToPDF(
     shiftData: CashierShift,
     summary: CloseCashierSummary,
-    actualCash: number
+    actualCash: number,
+    closingCount: CashCount | null = null
   ): Promise<void> {
-    const exportData = this.formatCloseCashierReportData(shiftData, summary, actualCash);
+    const exportData = this.formatCloseCashierReportData(shiftData, summary, actualCash, closingCount);
     await this.exportToPDF(exportData, {
       fileName: `close-cashier-report-${new Date().toISOString().split('T')[0]}.pdf`,
       title: 'Close Cashier Report'
@@ -309,9 +322,10 @@ class ExportService {
   private static formatCloseCashierReportData(
     shiftData: CashierShift,
     summary: CloseCashierSummary,
-    actualCash: number
+    actualCash: number,
+    closingCount: CashCount | null
   ): ExportData {
-    const expectedCash = summary.openingBalance + summary.totalCash;
+    const expectedCash = summary.expectedCash;
     const variance = actualCash - expectedCash;
 
     const headers = [
@@ -325,6 +339,8 @@ class ExportService {
       ['Total Cash Sales', `Rp ${summary.totalCash.toLocaleString('id-ID')}`, ''],
       ['Total Non-Cash', `Rp ${summary.totalNonCash.toLocaleString('id-ID')}`, ''],
       ['Total Sales', `Rp ${summary.totalSales.toLocaleString('id-ID')}`, ''],
+      ['Cash In', `Rp ${(summary.cashIn || 0).toLocaleString('id-ID')}`, 'Top-ups without a sale'],
+      ['Cash Out', `Rp ${(summary.cashOut || 0).toLocaleString('id-ID')}`, 'Petty cash taken from the drawer'],
       ['Expected Cash', `Rp ${expectedCash.toLocaleString('id-ID')}`, ''],
       ['Actual Cash', `Rp ${actualCash.toLocaleString('id-ID')}`, ''],
       ['Variance', `Rp ${variance.toLocaleString('id-ID')}`, variance >= 0 ? 'Surplus' : 'Shortage'],
@@ -332,13 +348,93 @@ class ExportService {
       ['Date', new Date(shiftData.openedAt).toLocaleDateString('id-ID'), '']
     ];
 
+    // Denomination breakdowns, when the drawer was counted note by note
+    const countRows = (label: string, count: CashCount | null | undefined) =>
+      count && count.lines.length > 0
+        ? [
+            ['', '', ''],
+            [label, `Rp ${count.total.toLocaleString('id-ID')}`, count.currency],
+            ...count.lines.map(line => [
+              `${line.value.toLocaleString('id-ID')}${line.kind === 'coin' ? ' (coin)' : ''} x ${line.qty}`,
+              `Rp ${(line.value * line.qty).toLocaleString('id-ID')}`,
+              ''
+            ])
+          ]
+        : [];
+
     return {
       headers,
-      data,
+      data: [...data, ...countRows('Opening Count', shiftData.openingCount), ...countRows('Closing Count', closingCount)],
       title: 'Close Cashier Report'
     };
   }
 
+  /**
+   * Export audit log entries
+   */
+  static async exportAuditLog(
+    entries: AuditLogEntry[],
+    userNames: Record<string, string>,
+    options: ExportOptions
+  ): Promise<void> {
+    const exportData = this.formatAuditLogData(entries, userNames);
+
+    switch (options.format) {
+      case 'excel':
+        await this.exportToExcel(exportData, options);
+        break;
+      case 'pdf':
+        await this.exportToPDF(exportData, options);
+        break;
+      case 'csv':
+        await this.exportToCSV(exportData, options);
+        break;
+      default:
+        throw new Error(`Unsupported export format: ${options.format}`);
+    }
+  }
+
+  /**
+   * Format audit log entries for export
+   */
+  private static formatAuditLogData(entries: AuditLogEntry[], userNames: Record<string, string>): ExportData {
+    const headers = [
+      'Time',
+      'Actor',
+      'Action',
+      'Entity',
+      'Entity ID',
+      'Before',
+      'After',
+      'Note',
+      'Shift ID',
+      'Device',
+      'Sequence',
+      'Hash'
+    ];
+
+    const data = entries.map(entry => [
+      new Date(entry.createdAt).toLocaleString('id-ID'),
+      userNames[entry.actorId] || entry.actorId,
+      entry.action,
+      entry.entityType,
+      entry.entityId || '',
+      entry.before ? JSON.stringify(entry.before) : '',
+      entry.after ? JSON.stringify(entry.after) : '',
+      entry.note || '',
+      entry.shiftId || '',
+      entry.deviceId,
+      entry.sequence ?? '',
+      entry.hash || ''
+    ]);
+
+    return {
+      headers,
+      data,
+      title: 'Audit Log'
+    };
+  }
+
   /**
    * Export to Excel format
    */
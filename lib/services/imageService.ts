@@ -14,6 +14,21 @@ interface CompressedImageResult {
   type: string;
 }
 
+// RGBA pixels, 4 bytes per pixel, row by row
+export interface ImagePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// 1 bit per dot, most significant bit leftmost, 1 = black. Each row is padded to whole bytes.
+export interface MonochromeImage {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+}
+
 class ImageService {
   /**
    * Compress an image file
@@ -246,6 +261,103 @@ class ImageService {
     });
   }
 
+  /**
+   * Read a file as a data URL, e.g. to store it in settings
+   */
+  async readAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+  }
+
+  /**
+   * Draw an image (URL or data URL) over a white background, scaled down to fit maxWidth x maxHeight,
+   * and return its pixels. Transparent areas come out white.
+   */
+  async getPixels(src: string, maxWidth: number, maxHeight: number): Promise<ImagePixels> {
+    return new Promise((resolve, reject) => {
+      try {
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d');
+
+        if (!ctx) {
+          throw new Error('Could not get canvas context');
+        }
+
+        const img = new Image();
+
+        img.onload = () => {
+          const scale = Math.min(1, maxWidth / img.width, maxHeight / img.height);
+          canvas.width = Math.max(1, Math.floor(img.width * scale));
+          canvas.height = Math.max(1, Math.floor(img.height * scale));
+
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
+          ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          resolve({ width: imageData.width, height: imageData.height, data: imageData.data });
+        };
+
+        img.onerror = () => {
+          reject(new Error('Failed to load image'));
+        };
+
+        img.src = src;
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Floyd-Steinberg dither pixels to black and white dots for a thermal printer
+   */
+  toMonochrome(pixels: ImagePixels): MonochromeImage {
+    const { width, height, data } = pixels;
+    const bytesPerRow = Math.ceil(width / 8);
+    const result = new Uint8Array(bytesPerRow * height);
+
+    // Luminance, 0 = black, 255 = white, over a white background
+    const grey = new Float32Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+      const alpha = data[i * 4 + 3] / 255;
+      const luminance = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+      grey[i] = luminance * alpha + 255 * (1 - alpha);
+    }
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const black = grey[i] < 128;
+        if (black) {
+          result[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+
+        // Spread the rounding error over the pixels not yet visited
+        const error = grey[i] - (black ? 0 : 255);
+        if (x + 1 < width) grey[i + 1] += (error * 7) / 16;
+        if (y + 1 < height) {
+          if (x > 0) grey[i + width - 1] += (error * 3) / 16;
+          grey[i + width] += (error * 5) / 16;
+          if (x + 1 < width) grey[i + width + 1] += error / 16;
+        }
+      }
+    }
+
+    return { width, height, bytesPerRow, data: result };
+  }
+
+  /**
+   * Convert an image to dithered printer dots, no wider than maxWidth dots and no taller than maxHeight
+   */
+  async rasterizeForPrinter(src: string, maxWidth: number, maxHeight: number): Promise<MonochromeImage> {
+    return this.toMonochrome(await this.getPixels(src, maxWidth, maxHeight));
+  }
+
   /**
    * Optimize image for web display
    */
@@ -68,6 +68,8 @@ const enTranslations: Translations = {
     showChange: 'Show Change',
     customMessage: 'Custom Message',
     showBarcode: 'Show Transaction Barcode/QR',
+    printQris: 'Print QRIS Payment Code',
+    autoPrint: 'Print Receipt After Payment',
   },
   tax: {
     enableTax: 'Enable Tax on Transactions',
@@ -169,6 +171,8 @@ const idTranslations: Translations = {
     showChange: 'Tampilkan Kembalian',
     customMessage: 'Pesan Kustom',
     showBarcode: 'Tampilkan Barcode/QR Transaksi',
+    printQris: 'Cetak QRIS Pembayaran',
+    autoPrint: 'Cetak Struk Setelah Bayar',
   },
   tax: {
     enableTax: 'Aktifkan Pajak pada Transaksi',
@@ -1,16 +1,44 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { useAuthStore } from '@/lib/stores/authStore';
+import { PinService } from '@/lib/services/pinService';
+
+// First lockout lasts 30 seconds and doubles with every further round of failed attempts, up to 30 minutes
+const LOCKOUT_BASE_MS = 30 * 1000;
+const LOCKOUT_MAX_MS = 30 * 60 * 1000;
+
+export const getLockoutDuration = (level: number): number => {
+  if (level <= 0) return 0;
+  return Math.min(LOCKOUT_BASE_MS * 2 ** (level - 1), LOCKOUT_MAX_MS);
+};
+
+// Counters after one more wrong PIN. A full round of maxAttempts starts the next, longer lockout.
+const countFailure = (attempts: number, maxAttempts: number, level: number) => {
+  if (attempts + 1 < maxAttempts) {
+    return { attempts: attempts + 1, level, lockoutUntil: null };
+  }
+  return { attempts: 0, level: level + 1, lockoutUntil: Date.now() + getLockoutDuration(level + 1) };
+};
 
 interface LockScreenState {
   isLocked: boolean;
   lockTime: Date | null;
   unlockAttempts: number;
   maxAttempts: number;
+  lockoutLevel: number; // Rounds of maxAttempts failures since the last successful unlock
+  lockoutUntil: number | null; // Epoch ms until which no PIN is accepted
   lockScreenTimeout: number; // in minutes
+  // Approver PINs typed on this device, counted apart from unlocks so a cashier
+  // cannot clear them by unlocking with their own PIN
+  approvalAttempts: number;
+  approvalLockoutLevel: number;
+  approvalLockoutUntil: number | null;
   
   lockScreen: () => void;
   unlockScreen: (pin: string) => Promise<boolean>;
+  switchUser: (userId: string, pin: string) => Promise<boolean>;
+  attemptUnlock: (check: () => Promise<boolean>) => Promise<boolean>;
+  attemptApproval: (check: () => Promise<boolean>) => Promise<boolean>;
   resetAttempts: () => void;
   checkLockStatus: () => void;
 }
@@ -22,13 +50,18 @@ export const useLockScreenStore = create<LockScreenState>()(
       lockTime: null,
       unlockAttempts: 0,
       maxAttempts: 5,
+      lockoutLevel: 0,
+      lockoutUntil: null,
       lockScreenTimeout: 15, // Default to 15 minutes
+      approvalAttempts: 0,
+      approvalLockoutLevel: 0,
+      approvalLockoutUntil: null,
       
       lockScreen: () => {
+        // Failed attempts and any running lockout carry over, so re-locking does not reset them
         set({ 
           isLocked: true, 
-          lockTime: new Date(),
-          unlockAttempts: 0 
+          lockTime: new Date()
         });
       },
       
@@ -40,40 +73,61 @@ export const useLockScreenStore = create<LockScreenState>()(
         }
         
         try {
-          // In a real implementation, you would validate the PIN against the stored hash
-          // For this implementation, we'll check if the entered PIN matches the user's PIN
-          // In a real app, this would be a secure hash comparison
-          // Check if PIN matches user's stored PIN or default PIN
-          const storedPin = user.pin || '' // Empty means use default
-          const defaultPin = '1234'
-          const isValid = pin === storedPin || (storedPin === '' && pin === defaultPin)
-          
-          if (isValid) {
-            set({ 
-              isLocked: false, 
-              lockTime: null,
-              unlockAttempts: 0 
-            });
-            return true;
-          } else {
-            const { unlockAttempts, maxAttempts } = get();
-            const newAttempts = unlockAttempts + 1;
-            
-            if (newAttempts >= maxAttempts) {
-              // Too many attempts - maybe lock for a period or notify admin
-              // For now, just reset attempts
-              set({ unlockAttempts: 0 });
-              return false;
-            }
-            
-            set({ unlockAttempts: newAttempts });
-            return false;
-          }
+          return await get().attemptUnlock(() => PinService.verifyUserPin(user.id, pin));
         } catch (error) {
           console.error('Error unlocking screen:', error);
           return false;
         }
       },
+
+      // Unlock as a different cashier. Wrong PINs count towards the same lockout as a normal unlock.
+      switchUser: async (userId: string, pin: string): Promise<boolean> => {
+        return get().attemptUnlock(() => useAuthStore.getState().switchUser(userId, pin));
+      },
+
+      // Runs a PIN check unless locked out, unlocking on success and escalating the lockout on failure
+      attemptUnlock: async (check: () => Promise<boolean>): Promise<boolean> => {
+        const { lockoutUntil } = get();
+        if (lockoutUntil && Date.now() < lockoutUntil) {
+          return false;
+        }
+
+        const isValid = await check();
+        
+        if (isValid) {
+          set({ 
+            isLocked: false, 
+            lockTime: null,
+            unlockAttempts: 0,
+            lockoutLevel: 0,
+            lockoutUntil: null
+          });
+          return true;
+        }
+
+        const { unlockAttempts, maxAttempts, lockoutLevel } = get();
+        const failure = countFailure(unlockAttempts, maxAttempts, lockoutLevel);
+        set({ unlockAttempts: failure.attempts, lockoutLevel: failure.level, lockoutUntil: failure.lockoutUntil });
+        return false;
+      },
+
+      // Runs an approver PIN check unless approvals are locked out, with the same escalating lockout as unlocking
+      attemptApproval: async (check: () => Promise<boolean>): Promise<boolean> => {
+        const { approvalLockoutUntil } = get();
+        if (approvalLockoutUntil && Date.now() < approvalLockoutUntil) {
+          return false;
+        }
+
+        if (await check()) {
+          set({ approvalAttempts: 0, approvalLockoutLevel: 0, approvalLockoutUntil: null });
+          return true;
+        }
+
+        const { approvalAttempts, maxAttempts, approvalLockoutLevel } = get();
+        const failure = countFailure(approvalAttempts, maxAttempts, approvalLockoutLevel);
+        set({ approvalAttempts: failure.attempts, approvalLockoutLevel: failure.level, approvalLockoutUntil: failure.lockoutUntil });
+        return false;
+      },
       
       resetAttempts: () => {
         set({ unlockAttempts: 0 });
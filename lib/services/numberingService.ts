@@ -0,0 +1,71 @@
+import { db } from '../db';
+import { settingsService } from './settingsService';
+import { getDevicePrefix } from '../utils/device';
+import { DocumentType, NumberingPattern } from '../types/settings';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+export class NumberingService {
+  // Reserve the next number for a document type. Callers that write the document inside their own
+  // Dexie transaction must include db.counters and db.settings in its scope: the counter then only
+  // moves when the document is committed, so an aborted write never leaves a gap in the sequence.
+  static async next(docType: DocumentType, date: Date = new Date()): Promise<string> {
+    try {
+      return await db.transaction('rw', db.counters, db.settings, async () => {
+        const config = await this.getPattern(docType);
+        const periodKey = this.getPeriodKey(config.reset, date);
+        const id = `${docType}:${periodKey}`;
+
+        const counter = await db.counters.get(id);
+        const sequence = (counter?.lastValue || 0) + 1;
+        await db.counters.put({
+          id,
+          docType,
+          periodKey,
+          lastValue: sequence,
+          updatedAt: new Date()
+        });
+
+        return this.format(config, sequence, date, getDevicePrefix());
+      });
+    } catch (error) {
+      throw new Error(`Failed to generate document number: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static getPeriodKey(reset: NumberingPattern['reset'], date: Date): string {
+    const year = date.getFullYear();
+    const month = pad(date.getMonth() + 1);
+
+    switch (reset) {
+      case 'daily':
+        return `${year}${month}${pad(date.getDate())}`;
+      case 'monthly':
+        return `${year}${month}`;
+      default:
+        return 'all';
+    }
+  }
+
+  // Replace pattern tokens. Without a device prefix (only outside the browser), {DEVICE} and the separator after it are dropped.
+  static format(config: NumberingPattern, sequence: number, date: Date, devicePrefix: string): string {
+    const pattern = devicePrefix
+      ? config.pattern.replace(/\{DEVICE\}/g, devicePrefix)
+      : config.pattern.replace(/\{DEVICE\}[-_/.]?/g, '');
+
+    return pattern
+      .replace(/\{YYYY\}/g, String(date.getFullYear()))
+      .replace(/\{YY\}/g, String(date.getFullYear()).slice(-2))
+      .replace(/\{MM\}/g, pad(date.getMonth() + 1))
+      .replace(/\{DD\}/g, pad(date.getDate()))
+      .replace(/\{SEQ\}/g, pad(sequence, config.padding));
+  }
+
+  private static async getPattern(docType: DocumentType): Promise<NumberingPattern> {
+    const numbering = await settingsService.getSettings('numbering');
+    if (!numbering) {
+      throw new Error('Numbering settings not found');
+    }
+    return numbering[docType];
+  }
+}
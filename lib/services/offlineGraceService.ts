@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { settingsService } from './settingsService';
+
+export const DEFAULT_OFFLINE_GRACE_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class OfflineGraceService {
+  static async getGraceDays(): Promise<number> {
+    const settings = await settingsService.getSettings('lockScreen');
+    return settings?.offlineGraceDays ?? DEFAULT_OFFLINE_GRACE_DAYS;
+  }
+
+  // Stamped whenever Supabase confirms the user's session. The user row syncs like any other change;
+  // devices stamping the same user at once settle it by last writer (MERGE_RULES.users), not in the conflict inbox.
+  static async recordOnlineVerification(userId: string): Promise<Date> {
+    try {
+      const now = new Date();
+      // updatedAt moves too, so the newest stamp is the one last writer keeps
+      await db.users.update(userId, { lastOnlineVerifiedAt: now, updatedAt: now });
+      return now;
+    } catch (error) {
+      throw new Error(`Failed to record online verification: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // When offline access ends for a session last verified at `verifiedAt`. Never verified means no offline access.
+  static async getExpiry(verifiedAt: Date | number | null | undefined): Promise<number | null> {
+    if (!verifiedAt) return null;
+    const days = await this.getGraceDays();
+    return new Date(verifiedAt).getTime() + days * DAY_MS;
+  }
+}
@@ -6,6 +6,15 @@ export interface PaymentMethod {
   amount: number;
 }
 
+export interface TenderSummary {
+  totalPaid: number;
+  cashPaid: number;
+  nonCashPaid: number;
+  remaining: number; // Amount still to be covered, 0 once the total is reached
+  change: number; // Always returned from the cash portion
+  nonCashExceedsTotal: boolean; // E-wallet/QRIS cannot be overpaid because change is only given in cash
+}
+
 export interface PaymentResult {
   transaction: Transaction | null;
   change: number;
@@ -39,18 +48,8 @@ export class PaymentService {
         };
       }
 
-      // Calculate if the payment amount is sufficient
-      if (payment.amount < transaction.total) {
-        return {
-          transaction: null,
-          change: 0,
-          success: false,
-          message: `Insufficient payment. Required: ${transaction.total}, Provided: ${payment.amount}`
-        };
-      }
-
-      // Calculate change
-      const change = TransactionService.calculateChange(transaction.total, payment.amount);
+      // Check the payment covers the total; only cash can be overpaid
+      const { change } = this.validateTenders(transaction.total, [payment]);
 
       // Update transaction with payment info
       const updatedTransaction = {
@@ -66,23 +65,26 @@ export class PaymentService {
       // Validate and clean the transaction data
       const cleanedData = this.cleanTransactionData(updatedTransaction);
 
-      // Update in database
-            await db.transactions.update(transactionId, {
-              payments: cleanedData.payments,
-              change: cleanedData.change,
-              status: cleanedData.status,
-              paidAt: cleanedData.paidAt,
-              updatedAt: cleanedData.updatedAt,
-              shiftId: cleanedData.shiftId
-            });
-
-      // Get the updated transaction
-      const finalTransaction = await db.transactions.get(transactionId);
-
-      // Deduct stock after successful payment
-      if (finalTransaction) {
-        await TransactionService.deductStock(finalTransaction);
-      }
+      // Record the payment and deduct stock atomically
+      const finalTransaction = await db.transaction('rw', db.transactions, db.products, db.stockMovements, async () => {
+        await db.transactions.update(transactionId, {
+          payments: cleanedData.payments,
+          change: cleanedData.change,
+          status: cleanedData.status,
+          paidAt: cleanedData.paidAt,
+          updatedAt: cleanedData.updatedAt,
+          shiftId: cleanedData.shiftId
+        });
+
+        // Get the updated transaction
+        const updated = await db.transactions.get(transactionId);
+
+        // Deduct stock after successful payment
+        if (updated) {
+          await TransactionService.deductStock(updated);
+        }
+        return updated;
+      });
 
       return {
         transaction: finalTransaction || null,
@@ -137,21 +139,8 @@ export class PaymentService {
         };
       }
 
-      // Calculate total payment amount
-      const totalPayment = payments.reduce((sum, payment) => sum + payment.amount, 0);
-
-      // Check if total payment is sufficient
-      if (totalPayment < transaction.total) {
-        return {
-          transaction: null,
-          change: 0,
-          success: false,
-          message: `Insufficient payment. Required: ${transaction.total}, Provided: ${totalPayment}`
-        };
-      }
-
-      // Calculate change
-      const change = totalPayment - transaction.total;
+      // Check the tenders cover the total and that change comes from cash only
+      const { change } = this.validateTenders(transaction.total, payments);
 
       // Update transaction with all payment methods
       const updatedTransaction = {
@@ -167,23 +156,26 @@ export class PaymentService {
       // Validate and clean the transaction data
       const cleanedData = this.cleanTransactionData(updatedTransaction);
 
-      // Update in database
-            await db.transactions.update(transactionId, {
-              payments: cleanedData.payments,
-              change: cleanedData.change,
-              status: cleanedData.status,
-              paidAt: cleanedData.paidAt,
-              updatedAt: cleanedData.updatedAt,
-              shiftId: cleanedData.shiftId
-            });
-
-      // Get the updated transaction
-      const finalTransaction = await db.transactions.get(transactionId);
-
-      // Deduct stock after successful payment
-      if (finalTransaction) {
-        await TransactionService.deductStock(finalTransaction);
-      }
+      // Record the payment and deduct stock atomically
+      const finalTransaction = await db.transaction('rw', db.transactions, db.products, db.stockMovements, async () => {
+        await db.transactions.update(transactionId, {
+          payments: cleanedData.payments,
+          change: cleanedData.change,
+          status: cleanedData.status,
+          paidAt: cleanedData.paidAt,
+          updatedAt: cleanedData.updatedAt,
+          shiftId: cleanedData.shiftId
+        });
+
+        // Get the updated transaction
+        const updated = await db.transactions.get(transactionId);
+
+        // Deduct stock after successful payment
+        if (updated) {
+          await TransactionService.deductStock(updated);
+        }
+        return updated;
+      });
 
       return {
         transaction: finalTransaction || null,
@@ -201,6 +193,42 @@ export class PaymentService {
     }
   }
 
+  // Split a set of tenders into cash and non-cash and work out what is left to pay
+  static summarizeTenders(total: number, payments: PaymentMethod[]): TenderSummary {
+    const cashPaid = payments
+      .filter(payment => payment.method === 'cash')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const nonCashPaid = payments
+      .filter(payment => payment.method !== 'cash')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const totalPaid = cashPaid + nonCashPaid;
+
+    return {
+      totalPaid,
+      cashPaid,
+      nonCashPaid,
+      remaining: Math.max(total - totalPaid, 0),
+      change: Math.max(totalPaid - total, 0),
+      nonCashExceedsTotal: nonCashPaid > total
+    };
+  }
+
+  // Same as summarizeTenders, but throws when the tenders cannot settle the total
+  static validateTenders(total: number, payments: PaymentMethod[]): TenderSummary {
+    if (payments.some(payment => !this.validatePaymentMethod(payment.method) || !(payment.amount > 0))) {
+      throw new Error('Every payment needs a valid method and an amount above zero');
+    }
+
+    const summary = this.summarizeTenders(total, payments);
+    if (summary.remaining > 0) {
+      throw new Error(`Insufficient payment. Required: ${total}, Provided: ${summary.totalPaid}`);
+    }
+    if (summary.nonCashExceedsTotal) {
+      throw new Error(`Non-cash payments (${summary.nonCashPaid}) exceed the total (${total}); change can only be given from cash`);
+    }
+    return summary;
+  }
+
   // Calculate payment change
   static calculateChange(total: number, paymentAmount: number): number {
     return Math.max(paymentAmount - total, 0);
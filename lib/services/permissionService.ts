@@ -0,0 +1,186 @@
+import { db, AccessTemplate, User, UserPermission } from '../db';
+import { v7 as uuidv7 } from 'uuid';
+import { SYSTEM_TEMPLATES, getDefaultTemplateId, hasPermission } from '../config/permissions';
+
+export interface SaveTemplateData {
+  id?: string; // Omit to create a new template
+  name: string;
+  description?: string | null;
+  permissions: string[];
+}
+
+export class PermissionService {
+  // Seed the built-in templates on first use. Existing rows are left alone so an owner's edits survive.
+  static async ensureSystemTemplates(): Promise<void> {
+    try {
+      const existing = await db.accessTemplates.bulkGet(SYSTEM_TEMPLATES.map(template => template.id));
+      const now = new Date();
+      const missing: AccessTemplate[] = SYSTEM_TEMPLATES
+        .filter((_, index) => !existing[index])
+        .map(template => ({
+          ...template,
+          isSystem: true,
+          createdAt: now,
+          updatedAt: now,
+          deletedAt: null
+        }));
+
+      if (missing.length > 0) {
+        await db.accessTemplates.bulkAdd(missing);
+      }
+    } catch (error) {
+      throw new Error(`Failed to seed access templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async getTemplates(): Promise<AccessTemplate[]> {
+    try {
+      await this.ensureSystemTemplates();
+      const templates = await db.accessTemplates.filter(template => !template.deletedAt).toArray();
+      return templates.sort((a, b) => Number(b.isSystem) - Number(a.isSystem) || a.name.localeCompare(b.name));
+    } catch (error) {
+      throw new Error(`Failed to get access templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async saveTemplate(data: SaveTemplateData): Promise<AccessTemplate> {
+    try {
+      const name = data.name.trim();
+      if (!name) {
+        throw new Error('Template name is required');
+      }
+
+      const now = new Date();
+      const existing = data.id ? await db.accessTemplates.get(data.id) : undefined;
+      if (data.id && !existing) {
+        throw new Error('Access template not found');
+      }
+      if (existing?.id === 'system_owner') {
+        throw new Error('The Owner template always has full access');
+      }
+
+      const template: AccessTemplate = {
+        id: existing?.id || uuidv7(),
+        name,
+        description: data.description?.trim() || null,
+        permissions: [...new Set(data.permissions)],
+        isSystem: existing?.isSystem || false,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        deletedAt: null
+      };
+      await db.accessTemplates.put(template);
+      return template;
+    } catch (error) {
+      throw new Error(`Failed to save access template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Users on a deleted template fall back to the default template for their role
+  static async deleteTemplate(id: string): Promise<void> {
+    try {
+      const template = await db.accessTemplates.get(id);
+      if (!template) {
+        throw new Error('Access template not found');
+      }
+      if (template.isSystem) {
+        throw new Error('System templates cannot be deleted');
+      }
+
+      const now = new Date();
+      await db.accessTemplates.update(id, { deletedAt: now, updatedAt: now });
+    } catch (error) {
+      throw new Error(`Failed to delete access template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async assignTemplate(userId: string, templateId: string | null): Promise<void> {
+    try {
+      const user = await db.users.get(userId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+      if (user.role === 'owner') {
+        throw new Error('Owners always have full access');
+      }
+
+      await db.users.update(userId, { accessTemplateId: templateId, updatedAt: new Date() });
+    } catch (error) {
+      throw new Error(`Failed to assign access template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async getUserOverrides(userId: string): Promise<UserPermission[]> {
+    try {
+      const overrides = await db.userPermissions.where('userId').equals(userId).toArray();
+      return overrides.filter(override => !override.deletedAt);
+    } catch (error) {
+      throw new Error(`Failed to get user permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Grant or revoke one permission for a user on top of their template. Null removes the exception.
+  static async setUserOverride(
+    userId: string,
+    permission: string,
+    granted: boolean | null,
+    createdBy: string
+  ): Promise<void> {
+    try {
+      const now = new Date();
+      const existing = (await this.getUserOverrides(userId)).find(override => override.permission === permission);
+
+      if (granted === null) {
+        if (existing) {
+          await db.userPermissions.update(existing.id, { deletedAt: now, updatedAt: now });
+        }
+        return;
+      }
+
+      if (existing) {
+        await db.userPermissions.update(existing.id, { granted, updatedAt: now });
+      } else {
+        await db.userPermissions.add({
+          id: uuidv7(),
+          userId,
+          permission,
+          granted,
+          createdBy,
+          createdAt: now,
+          updatedAt: now,
+          deletedAt: null
+        });
+      }
+    } catch (error) {
+      throw new Error(`Failed to update user permission: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Effective permissions: the user's template, plus granted exceptions, minus revoked ones.
+  // Owners always get everything so a shop can never lock itself out.
+  static async getEffectivePermissions(user: Pick<User, 'id' | 'role' | 'accessTemplateId'>): Promise<string[]> {
+    try {
+      if (user.role === 'owner') return ['*'];
+
+      await this.ensureSystemTemplates();
+      const assigned = user.accessTemplateId ? await db.accessTemplates.get(user.accessTemplateId) : undefined;
+      const template = assigned && !assigned.deletedAt
+        ? assigned
+        : await db.accessTemplates.get(getDefaultTemplateId(user.role));
+
+      // Revoked exceptions become `!permission` so they also beat a template wildcard
+      const overrides = await this.getUserOverrides(user.id);
+      const permissions = new Set(template?.permissions || []);
+      for (const override of overrides) {
+        permissions.add(override.granted ? override.permission : `!${override.permission}`);
+      }
+      return [...permissions];
+    } catch (error) {
+      throw new Error(`Failed to resolve permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async userCan(user: Pick<User, 'id' | 'role' | 'accessTemplateId'>, permission: string): Promise<boolean> {
+    return hasPermission(await this.getEffectivePermissions(user), permission);
+  }
+}
@@ -0,0 +1,109 @@
+import { db, User } from '../db';
+
+// Stored format: pbkdf2$<iterations>$<salt base64>$<hash base64>
+const HASH_PREFIX = 'pbkdf2';
+const HASH_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const derive = async (pin: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+// Compare without returning early, so timing does not reveal how much of the hash matched
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+export class PinService {
+  static isValidFormat(pin: string): boolean {
+    return /^\d{4,6}$/.test(pin);
+  }
+
+  static isHashed(stored: string): boolean {
+    return stored.startsWith(`${HASH_PREFIX}$`);
+  }
+
+  static async hashPin(pin: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await derive(pin, salt, HASH_ITERATIONS);
+    return [HASH_PREFIX, HASH_ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+  }
+
+  // PINs saved before hashing was introduced are still stored in clear text and compared as such.
+  // A user without a PIN can never unlock or approve anything.
+  static async verify(user: Pick<User, 'pin'>, pin: string): Promise<boolean> {
+    if (!user.pin || !pin) return false;
+    if (!this.isHashed(user.pin)) return user.pin === pin;
+
+    const [, iterations, salt, hash] = user.pin.split('$');
+    const expected = fromBase64(hash);
+    const actual = await derive(pin, fromBase64(salt), Number(iterations));
+    return constantTimeEqual(actual, expected);
+  }
+
+  // The one place PINs are checked against the database. A correct clear-text PIN is re-saved hashed.
+  static async verifyUserPin(userId: string, pin: string): Promise<boolean> {
+    try {
+      const user = await db.users.get(userId);
+      if (!user || user.deletedAt) return false;
+
+      const valid = await this.verify(user, pin);
+      if (valid && !this.isHashed(user.pin)) {
+        await db.users.update(userId, { pin: await this.hashPin(pin), updatedAt: new Date() });
+      }
+      return valid;
+    } catch (error) {
+      throw new Error(`Failed to verify PIN: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Set or clear (empty string) a user's PIN. Returns the updated user.
+  static async setPin(userId: string, pin: string): Promise<User> {
+    try {
+      if (pin && !this.isValidFormat(pin)) {
+        throw new Error('PIN must be 4 to 6 digits');
+      }
+
+      const user = await db.users.get(userId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const updated: User = {
+        ...user,
+        pin: pin ? await this.hashPin(pin) : '',
+        updatedAt: new Date()
+      };
+      await db.users.put(updated);
+      return updated;
+    } catch (error) {
+      throw new Error(`Failed to set PIN: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // An owner sets a new PIN for a staff member who forgot theirs
+  static async resetPin(userId: string, newPin: string, resetBy: Pick<User, 'id' | 'role'>): Promise<User> {
+    if (resetBy.role !== 'owner') {
+      throw new Error('Failed to reset PIN: only an owner can reset PINs');
+    }
+    if (!newPin) {
+      throw new Error('Failed to reset PIN: a new PIN is required');
+    }
+    return this.setPin(userId, newPin);
+  }
+}
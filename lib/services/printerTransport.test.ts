@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { receiptSettingsSchema } from '../types/settings';
+import { escposService, ReceiptData } from './escposService';
+import { TcpBridgeTransport } from './printerTransport';
+
+// What a known receipt must put on the wire. After an intended change to the receipt bytes,
+// copy the job-001.bin that printer-capture.js saved (its path is in the failure output) over this file.
+const RECEIPT_FIXTURE = path.join(__dirname, 'fixtures', 'receipt-58mm.bin');
+
+const RECEIPT: ReceiptData = {
+  businessName: 'Warung Bakso Pak Kumis',
+  businessAddress: 'Jl. Melati No. 12, Bandung',
+  businessPhone: '0812-3456-7890',
+  transactionNumber: 'TRX-K1-20261019-0007',
+  transactionDate: '19/10/2026 13:45',
+  cashierName: 'Sari',
+  items: [
+    { name: 'Bakso Urat', qty: 2, price: 15000, subtotal: 30000 },
+    { name: 'Es Teh Manis', qty: 1, price: 5000, discount: { type: 'nominal', value: 1000, amount: 1000 }, subtotal: 4000 }
+  ],
+  subtotal: 34000,
+  discount: { type: 'percent', value: 10, amount: 3400 },
+  tax: { enabled: true, rate: 11, amount: 3366 },
+  total: 33966,
+  // An unpaid bill, the kind that carries a QRIS code
+  payments: [],
+  change: 0,
+  qrisPayload: '00020101021226570011ID.DANA.WWW011893600915302259148102090225914810303UMI51440014ID.CO.QRIS.WWW0215ID10243620012490303UMI5204549953033605802ID5914Warung Bakso 16007Bandung61054011162070703A016304DF64'
+};
+
+const RECEIPT_SETTINGS = receiptSettingsSchema.parse({ printQris: true });
+
+const PROFILE = { paperWidth: '58mm', font: 'A', codePage: 'cp437' } as const;
+
+const children: ChildProcess[] = [];
+
+const freePort = (): Promise<number> => new Promise((resolve, reject) => {
+  const server = net.createServer();
+  server.on('error', reject);
+  server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address() as net.AddressInfo;
+    server.close(() => resolve(port));
+  });
+});
+
+// Start one of the scripts in scripts/ and wait until it is listening
+const startScript = (script: string, env: Record<string, string>) => new Promise<{ child: ChildProcess; output: () => string }>((resolve, reject) => {
+  const child = spawn(process.execPath, [path.resolve(__dirname, '../../scripts', script)], {
+    env: { ...process.env, ...env },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+  children.push(child);
+
+  let output = '';
+  const onData = (chunk: Buffer) => {
+    output += chunk.toString();
+    if (output.includes('listening')) resolve({ child, output: () => output });
+  };
+  child.stdout?.on('data', onData);
+  child.stderr?.on('data', onData);
+  child.on('error', reject);
+  child.on('exit', code => reject(new Error(`${script} exited with ${code}:\n${output}`)));
+});
+
+afterEach(() => {
+  for (const child of children.splice(0)) {
+    if (child.exitCode === null) child.kill();
+  }
+});
+
+describe('TcpBridgeTransport', () => {
+  it('delivers a receipt through the bridge byte for byte', async () => {
+    const [printerPort, bridgePort] = [await freePort(), await freePort()];
+    const captureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'printer-capture-'));
+
+    const capture = await startScript('printer-capture.js', {
+      PRINTER_CAPTURE_PORT: String(printerPort),
+      PRINTER_CAPTURE_DIR: captureDir,
+      PRINTER_CAPTURE_EXPECT: RECEIPT_FIXTURE
+    });
+    const captured = new Promise<number | null>(resolve => capture.child.on('exit', resolve));
+    await startScript('printer-bridge.js', { PRINTER_BRIDGE_PORT: String(bridgePort) });
+
+    const bytes = await escposService.encode(escposService.generateReceiptCommands(RECEIPT, RECEIPT_SETTINGS), PROFILE);
+    await new TcpBridgeTransport(`http://127.0.0.1:${bridgePort}`, '127.0.0.1', printerPort).send(bytes);
+
+    expect(await captured, capture.output()).toBe(0);
+    // Kept on failure, for the saved job
+    fs.rmSync(captureDir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,291 @@
+import { PrinterSettings } from '../types/settings';
+
+export interface PrinterTransport {
+  send(data: Uint8Array): Promise<void>;
+  isAvailable(): Promise<boolean>;
+}
+
+// A printer the browser has been given access to, as stored in PrinterSettings
+export interface PairedPrinter {
+  transport: PrinterSettings['transport'];
+  name: string;
+  usbVendorId?: number;
+  usbProductId?: number;
+  host?: string;
+  port?: number;
+}
+
+// The parts of WebUSB and Web Serial used here; neither API is in TypeScript's DOM typings
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+  type: 'bulk' | 'interrupt' | 'isochronous';
+}
+
+interface UsbDevice {
+  vendorId: number;
+  productId: number;
+  productName?: string;
+  manufacturerName?: string;
+  opened: boolean;
+  configuration: {
+    interfaces: Array<{ interfaceNumber: number; alternate: { endpoints: UsbEndpoint[] } }>;
+  } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<{ status: 'ok' | 'stall' | 'babble'; bytesWritten: number }>;
+}
+
+interface Usb {
+  getDevices(): Promise<UsbDevice[]>;
+  requestDevice(options: { filters: Array<{ vendorId?: number; classCode?: number }> }): Promise<UsbDevice>;
+}
+
+interface SerialPortLike {
+  getInfo(): { usbVendorId?: number; usbProductId?: number };
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  writable: WritableStream<Uint8Array> | null;
+}
+
+interface Serial {
+  getPorts(): Promise<SerialPortLike[]>;
+  requestPort(options?: { filters?: Array<{ usbVendorId?: number }> }): Promise<SerialPortLike>;
+}
+
+const getUsb = (): Usb | null =>
+  typeof navigator !== 'undefined' && 'usb' in navigator ? (navigator as unknown as { usb: Usb }).usb : null;
+
+const getSerial = (): Serial | null =>
+  typeof navigator !== 'undefined' && 'serial' in navigator ? (navigator as unknown as { serial: Serial }).serial : null;
+
+const hex = (value?: number) => (value ?? 0).toString(16).padStart(4, '0');
+
+// Printer plugged in over USB, talking to its bulk OUT endpoint directly (Chrome/Edge)
+export class WebUsbTransport implements PrinterTransport {
+  constructor(private vendorId: number, private productId: number) {}
+
+  static isSupported(): boolean {
+    return getUsb() !== null;
+  }
+
+  // Must be called from a click: the browser shows its device picker
+  static async requestPrinter(): Promise<PairedPrinter> {
+    const usb = getUsb();
+    if (!usb) {
+      throw new Error('WebUSB is not supported in this browser');
+    }
+    const device = await usb.requestDevice({ filters: [] });
+    return this.toPaired(device);
+  }
+
+  static async getPairedPrinters(): Promise<PairedPrinter[]> {
+    const usb = getUsb();
+    if (!usb) return [];
+    const devices = await usb.getDevices();
+    return devices.map(device => this.toPaired(device));
+  }
+
+  private static toPaired(device: UsbDevice): PairedPrinter {
+    return {
+      transport: 'usb',
+      name: [device.manufacturerName, device.productName].filter(Boolean).join(' ') || `USB ${hex(device.vendorId)}:${hex(device.productId)}`,
+      usbVendorId: device.vendorId,
+      usbProductId: device.productId
+    };
+  }
+
+  private async findDevice(): Promise<UsbDevice | null> {
+    const usb = getUsb();
+    if (!usb) return null;
+    const devices = await usb.getDevices();
+    return devices.find(device => device.vendorId === this.vendorId && device.productId === this.productId) || null;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return (await this.findDevice()) !== null;
+  }
+
+  async send(data: Uint8Array): Promise<void> {
+    const device = await this.findDevice();
+    if (!device) {
+      throw new Error('USB printer is not connected or access was revoked');
+    }
+
+    if (!device.opened) {
+      await device.open();
+    }
+    try {
+      if (!device.configuration) {
+        await device.selectConfiguration(1);
+      }
+
+      // The first interface with a bulk OUT endpoint is the printer's data channel
+      const target = device.configuration?.interfaces
+        .map(iface => ({
+          interfaceNumber: iface.interfaceNumber,
+          endpoint: iface.alternate.endpoints.find(endpoint => endpoint.direction === 'out' && endpoint.type === 'bulk')
+        }))
+        .find(candidate => candidate.endpoint);
+      if (!target?.endpoint) {
+        throw new Error('USB device has no bulk OUT endpoint');
+      }
+
+      await device.claimInterface(target.interfaceNumber);
+      try {
+        const result = await device.transferOut(target.endpoint.endpointNumber, data);
+        if (result.status !== 'ok' || result.bytesWritten !== data.length) {
+          throw new Error(`USB transfer ended with status ${result.status} after ${result.bytesWritten} of ${data.length} bytes`);
+        }
+      } finally {
+        await device.releaseInterface(target.interfaceNumber).catch(() => undefined);
+      }
+    } finally {
+      await device.close().catch(() => undefined);
+    }
+  }
+}
+
+// Printer on a serial or USB-serial port (Chrome/Edge)
+export class WebSerialTransport implements PrinterTransport {
+  constructor(private baudRate: number, private usbVendorId?: number, private usbProductId?: number) {}
+
+  static isSupported(): boolean {
+    return getSerial() !== null;
+  }
+
+  // Must be called from a click: the browser shows its port picker
+  static async requestPrinter(): Promise<PairedPrinter> {
+    const serial = getSerial();
+    if (!serial) {
+      throw new Error('Web Serial is not supported in this browser');
+    }
+    const port = await serial.requestPort();
+    return this.toPaired(port);
+  }
+
+  static async getPairedPrinters(): Promise<PairedPrinter[]> {
+    const serial = getSerial();
+    if (!serial) return [];
+    const ports = await serial.getPorts();
+    return ports.map(port => this.toPaired(port));
+  }
+
+  private static toPaired(port: SerialPortLike): PairedPrinter {
+    const info = port.getInfo();
+    return {
+      transport: 'serial',
+      name: info.usbVendorId ? `Serial ${hex(info.usbVendorId)}:${hex(info.usbProductId)}` : 'Serial port',
+      usbVendorId: info.usbVendorId,
+      usbProductId: info.usbProductId
+    };
+  }
+
+  private async findPort(): Promise<SerialPortLike | null> {
+    const serial = getSerial();
+    if (!serial) return null;
+    const ports = await serial.getPorts();
+    // A built-in serial port reports no USB ids, so the first such port granted is used
+    return ports.find(port => {
+      const info = port.getInfo();
+      return info.usbVendorId === this.usbVendorId && info.usbProductId === this.usbProductId;
+    }) || null;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return (await this.findPort()) !== null;
+  }
+
+  async send(data: Uint8Array): Promise<void> {
+    const port = await this.findPort();
+    if (!port) {
+      throw new Error('Serial printer is not connected or access was revoked');
+    }
+
+    await port.open({ baudRate: this.baudRate });
+    try {
+      if (!port.writable) {
+        throw new Error('Serial port is not writable');
+      }
+      const writer = port.writable.getWriter();
+      try {
+        await writer.write(data);
+      } finally {
+        writer.releaseLock();
+      }
+    } finally {
+      await port.close().catch(() => undefined);
+    }
+  }
+}
+
+// Network printer on raw TCP (usually port 9100). Browsers cannot open sockets, so the bytes go through
+// the local bridge in scripts/printer-bridge.js, which forwards them unchanged.
+export class TcpBridgeTransport implements PrinterTransport {
+  constructor(private bridgeUrl: string, private host: string, private port: number) {}
+
+  private url(path: string, params: Record<string, string> = {}): string {
+    const query = new URLSearchParams(params).toString();
+    return `${this.bridgeUrl.replace(/\/$/, '')}/${path}${query ? `?${query}` : ''}`;
+  }
+
+  // Printers answering on `port` in a /24 network, e.g. subnet "192.168.1"
+  static async discover(bridgeUrl: string, subnet: string, port = 9100): Promise<PairedPrinter[]> {
+    const transport = new TcpBridgeTransport(bridgeUrl, '', port);
+    const response = await fetch(transport.url('discover', { subnet, port: String(port) }));
+    if (!response.ok) {
+      throw new Error(`Printer discovery failed with ${response.status}`);
+    }
+    const body: { printers: Array<{ host: string; port: number }> } = await response.json();
+    return body.printers.map(printer => ({ transport: 'tcp', name: `${printer.host}:${printer.port}`, ...printer }));
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.host) return false;
+    try {
+      const response = await fetch(this.url('status', { host: this.host, port: String(this.port) }));
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async send(data: Uint8Array): Promise<void> {
+    if (!this.host) {
+      throw new Error('Printer address is not set');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.url('print', { host: this.host, port: String(this.port) }), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: data as BodyInit
+      });
+    } catch {
+      throw new Error(`Printer bridge is not running at ${this.bridgeUrl}`);
+    }
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Printing to ${this.host}:${this.port} failed${body ? `: ${body}` : ''}`);
+    }
+  }
+}
+
+export const createPrinterTransport = (settings: PrinterSettings): PrinterTransport | null => {
+  switch (settings.transport) {
+    case 'usb':
+      return settings.usbVendorId !== undefined && settings.usbProductId !== undefined
+        ? new WebUsbTransport(settings.usbVendorId, settings.usbProductId)
+        : null;
+    case 'serial':
+      return new WebSerialTransport(settings.baudRate, settings.usbVendorId, settings.usbProductId);
+    case 'tcp':
+      return new TcpBridgeTransport(settings.bridgeUrl, settings.host, settings.port);
+    default:
+      return null;
+  }
+};
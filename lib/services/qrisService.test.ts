@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { QrisService } from './qrisService';
+
+// Static merchant payload and its dynamic versions, with CRCs computed independently (CRC-16/CCITT-FALSE)
+const STATIC_PAYLOAD =
+  '00020101021126660014ID.CO.QRIS.WWW01189360001400000000010215ID10200000000010303UMI5204581253033605802ID5912WARUNG BAKSO6007JAKARTA6105123456304DF64';
+const DYNAMIC_15000 =
+  '00020101021226660014ID.CO.QRIS.WWW01189360001400000000010215ID10200000000010303UMI5204581253033605405150005802ID5912WARUNG BAKSO6007JAKARTA6105123456304EDB4';
+const DYNAMIC_12500_50 =
+  '00020101021226660014ID.CO.QRIS.WWW01189360001400000000010215ID10200000000010303UMI520458125303360540812500.505802ID5912WARUNG BAKSO6007JAKARTA61051234563048400';
+
+describe('QrisService.crc16', () => {
+  it('matches the CRC-16/CCITT-FALSE check value', () => {
+    expect(QrisService.crc16('123456789')).toBe('29B1');
+  });
+
+  it('matches the CRC of a known payload', () => {
+    expect(QrisService.crc16(STATIC_PAYLOAD.slice(0, -4))).toBe('DF64');
+  });
+
+  it('pads to four uppercase hex digits', () => {
+    expect(QrisService.crc16('')).toBe('FFFF');
+  });
+});
+
+describe('QrisService.isValid', () => {
+  it('accepts a payload with a matching CRC', () => {
+    expect(QrisService.isValid(STATIC_PAYLOAD)).toBe(true);
+  });
+
+  it('rejects a payload whose CRC does not match', () => {
+    expect(QrisService.isValid(STATIC_PAYLOAD.replace('WARUNG', 'WARUNK'))).toBe(false);
+  });
+});
+
+describe('QrisService.toDynamic', () => {
+  it('sets the amount, marks the code dynamic and recomputes the CRC', () => {
+    expect(QrisService.toDynamic(STATIC_PAYLOAD, 15000)).toBe(DYNAMIC_15000);
+  });
+
+  it('writes fractional amounts with two decimals', () => {
+    expect(QrisService.toDynamic(STATIC_PAYLOAD, 12500.5)).toBe(DYNAMIC_12500_50);
+  });
+
+  it('replaces the amount of a payload that is already dynamic', () => {
+    expect(QrisService.toDynamic(DYNAMIC_12500_50, 15000)).toBe(DYNAMIC_15000);
+  });
+
+  it('refuses an invalid merchant payload', () => {
+    expect(() => QrisService.toDynamic(STATIC_PAYLOAD.slice(0, -1) + '0', 15000)).toThrow('Failed to create dynamic QRIS');
+  });
+
+  it('refuses a zero amount', () => {
+    expect(() => QrisService.toDynamic(STATIC_PAYLOAD, 0)).toThrow('Amount must be greater than zero');
+  });
+});
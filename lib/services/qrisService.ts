@@ -0,0 +1,122 @@
+// QRIS (EMVCo Merchant-Presented QR) payload handling. Everything here is pure and works offline.
+
+export interface QrisField {
+  id: string; // Two-digit tag, e.g. '54' for the transaction amount
+  value: string;
+}
+
+const TAG_PAYLOAD_FORMAT = '00';
+const TAG_POINT_OF_INITIATION = '01';
+const TAG_TRANSACTION_AMOUNT = '54';
+const TAG_CRC = '63';
+
+const POINT_OF_INITIATION_DYNAMIC = '12';
+
+export class QrisService {
+  // Split a payload into its top-level ID-length-value fields
+  static parse(payload: string): QrisField[] {
+    const fields: QrisField[] = [];
+    let index = 0;
+
+    while (index < payload.length) {
+      const id = payload.slice(index, index + 2);
+      const lengthText = payload.slice(index + 2, index + 4);
+      if (!/^\d{2}$/.test(id) || !/^\d{2}$/.test(lengthText)) {
+        throw new Error(`Invalid QRIS field at position ${index}`);
+      }
+
+      const length = Number(lengthText);
+      const value = payload.slice(index + 4, index + 4 + length);
+      if (value.length !== length) {
+        throw new Error(`QRIS field ${id} is truncated`);
+      }
+
+      fields.push({ id, value });
+      index += 4 + length;
+    }
+
+    return fields;
+  }
+
+  static build(fields: QrisField[]): string {
+    return fields
+      .map(field => {
+        if (field.value.length > 99) {
+          throw new Error(`QRIS field ${field.id} is longer than 99 characters`);
+        }
+        return `${field.id}${String(field.value.length).padStart(2, '0')}${field.value}`;
+      })
+      .join('');
+  }
+
+  // CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF) as four uppercase hex digits
+  static crc16(input: string): string {
+    let crc = 0xffff;
+    for (const byte of new TextEncoder().encode(input)) {
+      crc ^= byte << 8;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+        crc &= 0xffff;
+      }
+    }
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+  }
+
+  // Append the CRC field, which covers everything before it including its own "6304" header
+  static withCrc(payloadWithoutCrc: string): string {
+    const head = `${payloadWithoutCrc}${TAG_CRC}04`;
+    return `${head}${this.crc16(head)}`;
+  }
+
+  // True when the payload parses, starts with the payload format indicator and carries a matching CRC
+  static isValid(payload: string): boolean {
+    try {
+      const fields = this.parse(payload.trim());
+      const crcField = fields[fields.length - 1];
+      if (fields[0]?.id !== TAG_PAYLOAD_FORMAT || crcField?.id !== TAG_CRC || crcField.value.length !== 4) {
+        return false;
+      }
+      const head = payload.trim().slice(0, -4);
+      return this.crc16(head) === crcField.value.toUpperCase();
+    } catch {
+      return false;
+    }
+  }
+
+  static formatAmount(amount: number): string {
+    const rounded = Math.round(amount * 100) / 100;
+    return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(2);
+  }
+
+  // Turn the merchant's static payload into a dynamic one for a single payment:
+  // sets the amount (tag 54), marks the point of initiation as dynamic (tag 01) and recomputes the CRC (tag 63)
+  static toDynamic(staticPayload: string, amount: number): string {
+    try {
+      const payload = staticPayload.trim();
+      if (!this.isValid(payload)) {
+        throw new Error('Merchant QRIS payload is invalid or its CRC does not match');
+      }
+      if (!(amount > 0)) {
+        throw new Error('Amount must be greater than zero');
+      }
+
+      const amountValue = this.formatAmount(amount);
+      if (amountValue.length > 13) {
+        throw new Error('Amount is too large for QRIS');
+      }
+
+      const fields = this.parse(payload).filter(
+        field => field.id !== TAG_CRC && field.id !== TAG_TRANSACTION_AMOUNT && field.id !== TAG_POINT_OF_INITIATION
+      );
+      fields.push({ id: TAG_POINT_OF_INITIATION, value: POINT_OF_INITIATION_DYNAMIC });
+      fields.push({ id: TAG_TRANSACTION_AMOUNT, value: amountValue });
+
+      // Keep tags in ascending order, as issued payloads do (e.g. 54 between 53 and 58)
+      fields.sort((a, b) => Number(a.id) - Number(b.id));
+
+      return this.withCrc(this.build(fields));
+    } catch (error) {
+      throw new Error(`Failed to create dynamic QRIS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { getColumns, layoutReceipt, twoColumns, wrapText } from './receiptLayout';
+
+const texts = (columns: number, ...commands: Parameters<typeof layoutReceipt>[0]) =>
+  layoutReceipt(commands, columns).map(row => (row.kind === 'text' ? row.text : row.kind));
+
+describe('wrapText', () => {
+  it('wraps at word boundaries', () => {
+    expect(wrapText('Terima kasih atas kunjungan Anda!', 20)).toEqual(['Terima kasih atas', 'kunjungan Anda!']);
+  });
+
+  it('breaks a single word wider than the paper', () => {
+    expect(wrapText(`Es ${'X'.repeat(40)}`, 32)).toEqual(['Es', 'X'.repeat(32), 'X'.repeat(8)]);
+  });
+
+  it('keeps the indent of the first line', () => {
+    expect(wrapText('  Diskon', 32)).toEqual(['  Diskon']);
+  });
+});
+
+describe('twoColumns', () => {
+  it('wraps a long name in the left column with the price on its first line', () => {
+    const lines = twoColumns('Bakso Urat Spesial Jumbo Pedas Level 5 (2x)', 'Rp 30.000', 32);
+
+    expect(lines).toEqual([
+      'Bakso Urat Spesial     Rp 30.000',
+      'Jumbo Pedas Level 5',
+      '(2x)'
+    ]);
+  });
+
+  it('puts a right column wider than width - 8 on its own right-aligned line', () => {
+    const right = 'Rp 1.234.567.890.123.456.789';
+    expect(right.length).toBeGreaterThan(32 - 8);
+
+    expect(twoColumns('Kembalian', right, 32)).toEqual(['Kembalian', right.padStart(32)]);
+  });
+
+  it('lays out an indented discount line under its item', () => {
+    expect(texts(32,
+      { command: 'COLUMNS', data: { left: 'Es Teh Manis (2x)', right: 'Rp 9.000' } },
+      { command: 'COLUMNS', data: { left: '  Diskon (10%)', right: '-Rp 1.000' } }
+    )).toEqual([
+      'Es Teh Manis (2x)       Rp 9.000',
+      '  Diskon (10%)         -Rp 1.000'
+    ]);
+  });
+});
+
+describe('layoutReceipt', () => {
+  it.each([
+    [{ paperWidth: '58mm', font: 'A' }, 32],
+    [{ paperWidth: '58mm', font: 'B' }, 42],
+    [{ paperWidth: '80mm', font: 'A' }, 48],
+    [{ paperWidth: '80mm', font: 'B' }, 64]
+  ] as const)('fills %o with %i columns', (paper, columns) => {
+    expect(getColumns({ ...paper, codePage: 'cp437' })).toBe(columns);
+
+    const lines = texts(columns,
+      { command: 'TEXT', data: { text: 'Warung Bakso', align: 'center' } },
+      { command: 'LINE' },
+      { command: 'COLUMNS', data: { left: 'TOTAL', right: 'Rp 33.966', bold: true } },
+      { command: 'TEXT', data: { text: 'Nasi Goreng Kambing Muda Spesial Pedas Manis Level Lima Dengan Telur Ceplok', align: 'right' } }
+    );
+
+    expect(lines[0]).toBe(' '.repeat(Math.floor((columns - 12) / 2)) + 'Warung Bakso');
+    expect(lines[1]).toBe('-'.repeat(columns));
+    expect(lines[2]).toBe('TOTAL' + ' '.repeat(columns - 14) + 'Rp 33.966');
+    lines.slice(3).forEach(line => expect(line.length).toBe(columns));
+  });
+});
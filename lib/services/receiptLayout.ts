@@ -0,0 +1,195 @@
+// Receipt layout shared by the printer and the on-screen preview: commands are laid out into
+// fixed-width rows here, so both print exactly the same characters on every line.
+import { PrinterSettings } from '../types/settings';
+
+export interface EscPosCommand {
+  command: string;
+  data?: any;
+}
+
+export type PaperProfile = Pick<PrinterSettings, 'paperWidth' | 'font' | 'codePage'>;
+
+// Characters per line for each paper width and printer font
+export const PAPER_COLUMNS: Record<PaperProfile['paperWidth'], Record<PaperProfile['font'], number>> = {
+  '58mm': { A: 32, B: 42 },
+  '80mm': { A: 48, B: 64 }
+};
+
+export const getColumns = (profile: PaperProfile): number => PAPER_COLUMNS[profile.paperWidth][profile.font];
+
+// Printable width in dots (8 dots/mm print heads), the widest a raster logo, QR code or barcode can be
+export const PAPER_DOTS: Record<PaperProfile['paperWidth'], number> = {
+  '58mm': 384,
+  '80mm': 576
+};
+
+// One physical line, or a non-text element, after layout. Text rows are already padded for their
+// alignment and never wider than the paper.
+export type ReceiptRow =
+  | { kind: 'text'; text: string; bold: boolean }
+  | { kind: 'feed'; lines: number }
+  | { kind: 'qrcode'; data: string; size?: number }
+  | { kind: 'barcode'; data: string }
+  | { kind: 'logo'; image: string }
+  | { kind: 'drawer' }
+  | { kind: 'cut' };
+
+type Align = 'left' | 'center' | 'right';
+
+/**
+ * Word-wrap text to `width` columns. Words longer than a line are broken.
+ */
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    // Leading spaces indent the first line, e.g. a discount under its item
+    const words = paragraph.trim().split(/\s+/).filter(Boolean);
+    if (words.length > 0) {
+      words[0] = paragraph.match(/^ */)![0] + words[0];
+    }
+
+    let line = '';
+    for (const word of words) {
+      let rest = word;
+      while (rest.length > width) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(rest.slice(0, width));
+        rest = rest.slice(width);
+      }
+      if (!line) {
+        line = rest;
+      } else if (line.length + 1 + rest.length <= width) {
+        line = `${line} ${rest}`;
+      } else {
+        lines.push(line);
+        line = rest;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+const alignLine = (line: string, width: number, align: Align): string => {
+  if (align === 'right') return line.padStart(width);
+  if (align === 'center') return ' '.repeat(Math.floor((width - line.length) / 2)) + line;
+  return line;
+};
+
+/**
+ * Left text wrapped in its own column with the right text (usually a price) on its first line, e.g.
+ * "Bakso Urat Spesial     Rp 30.000"
+ * "Jumbo (2x)"
+ */
+export const twoColumns = (left: string, right: string, width: number): string[] => {
+  // A right column this wide leaves no room for the left one, so both get their own lines
+  if (right.length > width - 8) {
+    return [...wrapText(left, width), ...wrapText(right, width).map(line => alignLine(line, width, 'right'))];
+  }
+
+  const [first, ...rest] = wrapText(left, width - right.length - 1);
+  return [first + ' '.repeat(width - first.length - right.length) + right, ...rest];
+};
+
+/**
+ * Lay commands out for a paper profile. Unknown commands are skipped with a warning.
+ */
+export const layoutReceipt = (commands: EscPosCommand[], columns: number): ReceiptRow[] => {
+  const rows: ReceiptRow[] = [];
+
+  for (const cmd of commands) {
+    switch (cmd.command) {
+      case 'INIT':
+        // The encoder always starts a job with ESC @
+        break;
+      case 'TEXT':
+        if (cmd.data && cmd.data.text) {
+          const align: Align = cmd.data.align || 'left';
+          wrapText(String(cmd.data.text), columns).forEach(line => {
+            rows.push({ kind: 'text', text: alignLine(line, columns, align), bold: Boolean(cmd.data.bold) });
+          });
+        }
+        break;
+      case 'COLUMNS':
+        // Label or item name on the left, amount on the right
+        if (cmd.data) {
+          twoColumns(String(cmd.data.left ?? ''), String(cmd.data.right ?? ''), columns).forEach(line => {
+            rows.push({ kind: 'text', text: line, bold: Boolean(cmd.data.bold) });
+          });
+        }
+        break;
+      case 'LINE':
+        rows.push({ kind: 'text', text: '-'.repeat(columns), bold: false });
+        break;
+      case 'SPACING':
+        rows.push({ kind: 'feed', lines: (cmd.data && cmd.data.lines) || 1 });
+        break;
+      case 'QRCODE':
+        if (cmd.data && cmd.data.text) {
+          rows.push({ kind: 'qrcode', data: cmd.data.text, size: cmd.data.size });
+        }
+        break;
+      case 'BARCODE':
+        if (cmd.data && cmd.data.text) {
+          rows.push({ kind: 'barcode', data: cmd.data.text });
+        }
+        break;
+      case 'LOGO':
+        if (cmd.data && cmd.data.image) {
+          rows.push({ kind: 'logo', image: cmd.data.image });
+        }
+        break;
+      case 'DRAWER':
+        rows.push({ kind: 'drawer' });
+        break;
+      case 'CUT':
+        rows.push({ kind: 'cut' });
+        break;
+      default:
+        console.warn(`Unknown command: ${cmd.command}`);
+        break;
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Plain-text rendering of laid-out rows for on-screen preview in a monospace font
+ */
+export const renderPreview = (rows: ReceiptRow[], columns: number): string[] => {
+  const lines: string[] = [];
+  const placeholder = (label: string) => lines.push(alignLine(`[${label}]`, columns, 'center'));
+
+  for (const row of rows) {
+    switch (row.kind) {
+      case 'text':
+        lines.push(row.text);
+        break;
+      case 'feed':
+        for (let i = 0; i < row.lines; i++) lines.push('');
+        break;
+      case 'qrcode':
+        placeholder('QR');
+        break;
+      case 'barcode':
+        placeholder(`BARCODE ${row.data}`);
+        break;
+      case 'logo':
+        placeholder('LOGO');
+        break;
+      case 'cut':
+        lines.push('- '.repeat(Math.floor(columns / 2)).trimEnd());
+        break;
+      default:
+        break;
+    }
+  }
+
+  return lines;
+};
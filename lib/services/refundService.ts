@@ -0,0 +1,210 @@
+import { db, Refund, Transaction } from '../db';
+import { v7 as uuidv7 } from 'uuid';
+import { useShiftStore } from '../stores/shiftStore';
+import { TransactionService } from './transactionService';
+import { StockLedgerService } from './stockLedgerService';
+import { NumberingService } from './numberingService';
+
+export interface RefundLineRequest {
+  productId: string;
+  qty: number;
+}
+
+export interface CreateRefundData {
+  transactionId: string;
+  items: RefundLineRequest[];
+  reason: string;
+  payments: Refund['payments']; // How the money goes back to the customer
+  createdBy: string;
+}
+
+export interface RefundableLine {
+  productId: string;
+  name: string;
+  soldQty: number;
+  refundedQty: number;
+  refundableQty: number;
+  unitAmount: number; // Money back per unit, including the line's share of order discount and tax
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export class RefundService {
+  // What is left to refund on each line, given the refunds already made against the transaction
+  static getRefundableLines(transaction: Transaction, refunds: Refund[]): RefundableLine[] {
+    // Order discount and tax are spread over the lines in proportion to their subtotal
+    const totalRatio = transaction.subtotal > 0 ? transaction.total / transaction.subtotal : 0;
+
+    return transaction.items.map(item => {
+      const refundedQty = refunds
+        .filter(refund => !refund.deletedAt)
+        .reduce((sum, refund) => sum + refund.items
+          .filter(line => line.productId === item.productId)
+          .reduce((lineSum, line) => lineSum + line.qty, 0), 0);
+
+      return {
+        productId: item.productId,
+        name: item.name,
+        soldQty: item.qty,
+        refundedQty,
+        refundableQty: Math.max(0, item.qty - refundedQty),
+        unitAmount: item.qty > 0 ? (item.subtotal / item.qty) * totalRatio : 0
+      };
+    });
+  }
+
+  // Refund lines and the total money back for a request. The refund that empties the transaction
+  // takes whatever is left of the total, so rounding never leaves a few rupiah unrefunded.
+  static calculateRefund(
+    transaction: Transaction,
+    refunds: Refund[],
+    request: RefundLineRequest[]
+  ): { items: Refund['items']; totalAmount: number } {
+    const lines = this.getRefundableLines(transaction, refunds);
+    const items: Refund['items'] = [];
+
+    for (const { productId, qty } of request) {
+      if (qty <= 0) continue;
+
+      const line = lines.find(l => l.productId === productId);
+      if (!line) {
+        throw new Error(`Product ${productId} is not part of transaction ${transaction.transactionNumber}`);
+      }
+      if (qty > line.refundableQty) {
+        throw new Error(`Cannot refund ${qty} of ${line.name}: only ${line.refundableQty} left to refund`);
+      }
+
+      items.push({
+        productId,
+        name: line.name,
+        qty,
+        amount: roundAmount(line.unitAmount * qty)
+      });
+    }
+
+    if (items.length === 0) {
+      throw new Error('Select at least one item to refund');
+    }
+
+    const alreadyRefunded = transaction.refundedAmount || 0;
+    const emptiesTransaction = lines.every(line => {
+      const requested = items.find(item => item.productId === line.productId)?.qty || 0;
+      return line.refundableQty - requested === 0;
+    });
+
+    let totalAmount = roundAmount(items.reduce((sum, item) => sum + item.amount, 0));
+    if (emptiesTransaction) {
+      const remaining = roundAmount(transaction.total - alreadyRefunded);
+      items[items.length - 1].amount = roundAmount(items[items.length - 1].amount + remaining - totalAmount);
+      totalAmount = remaining;
+    }
+
+    return { items, totalAmount };
+  }
+
+  // Refund part or all of a paid transaction: records the refund and its tender, puts the stock back
+  // (finish goods, or recipe materials) and links the refund to the transaction, all in one Dexie transaction
+  static async createRefund(data: CreateRefundData): Promise<Refund> {
+    try {
+      if (!data.reason.trim()) {
+        throw new Error('Refund reason is required');
+      }
+
+      const { currentShiftId } = useShiftStore.getState();
+
+      return await db.transaction(
+        'rw',
+        [db.refunds, db.transactions, db.products, db.stockMovements, db.counters, db.settings],
+        async () => {
+          const transaction = await db.transactions.get(data.transactionId);
+          if (!transaction || transaction.deletedAt) {
+            throw new Error('Transaction not found');
+          }
+          if (transaction.status !== 'paid') {
+            throw new Error('Only paid transactions can be refunded');
+          }
+
+          const previousRefunds = await this.getByTransaction(transaction.id);
+          const { items, totalAmount } = this.calculateRefund(transaction, previousRefunds, data.items);
+
+          if (data.payments.some(payment => payment.amount < 0)) {
+            throw new Error('Refund amounts must be non-negative');
+          }
+          const payments = data.payments.filter(payment => payment.amount > 0);
+          const tendered = roundAmount(payments.reduce((sum, payment) => sum + payment.amount, 0));
+          if (tendered !== totalAmount) {
+            throw new Error(`Refund tender (${tendered}) must equal the refund amount (${totalAmount})`);
+          }
+
+          const now = new Date();
+          const refund: Refund = {
+            id: uuidv7(),
+            refundNumber: await NumberingService.next('REFUND', now),
+            transactionId: transaction.id,
+            items,
+            reason: data.reason.trim(),
+            totalAmount,
+            payments,
+            shiftId: currentShiftId || null,
+            createdBy: data.createdBy,
+            createdAt: now,
+            updatedAt: now,
+            deletedAt: null
+          };
+          await db.refunds.add(refund);
+
+          // Reverse of deductStock, using the same finish goods / recipe breakdown
+          const saleItems = items.map(item => {
+            const line = transaction.items.find(l => l.productId === item.productId)!;
+            return { ...line, qty: item.qty };
+          });
+          const { requirements } = await TransactionService.checkStock(saleItems);
+          for (const { product, requiredQty } of requirements) {
+            await StockLedgerService.applyChange({
+              productId: product.id,
+              type: 'return',
+              qty: requiredQty,
+              referenceId: refund.id,
+              referenceType: 'refund',
+              shiftId: refund.shiftId,
+              reason: `${refund.refundNumber} (${transaction.transactionNumber})`,
+              createdBy: data.createdBy
+            });
+          }
+
+          await db.transactions.put({
+            ...transaction,
+            refundIds: [...(transaction.refundIds || []), refund.id],
+            refundedAmount: roundAmount((transaction.refundedAmount || 0) + totalAmount),
+            updatedAt: now
+          });
+
+          return refund;
+        }
+      );
+    } catch (error) {
+      throw new Error(`Failed to create refund: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async getByTransaction(transactionId: string): Promise<Refund[]> {
+    try {
+      const refunds = await db.refunds.where('transactionId').equals(transactionId).toArray();
+      return refunds
+        .filter(refund => !refund.deletedAt)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      throw new Error(`Failed to get refunds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Refunds made within a period, e.g. during a shift
+  static async getByDateRange(dateFrom: Date, dateTo: Date): Promise<Refund[]> {
+    try {
+      const refunds = await db.refunds.where('createdAt').between(dateFrom, dateTo, true, true).toArray();
+      return refunds.filter(refund => !refund.deletedAt);
+    } catch (error) {
+      throw new Error(`Failed to get refunds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -1,22 +1,28 @@
-import { db, Transaction, Customer, Product } from '../db';
+import { db, Transaction, Customer, Product, Refund, CashMovement } from '../db';
 import { CustomerService } from './customerService';
 import { TransactionService } from './transactionService';
-import { CashierShiftService } from './cashierShiftService';
+import { CashierShiftService, SegmentStats } from './cashierShiftService';
+import { VoidService } from './voidService';
+import { CashMovementService } from './cashMovementService';
 
 export class ReportService {
   // Get transaction report data
   static async getTransactionReport(
     dateFrom: Date, 
     dateTo: Date, 
-    status?: 'paid' | 'unpaid' | 'saved',
+    status?: Transaction['status'],
     customerId?: string
   ): Promise<{
     transactions: Transaction[];
     summary: {
       totalTransactions: number;
       totalRevenue: number;
+      totalDiscount: number;
+      totalRefunds: number;
+      netRevenue: number; // Revenue less refunds made against these transactions
       paidCount: number;
       unpaidCount: number;
+      voidCount: number;
     };
   }> {
     try {
@@ -40,19 +46,27 @@ export class ReportService {
         })
         .toArray();
 
-      // Calculate summary
+      // Calculate summary. Voided transactions stay in the list but not in the totals
+      const activeTransactions = transactions.filter(tx => tx.status !== 'void');
       const totalTransactions = transactions.length;
-      const totalRevenue = transactions.reduce((sum, tx) => sum + tx.total, 0);
+      const totalRevenue = activeTransactions.reduce((sum, tx) => sum + tx.total, 0);
+      const totalDiscount = activeTransactions.reduce((sum, tx) => sum + this.getTransactionDiscount(tx), 0);
+      const totalRefunds = activeTransactions.reduce((sum, tx) => sum + (tx.refundedAmount || 0), 0);
       const paidCount = transactions.filter(tx => tx.status === 'paid').length;
       const unpaidCount = transactions.filter(tx => tx.status === 'unpaid').length;
+      const voidCount = transactions.filter(tx => tx.status === 'void').length;
 
       return {
         transactions,
         summary: {
           totalTransactions,
           totalRevenue,
+          totalDiscount,
+          totalRefunds,
+          netRevenue: totalRevenue - totalRefunds,
           paidCount,
-          unpaidCount
+          unpaidCount,
+          voidCount
         }
       };
     } catch (error) {
@@ -77,6 +91,7 @@ export class ReportService {
     summary: {
       totalQuantity: number;
       totalRevenue: number;
+      totalDiscount: number;
       topProduct: string | null;
     };
   }> {
@@ -98,23 +113,37 @@ export class ReportService {
         transactions: number;
       }>();
 
+      let totalDiscount = 0;
+
       for (const transaction of transactions) {
+        // Spread the order-level discount over the lines in proportion to their subtotal
+        const orderDiscount = transaction.discount?.amount || 0;
+        const orderDiscountRatio = transaction.subtotal > 0 ? orderDiscount / transaction.subtotal : 0;
+        const refundedQty = await this.getRefundedQuantities(transaction);
+
         for (const item of transaction.items) {
           if (productId && item.productId !== productId) continue;
 
+          const lineOrderDiscount = item.subtotal * orderDiscountRatio;
+          totalDiscount += (item.discount?.amount || 0) + lineOrderDiscount;
+
+          // Refunded units are no longer sold
+          const netQty = Math.max(0, item.qty - (refundedQty.get(item.productId) || 0));
+          const revenue = item.qty > 0 ? (item.subtotal - lineOrderDiscount) * (netQty / item.qty) : 0;
+
           const existing = salesMap.get(item.productId);
           const product = await db.products.get(item.productId);
           
           if (existing) {
-            existing.quantitySold += item.qty;
-            existing.revenue += item.subtotal;
+            existing.quantitySold += netQty;
+            existing.revenue += revenue;
             existing.transactions += 1;
           } else {
             salesMap.set(item.productId, {
               productName: product?.name || 'Unknown Product',
               category: product?.categoryId || 'Uncategorized',
-              quantitySold: item.qty,
-              revenue: item.subtotal,
+              quantitySold: netQty,
+              revenue,
               transactions: 1
             });
           }
@@ -143,6 +172,7 @@ export class ReportService {
         summary: {
           totalQuantity,
           totalRevenue,
+          totalDiscount,
           topProduct
         }
       };
@@ -161,8 +191,15 @@ export class ReportService {
       totalCash: number;
       totalNonCash: number;
       totalSales: number;
+      cashIn: number;
+      cashOut: number;
       expectedCash: number;
+      voidCount: number;
+      voidTotal: number;
     };
+    voids: Transaction[]; // Listed separately; they are not part of the sales figures
+    cashMovements: CashMovement[];
+    segments: SegmentStats[]; // Sales per cashier who held the drawer during the shift
   }> {
     try {
       const shiftReport = await CashierShiftService.getShiftReport(shiftId);
@@ -172,6 +209,8 @@ export class ReportService {
       }
 
       const { shift, stats } = shiftReport;
+      const voids = await VoidService.getShiftVoids(shiftId);
+      const cashMovements = await CashMovementService.getShiftMovements(shiftId);
 
       return {
         shift,
@@ -180,8 +219,15 @@ export class ReportService {
           totalCash: stats.totalCash,
           totalNonCash: stats.totalNonCash,
           totalSales: stats.totalSales,
-          expectedCash: shift.openingBalance + stats.totalCash
-        }
+          cashIn: stats.totalCashIn,
+          cashOut: stats.totalCashOut,
+          expectedCash: shift.openingBalance + stats.totalCash + stats.totalCashIn - stats.totalCashOut,
+          voidCount: voids.length,
+          voidTotal: voids.reduce((sum, tx) => sum + tx.total, 0)
+        },
+        voids,
+        cashMovements,
+        segments: stats.segments
       };
     } catch (error) {
       throw new Error(`Failed to get close cashier report: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -271,13 +317,14 @@ export class ReportService {
       for (const transaction of transactions) {
         const dateKey = new Date(transaction.createdAt).toISOString().split('T')[0];
         const existing = dailySales.get(dateKey);
+        const netTotal = transaction.total - (transaction.refundedAmount || 0);
         
         if (existing) {
-          existing.totalSales += transaction.total;
+          existing.totalSales += netTotal;
           existing.transactionCount += 1;
         } else {
           dailySales.set(dateKey, {
-            totalSales: transaction.total,
+            totalSales: netTotal,
             transactionCount: 1
           });
         }
@@ -295,4 +342,25 @@ export class ReportService {
       throw new Error(`Failed to get daily sales summary: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-}
\ No newline at end of file
+
+  // Units refunded per product, following the transaction's links to its refunds
+  static async getRefundedQuantities(transaction: Transaction): Promise<Map<string, number>> {
+    const quantities = new Map<string, number>();
+    if (!transaction.refundIds?.length) return quantities;
+
+    const refunds = await db.refunds.bulkGet(transaction.refundIds);
+    refunds
+      .filter((refund): refund is Refund => !!refund && !refund.deletedAt)
+      .forEach(refund => refund.items.forEach(item => {
+        quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.qty);
+      }));
+
+    return quantities;
+  }
+
+  // Line discounts plus the order-level discount of a transaction
+  static getTransactionDiscount(transaction: Transaction): number {
+    const lineDiscount = transaction.items.reduce((sum, item) => sum + (item.discount?.amount || 0), 0);
+    return lineDiscount + (transaction.discount?.amount || 0);
+  }
+}
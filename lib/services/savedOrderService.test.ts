@@ -0,0 +1,32 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { v7 as uuidv7 } from 'uuid';
+import { SavedOrderService } from './savedOrderService';
+
+describe('SavedOrderService', () => {
+  it('keeps a price override through saving and reloading', async () => {
+    const saved = await SavedOrderService.saveOrder({
+      customerId: null,
+      shiftId: null,
+      items: [
+        { productId: uuidv7(), name: 'Bakso Urat', qty: 2, price: 12000, listPrice: 15000, discount: null, subtotal: 24000 },
+        { productId: uuidv7(), name: 'Es Teh Manis', qty: 1, price: 5000, discount: null, subtotal: 5000 }
+      ],
+      subtotal: 29000,
+      discount: { type: 'nominal', value: 0, amount: 0 },
+      tax: { enabled: false, rate: 0, amount: 0 },
+      total: 29000,
+      payments: [],
+      change: 0,
+      status: 'saved',
+      savedAt: new Date(),
+      createdBy: uuidv7()
+    });
+
+    const reloaded = await SavedOrderService.loadSavedOrder(saved.id);
+
+    expect(reloaded?.items[0].price).toBe(12000);
+    expect(reloaded?.items[0].listPrice).toBe(15000);
+    expect(reloaded?.items[1].listPrice).toBeUndefined();
+  });
+});
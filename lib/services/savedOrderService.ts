@@ -57,10 +57,8 @@ export class SavedOrderService {
   // Delete a saved order (soft delete)
   static async deleteSavedOrder(id: string): Promise<boolean> {
     try {
-      // Instead of soft deleting, we'll update the status to 'deleted' or remove it
-      // For now, let's just delete it completely as it's a saved order
-      await db.transactions.delete(id);
-      return true; // Assuming deletion was successful if no error was thrown
+      // Kept in the database so approvals and the audit log can still point at it
+      return await TransactionService.delete(id);
     } catch (error) {
       throw new Error(`Failed to delete saved order: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -124,23 +122,26 @@ export class SavedOrderService {
               shiftId: savedOrder.shiftId // Preserve the shiftId
             };
 
-      // Update in database
-            await db.transactions.update(savedOrderId, {
-              payments: paidTransaction.payments,
-              change: paidTransaction.change,
-              status: paidTransaction.status,
-              paidAt: paidTransaction.paidAt,
-              updatedAt: paidTransaction.updatedAt,
-              shiftId: paidTransaction.shiftId
-            });
-
-      // Get the updated transaction
-      const finalTransaction = await db.transactions.get(savedOrderId);
-
-      // Deduct stock after successful payment
-      if (finalTransaction) {
-        await TransactionService.deductStock(finalTransaction);
-      }
+      // Record the payment and deduct stock atomically
+      const finalTransaction = await db.transaction('rw', db.transactions, db.products, db.stockMovements, async () => {
+        await db.transactions.update(savedOrderId, {
+          payments: paidTransaction.payments,
+          change: paidTransaction.change,
+          status: paidTransaction.status,
+          paidAt: paidTransaction.paidAt,
+          updatedAt: paidTransaction.updatedAt,
+          shiftId: paidTransaction.shiftId
+        });
+
+        // Get the updated transaction
+        const updated = await db.transactions.get(savedOrderId);
+
+        // Deduct stock after successful payment
+        if (updated) {
+          await TransactionService.deductStock(updated);
+        }
+        return updated;
+      });
 
       return finalTransaction || null;
     } catch (error) {
@@ -4,16 +4,21 @@ import {
   AllSettings,
   SettingKey,
   receiptSettingsSchema,
+  DEFAULT_RECEIPT_TEMPLATE,
   taxSettingsSchema,
   businessSettingsSchema,
   accountSettingsSchema,
   generalSettingsSchema,
   lockScreenSettingsSchema,
   exportSettingsSchema,
-  dataHealthSettingsSchema
+  dataHealthSettingsSchema,
+  numberingSettingsSchema,
+  approvalSettingsSchema,
+  cashCountSettingsSchema
 } from '@/lib/types/settings';
 import { z } from 'zod';
 import { logError, handleAppError } from '@/lib/utils/errorHandler';
+import { AuditLogService } from './auditLogService';
 
 class SettingsService {
   private defaultSettings: AllSettings = {
@@ -33,6 +38,9 @@ class SettingsService {
       showChange: true,
       customMessage: "Terima kasih atas kunjungan Anda!",
       showBarcode: true,
+      printQris: false,
+      autoPrint: 'ask',
+      template: DEFAULT_RECEIPT_TEMPLATE,
     },
     tax: {
       taxEnabled: true,
@@ -45,6 +53,7 @@ class SettingsService {
       businessAddress: 'Jl. Merdeka No. 123, Jakarta',
       businessEmail: 'info@warungbaksosapi.com',
       businessWebsite: 'www.warungbaksosapi.com',
+      qrisPayload: '',
     },
     account: {
       email: 'user@example.com',
@@ -60,6 +69,7 @@ class SettingsService {
     lockScreen: {
       lockScreenEnabled: false,
       lockScreenTimeout: 15,
+      offlineGraceDays: 3,
     },
     export: {
       exportFormat: 'excel',
@@ -71,6 +81,38 @@ class SettingsService {
       autoOptimizeEnabled: false,
       autoOptimizeInterval: 30,
     },
+    numbering: {
+      TRX: { pattern: 'TRX-{DEVICE}-{YYYY}{MM}{DD}-{SEQ}', reset: 'daily', padding: 4 },
+      INV: { pattern: 'INV-{DEVICE}-{YYYY}{MM}-{SEQ}', reset: 'monthly', padding: 4 },
+      RT: { pattern: 'RT-{DEVICE}-{YYYY}{MM}{DD}-{SEQ}', reset: 'daily', padding: 3 },
+      PO: { pattern: 'PO-{DEVICE}-{YYYY}{MM}-{SEQ}', reset: 'monthly', padding: 4 },
+      REFUND: { pattern: 'RF-{DEVICE}-{YYYY}{MM}{DD}-{SEQ}', reset: 'daily', padding: 3 },
+    },
+    approvals: {
+      discount: { required: true, threshold: 10 },
+      priceOverride: { required: true, threshold: 0 },
+      void: { required: true, threshold: 0 },
+      openDrawer: { required: true, threshold: 0 },
+      deleteSavedOrder: { required: true, threshold: 0 },
+    },
+    cashCount: {
+      denominations: {
+        IDR: [
+          { value: 100000, kind: 'note' },
+          { value: 50000, kind: 'note' },
+          { value: 20000, kind: 'note' },
+          { value: 10000, kind: 'note' },
+          { value: 5000, kind: 'note' },
+          { value: 2000, kind: 'note' },
+          { value: 1000, kind: 'note' },
+          { value: 1000, kind: 'coin' },
+          { value: 500, kind: 'coin' },
+          { value: 200, kind: 'coin' },
+          { value: 100, kind: 'coin' },
+        ],
+      },
+      blindClose: false,
+    },
   };
 
   /**
@@ -142,6 +184,7 @@ class SettingsService {
         settings = parsed.data as AllSettings[T];
       }
 
+      const previous = await db.settings.get(`${key}_settings`);
       const setting: Setting = {
         id: `${key}_settings`,
         key,
@@ -151,6 +194,13 @@ class SettingsService {
       };
 
       await db.settings.put(setting);
+
+      // Callers without a user pass 'system'; the audit log then falls back to the signed-in user
+      await AuditLogService.recordChanges(
+        { action: 'settings.update', entityType: 'settings', entityId: key, actorId: userId === 'system' ? undefined : userId },
+        (previous?.value as Record<string, any>) || {},
+        settings as Record<string, any>
+      ).catch(auditError => console.error('Error writing audit log:', auditError));
     } catch (error) {
       const handledError = handleAppError(error, `Failed to save settings for key: ${key}`);
       logError(handledError, `Failed to save settings for key: ${key}`);
@@ -238,6 +288,12 @@ class SettingsService {
         return exportSettingsSchema;
       case 'dataHealth':
         return dataHealthSettingsSchema;
+      case 'numbering':
+        return numberingSettingsSchema;
+      case 'approvals':
+        return approvalSettingsSchema;
+      case 'cashCount':
+        return cashCountSettingsSchema;
       default:
         return null;
     }
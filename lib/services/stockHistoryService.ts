@@ -1,4 +1,5 @@
-import { db, Product, StockOpname, StockWaste, Invoice } from '../db';
+import { db, Product, StockMovementRecord } from '../db';
+import { StockLedgerService } from './stockLedgerService';
 import { format, subDays, startOfMonth, endOfMonth, startOfYear, endOfYear } from 'date-fns';
 import { id as idLocale } from 'date-fns/locale';
 
@@ -11,11 +12,13 @@ export interface StockMovement {
   quantity: number;
   previousStock: number;
   newStock: number;
+  unit?: string;
   unitCost?: number;
   totalValue: number;
   reason?: string;
   referenceId: string;
-  referenceType: 'invoice' | 'transaction' | 'opname' | 'waste' | 'stock_return';
+  referenceType: StockMovementRecord['referenceType'];
+  shiftId?: string | null;
   createdAt: Date;
   createdBy: string;
   createdByName?: string;
@@ -56,34 +59,18 @@ class StockHistoryService {
   }
 
   /**
-   * Get stock movements for a specific product
+   * Get stock movements for a specific product from the stock ledger
    */
   async getStockMovements(productId: string, filter?: StockMovementFilter): Promise<StockMovement[]> {
     try {
-      const movements: StockMovement[] = [];
-
-      // Get purchase movements (from invoices)
-      const purchaseMovements = await this.getPurchaseMovements(productId, filter);
-      movements.push(...purchaseMovements);
-
-      // Get opname movements
-      const opnameMovements = await this.getOpnameMovements(productId, filter);
-      movements.push(...opnameMovements);
-
-      // Get waste movements
-      const wasteMovements = await this.getWasteMovements(productId, filter);
-      movements.push(...wasteMovements);
-
-      // Get sale movements (from transactions)
-      const saleMovements = await this.getSaleMovements(productId, filter);
-      movements.push(...saleMovements);
-
-      // Get return movements
-      const returnMovements = await this.getReturnMovements(productId, filter);
-      movements.push(...returnMovements);
-
-      // Sort by date (newest first)
-      return movements.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      const records = await StockLedgerService.getMovements({
+        productId,
+        type: filter?.type,
+        referenceId: filter?.referenceId,
+        startDate: filter?.startDate,
+        endDate: filter?.endDate,
+      });
+      return this.toStockMovements(records);
     } catch (error) {
       console.error('Error getting stock movements:', error);
       return [];
@@ -91,276 +78,50 @@ class StockHistoryService {
   }
 
   /**
-   * Get purchase movements from invoices
-   */
-  private async getPurchaseMovements(productId: string, filter?: StockMovementFilter): Promise<StockMovement[]> {
-    try {
-      const invoices = await db.invoices
-        .filter(invoice => {
-          // Filter by date
-          if (filter?.startDate && invoice.createdAt < filter.startDate) return false;
-          if (filter?.endDate && invoice.createdAt > filter.endDate) return false;
-          return true;
-        })
-        .toArray();
-
-      const movements: StockMovement[] = [];
-      
-      for (const invoice of invoices) {
-        const item = invoice.items.find(i => i.productId === productId);
-        if (item) {
-          // Calculate previous stock (simplified - in reality we'd need to track running stock)
-          const product = await db.products.get(productId);
-          if (!product) continue;
-
-          movements.push({
-            id: `${invoice.id}-${item.productId}`,
-            type: 'purchase',
-            productId,
-            productName: product.name,
-            productSku: product.sku,
-            quantity: item.qty,
-            previousStock: (product.currentStock || 0) - item.qty, // Simplified calculation
-            newStock: (product.currentStock || 0),
-            unitCost: item.unitPrice,
-            totalValue: item.total,
-            referenceId: invoice.id,
-            referenceType: 'invoice',
-            createdAt: invoice.createdAt,
-            createdBy: invoice.createdBy,
-          });
-        }
-      }
-
-      return movements;
-    } catch (error) {
-      console.error('Error getting purchase movements:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Get opname movements
-   */
-  private async getOpnameMovements(productId: string, filter?: StockMovementFilter): Promise<StockMovement[]> {
-    try {
-      const opnames = await db.stockOpnames
-        .filter(opname => {
-          // Filter by date
-          if (filter?.startDate && opname.createdAt < filter.startDate) return false;
-          if (filter?.endDate && opname.createdAt > filter.endDate) return false;
-          
-          // Filter by specific opname
-          if (filter?.referenceId && opname.id !== filter.referenceId) return false;
-          
-          return true;
-        })
-        .toArray();
-
-      const movements: StockMovement[] = [];
-      
-      for (const opname of opnames) {
-        const opnameItem = opname.items.find(item => item.productId === productId);
-        if (opnameItem) {
-          const product = await db.products.get(productId);
-          if (!product) continue;
-
-          movements.push({
-            id: `${opname.id}-${productId}`,
-            type: 'opname',
-            productId,
-            productName: product.name,
-            productSku: product.sku,
-            quantity: opnameItem.variance,
-            previousStock: opnameItem.systemStock,
-            newStock: opnameItem.actualStock,
-            totalValue: Math.abs(opnameItem.variance) * (product.cost || 0),
-            reason: opname.notes || 'Stock opname adjustment',
-            referenceId: opname.id,
-            referenceType: 'opname',
-            createdAt: opname.createdAt,
-            createdBy: opname.createdBy,
-          });
-        }
-      }
-
-      return movements;
-    } catch (error) {
-      console.error('Error getting opname movements:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Get waste movements
+   * Get stock movements of all products in a date range
    */
-  private async getWasteMovements(productId: string, filter?: StockMovementFilter): Promise<StockMovement[]> {
+  private async getAllStockMovements(startDate?: Date, endDate?: Date): Promise<StockMovement[]> {
     try {
-      const wasteRecords = await db.stockWastes
-        .filter(waste => {
-          // Filter by product
-          if (waste.productId !== productId) return false;
-          
-          // Filter by date
-          if (filter?.startDate && waste.createdAt < filter.startDate) return false;
-          if (filter?.endDate && waste.createdAt > filter.endDate) return false;
-          
-          // Filter by specific waste
-          if (filter?.referenceId && waste.id !== filter.referenceId) return false;
-          
-          return true;
-        })
-        .toArray();
-
-      const movements: StockMovement[] = [];
-      
-      for (const waste of wasteRecords) {
-        const product = await db.products.get(productId);
-        if (!product) continue;
-
-        // Calculate previous stock (simplified)
-        const previousStock = (product.currentStock || 0) + waste.qty;
-
-        movements.push({
-          id: waste.id,
-          type: 'waste',
-          productId,
-          productName: product.name,
-          productSku: product.sku,
-          quantity: -waste.qty, // Negative for waste
-          previousStock,
-          newStock: (product.currentStock || 0),
-          unitCost: product.cost,
-          totalValue: waste.qty * (product.cost || 0),
-          reason: waste.reason,
-          referenceId: waste.id,
-          referenceType: 'waste',
-          createdAt: waste.createdAt,
-          createdBy: waste.createdBy,
-        });
-      }
-
-      return movements;
+      const records = await StockLedgerService.getMovements({ startDate, endDate });
+      return this.toStockMovements(records);
     } catch (error) {
-      console.error('Error getting waste movements:', error);
+      console.error('Error getting stock movements:', error);
       return [];
     }
   }
 
   /**
-   * Get sale movements from transactions
+   * Attach product details to ledger rows
    */
-  private async getSaleMovements(productId: string, filter?: StockMovementFilter): Promise<StockMovement[]> {
-    try {
-      const transactions = await db.transactions
-        .filter(transaction => {
-          // Check if transaction contains this product
-          const hasProduct = transaction.items.some(item => item.productId === productId);
-          if (!hasProduct) return false;
-          
-          // Filter by date
-          if (filter?.startDate && transaction.createdAt < filter.startDate) return false;
-          if (filter?.endDate && transaction.createdAt > filter.endDate) return false;
-          
-          return true;
-        })
-        .toArray();
-
-      const movements: StockMovement[] = [];
-      
-      for (const transaction of transactions) {
-        const item = transaction.items.find(i => i.productId === productId);
-        if (item) {
-          const product = await db.products.get(productId);
-          if (!product) continue;
-
-          // Calculate previous stock (simplified)
-          const previousStock = (product.currentStock || 0) + item.qty;
-
-          movements.push({
-            id: `${transaction.id}-${item.productId}`,
-            type: 'sale',
-            productId,
-            productName: product.name,
-            productSku: product.sku,
-            quantity: -item.qty, // Negative for sales
-            previousStock,
-            newStock: (product.currentStock || 0),
-            unitCost: item.price,
-            totalValue: item.subtotal,
-            referenceId: transaction.id,
-            referenceType: 'transaction',
-            createdAt: transaction.createdAt,
-            createdBy: transaction.createdBy,
-          });
-        }
-      }
+  private async toStockMovements(records: StockMovementRecord[]): Promise<StockMovement[]> {
+    const productIds = Array.from(new Set(records.map(record => record.productId)));
+    const products = await db.products.bulkGet(productIds);
+    const productsById = new Map(products.filter((p): p is Product => !!p).map(p => [p.id, p]));
 
-      return movements;
-    } catch (error) {
-      console.error('Error getting sale movements:', error);
-      return [];
-    }
-  }
+    return records.map(record => {
+      const product = productsById.get(record.productId);
+      const unitCost = record.unitCost ?? product?.cost ?? 0;
 
-  /**
-   * Get return movements from stock returns
-   */
-  private async getReturnMovements(productId: string, filter?: StockMovementFilter): Promise<StockMovement[]> {
-    try {
-      const stockReturns = await db.stockReturns
-        .filter(stockReturn => {
-          // Filter by date
-          if (filter?.startDate && stockReturn.createdAt < filter.startDate) return false;
-          if (filter?.endDate && stockReturn.createdAt > filter.endDate) return false;
-          
-          // Filter by specific return
-          if (filter?.referenceId && stockReturn.id !== filter.referenceId) return false;
-          
-          return true;
-        })
-        .toArray();
-
-      const movements: StockMovement[] = [];
-      
-      for (const stockReturn of stockReturns) {
-        // Get return items for this product
-        const returnItems = await db.stockReturnItems.where('stockReturnId').equals(stockReturn.id).toArray();
-        
-        for (const returnItem of returnItems) {
-          if (returnItem.productId === productId) {
-            const product = await db.products.get(productId);
-            if (!product) continue;
-
-            // Calculate previous stock (stock before return)
-            const previousStock = (product.currentStock || 0) + returnItem.quantity;
-
-            movements.push({
-              id: `${stockReturn.id}-${returnItem.productId}`,
-              type: 'return',
-              productId,
-              productName: product.name,
-              productSku: product.sku,
-              quantity: -returnItem.quantity, // Negative for returns (stock out)
-              previousStock,
-              newStock: (product.currentStock || 0),
-              unitCost: returnItem.unitPrice,
-              totalValue: returnItem.totalPrice,
-              reason: `Retur dari faktur ${stockReturn.id}`,
-              referenceId: stockReturn.id,
-              referenceType: 'stock_return',
-              createdAt: stockReturn.createdAt,
-              createdBy: stockReturn.createdBy,
-            });
-          }
-        }
-      }
-
-      return movements;
-    } catch (error) {
-      console.error('Error getting return movements:', error);
-      return [];
-    }
+      return {
+        id: record.id,
+        type: record.type,
+        productId: record.productId,
+        productName: product?.name || 'Unknown Product',
+        productSku: product?.sku || null,
+        quantity: record.qty,
+        previousStock: record.qtyBefore,
+        newStock: record.qtyAfter,
+        unit: record.unit,
+        unitCost,
+        totalValue: Math.abs(record.qty) * unitCost,
+        reason: record.reason || undefined,
+        referenceId: record.referenceId || record.id,
+        referenceType: record.referenceType,
+        shiftId: record.shiftId,
+        createdAt: record.createdAt,
+        createdBy: record.createdBy,
+      };
+    });
   }
 
   /**
@@ -368,14 +129,7 @@ class StockHistoryService {
    */
   async getStockMovementSummary(startDate?: Date, endDate?: Date): Promise<StockMovementSummary> {
     try {
-      const products = await db.products.filter(p => !p.deletedAt).toArray();
-      const movements: StockMovement[] = [];
-
-      // Get movements for all products in the date range
-      for (const product of products) {
-        const productMovements = await this.getStockMovements(product.id, { startDate, endDate });
-        movements.push(...productMovements);
-      }
+      const movements = await this.getAllStockMovements(startDate, endDate);
 
       // Calculate summary
       const totalMovements = movements.length;
@@ -444,14 +198,7 @@ class StockHistoryService {
   }> {
     try {
       const summary = await this.getStockMovementSummary(startDate, endDate);
-      const allMovements: StockMovement[] = [];
-
-      // Get all products and their movements
-      const products = await db.products.filter(p => !p.deletedAt).toArray();
-      for (const product of products) {
-        const productMovements = await this.getStockMovements(product.id, { startDate, endDate });
-        allMovements.push(...productMovements);
-      }
+      const allMovements = await this.getAllStockMovements(startDate, endDate);
 
       // Sort by date and type
       allMovements.sort((a, b) => {
@@ -0,0 +1,203 @@
+import { db, Product, StockMovementRecord } from '../db';
+import { v7 as uuidv7 } from 'uuid';
+
+export interface StockChange {
+  productId: string;
+  type: StockMovementRecord['type'];
+  qty?: number; // Signed change, e.g. -2 for a sale of two
+  newStock?: number; // Absolute stock instead of a change (stock opname)
+  clampAtZero?: boolean; // Never let stock go below zero (waste, returns)
+  unit?: string; // Defaults to the product's base unit
+  unitCost?: number | null;
+  referenceId?: string | null;
+  referenceType: StockMovementRecord['referenceType'];
+  shiftId?: string | null;
+  reason?: string | null;
+  createdBy: string;
+  productChanges?: Partial<Product>; // Other product fields updated together with stock, e.g. average cost
+}
+
+export interface StockMovementQuery {
+  productId?: string;
+  type?: StockMovementRecord['type'];
+  referenceId?: string;
+  shiftId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface StockVerificationResult {
+  productId: string;
+  productName: string;
+  currentStock: number;
+  ledgerStock: number | null; // Stock after replaying every movement, null when the product has no movements
+  difference: number;
+  movementCount: number;
+  brokenLinks: number; // Movements whose qtyBefore does not match the previous qtyAfter
+  consistent: boolean;
+}
+
+// Rounding noise from fractional units (e.g. 0.1 kg) should not be reported as drift
+const EPSILON = 0.000001;
+
+export class StockLedgerService {
+  // Change a product's stock and append the matching ledger row in the same Dexie transaction
+  static async applyChange(change: StockChange): Promise<StockMovementRecord> {
+    try {
+      return await db.transaction('rw', db.products, db.stockMovements, async () => {
+        const product = await db.products.get(change.productId);
+        if (!product) {
+          throw new Error(`Product with ID ${change.productId} not found`);
+        }
+
+        const qtyBefore = product.currentStock || 0;
+        let qtyAfter = change.newStock !== undefined ? change.newStock : qtyBefore + (change.qty || 0);
+        if (change.clampAtZero) {
+          qtyAfter = Math.max(0, qtyAfter);
+        }
+
+        const now = new Date();
+        await db.products.update(product.id, {
+          ...change.productChanges,
+          currentStock: qtyAfter,
+          updatedAt: now
+        });
+
+        const movement: StockMovementRecord = {
+          id: uuidv7(),
+          productId: product.id,
+          type: change.type,
+          qty: qtyAfter - qtyBefore,
+          qtyBefore,
+          qtyAfter,
+          unit: change.unit || product.uom?.base || 'pcs',
+          unitCost: change.unitCost ?? null,
+          referenceId: change.referenceId ?? null,
+          referenceType: change.referenceType,
+          shiftId: change.shiftId ?? null,
+          reason: change.reason ?? null,
+          createdBy: change.createdBy,
+          createdAt: now
+        };
+        await db.stockMovements.add(movement);
+
+        return movement;
+      });
+    } catch (error) {
+      throw new Error(`Failed to apply stock change: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Apply several changes atomically, in order
+  static async applyChanges(changes: StockChange[]): Promise<StockMovementRecord[]> {
+    return db.transaction('rw', db.products, db.stockMovements, async () => {
+      const movements: StockMovementRecord[] = [];
+      for (const change of changes) {
+        movements.push(await this.applyChange(change));
+      }
+      return movements;
+    });
+  }
+
+  // Query the ledger using the narrowest index available. Newest first.
+  static async getMovements(query: StockMovementQuery = {}): Promise<StockMovementRecord[]> {
+    try {
+      const lower = query.startDate || new Date(0);
+      const upper = query.endDate || new Date(8640000000000000);
+
+      let movements: StockMovementRecord[];
+      if (query.productId) {
+        movements = await db.stockMovements
+          .where('[productId+createdAt]')
+          .between([query.productId, lower], [query.productId, upper], true, true)
+          .toArray();
+      } else if (query.referenceId) {
+        movements = await db.stockMovements.where('referenceId').equals(query.referenceId).toArray();
+      } else if (query.shiftId) {
+        movements = await db.stockMovements.where('shiftId').equals(query.shiftId).toArray();
+      } else {
+        movements = await db.stockMovements.where('createdAt').between(lower, upper, true, true).toArray();
+      }
+
+      return movements
+        .filter(movement => {
+          if (query.type && movement.type !== query.type) return false;
+          if (query.referenceId && movement.referenceId !== query.referenceId) return false;
+          if (query.shiftId && movement.shiftId !== query.shiftId) return false;
+          if (movement.createdAt < lower || movement.createdAt > upper) return false;
+          return true;
+        })
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id));
+    } catch (error) {
+      throw new Error(`Failed to get stock movements: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Replay the ledger of a product and compare it with currentStock
+  static async verifyProductStock(productId: string): Promise<StockVerificationResult> {
+    try {
+      const product = await db.products.get(productId);
+      if (!product) {
+        throw new Error(`Product with ID ${productId} not found`);
+      }
+
+      const movements = (await this.getMovements({ productId })).reverse();
+      const currentStock = product.currentStock || 0;
+
+      if (movements.length === 0) {
+        return {
+          productId,
+          productName: product.name,
+          currentStock,
+          ledgerStock: null,
+          difference: 0,
+          movementCount: 0,
+          brokenLinks: 0,
+          consistent: true
+        };
+      }
+
+      // Stock before the first recorded movement is the opening balance
+      let ledgerStock = movements[0].qtyBefore;
+      let brokenLinks = 0;
+      let previousAfter: number | null = null;
+
+      for (const movement of movements) {
+        if (previousAfter !== null && Math.abs(movement.qtyBefore - previousAfter) > EPSILON) {
+          brokenLinks++;
+        }
+        ledgerStock += movement.qty;
+        previousAfter = movement.qtyAfter;
+      }
+
+      const difference = currentStock - ledgerStock;
+      return {
+        productId,
+        productName: product.name,
+        currentStock,
+        ledgerStock,
+        difference,
+        movementCount: movements.length,
+        brokenLinks,
+        consistent: Math.abs(difference) <= EPSILON
+      };
+    } catch (error) {
+      throw new Error(`Failed to verify stock: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Verify every stock-monitored product, returning only the ones that drifted from their ledger
+  static async verifyAllStock(): Promise<StockVerificationResult[]> {
+    const products = await db.products.filter(p => !p.deletedAt && p.monitorStock).toArray();
+    const results: StockVerificationResult[] = [];
+
+    for (const product of products) {
+      const result = await this.verifyProductStock(product.id);
+      if (!result.consistent) {
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+}
@@ -2,6 +2,8 @@ import { db, StockReturn, StockReturnItem, Invoice, Product } from '../db';
 import { useShiftStore } from '../stores/shiftStore';
 import { v7 as uuidv7 } from 'uuid';
 import { stockHistoryService } from './stockHistoryService';
+import { StockLedgerService } from './stockLedgerService';
+import { NumberingService } from './numberingService';
 
 export interface CreateStockReturnData {
   supplierId: string;
@@ -43,54 +45,60 @@ export class StockReturnService {
         throw new Error('Invoice does not belong to the specified supplier');
       }
       
-      // Generate unique return number
-      const returnNumber = await this.generateUniqueReturnNumber();
-      
       // Get current shift ID if there's an active shift
       const { currentShiftId } = useShiftStore.getState();
       
-      // Create the main stock return record
-      const stockReturnId = uuidv7();
-      const newStockReturn: StockReturn = {
-        id: stockReturnId,
-        returnNumber,
-        supplierId: data.supplierId,
-        originalInvoiceId: data.originalInvoiceId,
-        returnDate: data.returnDate,
-        confirmationDate: data.confirmationDate || null,
-        totalAmount: data.totalAmount,
-        confirmedAmount: data.confirmedAmount || null,
-        status: data.status,
-        notes: data.notes || null,
-        shiftId: currentShiftId || null,
-        createdBy,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        deletedAt: null,
-      };
+      // Write the return, its items, the stock changes and the number atomically so numbers stay gapless
+      return await db.transaction(
+        'rw',
+        [db.stockReturns, db.stockReturnItems, db.products, db.stockMovements, db.counters, db.settings],
+        async () => {
+          const returnNumber = await NumberingService.next('RT');
       
-      // Add the stock return to the database
-      await db.stockReturns.add(newStockReturn);
+          // Create the main stock return record
+          const stockReturnId = uuidv7();
+          const newStockReturn: StockReturn = {
+            id: stockReturnId,
+            returnNumber,
+            supplierId: data.supplierId,
+            originalInvoiceId: data.originalInvoiceId,
+            returnDate: data.returnDate,
+            confirmationDate: data.confirmationDate || null,
+            totalAmount: data.totalAmount,
+            confirmedAmount: data.confirmedAmount || null,
+            status: data.status,
+            notes: data.notes || null,
+            shiftId: currentShiftId || null,
+            createdBy,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            deletedAt: null,
+          };
       
-      // Create stock return items
-      const returnItems: StockReturnItem[] = data.items.map(item => ({
-        id: uuidv7(),
-        stockReturnId: stockReturnId,
-        productId: item.productId,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        totalPrice: item.totalPrice,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }));
+          // Add the stock return to the database
+          await db.stockReturns.add(newStockReturn);
       
-      // Add all return items to the database
-      await db.stockReturnItems.bulkAdd(returnItems);
+          // Create stock return items
+          const returnItems: StockReturnItem[] = data.items.map(item => ({
+            id: uuidv7(),
+            stockReturnId: stockReturnId,
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            totalPrice: item.totalPrice,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          }));
       
-      // Update stock levels for returned items (decrease stock)
-      await this.updateStockForReturn(stockReturnId);
+          // Add all return items to the database
+          await db.stockReturnItems.bulkAdd(returnItems);
       
-      return stockReturnId;
+          // Update stock levels for returned items (decrease stock)
+          await this.updateStockForReturn(stockReturnId);
+      
+          return stockReturnId;
+        }
+      );
     } catch (error) {
       console.error('Error creating stock return:', error);
       throw error;
@@ -120,16 +128,20 @@ export class StockReturnService {
           // Recalculate HPP (Average Cost) - remove the returned quantity from the cost calculation
           const newCost = this.calculateNewCostAfterReturn(product, item);
           
-          // Update product stock and cost
-          await db.products.update(item.productId, {
-            currentStock: newCurrentStock,
-            cost: newCost,
-            updatedAt: new Date()
+          // Update product stock and cost, recording the movement in the stock ledger
+          await StockLedgerService.applyChange({
+            productId: item.productId,
+            type: 'return',
+            newStock: newCurrentStock,
+            unitCost: item.unitPrice,
+            referenceId: stockReturnId,
+            referenceType: 'stock_return',
+            shiftId: stockReturn.shiftId || null,
+            reason: stockReturn.returnNumber,
+            createdBy: stockReturn.createdBy,
+            productChanges: { cost: newCost }
           });
           
-          // Create movement record for stock tracking
-          // Note: The movement record will be created by the movement tracking system
-          // when we call the stock history service
           console.log(`Stock return processed: ${item.quantity} units of ${product.name} returned`);
         }
       }
@@ -311,37 +323,6 @@ export class StockReturnService {
     }
   }
   
-  /**
-   * Generate unique return number
-   */
-  private static async generateUniqueReturnNumber(): Promise<string> {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    const dateStr = `${year}${month}${day}`;
-    
-    // Find the highest sequence number for today
-    const todayReturns = await db.stockReturns
-      .where('returnNumber')
-      .startsWith(`RT-${dateStr}-`)
-      .toArray();
-    
-    let maxSequence = 0;
-    for (const ret of todayReturns) {
-      const parts = ret.returnNumber.split('-');
-      if (parts.length === 3) {
-        const sequence = parseInt(parts[2]);
-        if (!isNaN(sequence) && sequence > maxSequence) {
-          maxSequence = sequence;
-        }
-      }
-    }
-    
-    const nextSequence = (maxSequence + 1).toString().padStart(3, '0');
-    return `RT-${dateStr}-${nextSequence}`;
-  }
-  
   /**
    * Get stock return statistics
    */
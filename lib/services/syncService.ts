@@ -0,0 +1,260 @@
+import { db, SyncOutboxEntry } from '../db';
+import { markSyncApply } from '../db/syncHooks';
+import {
+  SYNC_BATCH_SIZE,
+  SYNC_PULL_OVERLAP_MS,
+  SYNC_TABLES,
+  SyncTableConfig,
+  getSyncTableConfig,
+  isSyncConfigured
+} from '../config/sync';
+import { PostgrestTransport, SyncTransport } from './syncTransport';
+import { ConflictService } from './conflictService';
+import { v7 as uuidv7 } from 'uuid';
+
+export interface SyncResult {
+  pushed: number;
+  failed: number;
+  pulled: number;
+}
+
+// ISO-8601 timestamps as produced by Date.toJSON()
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})$/;
+
+// Remote rows arrive as JSON, so turn *At / *Date strings back into Date objects
+const reviveDates = (value: any, key = ''): any => {
+  if (Array.isArray(value)) {
+    return value.map(item => reviveDates(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, reviveDates(v, k)]));
+  }
+  if (typeof value === 'string' && /(At|Date)$/.test(key) && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value);
+  }
+  return value;
+};
+
+const toWatermark = (value: any): string | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export class SyncService {
+  private static transport: SyncTransport = new PostgrestTransport();
+  private static running: Promise<SyncResult> | null = null;
+
+  // Swap the transport, e.g. to point at a PostgREST stand-in
+  static setTransport(transport: SyncTransport) {
+    this.transport = transport;
+  }
+
+  static isConfigured(): boolean {
+    return isSyncConfigured();
+  }
+
+  static async getPendingCount(): Promise<number> {
+    return db.syncOutbox.count();
+  }
+
+  // Pull remote changes (merging them into unpushed local edits), then push the outbox.
+  // Concurrent calls share the same run.
+  static async sync(): Promise<SyncResult> {
+    if (this.running) {
+      return this.running;
+    }
+
+    this.running = (async () => {
+      try {
+        const pulled = await this.pullChanges();
+        const { pushed, failed } = await this.pushOutbox();
+        return { pushed, failed, pulled };
+      } catch (error) {
+        throw new Error(`Failed to sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        this.running = null;
+      }
+    })();
+
+    return this.running;
+  }
+
+  // Send queued local writes to the server, oldest first
+  static async pushOutbox(): Promise<{ pushed: number; failed: number }> {
+    const entries = await db.syncOutbox.orderBy('id').toArray();
+    let pushed = 0;
+    let failed = 0;
+
+    for (const config of SYNC_TABLES) {
+      const tableEntries = entries.filter(entry => entry.tableName === config.table);
+      if (tableEntries.length === 0) continue;
+
+      // Only the latest write per record matters since payloads are full records
+      const latestByRecord = new Map<string, SyncOutboxEntry>();
+      tableEntries.forEach(entry => latestByRecord.set(entry.recordId, entry));
+      const latest = Array.from(latestByRecord.values());
+
+      const upserts = latest.filter(entry => entry.operation !== 'delete');
+      const deletes = latest.filter(entry => entry.operation === 'delete');
+
+      try {
+        for (let i = 0; i < upserts.length; i += SYNC_BATCH_SIZE) {
+          const batch = upserts.slice(i, i + SYNC_BATCH_SIZE);
+          await this.transport.upsert(config.remote, batch.map(entry => entry.payload));
+        }
+        for (let i = 0; i < deletes.length; i += SYNC_BATCH_SIZE) {
+          const batch = deletes.slice(i, i + SYNC_BATCH_SIZE);
+          await this.transport.remove(config.remote, batch.map(entry => entry.recordId));
+        }
+
+        // Remove only the entries we pushed; writes queued meanwhile stay for the next run
+        await db.syncOutbox.bulkDelete(tableEntries.map(entry => entry.id));
+        await this.updateState(config.table, { lastPushedAt: new Date() });
+        pushed += tableEntries.length;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Failed to push ${config.table}:`, error);
+
+        await db.syncOutbox
+          .where('id')
+          .anyOf(tableEntries.map(entry => entry.id))
+          .modify(entry => {
+            entry.attempts += 1;
+            entry.lastError = message;
+          });
+        failed += tableEntries.length;
+      }
+    }
+
+    return { pushed, failed };
+  }
+
+  // Pull rows changed on the server since the last watermark of each table
+  static async pullChanges(): Promise<number> {
+    let pulled = 0;
+
+    for (const config of SYNC_TABLES) {
+      pulled += await this.pullTable(config);
+    }
+
+    return pulled;
+  }
+
+  static async pullTable(config: SyncTableConfig): Promise<number> {
+    const state = await db.syncState.get(config.table);
+    let watermark = state?.lastPulledAt || null;
+    let since = watermark
+      ? new Date(new Date(watermark).getTime() - SYNC_PULL_OVERLAP_MS).toISOString()
+      : null;
+    let pulled = 0;
+
+    while (true) {
+      const rows = await this.transport.pullSince(config.remote, config.watermark, since, SYNC_BATCH_SIZE);
+      if (rows.length === 0) break;
+
+      const applied = await this.applyRemoteRows(config.table, rows.map(row => reviveDates(row)));
+      pulled += applied;
+
+      const newest = toWatermark(rows[rows.length - 1][config.watermark]);
+      if (newest && (!watermark || newest > watermark)) {
+        watermark = newest;
+      }
+
+      // A full page that did not move the cursor means many rows share one timestamp; stop instead of looping
+      if (rows.length < SYNC_BATCH_SIZE || !newest || newest === since) break;
+      since = newest;
+    }
+
+    await this.updateState(config.table, { lastPulledAt: watermark });
+    return pulled;
+  }
+
+  // Write remote rows locally without queueing them again.
+  // Records with unpushed local writes are merged field by field instead of overwritten.
+  static async applyRemoteRows(tableName: string, rows: any[]): Promise<number> {
+    const config = getSyncTableConfig(tableName);
+    if (!config || rows.length === 0) return 0;
+
+    const table = db.table(tableName);
+
+    return db.transaction('rw', table, db.syncOutbox, db.syncConflicts, async (trans) => {
+      markSyncApply(trans);
+
+      const pendingByRecord = new Map<string, SyncOutboxEntry[]>();
+      const pendingEntries = await db.syncOutbox.where('tableName').equals(tableName).sortBy('id');
+      pendingEntries.forEach(entry => {
+        pendingByRecord.set(entry.recordId, [...(pendingByRecord.get(entry.recordId) || []), entry]);
+      });
+
+      let applied = 0;
+      for (const remote of rows) {
+        const recordId = String(remote.id);
+        const local = await table.get(remote.id);
+        const pending = pendingByRecord.get(recordId);
+
+        if (!pending) {
+          if (!local || this.isRemoteNewer(config, local, remote)) {
+            await table.put(remote);
+            applied++;
+          }
+          continue;
+        }
+
+        // A local hard delete wins; a local record that vanished has nothing to merge into
+        if (!local || pending.some(entry => entry.operation === 'delete')) continue;
+
+        // Merge only when the remote moved past the version our local edits started from
+        const base = pending[0].base ?? null;
+        if (base && !this.isRemoteNewer(config, base, remote)) continue;
+
+        const result = ConflictService.mergeRecords(tableName, base, local, remote);
+        await table.put(result.merged);
+        await ConflictService.recordConflict(tableName, recordId, local, remote, result);
+
+        // The merged record replaces the queued writes and is based on the remote version
+        await db.syncOutbox.bulkDelete(pending.map(entry => entry.id));
+        await db.syncOutbox.add({
+          ...pending[pending.length - 1],
+          id: uuidv7(),
+          operation: pending.some(entry => entry.operation === 'soft_delete') ? 'soft_delete' : 'update',
+          payload: result.merged,
+          base: remote,
+          createdAt: new Date()
+        });
+        applied++;
+      }
+
+      return applied;
+    });
+  }
+
+  // Compare by version counter, falling back to the watermark column for records written before versions existed
+  static isRemoteNewer(config: SyncTableConfig, local: any, remote: any): boolean {
+    if (typeof local.version === 'number' && typeof remote.version === 'number') {
+      if (remote.version !== local.version) {
+        return remote.version > local.version;
+      }
+      return ConflictService.isRemoteLatest(local, remote) && JSON.stringify(local) !== JSON.stringify(remote);
+    }
+
+    const localStamp = toWatermark(local[config.watermark]);
+    const remoteStamp = toWatermark(remote[config.watermark]);
+    return !localStamp || !remoteStamp || remoteStamp > localStamp;
+  }
+
+  private static async updateState(tableName: string, changes: { lastPulledAt?: string | null; lastPushedAt?: Date }) {
+    // In a transaction so a chain head written by AuditLogService in between is not overwritten
+    await db.transaction('rw', db.syncState, async () => {
+      const existing = await db.syncState.get(tableName);
+      await db.syncState.put({
+        ...existing,
+        id: tableName,
+        lastPulledAt: existing?.lastPulledAt || null,
+        lastPushedAt: existing?.lastPushedAt || null,
+        ...changes,
+        updatedAt: new Date()
+      });
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import { SYNC_API_KEY, SYNC_REST_URL } from '../config/sync';
+import { useAuthStore } from '../stores/authStore';
+
+export interface SyncTransport {
+  upsert(remoteTable: string, rows: any[]): Promise<void>;
+  remove(remoteTable: string, ids: string[]): Promise<void>;
+  pullSince(remoteTable: string, column: string, since: string | null, limit: number): Promise<any[]>;
+}
+
+// Minimal PostgREST client so the same code talks to Supabase or a local stand-in
+export class PostgrestTransport implements SyncTransport {
+  constructor(
+    private baseUrl: string = SYNC_REST_URL,
+    private apiKey: string = SYNC_API_KEY
+  ) {}
+
+  private getHeaders(extra: Record<string, string> = {}): Record<string, string> {
+    // Use the signed-in session when available so row level security applies
+    const accessToken = useAuthStore.getState().session?.access_token;
+
+    return {
+      apikey: this.apiKey,
+      Authorization: `Bearer ${accessToken || this.apiKey}`,
+      'Content-Type': 'application/json',
+      ...extra
+    };
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/${path}`, init);
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`${init.method || 'GET'} ${path} failed with ${response.status}${body ? `: ${body}` : ''}`);
+    }
+    return response;
+  }
+
+  async upsert(remoteTable: string, rows: any[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    await this.request(`${remoteTable}?on_conflict=id`, {
+      method: 'POST',
+      headers: this.getHeaders({ Prefer: 'resolution=merge-duplicates,return=minimal' }),
+      body: JSON.stringify(rows)
+    });
+  }
+
+  async remove(remoteTable: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const idList = ids.map(id => `"${id}"`).join(',');
+    await this.request(`${remoteTable}?id=in.(${encodeURIComponent(idList)})`, {
+      method: 'DELETE',
+      headers: this.getHeaders({ Prefer: 'return=minimal' })
+    });
+  }
+
+  async pullSince(remoteTable: string, column: string, since: string | null, limit: number): Promise<any[]> {
+    const params = new URLSearchParams({ select: '*', order: `${column}.asc,id.asc`, limit: String(limit) });
+    if (since) {
+      params.set(column, `gte.${since}`);
+    }
+
+    const response = await this.request(`${remoteTable}?${params.toString()}`, {
+      method: 'GET',
+      headers: this.getHeaders()
+    });
+    return response.json();
+  }
+}
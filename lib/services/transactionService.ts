@@ -2,6 +2,10 @@ import { db, Transaction } from '../db';
 import { validateTransaction, safeValidateTransaction } from '../utils/validators';
 import { v7 as uuidv7 } from 'uuid';
 import { Product } from '../db';
+import { InsufficientStockError, StockShortage } from '../utils/errorHandler';
+import { StockLedgerService } from './stockLedgerService';
+import { NumberingService } from './numberingService';
+import { AuditLogService } from './auditLogService';
 
 // Helper function to clean up validation result and ensure proper null values
 function cleanTransactionData(data: any): Transaction {
@@ -19,51 +23,42 @@ export class TransactionService {
   // Create a new transaction
  static async create(transactionData: Omit<Transaction, 'id' | 'transactionNumber' | 'createdAt' | 'updatedAt' | 'deletedAt'>): Promise<Transaction> {
     try {
-      // Ensure all optional fields have proper values
-      const transactionToCreate: Transaction = {
-              ...transactionData,
-              customerId: transactionData.customerId || null,
-              shiftId: transactionData.shiftId || null, // Include shiftId
-              savedAt: transactionData.savedAt || null,
-              paidAt: transactionData.paidAt || null,
-              deletedAt: null,
-              id: uuidv7(),
-              transactionNumber: this.generateTransactionNumber(),
-              createdAt: new Date(),
-              updatedAt: new Date(),
-            };
+      return await db.transaction('rw', db.transactions, db.counters, db.settings, async () => {
+        // Ensure all optional fields have proper values
+        const transactionToCreate: Transaction = {
+                ...transactionData,
+                customerId: transactionData.customerId || null,
+                shiftId: transactionData.shiftId || null, // Include shiftId
+                savedAt: transactionData.savedAt || null,
+                paidAt: transactionData.paidAt || null,
+                deletedAt: null,
+                id: uuidv7(),
+                transactionNumber: await NumberingService.next('TRX'),
+                createdAt: new Date(),
+                updatedAt: new Date(),
+              };
       
-      // Validate the transaction data
-      const validation = safeValidateTransaction(transactionToCreate);
+        // Validate the transaction data
+        const validation = safeValidateTransaction(transactionToCreate);
       
-      if (!validation.success) {
-        throw new Error(`Transaction validation failed: ${validation.error.message}`);
-      }
+        if (!validation.success) {
+          throw new Error(`Transaction validation failed: ${validation.error.message}`);
+        }
       
-      // Clean the validation result to ensure proper null values
-      const cleanedData = cleanTransactionData(validation.data);
+        // Clean the validation result to ensure proper null values
+        const cleanedData = cleanTransactionData(validation.data);
       
-      // Add to database
-      const id = await db.transactions.add(cleanedData);
+        // Add to database
+        const id = await db.transactions.add(cleanedData);
       
-      // Return the created transaction
-      return { ...cleanedData, id };
+        // Return the created transaction
+        return { ...cleanedData, id };
+      });
     } catch (error) {
       throw new Error(`Failed to create transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Generate transaction number in TRX-YYYYMMDD-XXXX format
-  static generateTransactionNumber(): string {
-    const now = new Date();
-    const dateStr = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
-    
-    // Generate a unique 4-digit number
-    const randomNum = String(Math.floor(Math.random() * 10000)).padStart(4, '0');
-    
-    return `TRX-${dateStr}-${randomNum}`;
-  }
-
   // Get transaction by ID
   static async getById(id: string): Promise<Transaction | null> {
     try {
@@ -77,7 +72,7 @@ export class TransactionService {
  // Get all transactions with optional filters
  static async getAll(
    filters?: {
-     status?: 'paid' | 'unpaid' | 'saved';
+     status?: Transaction['status'];
      customerId?: string;
      dateFrom?: Date;
      dateTo?: Date;
@@ -157,7 +152,12 @@ export class TransactionService {
   // Soft delete transaction
   static async delete(id: string): Promise<boolean> {
     try {
-      const result = await db.transactions.update(id, { deletedAt: new Date() });
+      const existing = await db.transactions.get(id);
+      const deletedAt = new Date();
+      const result = await db.transactions.update(id, { deletedAt });
+      if (existing && result > 0) {
+        await this.audit('transaction.delete', existing, { deletedAt: existing.deletedAt }, { deletedAt });
+      }
       // Dexie's update method returns a Promise<number> indicating the number of updated records
       return result > 0;
     } catch (error) {
@@ -168,7 +168,11 @@ export class TransactionService {
   // Hard delete transaction (only for development/testing)
   static async hardDelete(id: string): Promise<boolean> {
     try {
+      const existing = await db.transactions.get(id);
       await db.transactions.delete(id);
+      if (existing) {
+        await this.audit('transaction.hard_delete', existing, { deletedAt: existing.deletedAt, total: existing.total }, null);
+      }
       return true; // Assuming deletion was successful if no error was thrown
     } catch (error) {
       throw new Error(`Failed to hard delete transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -188,7 +192,11 @@ export class TransactionService {
   // Restore soft deleted transaction
  static async restore(id: string): Promise<boolean> {
     try {
+      const existing = await db.transactions.get(id);
       await db.transactions.update(id, { deletedAt: null });
+      if (existing) {
+        await this.audit('transaction.restore', existing, { deletedAt: existing.deletedAt }, { deletedAt: null });
+      }
       return true; // Assuming restoration was successful if no error was thrown
     } catch (error) {
       throw new Error(`Failed to restore transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -283,85 +291,174 @@ export class TransactionService {
     transactionData: Omit<Transaction, 'id' | 'transactionNumber' | 'createdAt' | 'updatedAt' | 'deletedAt' | 'paidAt'>
   ): Promise<Transaction> {
     try {
-      // Prepare the transaction object with required fields
-      const transactionToSave: Transaction = {
-              ...transactionData,
-              customerId: transactionData.customerId || null,
-              shiftId: transactionData.shiftId || null, // Include shiftId
-              savedAt: transactionData.savedAt || new Date(),
-              paidAt: null,
-              deletedAt: null,
-              id: uuidv7(),
-              transactionNumber: this.generateTransactionNumber(),
-              createdAt: new Date(),
-              updatedAt: new Date(),
-            };
+      return await db.transaction('rw', db.transactions, db.counters, db.settings, async () => {
+        // Prepare the transaction object with required fields
+        const transactionToSave: Transaction = {
+                ...transactionData,
+                customerId: transactionData.customerId || null,
+                shiftId: transactionData.shiftId || null, // Include shiftId
+                savedAt: transactionData.savedAt || new Date(),
+                paidAt: null,
+                deletedAt: null,
+                id: uuidv7(),
+                transactionNumber: await NumberingService.next('TRX'),
+                createdAt: new Date(),
+                updatedAt: new Date(),
+              };
       
-      // Validate the transaction data
-      const validation = safeValidateTransaction(transactionToSave);
+        // Validate the transaction data
+        const validation = safeValidateTransaction(transactionToSave);
       
-      if (!validation.success) {
-        throw new Error(`Transaction validation failed: ${validation.error.message}`);
-      }
+        if (!validation.success) {
+          throw new Error(`Transaction validation failed: ${validation.error.message}`);
+        }
       
-      // Clean the validation result to ensure proper null values
-      const cleanedData = cleanTransactionData(validation.data);
+        // Clean the validation result to ensure proper null values
+        const cleanedData = cleanTransactionData(validation.data);
       
-      // Add to database
-      const id = await db.transactions.add(cleanedData);
+        // Add to database
+        const id = await db.transactions.add(cleanedData);
       
-      // Return the saved transaction
-      return { ...cleanedData, id };
+        // Return the saved transaction
+        return { ...cleanedData, id };
+      });
     } catch (error) {
       throw new Error(`Failed to save transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
  }
 
-  // Deduct stock for transaction items
-  static async deductStock(transaction: Transaction): Promise<void> {
-    try {
-      for (const item of transaction.items) {
-        const product = await db.products.get(item.productId);
-        if (!product) {
-          throw new Error(`Product with ID ${item.productId} not found`);
-        }
+  // Work out how much stock every line needs, aggregated per stock product (recipe materials included),
+  // and report every line that cannot be fulfilled. Nothing is written.
+  static async checkStock(items: Transaction['items']): Promise<{
+    requirements: { product: Product; requiredQty: number }[];
+    shortages: StockShortage[];
+  }> {
+    const requirements = new Map<string, { product: Product; requiredQty: number; lines: { item: Transaction['items'][number]; isMaterial: boolean }[] }>();
+    const shortages: StockShortage[] = [];
 
-        // Only update stock for products that monitor stock
-        if (product.monitorStock) {
-          if (product.type === 'finish_goods' || product.type === 'raw_material') {
-            // Direct stock deduction
-            const newStock = product.currentStock - item.qty;
-            if (newStock < 0) {
-              throw new Error(`Insufficient stock for product: ${product.name}`);
-            }
-            
-            await db.products.update(product.id, {
-              currentStock: newStock
+    const addRequirement = (product: Product, qty: number, item: Transaction['items'][number], isMaterial: boolean) => {
+      const requirement = requirements.get(product.id) || { product, requiredQty: 0, lines: [] };
+      requirement.requiredQty += qty;
+      requirement.lines.push({ item, isMaterial });
+      requirements.set(product.id, requirement);
+    };
+
+    for (const item of items) {
+      const product = await db.products.get(item.productId);
+      if (!product) {
+        shortages.push({
+          reason: 'not_found',
+          productId: item.productId,
+          productName: item.name,
+          materialId: null,
+          materialName: null,
+          requiredQty: item.qty,
+          availableQty: 0,
+          message: `Product not found: ${item.name}`
+        });
+        continue;
+      }
+
+      // Only products that monitor stock are deducted
+      if (!product.monitorStock) continue;
+
+      if (product.type === 'finish_goods' || product.type === 'raw_material') {
+        addRequirement(product, item.qty, item, false);
+      } else if (product.type === 'recipe_goods' && product.recipe) {
+        for (const recipeItem of product.recipe) {
+          const material = await db.products.get(recipeItem.materialId);
+          if (!material) {
+            shortages.push({
+              reason: 'not_found',
+              productId: item.productId,
+              productName: item.name,
+              materialId: recipeItem.materialId,
+              materialName: null,
+              requiredQty: recipeItem.qty * item.qty,
+              availableQty: 0,
+              message: `Material not found for product: ${item.name}`
             });
-          } else if (product.type === 'recipe_goods') {
-            // For recipe goods, calculate and deduct materials
-            if (product.recipe) {
-              for (const recipeItem of product.recipe) {
-                const material = await db.products.get(recipeItem.materialId);
-                if (material && material.monitorStock) {
-                  const requiredQty = recipeItem.qty * item.qty; // qty needed * number of items sold
-                  const newMaterialStock = material.currentStock - requiredQty;
-                  
-                  if (newMaterialStock < 0) {
-                    throw new Error(`Insufficient stock for material: ${material.name}`);
-                  }
-                  
-                  await db.products.update(material.id, {
-                    currentStock: newMaterialStock
-                  });
-                }
-              }
-            }
+          } else if (material.monitorStock) {
+            addRequirement(material, recipeItem.qty * item.qty, item, true); // qty needed * number of items sold
           }
         }
       }
+    }
+
+    requirements.forEach(({ product, requiredQty, lines }) => {
+      if (product.currentStock >= requiredQty) return;
+
+      lines.forEach(({ item, isMaterial }) => {
+        shortages.push({
+          reason: 'insufficient',
+          productId: item.productId,
+          productName: item.name,
+          materialId: isMaterial ? product.id : null,
+          materialName: isMaterial ? product.name : null,
+          requiredQty,
+          availableQty: product.currentStock,
+          message: isMaterial
+            ? `Insufficient stock for material: ${product.name} (${item.name}, required ${requiredQty}, available ${product.currentStock})`
+            : `Insufficient stock for product: ${product.name} (required ${requiredQty}, available ${product.currentStock})`
+        });
+      });
+    });
+
+    return {
+      requirements: Array.from(requirements.values()).map(({ product, requiredQty }) => ({ product, requiredQty })),
+      shortages
+    };
+  }
+
+  // Deduct stock for transaction items. All lines are validated first and the updates run in one
+  // Dexie transaction, so stock is either fully deducted or untouched.
+  static async deductStock(transaction: Transaction): Promise<void> {
+    try {
+      await db.transaction('rw', db.products, db.stockMovements, async () => {
+        const { requirements, shortages } = await this.checkStock(transaction.items);
+        if (shortages.length > 0) {
+          throw new InsufficientStockError(shortages);
+        }
+
+        for (const { product, requiredQty } of requirements) {
+          await StockLedgerService.applyChange({
+            productId: product.id,
+            type: 'sale',
+            qty: -requiredQty,
+            referenceId: transaction.id,
+            referenceType: 'transaction',
+            shiftId: transaction.shiftId || null,
+            reason: transaction.transactionNumber,
+            createdBy: transaction.createdBy
+          });
+        }
+      });
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        throw error;
+      }
       throw new Error(`Failed to deduct stock: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-}
\ No newline at end of file
+
+  // A failed audit write is logged but does not undo the change it describes
+  private static async audit(
+    action: string,
+    transaction: Transaction,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null
+  ): Promise<void> {
+    try {
+      await AuditLogService.record({
+        action,
+        entityType: 'transactions',
+        entityId: transaction.id,
+        before,
+        after,
+        note: transaction.transactionNumber
+      });
+    } catch (error) {
+      console.error('Error writing audit log:', error);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { v7 as uuidv7 } from 'uuid';
+import { db, Product, Transaction, User } from '../db';
+import { VoidService } from './voidService';
+
+const now = new Date();
+
+const product = (fields: Partial<Product>): Product => ({
+  id: uuidv7(),
+  name: 'Produk',
+  type: 'finish_goods',
+  categoryId: uuidv7(),
+  sku: null,
+  price: 10000,
+  cost: 0,
+  image: null,
+  monitorStock: true,
+  minStock: null,
+  currentStock: 0,
+  calculatedStock: null,
+  uom: { base: 'pcs', conversions: [] },
+  recipe: null,
+  createdBy: 'owner',
+  createdAt: now,
+  updatedAt: now,
+  deletedAt: null,
+  ...fields
+});
+
+const owner: User = {
+  id: uuidv7(),
+  supabaseId: uuidv7(),
+  email: 'owner@example.com',
+  name: 'Pemilik',
+  role: 'owner',
+  pin: '',
+  createdAt: now,
+  updatedAt: now,
+  deletedAt: null
+};
+
+const transaction = (fields: Partial<Transaction>): Transaction => ({
+  id: uuidv7(),
+  transactionNumber: `TRX-K1-20261019-${uuidv7().slice(-4)}`,
+  customerId: null,
+  shiftId: null,
+  items: [],
+  subtotal: 0,
+  discount: { type: 'nominal', value: 0, amount: 0 },
+  tax: { enabled: false, rate: 0, amount: 0 },
+  total: 0,
+  payments: [],
+  change: 0,
+  status: 'paid',
+  savedAt: null,
+  paidAt: now,
+  createdBy: owner.id,
+  createdAt: now,
+  updatedAt: now,
+  deletedAt: null,
+  ...fields
+});
+
+describe('VoidService.voidTransaction', () => {
+  it('restocks a sale from before the stock ledger from its items', async () => {
+    const water = product({ name: 'Air Mineral', currentStock: 10 });
+    const noodles = product({ name: 'Mie', type: 'raw_material', currentStock: 5 });
+    const egg = product({ name: 'Telur', type: 'raw_material', currentStock: 4 });
+    const untracked = product({ name: 'Kerupuk', monitorStock: false, currentStock: 0 });
+    const friedNoodles = product({
+      name: 'Mie Goreng',
+      type: 'recipe_goods',
+      recipe: [{ materialId: noodles.id, qty: 1, unit: 'pcs' }, { materialId: egg.id, qty: 2, unit: 'pcs' }]
+    });
+    await db.products.bulkAdd([water, noodles, egg, untracked, friedNoodles]);
+
+    // Paid, with the stock already deducted, but no sale movements in the ledger
+    const sale = transaction({
+      items: [
+        { productId: water.id, name: water.name, qty: 3, price: 5000, subtotal: 15000 },
+        { productId: friedNoodles.id, name: friedNoodles.name, qty: 2, price: 15000, subtotal: 30000 },
+        { productId: untracked.id, name: untracked.name, qty: 1, price: 2000, subtotal: 2000 }
+      ],
+      subtotal: 47000,
+      total: 47000,
+      payments: [{ method: 'cash', amount: 47000 }]
+    });
+    await db.transactions.add(sale);
+
+    const voided = await VoidService.voidTransaction({ transactionId: sale.id, reason: 'customer_cancelled', user: owner });
+
+    expect(voided.status).toBe('void');
+    const stock = async (item: Product) => (await db.products.get(item.id))?.currentStock;
+    expect(await stock(water)).toBe(13);
+    expect(await stock(noodles)).toBe(7);
+    expect(await stock(egg)).toBe(8);
+    expect(await stock(untracked)).toBe(0);
+  });
+
+  it('refuses saved orders and leaves the shift void figures alone', async () => {
+    const shiftId = uuidv7();
+    await db.cashierShifts.add({
+      id: shiftId,
+      openedBy: owner.id,
+      closedBy: null,
+      openingBalance: 0,
+      closingBalance: null,
+      actualCash: null,
+      variance: null,
+      totalTransactions: 0,
+      totalSales: 0,
+      totalCash: 0,
+      totalNonCash: 0,
+      openedAt: now,
+      closedAt: null,
+      status: 'open',
+      updatedAt: now
+    });
+    const saved = transaction({ shiftId, total: 25000, status: 'saved', savedAt: now, paidAt: null });
+    await db.transactions.add(saved);
+
+    await expect(VoidService.voidTransaction({ transactionId: saved.id, reason: 'customer_cancelled', user: owner }))
+      .rejects.toThrow('Only paid transactions can be voided');
+
+    expect((await db.transactions.get(saved.id))?.status).toBe('saved');
+    const shift = await db.cashierShifts.get(shiftId);
+    expect(shift?.voidCount).toBeUndefined();
+    expect(shift?.voidTotal).toBeUndefined();
+  });
+});
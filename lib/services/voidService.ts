@@ -0,0 +1,149 @@
+import { db, Transaction, User } from '../db';
+import { useShiftStore } from '../stores/shiftStore';
+import { StockLedgerService } from './stockLedgerService';
+import { TransactionService } from './transactionService';
+import { ApprovalService } from './approvalService';
+
+export type VoidReason = NonNullable<Transaction['voidReason']>;
+
+export const VOID_REASON_LABELS: Record<VoidReason, string> = {
+  wrong_item: 'Salah input item',
+  customer_cancelled: 'Pelanggan membatalkan',
+  payment_failed: 'Pembayaran gagal',
+  duplicate: 'Transaksi ganda',
+  other: 'Lainnya',
+};
+
+export interface VoidRequest {
+  transactionId: string;
+  reason: VoidReason;
+  note?: string | null;
+  user: User; // Cashier performing the void
+  approvalId?: string; // approvals.id from ApprovalService.approve, required when the cashier cannot void on their own
+}
+
+export class VoidService {
+  // Users with the void permission (owners, supervisors) void directly; everyone else needs an
+  // owner's or supervisor's PIN, unless the approval policy lets cashiers void on their own
+  static async requiresApproval(user: Pick<User, 'id' | 'role' | 'accessTemplateId'>): Promise<boolean> {
+    return ApprovalService.requiresApproval('void', user);
+  }
+
+  // Void a transaction: it stays in the database with status 'void', the stock deducted by the sale
+  // is put back, and the shift it belonged to counts the void. Everything runs in one Dexie transaction.
+  static async voidTransaction(request: VoidRequest): Promise<Transaction> {
+    try {
+      const { transactionId, reason, user } = request;
+      const note = request.note?.trim() || null;
+
+      if (reason === 'other' && !note) {
+        throw new Error('A note is required when the reason is "other"');
+      }
+
+      let approvedBy: string = user.id;
+      if (await this.requiresApproval(user)) {
+        const approval = request.approvalId ? await db.approvals.get(request.approvalId) : undefined;
+        if (!approval || approval.action !== 'void' || approval.transactionId !== transactionId) {
+          throw new Error('Void has not been approved');
+        }
+        approvedBy = approval.approvedBy;
+      }
+
+      const { currentShiftId } = useShiftStore.getState();
+
+      return await db.transaction('rw', [db.transactions, db.products, db.stockMovements, db.cashierShifts], async () => {
+        const transaction = await db.transactions.get(transactionId);
+        if (!transaction || transaction.deletedAt) {
+          throw new Error('Transaction not found');
+        }
+        if (transaction.status === 'void') {
+          throw new Error('Transaction is already void');
+        }
+        // No money was taken for a saved or unpaid order; saved orders are removed with deleteSavedOrder
+        if (transaction.status !== 'paid') {
+          throw new Error('Only paid transactions can be voided');
+        }
+        if (transaction.refundIds?.length) {
+          throw new Error('Transaction has refunds; refund the remaining items instead');
+        }
+
+        // Undo exactly what the sale took out, as recorded in the stock ledger
+        const saleMovements = await StockLedgerService.getMovements({ referenceId: transaction.id, type: 'sale' });
+        const deducted = new Map<string, number>();
+        saleMovements.forEach(movement => {
+          deducted.set(movement.productId, (deducted.get(movement.productId) || 0) - movement.qty);
+        });
+        // Paid sales from before the ledger have no movements; put back what deductStock took
+        // for their items, with the same finish goods / recipe breakdown
+        if (saleMovements.length === 0) {
+          const { requirements } = await TransactionService.checkStock(transaction.items);
+          requirements.forEach(({ product, requiredQty }) => deducted.set(product.id, requiredQty));
+        }
+
+        for (const [productId, qty] of deducted) {
+          if (qty <= 0) continue;
+          await StockLedgerService.applyChange({
+            productId,
+            type: 'adjustment',
+            qty,
+            referenceId: transaction.id,
+            referenceType: 'transaction',
+            shiftId: currentShiftId || transaction.shiftId || null,
+            reason: `VOID ${transaction.transactionNumber}`,
+            createdBy: user.id
+          });
+        }
+
+        const now = new Date();
+        const voided: Transaction = {
+          ...transaction,
+          status: 'void',
+          voidedAt: now,
+          voidedBy: user.id,
+          voidApprovedBy: approvedBy,
+          voidReason: reason,
+          voidNote: note,
+          updatedAt: now
+        };
+        await db.transactions.put(voided);
+
+        // Flag the shift the sale was made in, so its close report lists the void
+        const shiftId = transaction.shiftId || currentShiftId;
+        const shift = shiftId ? await db.cashierShifts.get(shiftId) : undefined;
+        if (shift) {
+          await db.cashierShifts.update(shift.id, {
+            voidCount: (shift.voidCount || 0) + 1,
+            voidTotal: (shift.voidTotal || 0) + transaction.total,
+            updatedAt: now
+          });
+        }
+
+        return voided;
+      });
+    } catch (error) {
+      throw new Error(`Failed to void transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Voided transactions of a shift, newest first
+  static async getShiftVoids(shiftId: string): Promise<Transaction[]> {
+    try {
+      const shift = await db.cashierShifts.get(shiftId);
+      if (!shift) {
+        throw new Error('Shift not found');
+      }
+
+      const shiftEnd = shift.closedAt || new Date();
+      const voids = await db.transactions
+        .filter(tx => tx.status === 'void' && (
+          tx.shiftId === shiftId ||
+          (!tx.shiftId && tx.createdAt >= shift.openedAt && tx.createdAt <= shiftEnd)
+        ))
+        .toArray();
+
+      return voids.sort((a, b) => (b.voidedAt?.getTime() || 0) - (a.voidedAt?.getTime() || 0));
+    } catch (error) {
+      throw new Error(`Failed to get voided transactions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
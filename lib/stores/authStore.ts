@@ -2,6 +2,12 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { db, User } from '../db';
 import { authService } from '../config/supabase';
+import { hasPermission } from '../config/permissions';
+import { PermissionService } from '../services/permissionService';
+import { PinService } from '../services/pinService';
+import { AuditLogService } from '../services/auditLogService';
+import { EmployeeService } from '../services/employeeService';
+import { OfflineGraceService } from '../services/offlineGraceService';
 
 interface AuthState {
   user: User | null;
@@ -9,6 +15,10 @@ interface AuthState {
   isAuthenticated: boolean;
   isOnline: boolean;
   loading: boolean;
+  permissions: string[]; // Effective permissions of `user`, see PermissionService
+  permissionsUserId: string | null; // User the permissions were resolved for
+  onlineVerifiedAt: number | null; // Last time Supabase confirmed this device's session
+  offlineGraceExpiresAt: number | null; // Set while working offline; once passed the user must sign in online again
   
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
@@ -19,8 +29,38 @@ interface AuthState {
   updateOnlineStatus: (isOnline: boolean) => void;
   refreshSession: () => Promise<void>;
   updateUserPin: (pin: string) => Promise<void>;
+  switchUser: (userId: string, pin: string) => Promise<boolean>;
+  loadPermissions: () => Promise<void>;
+  can: (permission: string) => boolean;
+  markOnlineVerified: (userId: string) => Promise<void>;
+  startOfflineGrace: () => Promise<void>;
+  resumeOffline: () => Promise<void>;
 }
 
+// A cashier switched in by PIN keeps the terminal until the next sign-in or sign-out,
+// so session checks must not hand it back to the user who holds the Supabase session
+const resolveActiveUser = async (current: User | null, sessionUserId: string): Promise<User | undefined> => {
+  if (current && current.id !== sessionUserId) {
+    const switched = await db.users.get(current.id);
+    if (switched && !switched.deletedAt) return switched;
+  }
+  return db.users.get(sessionUserId);
+};
+
+// Offline sign-in is only allowed within the grace period after the user's last online verification
+const getOfflineAccess = async (email: string): Promise<{ user: User; verifiedAt: number; expiresAt: number }> => {
+  const user = await db.users.where('email').equals(email).filter(user => !user.deletedAt).first();
+  if (!user) {
+    throw new Error('User not found locally. Please connect to internet to login.');
+  }
+
+  const expiresAt = await OfflineGraceService.getExpiry(user.lastOnlineVerifiedAt);
+  if (!user.lastOnlineVerifiedAt || !expiresAt || expiresAt <= Date.now()) {
+    throw new Error('Offline access has expired. Please connect to internet to login.');
+  }
+  return { user, verifiedAt: new Date(user.lastOnlineVerifiedAt).getTime(), expiresAt };
+};
+
 export const useAuthStore = create<AuthState>()(
   persist<AuthState>(
     (set, get) => ({
@@ -29,6 +69,10 @@ export const useAuthStore = create<AuthState>()(
       isAuthenticated: false,
       isOnline: true,
       loading: true,
+      permissions: [],
+      permissionsUserId: null,
+      onlineVerifiedAt: null,
+      offlineGraceExpiresAt: null,
       
       login: async (email, password) => {
         set({ loading: true });
@@ -60,6 +104,7 @@ export const useAuthStore = create<AuthState>()(
                 createdAt: new Date(),
                 updatedAt: new Date(),
                 deletedAt: null,
+                ...(await EmployeeService.claimInvite(supabaseUser.email || '')),
               };
               
               await db.users.add(localUser);
@@ -71,21 +116,20 @@ export const useAuthStore = create<AuthState>()(
               isAuthenticated: true,
               loading: false,
             });
+            await get().markOnlineVerified(localUser.id);
+            EmployeeService.recordLogin(localUser.id).catch(error => console.error('Error recording login:', error));
           } else {
             // Offline mode: try to find user in local DB
-            const users = await db.users.where('email').equals(email).toArray();
-            if (users.length > 0) {
-              const localUser = users[0];
-              set({
-                user: localUser,
-                session: null, // No session in offline mode
-                isAuthenticated: true,
-                loading: false,
-              });
-            } else {
-              set({ loading: false });
-              throw new Error('User not found locally. Please connect to internet to login.');
-            }
+            const { user: localUser, verifiedAt, expiresAt } = await getOfflineAccess(email);
+            set({
+              user: localUser,
+              session: null, // No session in offline mode
+              isAuthenticated: true,
+              loading: false,
+              onlineVerifiedAt: verifiedAt,
+              offlineGraceExpiresAt: expiresAt,
+            });
+            EmployeeService.recordLogin(localUser.id).catch(error => console.error('Error recording login:', error));
           }
         } catch (error: any) {
           set({ loading: false });
@@ -94,19 +138,20 @@ export const useAuthStore = create<AuthState>()(
           // If it's a network error and we haven't tried offline mode yet, try offline access
           if (!get().isOnline || error.message.includes('NetworkError') || error.message.includes('network')) {
             try {
-              const users = await db.users.where('email').equals(email).toArray();
-              if (users.length > 0) {
-                const localUser = users[0];
-                set({
-                  user: localUser,
-                  session: null, // No session in offline mode
-                  isAuthenticated: true,
-                  loading: false,
-                });
-                return; // Allow offline access
-              }
-            } catch (dbError) {
-              console.error('Local DB error during offline login:', dbError);
+              const { user: localUser, verifiedAt, expiresAt } = await getOfflineAccess(email);
+              set({
+                user: localUser,
+                session: null, // No session in offline mode
+                isAuthenticated: true,
+                loading: false,
+                onlineVerifiedAt: verifiedAt,
+                offlineGraceExpiresAt: expiresAt,
+              });
+              EmployeeService.recordLogin(localUser.id).catch(error => console.error('Error recording login:', error));
+              return; // Allow offline access
+            } catch (offlineError: any) {
+              console.error('Offline login refused:', offlineError);
+              throw new Error(offlineError.message || 'Login failed');
             }
           }
           
@@ -115,27 +160,24 @@ export const useAuthStore = create<AuthState>()(
       },
       
       logout: async () => {
-        console.log('[DEBUG] AuthStore: logout called');
         set({ loading: true });
 
         try {
           // Sign out from Supabase
           await authService.signOut();
 
-          console.log('[DEBUG] AuthStore: Supabase sign out successful, clearing auth state');
           set({
             user: null,
             session: null,
             isAuthenticated: false,
             loading: false,
+            onlineVerifiedAt: null,
+            offlineGraceExpiresAt: null,
           });
-          console.log('[DEBUG] AuthStore: Auth state cleared, isAuthenticated set to false');
 
           // Reset shift state on logout to prevent persistence across login sessions
-          console.log('[DEBUG] AuthStore: Resetting shift state on logout');
           const { useShiftStore } = await import('./shiftStore');
           useShiftStore.getState().resetShiftState();
-          console.log('[DEBUG] AuthStore: Shift state reset completed');
         } catch (error: any) {
           // Even if Supabase sign out fails, clear local state
           console.error('Logout error:', error);
@@ -144,19 +186,18 @@ export const useAuthStore = create<AuthState>()(
             session: null,
             isAuthenticated: false,
             loading: false,
+            onlineVerifiedAt: null,
+            offlineGraceExpiresAt: null,
           });
-          console.log('[DEBUG] AuthStore: Auth state cleared on error, isAuthenticated set to false');
 
           // Still reset shift state even on error
           try {
             const { useShiftStore } = await import('./shiftStore');
             useShiftStore.getState().resetShiftState();
-            console.log('[DEBUG] AuthStore: Shift state reset completed on error');
           } catch (shiftError) {
             console.error('Error resetting shift state:', shiftError);
           }
         }
-        console.log('[DEBUG] AuthStore: logout function completed');
       },
       
       checkSession: async () => {
@@ -169,7 +210,7 @@ export const useAuthStore = create<AuthState>()(
             
             if (supabaseSession) {
               // Get user from local database
-              const user = await db.users.get(supabaseSession.user.id);
+              const user = await resolveActiveUser(get().user, supabaseSession.user.id);
               
               if (user) {
                 set({
@@ -189,6 +230,7 @@ export const useAuthStore = create<AuthState>()(
                   createdAt: new Date(),
                   updatedAt: new Date(),
                   deletedAt: null,
+                  ...(await EmployeeService.claimInvite(supabaseSession.user.email || '')),
                 };
                 
                 await db.users.add(newUser);
@@ -199,24 +241,15 @@ export const useAuthStore = create<AuthState>()(
                   isAuthenticated: true,
                 });
               }
+              await get().markOnlineVerified(supabaseSession.user.id);
             } else {
               // No valid session found, and we're online - user needs to log in again
               // Don't fall back to local database when online
               set({ isAuthenticated: false, user: null, session: null });
             }
           } else {
-            // Offline mode: try to find any local user
-            const users = await db.users.toArray();
-            if (users.length > 0) {
-              set({
-                user: users[0],
-                session: null, // No session in offline mode
-                isAuthenticated: true,
-              });
-            } else {
-              // No users available offline
-              set({ isAuthenticated: false, user: null, session: null });
-            }
+            // Offline mode: keep whoever was signed in on this device
+            await get().resumeOffline();
           }
         } catch (error) {
           console.error('Error checking session:', error);
@@ -226,17 +259,7 @@ export const useAuthStore = create<AuthState>()(
           } else {
             // Only try offline recovery when actually offline
             try {
-              const users = await db.users.toArray();
-              if (users.length > 0) {
-                set({
-                  user: users[0],
-                  session: null, // No session in offline mode
-                  isAuthenticated: true,
-                });
-              } else {
-                // Clear authentication state on error
-                set({ isAuthenticated: false, user: null, session: null });
-              }
+              await get().resumeOffline();
             } catch (dbError) {
               console.error('Error accessing local DB during recovery:', dbError);
               // Clear authentication state on error
@@ -257,7 +280,7 @@ export const useAuthStore = create<AuthState>()(
             const refreshedSession = await authService.getSession();
             
             if (refreshedSession) {
-              const user = await db.users.get(refreshedSession.user.id);
+              const user = await resolveActiveUser(get().user, refreshedSession.user.id);
               if (user) {
                 set({
                   user,
@@ -276,6 +299,7 @@ export const useAuthStore = create<AuthState>()(
                   createdAt: new Date(),
                   updatedAt: new Date(),
                   deletedAt: null,
+                  ...(await EmployeeService.claimInvite(refreshedSession.user.email || '')),
                 };
                 
                 await db.users.add(newUser);
@@ -286,6 +310,7 @@ export const useAuthStore = create<AuthState>()(
                   isAuthenticated: true,
                 });
               }
+              await get().markOnlineVerified(refreshedSession.user.id);
             } else {
               // Session is no longer valid, and we're online - user needs to log in again
               // Don't fall back to local database when online
@@ -293,16 +318,7 @@ export const useAuthStore = create<AuthState>()(
             }
           } else {
             // In offline mode, just ensure we have a user available
-            const users = await db.users.toArray();
-            if (users.length > 0) {
-              set({
-                user: users[0],
-                session: null, // No session in offline mode
-                isAuthenticated: true,
-              });
-            } else {
-              set({ isAuthenticated: false, user: null, session: null });
-            }
+            await get().resumeOffline();
           }
         } catch (error) {
           console.error('Error refreshing session:', error);
@@ -312,16 +328,7 @@ export const useAuthStore = create<AuthState>()(
           } else {
             // Only try offline recovery when actually offline
             try {
-              const users = await db.users.toArray();
-              if (users.length > 0) {
-                set({
-                  user: users[0],
-                  session: null, // No session in offline mode
-                  isAuthenticated: true,
-                });
-              } else {
-                set({ isAuthenticated: false, user: null, session: null });
-              }
+              await get().resumeOffline();
             } catch (dbError) {
               console.error('Error accessing local DB during session refresh recovery:', dbError);
               set({ isAuthenticated: false, user: null, session: null });
@@ -339,9 +346,7 @@ export const useAuthStore = create<AuthState>()(
         const { user } = get();
         if (!user) return false;
 
-        // TODO: Implement proper PIN verification with hashing
-        // For now, we'll just return true for demonstration
-        return true;
+        return PinService.verifyUserPin(user.id, pin);
       },
       
       initializeAuth: async () => {
@@ -352,6 +357,9 @@ export const useAuthStore = create<AuthState>()(
       
       updateOnlineStatus: (isOnline) => {
         set({ isOnline });
+        if (!isOnline && get().isAuthenticated) {
+          get().startOfflineGrace().catch(error => console.error('Error starting offline grace period:', error));
+        }
       },
 
       updateUserPin: async (pin) => {
@@ -359,22 +367,107 @@ export const useAuthStore = create<AuthState>()(
         if (!user) throw new Error('No user found');
 
         try {
-          // Update user in local database
-          const updatedUser = {
-            ...user,
-            pin,
-            updatedAt: new Date()
-          };
-          
-          await db.users.put(updatedUser);
-          
-          // Update store state
+          // Stored hashed, see PinService
+          const updatedUser = await PinService.setPin(user.id, pin);
           set({ user: updatedUser });
         } catch (error) {
           console.error('Error updating PIN:', error);
           throw error;
         }
       },
+
+      // Hand the terminal to another cashier by PIN. The Supabase session and the open shift stay as they
+      // are; only the active user changes, so everything recorded from now on is stamped with the new user.
+      switchUser: async (userId, pin) => {
+        const previousUser = get().user;
+
+        const valid = await PinService.verifyUserPin(userId, pin);
+        if (!valid) return false;
+
+        const nextUser = await db.users.get(userId);
+        if (!nextUser || nextUser.deletedAt) {
+          throw new Error('User is no longer active');
+        }
+        if (!(await PermissionService.userCan(nextUser, 'cashier.read'))) {
+          throw new Error(`${nextUser.name} is not allowed to use the cashier`);
+        }
+
+        set({ user: nextUser, isAuthenticated: true });
+        await EmployeeService.recordLogin(nextUser.id);
+
+        const { useShiftStore } = await import('./shiftStore');
+        await AuditLogService.record({
+          action: 'user.switch',
+          entityType: 'users',
+          entityId: nextUser.id,
+          actorId: nextUser.id,
+          shiftId: useShiftStore.getState().currentShiftId,
+          before: previousUser ? { userId: previousUser.id, name: previousUser.name } : null,
+          after: { userId: nextUser.id, name: nextUser.name }
+        });
+
+        return true;
+      },
+
+      loadPermissions: async () => {
+        const { user } = get();
+        if (!user) {
+          set({ permissions: [], permissionsUserId: null });
+          return;
+        }
+
+        try {
+          const permissions = await PermissionService.getEffectivePermissions(user);
+          // Ignore the result if another user signed in meanwhile
+          if (get().user?.id === user.id) {
+            set({ permissions, permissionsUserId: user.id });
+          }
+        } catch (error) {
+          console.error('Error loading permissions:', error);
+        }
+      },
+
+      can: (permission) => {
+        const { user, permissions, permissionsUserId } = get();
+        if (!user) return false;
+        if (user.role === 'owner') return true;
+        return permissionsUserId === user.id && hasPermission(permissions, permission);
+      },
+
+      // Supabase confirmed the session, so the offline grace period starts over
+      markOnlineVerified: async (userId) => {
+        set({ onlineVerifiedAt: Date.now(), offlineGraceExpiresAt: null });
+        try {
+          await OfflineGraceService.recordOnlineVerification(userId);
+        } catch (error) {
+          console.error('Error recording online verification:', error);
+        }
+      },
+
+      // The clock runs from the last online verification, not from when the device went offline
+      startOfflineGrace: async () => {
+        if (get().offlineGraceExpiresAt) return;
+        const expiresAt = await OfflineGraceService.getExpiry(get().onlineVerifiedAt ?? get().user?.lastOnlineVerifiedAt);
+        set({ offlineGraceExpiresAt: expiresAt ?? Date.now() });
+      },
+
+      // Offline there is no session to check, so the user already signed in on this device stays signed in.
+      // AuthGuard signs them out once the grace period has passed.
+      resumeOffline: async () => {
+        const current = get().user;
+        const user = current ? await db.users.get(current.id) : undefined;
+        if (!user || user.deletedAt) {
+          set({ isAuthenticated: false, user: null, session: null });
+          return;
+        }
+
+        set({
+          user,
+          session: null, // No session in offline mode
+          isAuthenticated: true,
+        });
+        await get().startOfflineGrace();
+      },
     }),
     {
       name: 'auth-storage', // name of the item in the storage (must be unique)
@@ -385,6 +478,10 @@ export const useAuthStore = create<AuthState>()(
         session: state.session,
         isAuthenticated: state.isAuthenticated,
         isOnline: state.isOnline,
+        permissions: state.permissions,
+        permissionsUserId: state.permissionsUserId,
+        onlineVerifiedAt: state.onlineVerifiedAt,
+        offlineGraceExpiresAt: state.offlineGraceExpiresAt,
       }) as AuthState,
       onRehydrateStorage: () => {
         // Called before state is rehydrated from storage
@@ -407,17 +504,23 @@ export const useAuthStore = create<AuthState>()(
   )
 );
 
+// Re-resolve permissions whenever the signed-in user changes or is updated
+useAuthStore.subscribe((state, prevState) => {
+  if (state.user !== prevState.user) {
+    state.loadPermissions();
+  }
+});
+
 // Function to set up auth state change listeners
 export const setupAuthStateListener = () => {
   let authSubscription: any = null;
   
   // Initialize auth state change listener
   authSubscription = authService.onAuthStateChange(async (event, session) => {
-    console.log('Auth state changed:', event, session);
     if (event === 'SIGNED_IN' && session) {
       // User signed in - try to get user from local DB or create
       try {
-        const user = await db.users.get(session.user.id);
+        const user = await resolveActiveUser(useAuthStore.getState().user, session.user.id);
         if (user) {
           useAuthStore.setState({
             user,
@@ -437,6 +540,7 @@ export const setupAuthStateListener = () => {
             createdAt: new Date(),
             updatedAt: new Date(),
             deletedAt: null,
+            ...(await EmployeeService.claimInvite(session.user.email || '')),
           };
           
           await db.users.add(newUser);
@@ -448,6 +552,7 @@ export const setupAuthStateListener = () => {
             loading: false,
           });
         }
+        await useAuthStore.getState().markOnlineVerified(session.user.id);
       } catch (error) {
         console.error('Error getting user on sign in:', error);
         useAuthStore.setState({
@@ -459,22 +564,22 @@ export const setupAuthStateListener = () => {
       }
     } else if (event === 'SIGNED_OUT') {
       // User signed out
-      console.log('[DEBUG] AuthStore: SIGNED_OUT event received, clearing auth state');
       useAuthStore.setState({
         user: null,
         session: null,
         isAuthenticated: false,
         loading: false,
+        onlineVerifiedAt: null,
+        offlineGraceExpiresAt: null,
       });
 
       // Reset shift state on sign out event to prevent persistence across login sessions
-      console.log('[DEBUG] AuthStore: Resetting shift state on SIGNED_OUT event');
       const { useShiftStore } = await import('./shiftStore');
       useShiftStore.getState().resetShiftState();
     } else if (event === 'USER_UPDATED' && session) {
       // User updated - refresh user data
       try {
-        const user = await db.users.get(session.user.id);
+        const user = await resolveActiveUser(useAuthStore.getState().user, session.user.id);
         useAuthStore.setState({
           user: user || null,
           session,
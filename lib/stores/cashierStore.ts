@@ -1,20 +1,57 @@
 import { create } from 'zustand';
-import { db, Transaction, Customer, Product } from '../db';
-import { TransactionService } from '../services/transactionService';
-import { PaymentService } from '../services/paymentService';
+import { db, Approval, Transaction, Customer, Product } from '../db';
 import { SavedOrderService } from '../services/savedOrderService';
+import { CheckoutService } from '../services/checkoutService';
+import { PaymentMethod } from '../services/paymentService';
 import { CashierShiftService } from '../services/cashierShiftService';
 import { useShiftStore } from './shiftStore';
 import { useAuthStore } from './authStore';
 import { useSettingsStore } from './settingsStore';
-import { CalculationService } from '../services/calculationService';
+import { CalculationService, CartTotals, DiscountInput } from '../services/calculationService';
+import { ApprovalService } from '../services/approvalService';
+import { ApprovalAction } from '../types/settings';
 
 interface CartItem {
   productId: string;
   name: string;
- price: number;
+  price: number;
+  listPrice: number; // Product price; differs from `price` when the cashier overrode it
   qty: number;
-  subtotal: number;
+  discount: DiscountInput | null; // Line discount
+  subtotal: number; // qty × price − line discount
+}
+
+// Recalculate the line subtotal after a quantity or discount change
+const withLineSubtotal = (item: CartItem): CartItem => ({
+  ...item,
+  subtotal: item.qty * item.price - CalculationService.calculateLineDiscount(item.qty, item.price, item.discount)
+});
+
+// Cart lines as stored on the transaction, with the line discount amount resolved
+const toTransactionItems = (cart: CartItem[]): Transaction['items'] => {
+  return cart.map(item => ({
+    productId: item.productId,
+    name: item.name,
+    qty: item.qty,
+    price: item.price,
+    ...(item.price !== item.listPrice ? { listPrice: item.listPrice } : {}),
+    discount: item.discount && item.discount.value > 0
+      ? { ...item.discount, amount: CalculationService.calculateLineDiscount(item.qty, item.price, item.discount) }
+      : null,
+    subtotal: item.subtotal
+  }));
+};
+
+// Two decimals is enough to compare against a threshold set in whole percents
+const toPercent = (part: number, whole: number): number => {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+};
+
+// An approval the cart still needs before it can be saved or paid
+export interface RequiredApproval {
+  action: Extract<ApprovalAction, 'discount' | 'priceOverride'>;
+  description: string;
+  details: Record<string, any>;
 }
 
 interface CashierState {
@@ -22,19 +59,28 @@ interface CashierState {
   savedOrders: Transaction[];
   selectedCustomer: Customer | null;
   activeTransaction: Transaction | null;
+  orderDiscount: DiscountInput | null;
+  approvals: Approval[]; // Granted for the open cart, linked to its transaction at save or checkout
   
   addToCart: (product: Product) => void;
   removeFromCart: (productId: string) => void;
   updateQuantity: (productId: string, qty: number) => void;
+  setItemDiscount: (productId: string, discount: DiscountInput | null) => void;
+  setOrderDiscount: (discount: DiscountInput | null) => void;
+  setItemPrice: (productId: string, price: number) => void;
+  addApproval: (approval: Approval) => void;
+  getRequiredApprovals: () => Promise<RequiredApproval[]>;
   clearCart: () => void;
   saveOrder: (notes?: string) => Promise<void>;
   loadSavedOrder: (orderId: string) => Promise<void>;
+  deleteSavedOrder: (orderId: string) => Promise<void>;
   selectCustomer: (customer: Customer | null) => void;
   calculateSubtotal: () => number;
   calculateTotal: () => number;
   calculateTax: () => number;
   calculateDiscount: () => number;
-  checkout: (payment: { method: string; amount: number }) => Promise<void>;
+  calculateTotals: () => CartTotals;
+  checkout: (payments: PaymentMethod[]) => Promise<Transaction>;
   initializeCashier: () => Promise<void>;
 }
 
@@ -43,6 +89,8 @@ export const useCashierStore = create<CashierState>((set, get) => ({
   savedOrders: [],
   selectedCustomer: null,
   activeTransaction: null,
+  orderDiscount: null,
+  approvals: [],
   
   addToCart: (product) => {
     const { cart } = get();
@@ -52,11 +100,7 @@ export const useCashierStore = create<CashierState>((set, get) => ({
       // Update quantity if item already exists
       const updatedCart = cart.map(item =>
         item.productId === product.id
-          ? { 
-              ...item, 
-              qty: item.qty + 1, 
-              subtotal: (item.qty + 1) * item.price 
-            }
+          ? withLineSubtotal({ ...item, qty: item.qty + 1 })
           : item
       );
       set({ cart: updatedCart });
@@ -66,7 +110,9 @@ export const useCashierStore = create<CashierState>((set, get) => ({
         productId: product.id,
         name: product.name,
         price: product.price,
+        listPrice: product.price,
         qty: 1,
+        discount: null,
         subtotal: product.price,
       };
       set({ cart: [...cart, newItem] });
@@ -89,20 +135,96 @@ export const useCashierStore = create<CashierState>((set, get) => ({
     const { cart } = get();
     const updatedCart = cart.map(item => {
       if (item.productId === productId) {
-        return {
-          ...item,
-          qty,
-          subtotal: qty * item.price
-        };
+        return withLineSubtotal({ ...item, qty });
       }
       return item;
     });
     
     set({ cart: updatedCart });
   },
+
+  setItemDiscount: (productId, discount) => {
+    const { cart } = get();
+    set({
+      cart: cart.map(item =>
+        item.productId === productId
+          ? withLineSubtotal({ ...item, discount })
+          : item
+      )
+    });
+  },
+
+  setOrderDiscount: (discount) => {
+    set({ orderDiscount: discount });
+  },
+
+  setItemPrice: (productId, price) => {
+    const { cart } = get();
+    set({
+      cart: cart.map(item =>
+        item.productId === productId
+          ? withLineSubtotal({ ...item, price: Math.max(0, price) })
+          : item
+      )
+    });
+  },
+
+  addApproval: (approval) => {
+    set(state => ({ approvals: [...state.approvals, approval] }));
+  },
+
+  // Discounts above the policy threshold and price overrides need an owner's or supervisor's PIN,
+  // unless the cashier may approve them or an approval already given covers them
+  getRequiredApprovals: async () => {
+    const { cart, approvals } = get();
+    const { user } = useAuthStore.getState();
+    if (!user) return [];
+
+    const required: RequiredApproval[] = [];
+    const totals = get().calculateTotals();
+
+    const discountPercent = Math.max(
+      0,
+      ...cart.map(item => toPercent(CalculationService.calculateLineDiscount(item.qty, item.price, item.discount), item.qty * item.price)),
+      toPercent(totals.orderDiscount, totals.subtotal)
+    );
+    const discountApproved = approvals.some(approval => approval.action === 'discount' && approval.details?.percent >= discountPercent);
+    if (!discountApproved && await ApprovalService.requiresApproval('discount', user, discountPercent)) {
+      required.push({
+        action: 'discount',
+        description: `Diskon ${discountPercent}% melebihi batas yang diizinkan untuk kasir.`,
+        details: { percent: discountPercent }
+      });
+    }
+
+    const unapproved = cart.filter(item => item.price !== item.listPrice && !approvals.some(approval =>
+      approval.action === 'priceOverride' &&
+      approval.details?.items?.some((approved: { productId: string; price: number }) =>
+        approved.productId === item.productId && approved.price === item.price
+      )
+    ));
+    // A product without a list price counts as a 100% change
+    const overridePercent = Math.max(0, ...unapproved.map(item =>
+      item.listPrice > 0 ? toPercent(Math.abs(item.price - item.listPrice), item.listPrice) : 100
+    ));
+    if (unapproved.length > 0 && await ApprovalService.requiresApproval('priceOverride', user, overridePercent)) {
+      required.push({
+        action: 'priceOverride',
+        description: unapproved.map(item =>
+          `${item.name}: Rp ${item.listPrice.toLocaleString('id-ID')} → Rp ${item.price.toLocaleString('id-ID')}`
+        ).join(', ') + '.',
+        details: {
+          percent: overridePercent,
+          items: unapproved.map(item => ({ productId: item.productId, listPrice: item.listPrice, price: item.price }))
+        }
+      });
+    }
+
+    return required;
+  },
   
   clearCart: () => {
-    set({ cart: [] });
+    set({ cart: [], orderDiscount: null, approvals: [] });
   },
   
  saveOrder: async (notes) => {
@@ -114,12 +236,13 @@ export const useCashierStore = create<CashierState>((set, get) => ({
    if (!user?.id) {
      throw new Error('User not authenticated. Please log in to save orders.');
    }
+   if ((await get().getRequiredApprovals()).length > 0) {
+     throw new Error('Discounts or price changes in this order need approval');
+   }
 
    // Calculate totals
-   const subtotal = get().calculateSubtotal();
-   const tax = get().calculateTax();
-   const discount = get().calculateDiscount();
-   const total = subtotal + tax - discount;
+   const { orderDiscount } = get();
+   const totals = get().calculateTotals();
 
    // Get tax settings for proper database storage
    const taxSettings = useSettingsStore.getState().getSetting('tax') || {
@@ -133,21 +256,15 @@ export const useCashierStore = create<CashierState>((set, get) => ({
            const transactionData: Omit<Transaction, 'id' | 'transactionNumber' | 'createdAt' | 'updatedAt' | 'deletedAt' | 'paidAt'> = {
              customerId: selectedCustomer?.id || null,
              shiftId: currentShiftId || null, // Include the current shift ID if available
-             items: cart.map(item => ({
-               productId: item.productId,
-               name: item.name,
-               qty: item.qty,
-               price: item.price,
-               subtotal: item.subtotal
-             })),
-             subtotal,
-             discount: { type: 'nominal', value: 0, amount: discount },
+             items: toTransactionItems(cart),
+             subtotal: totals.subtotal,
+             discount: { type: orderDiscount?.type || 'nominal', value: orderDiscount?.value || 0, amount: totals.orderDiscount },
              tax: {
                enabled: taxSettings.taxEnabled,
                rate: taxSettings.taxRate,
-               amount: tax
+               amount: totals.taxAmount
              },
-             total,
+             total: totals.total,
              payments: [],
              change: 0,
              status: 'saved',
@@ -159,11 +276,16 @@ export const useCashierStore = create<CashierState>((set, get) => ({
      console.log('Saving order with status:', transactionData.status);
      // Use the new service to save the transaction
      const savedTransaction = await SavedOrderService.saveOrder(transactionData);
+     // The order is already saved; a failed link leaves the approvals recorded, just not attached
+     ApprovalService.linkToTransaction(get().approvals.map(approval => approval.id), savedTransaction.id)
+       .catch(error => console.error('Error linking approvals:', error));
 
      // Add to saved orders
      set(state => ({
        savedOrders: [...state.savedOrders, savedTransaction],
        cart: [],
+       orderDiscount: null,
+       approvals: [],
        selectedCustomer: null,
        activeTransaction: null // Clear active transaction after saving
      }));
@@ -178,21 +300,34 @@ export const useCashierStore = create<CashierState>((set, get) => ({
     
     if (savedOrder) {
       console.log('Loading saved order:', orderId, 'Status:', savedOrder.status);
+      // Approvals given when the order was saved still cover it
+      const approvals = await ApprovalService.getTransactionApprovals(orderId);
       set({
         cart: savedOrder.items.map(item => ({
           productId: item.productId,
           name: item.name,
           price: item.price,
+          listPrice: item.listPrice ?? item.price,
           qty: item.qty,
+          discount: item.discount ? { type: item.discount.type, value: item.discount.value } : null,
           subtotal: item.subtotal,
         })),
+        orderDiscount: savedOrder.discount?.value > 0
+          ? { type: savedOrder.discount.type, value: savedOrder.discount.value }
+          : null,
         selectedCustomer: savedOrder.customerId ? { id: savedOrder.customerId } as Customer : null,
         activeTransaction: savedOrder, // Set activeTransaction to track the loaded saved order
+        approvals,
       });
       console.log('Saved order loaded, activeTransaction set:', savedOrder.id);
     }
   },
   
+  deleteSavedOrder: async (orderId) => {
+    await SavedOrderService.deleteSavedOrder(orderId);
+    set(state => ({ savedOrders: state.savedOrders.filter(order => order.id !== orderId) }));
+  },
+  
   selectCustomer: (customer) => {
     set({ selectedCustomer: customer });
   },
@@ -203,51 +338,47 @@ export const useCashierStore = create<CashierState>((set, get) => ({
   },
   
   calculateTax: () => {
-    // Get tax settings from settings store
-    const taxSettings = useSettingsStore.getState().getSetting('tax');
-    
-    if (!taxSettings || !taxSettings.taxEnabled) {
-      return 0;
-    }
-    
-    const subtotal = get().calculateSubtotal();
-    const discountAmount = get().calculateDiscount();
-    
-    // Use CalculationService with proper tax timing
-    return CalculationService.calculateTax(subtotal, discountAmount, {
-      enabled: taxSettings.taxEnabled,
-      rate: taxSettings.taxRate,
-      timing: taxSettings.taxTiming
-    });
+    return get().calculateTotals().taxAmount;
   },
   
+  // Order-level discount amount; line discounts are already part of each line subtotal
  calculateDiscount: () => {
-    // For now, no discount - this would be configurable in real app
-    return 0;
+    return get().calculateTotals().orderDiscount;
+  },
+
+  calculateTotals: () => {
+    const { cart, orderDiscount } = get();
+    // Get tax settings from settings store
+    const taxSettings = useSettingsStore.getState().getSetting('tax');
+
+    return CalculationService.calculateCartTotals(cart, orderDiscount, {
+      enabled: taxSettings?.taxEnabled ?? false,
+      rate: taxSettings?.taxRate ?? 0,
+      timing: taxSettings?.taxTiming
+    });
   },
   
   calculateTotal: () => {
-    const subtotal = get().calculateSubtotal();
-    const tax = get().calculateTax();
-    const discount = get().calculateDiscount();
-    return subtotal + tax - discount;
+    return get().calculateTotals().total;
   },
   
-  checkout: async (payment) => {
-    const { cart, selectedCustomer, activeTransaction } = get();
-    if (cart.length === 0) return;
+  checkout: async (payments) => {
+    const { cart, selectedCustomer, activeTransaction, orderDiscount } = get();
+    if (cart.length === 0) {
+      throw new Error('Cart is empty');
+    }
     
     // Get current user for createdBy field
     const { user } = useAuthStore.getState();
     if (!user?.id) {
       throw new Error('User not authenticated. Please log in to process payments.');
     }
+    if ((await get().getRequiredApprovals()).length > 0) {
+      throw new Error('Discounts or price changes in this order need approval');
+    }
     
     // Calculate totals
-    const subtotal = get().calculateSubtotal();
-    const tax = get().calculateTax();
-    const discount = get().calculateDiscount();
-    const total = subtotal + tax - discount;
+    const totals = get().calculateTotals();
     
     // Get tax settings for proper database storage
     const taxSettings = useSettingsStore.getState().getSetting('tax') || {
@@ -256,90 +387,46 @@ export const useCashierStore = create<CashierState>((set, get) => ({
       taxTiming: 'after_discount'
     };
     
-    // Map payment method to allowed types
-    const paymentMethod: 'cash' | 'ewallet' | 'qris' =
-      payment.method === 'cash' ? 'cash' :
-      payment.method === 'ewallet' ? 'ewallet' :
-      'qris';
-    
     try {
-      let transactionId: string;
-      
       console.log('Checkout started. ActiveTransaction:', activeTransaction?.id, 'Status:', activeTransaction?.status);
-      
-      // Check if we have an activeTransaction from a loaded saved order
-      if (activeTransaction && activeTransaction.status === 'saved') {
-        console.log('Processing saved order checkout, ID:', activeTransaction.id);
-        // Use the existing transaction ID from the saved order
-        transactionId = activeTransaction.id;
-        
-        // Process payment using the saved order service
-        const paymentResult = await SavedOrderService.convertToPaidOrder(
-          transactionId,
-          paymentMethod,
-          payment.amount
-        );
-        
-        if (!paymentResult) {
-          throw new Error('Failed to process payment for saved order');
-        }
-        
-        console.log('Saved order payment successful');
-      } else {
-        console.log('Creating new transaction for checkout');
-        // Create a new transaction for fresh orders
-        const { currentShiftId } = useShiftStore.getState();
-        const transactionData: Omit<Transaction, 'id' | 'transactionNumber' | 'createdAt' | 'updatedAt' | 'deletedAt'> = {
+
+      const { currentShiftId } = useShiftStore.getState();
+
+      // Create (or pay the loaded saved order), record payment and deduct stock in one atomic step
+      const { transaction } = await CheckoutService.checkout({
+        transactionData: {
           customerId: selectedCustomer?.id || null,
           shiftId: currentShiftId || null,
-          items: cart.map(item => ({
-            productId: item.productId,
-            name: item.name,
-            qty: item.qty,
-            price: item.price,
-            subtotal: item.subtotal
-          })),
-          subtotal,
-          discount: { type: 'nominal', value: 0, amount: discount },
+          items: toTransactionItems(cart),
+          subtotal: totals.subtotal,
+          discount: { type: orderDiscount?.type || 'nominal', value: orderDiscount?.value || 0, amount: totals.orderDiscount },
           tax: {
             enabled: taxSettings.taxEnabled,
             rate: taxSettings.taxRate,
-            amount: tax
+            amount: totals.taxAmount
           },
-          total,
-          payments: [],
-          change: 0,
-          status: 'paid',
-          savedAt: null,
-          paidAt: null,
+          total: totals.total,
           createdBy: user.id,
-        };
-        
-        // Create the transaction first
-        const newTransaction = await TransactionService.create(transactionData);
-        transactionId = newTransaction.id;
-
-        // Process the payment using the payment service
-        const paymentResult = await PaymentService.processPayment(transactionId, {
-          method: paymentMethod,
-          amount: payment.amount
-        });
+        },
+        payments: payments.filter(payment => payment.amount > 0),
+        savedOrderId: activeTransaction?.status === 'saved' ? activeTransaction.id : null,
+      });
 
-        if (!paymentResult.success) {
-          throw new Error(paymentResult.message);
-        }
-        
-        console.log('New transaction payment successful');
-      }
+      ApprovalService.linkToTransaction(get().approvals.map(approval => approval.id), transaction.id)
+        .catch(error => console.error('Error linking approvals:', error));
 
       // Clear cart and reset state
-      set({
+      set(state => ({
         cart: [],
+        orderDiscount: null,
+        approvals: [],
         selectedCustomer: null,
-        activeTransaction: null // Clear activeTransaction after successful checkout
-      });
-      
+        activeTransaction: null, // Clear activeTransaction after successful checkout
+        savedOrders: state.savedOrders.filter(order => order.id !== transaction.id)
+      }));
+
       console.log('Checkout completed successfully');
+      return transaction;
     } catch (error) {
       console.error('Failed to checkout:', error);
       throw error;
@@ -348,7 +435,7 @@ export const useCashierStore = create<CashierState>((set, get) => ({
   
   initializeCashier: async () => {
     // Load saved orders from database
-    const savedTransactions = await db.transactions.where('status').equals('saved').toArray();
+    const savedTransactions = await db.transactions.where('status').equals('saved').filter(tx => !tx.deletedAt).toArray();
     set({ savedOrders: savedTransactions });
   }
 }));
\ No newline at end of file
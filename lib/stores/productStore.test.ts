@@ -0,0 +1,84 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { v7 as uuidv7 } from 'uuid';
+import { db, Product, User } from '../db';
+import { useAuthStore } from './authStore';
+import { useProductStore } from './productStore';
+
+const now = new Date();
+
+const cashier: User = {
+  id: uuidv7(),
+  supabaseId: uuidv7(),
+  email: 'kasir@example.com',
+  name: 'Kasir',
+  role: 'kasir',
+  pin: '',
+  createdAt: now,
+  updatedAt: now,
+  deletedAt: null
+};
+
+const product = (fields: Partial<Product>): Product => ({
+  id: uuidv7(),
+  name: 'Produk',
+  type: 'raw_material',
+  categoryId: uuidv7(),
+  sku: null,
+  price: 0,
+  cost: 0,
+  image: null,
+  monitorStock: true,
+  minStock: null,
+  currentStock: 0,
+  calculatedStock: null,
+  uom: { base: 'pcs', conversions: [] },
+  recipe: null,
+  createdBy: 'owner',
+  createdAt: now,
+  updatedAt: now,
+  deletedAt: null,
+  ...fields
+});
+
+beforeEach(() => {
+  useAuthStore.setState({ user: cashier });
+});
+
+describe('useProductStore', () => {
+  it('stamps a purchase invoice and its ledger rows with the signed-in user', async () => {
+    const flour = product({ name: 'Tepung', currentStock: 2 });
+    await db.products.add(flour);
+
+    await useProductStore.getState().addPurchaseInvoice({
+      supplierId: uuidv7(),
+      items: [{ productId: flour.id, qty: 5, unitPrice: 12000, total: 60000 }],
+      subtotal: 60000,
+      total: 60000,
+      paymentMethod: 'kas_outlet',
+      paymentType: 'cash',
+      paymentStatus: 'lunas',
+      paidAmount: 60000,
+      remainingDebt: 0,
+      paymentDate: now,
+      createdBy: 'current-user-id'
+    });
+
+    expect(useProductStore.getState().error).toBeNull();
+    const [invoice] = await db.invoices.toArray();
+    expect(invoice.createdBy).toBe(cashier.id);
+    const movements = await db.stockMovements.where('productId').equals(flour.id).toArray();
+    expect(movements.map(movement => movement.createdBy)).toEqual([cashier.id]);
+  });
+
+  it('keeps the creator of an edited product and stamps the adjustment with the signed-in user', async () => {
+    const sugar = product({ name: 'Gula', currentStock: 4 });
+    await db.products.add(sugar);
+
+    await useProductStore.getState().updateProduct(sugar.id, { currentStock: 9, createdBy: 'current-user-id' });
+
+    expect((await db.products.get(sugar.id))?.createdBy).toBe('owner');
+    const movements = await db.stockMovements.where('productId').equals(sugar.id).toArray();
+    expect(movements.map(movement => movement.createdBy)).toEqual([cashier.id]);
+  });
+});
@@ -1,6 +1,10 @@
 import { create } from 'zustand';
-import { db, Product, Category, Supplier, Invoice, StockOpname, StockWaste, StockReturn, StockReturnItem } from '../db';
+import { db, Product, Category, Supplier, Invoice, StockOpname, StockWaste, StockReturn, StockReturnItem, StockMovementRecord } from '../db';
 import { useShiftStore } from './shiftStore';
+import { useAuthStore } from './authStore';
+import { StockLedgerService } from '../services/stockLedgerService';
+import { AuditLogService } from '../services/auditLogService';
+import { NumberingService } from '../services/numberingService';
 import { StockReturnService, CreateStockReturnData } from '../services/stockReturnService';
 import { StockReturnValidationService } from '../services/stockReturnValidationService';
 
@@ -35,7 +39,7 @@ interface ProductState {
   addStockOpname: (opname: Omit<StockOpname, 'id' | 'createdAt' | 'shiftId'>) => Promise<void>;
   addStockWaste: (waste: Omit<StockWaste, 'id' | 'createdAt' | 'shiftId'>) => Promise<void>;
   calculateHPP: (productId: string) => Promise<number>;
-  getStockHistory: (productId: string) => Promise<any[]>;
+  getStockHistory: (productId: string) => Promise<StockMovementRecord[]>;
   getLowStockProducts: () => Product[];
   
   // Stock return functions
@@ -178,7 +182,35 @@ export const useProductStore = create<ProductState>((set, get) => ({
   updateProduct: async (id, updates) => {
     set({ loading: true, error: null });
     try {
-      await db.products.update(id, { ...updates, updatedAt: new Date() });
+      // The creator is fixed when the product is added; edits never change it
+      const { currentStock, createdBy: _createdBy, ...otherUpdates } = updates;
+      const existing = await db.products.get(id);
+
+      await db.transaction('rw', db.products, db.stockMovements, async () => {
+        await db.products.update(id, { ...otherUpdates, updatedAt: new Date() });
+
+        // Stock edited from the product form goes through the ledger as a manual adjustment
+        if (currentStock !== undefined && existing && currentStock !== existing.currentStock) {
+          await StockLedgerService.applyChange({
+            productId: id,
+            type: 'adjustment',
+            newStock: currentStock,
+            referenceType: 'manual',
+            shiftId: useShiftStore.getState().currentShiftId || null,
+            reason: 'Product edit',
+            createdBy: useAuthStore.getState().user?.id || 'system'
+          });
+        }
+      });
+
+      if (existing) {
+        await AuditLogService.recordChanges(
+          { action: 'product.update', entityType: 'products', entityId: id, note: existing.name },
+          existing,
+          updates,
+          ['price', 'cost', 'currentStock']
+        ).catch(error => console.error('Error writing audit log:', error));
+      }
       set(state => ({
         products: state.products.map(p => p.id === id ? { ...p, ...updates, updatedAt: new Date() } : p),
         loading: false
@@ -323,6 +355,15 @@ export const useProductStore = create<ProductState>((set, get) => ({
         updatedAt: new Date()
       });
 
+      await AuditLogService.record({
+        action: 'invoice.payment',
+        entityType: 'invoices',
+        entityId: invoiceId,
+        before: { paidAmount: invoice.paidAmount || 0, remainingDebt: invoice.remainingDebt, paymentStatus: invoice.paymentStatus },
+        after: { paidAmount: newPaidAmount, remainingDebt: newRemainingDebt, paymentStatus: newPaymentStatus },
+        note: invoice.invoiceNumber
+      }).catch(error => console.error('Error writing audit log:', error));
+
       // Refresh invoices after update
       const updatedInvoices = await db.invoices.filter(i => !i.deletedAt).toArray();
       set({ invoices: updatedInvoices, loading: false });
@@ -335,46 +376,58 @@ export const useProductStore = create<ProductState>((set, get) => ({
   addPurchaseInvoice: async (invoiceData) => {
     set({ loading: true, error: null });
     try {
-      // Generate invoice number and UUID for proper constraint handling
-      const invoiceNumber = `INV-${Date.now()}`;
+      // UUID for proper constraint handling
       const invoiceId = crypto.randomUUID();
       
       // Get the current shift ID if there's an active shift
       const { currentShiftId } = useShiftStore.getState();
-      
-      const newInvoice: Invoice = {
-        ...invoiceData,
-        id: invoiceId,
-        invoiceNumber,
-        shiftId: currentShiftId || null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        deletedAt: null,
-      };
-      
-      const id = await db.invoices.add(newInvoice);
-      
-      // Update stock for each item in the invoice
-      for (const item of invoiceData.items) {
-        const product = await db.products.get(item.productId);
-        if (product) {
-          const newCurrentStock = (product.currentStock || 0) + item.qty;
-          // Update HPP (Average Cost) - simple average calculation
-          let newCost = product.cost;
-          if (product.cost === 0) {
-            newCost = item.unitPrice;
-          } else {
-            const totalValue = (product.currentStock * product.cost) + (item.qty * item.unitPrice);
-            newCost = totalValue / newCurrentStock;
+      // The invoice and its ledger rows belong to whoever is signed in, not to what the form sent
+      const createdBy = useAuthStore.getState().user?.id || 'system';
+      
+      await db.transaction('rw', [db.invoices, db.products, db.stockMovements, db.counters, db.settings], async () => {
+        // Numbered inside the transaction so a failed save does not consume a number
+        const invoiceNumber = await NumberingService.next('INV');
+        const newInvoice: Invoice = {
+          ...invoiceData,
+          id: invoiceId,
+          invoiceNumber,
+          shiftId: currentShiftId || null,
+          createdBy,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          deletedAt: null,
+        };
+        await db.invoices.add(newInvoice);
+        
+        // Update stock for each item in the invoice
+        for (const item of invoiceData.items) {
+          const product = await db.products.get(item.productId);
+          if (product) {
+            const newCurrentStock = (product.currentStock || 0) + item.qty;
+            // Update HPP (Average Cost) - simple average calculation
+            let newCost = product.cost;
+            if (product.cost === 0) {
+              newCost = item.unitPrice;
+            } else {
+              const totalValue = (product.currentStock * product.cost) + (item.qty * item.unitPrice);
+              newCost = totalValue / newCurrentStock;
+            }
+            
+            await StockLedgerService.applyChange({
+              productId: item.productId,
+              type: 'purchase',
+              qty: item.qty,
+              unitCost: item.unitPrice,
+              referenceId: invoiceId,
+              referenceType: 'invoice',
+              shiftId: currentShiftId || null,
+              reason: invoiceNumber,
+              createdBy,
+              productChanges: { cost: newCost }
+            });
           }
-          
-          await db.products.update(item.productId, {
-            currentStock: newCurrentStock,
-            cost: newCost,
-            updatedAt: new Date()
-          });
         }
-      }
+      });
       
       // Refresh products after stock update
       const updatedProducts = await db.products.filter(p => !p.deletedAt).toArray();
@@ -395,10 +448,25 @@ export const useProductStore = create<ProductState>((set, get) => ({
       }
       
       // Update stock
-      await db.products.update(productId, {
-        currentStock: (product.currentStock || 0) + quantity,
-        updatedAt: new Date()
+      await StockLedgerService.applyChange({
+        productId,
+        type: 'adjustment',
+        qty: quantity,
+        unit,
+        referenceType: 'manual',
+        shiftId: useShiftStore.getState().currentShiftId || null,
+        createdBy: useAuthStore.getState().user?.id || 'system'
       });
+
+      const updated = await db.products.get(productId);
+      await AuditLogService.record({
+        action: 'stock.adjust',
+        entityType: 'products',
+        entityId: productId,
+        before: { currentStock: product.currentStock },
+        after: { currentStock: updated?.currentStock ?? null, qty: quantity, unit },
+        note: product.name
+      }).catch(error => console.error('Error writing audit log:', error));
       
       // Refresh products
       const updatedProducts = await db.products.filter(p => !p.deletedAt).toArray();
@@ -416,20 +484,39 @@ export const useProductStore = create<ProductState>((set, get) => ({
       
       const newOpname: StockOpname = {
         ...opnameData,
-        id: '',
+        id: crypto.randomUUID(),
         shiftId: currentShiftId || null,
         createdAt: new Date(),
       };
       
-      const id = await db.stockOpnames.add(newOpname);
-      
-      // Update stock based on opname results
-      for (const item of opnameData.items) {
-        await db.products.update(item.productId, {
-          currentStock: item.actualStock,
-          updatedAt: new Date()
-        });
-      }
+      await db.transaction('rw', db.stockOpnames, db.products, db.stockMovements, async () => {
+        await db.stockOpnames.add(newOpname);
+        
+        // Update stock based on opname results
+        for (const item of opnameData.items) {
+          await StockLedgerService.applyChange({
+            productId: item.productId,
+            type: 'opname',
+            newStock: item.actualStock,
+            referenceId: newOpname.id,
+            referenceType: 'opname',
+            shiftId: newOpname.shiftId,
+            reason: opnameData.notes || 'Stock opname adjustment',
+            createdBy: opnameData.createdBy
+          });
+        }
+      });
+
+      await AuditLogService.record({
+        action: 'stock_opname.apply',
+        entityType: 'stockOpnames',
+        entityId: newOpname.id,
+        actorId: opnameData.createdBy,
+        shiftId: newOpname.shiftId,
+        before: { items: opnameData.items.map(item => ({ productId: item.productId, stock: item.systemStock })) },
+        after: { items: opnameData.items.map(item => ({ productId: item.productId, stock: item.actualStock })) },
+        note: opnameData.notes
+      }).catch(error => console.error('Error writing audit log:', error));
       
       // Refresh products after stock update
       const updatedProducts = await db.products.filter(p => !p.deletedAt).toArray();
@@ -447,22 +534,32 @@ export const useProductStore = create<ProductState>((set, get) => ({
       
       const newWaste: StockWaste = {
         ...wasteData,
-        id: '',
+        id: crypto.randomUUID(),
         shiftId: currentShiftId || null,
         createdAt: new Date(),
       };
       
-      const id = await db.stockWastes.add(newWaste);
-      
-      // Reduce stock for the wasted item
-      const product = await db.products.get(wasteData.productId);
-      if (product) {
-        const newCurrentStock = Math.max(0, (product.currentStock || 0) - wasteData.qty);
-        await db.products.update(wasteData.productId, {
-          currentStock: newCurrentStock,
-          updatedAt: new Date()
-        });
-      }
+      await db.transaction('rw', db.stockWastes, db.products, db.stockMovements, async () => {
+        await db.stockWastes.add(newWaste);
+        
+        // Reduce stock for the wasted item
+        const product = await db.products.get(wasteData.productId);
+        if (product) {
+          await StockLedgerService.applyChange({
+            productId: wasteData.productId,
+            type: 'waste',
+            qty: -wasteData.qty,
+            clampAtZero: true,
+            unit: wasteData.unit,
+            unitCost: product.cost,
+            referenceId: newWaste.id,
+            referenceType: 'waste',
+            shiftId: newWaste.shiftId,
+            reason: wasteData.reason,
+            createdBy: wasteData.createdBy
+          });
+        }
+      });
       
       // Refresh products after stock update
       const updatedProducts = await db.products.filter(p => !p.deletedAt).toArray();
@@ -480,9 +577,8 @@ export const useProductStore = create<ProductState>((set, get) => ({
   },
   
   getStockHistory: async (productId) => {
-    // TODO: Implement stock history tracking
-    // This would return stock history including purchase invoices, opnames, and waste records
-    return [];
+    // Ledger rows for the product, newest first
+    return StockLedgerService.getMovements({ productId });
   },
   
   getLowStockProducts: () => {
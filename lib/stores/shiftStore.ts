@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { CashierShiftService } from '../services/cashierShiftService';
-import { CashierShift } from '../db';
+import { CashierShiftService, ShiftHandover } from '../services/cashierShiftService';
+import { CashierShift, CashCount } from '../db';
 
 interface ShiftState {
   currentShiftId: string | null;
@@ -10,8 +10,9 @@ interface ShiftState {
   
   // Methods
   checkShiftStatus: (userId: string) => Promise<void>;
-  openShift: (userId: string, openingBalance: number) => Promise<void>;
-  closeShift: (shiftId: string, actualCash: number) => Promise<void>;
+  openShift: (userId: string, openingBalance: number, openingCount?: CashCount | null) => Promise<void>;
+  closeShift: (shiftId: string, actualCash: number, options?: { closingCount?: CashCount | null; blindClose?: boolean }) => Promise<void>;
+  handoverShift: (shiftId: string, handover: ShiftHandover) => Promise<void>;
   resetShiftState: () => void;
   isShiftOpen: () => boolean;
   getCurrentShift: () => Promise<CashierShift | null>;
@@ -28,6 +29,16 @@ export const useShiftStore = create<ShiftState>()(
         console.log('[DEBUG] checkShiftStatus called for userId:', userId);
         set({ isCheckingShift: true });
         try {
+          // After a cashier switch the terminal keeps the shift that is already open on it
+          const { currentShiftId } = get();
+          if (currentShiftId) {
+            const terminalShift = await CashierShiftService.getShiftById(currentShiftId);
+            if (terminalShift?.status === 'open') {
+              set({ shiftStatus: 'open', isCheckingShift: false });
+              return;
+            }
+          }
+
           const hasActiveShift = await CashierShiftService.hasActiveShift(userId);
           console.log('[DEBUG] hasActiveShift result:', hasActiveShift);
           if (hasActiveShift) {
@@ -66,9 +77,9 @@ export const useShiftStore = create<ShiftState>()(
         }
       },
       
-      openShift: async (userId: string, openingBalance: number) => {
+      openShift: async (userId: string, openingBalance: number, openingCount?: CashCount | null) => {
         try {
-          const newShift = await CashierShiftService.openShift(userId, openingBalance);
+          const newShift = await CashierShiftService.openShift(userId, openingBalance, openingCount);
           set({
             currentShiftId: newShift.id,
             shiftStatus: 'open',
@@ -79,9 +90,9 @@ export const useShiftStore = create<ShiftState>()(
         }
       },
       
-      closeShift: async (shiftId: string, actualCash: number) => {
+      closeShift: async (shiftId: string, actualCash: number, options?: { closingCount?: CashCount | null; blindClose?: boolean }) => {
         try {
-          const updatedShift = await CashierShiftService.closeShift(shiftId, actualCash);
+          const updatedShift = await CashierShiftService.closeShift(shiftId, actualCash, options);
           if (updatedShift) {
             set({
               currentShiftId: null,
@@ -94,6 +105,20 @@ export const useShiftStore = create<ShiftState>()(
         }
       },
       
+      // The shift stays open on this terminal; only the cashier holding the drawer changes
+      handoverShift: async (shiftId: string, handover: ShiftHandover) => {
+        try {
+          await CashierShiftService.handoverShift(shiftId, handover);
+          set({
+            currentShiftId: shiftId,
+            shiftStatus: 'open',
+          });
+        } catch (error) {
+          console.error('Error handing over shift:', error);
+          throw error;
+        }
+      },
+      
       resetShiftState: () => {
         set({
           currentShiftId: null,
@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { SyncService } from '../services/syncService';
+
+interface SyncStoreState {
+  isSyncing: boolean;
+  pendingCount: number;
+  lastSyncedAt: Date | null;
+  error: string | null;
+
+  syncNow: () => Promise<void>;
+  refreshPendingCount: () => Promise<void>;
+}
+
+export const useSyncStore = create<SyncStoreState>((set, get) => ({
+  isSyncing: false,
+  pendingCount: 0,
+  lastSyncedAt: null,
+  error: null,
+
+  syncNow: async () => {
+    if (!SyncService.isConfigured() || !navigator.onLine) {
+      await get().refreshPendingCount();
+      return;
+    }
+
+    set({ isSyncing: true, error: null });
+    try {
+      const result = await SyncService.sync();
+      set({
+        isSyncing: false,
+        lastSyncedAt: new Date(),
+        error: result.failed > 0 ? `${result.failed} perubahan gagal dikirim` : null
+      });
+    } catch (error) {
+      set({ isSyncing: false, error: (error as Error).message });
+    }
+    await get().refreshPendingCount();
+  },
+
+  refreshPendingCount: async () => {
+    try {
+      const pendingCount = await SyncService.getPendingCount();
+      set({ pendingCount });
+    } catch (error) {
+      console.error('Error counting pending sync entries:', error);
+    }
+  },
+}));
@@ -1,5 +1,43 @@
 import { z } from 'zod';
 
+// Receipt layout blocks, printed in the order the template lists them
+export const RECEIPT_SECTIONS = [
+  'logo',
+  'business',
+  'header',
+  'transaction',
+  'items',
+  'totals',
+  'payments',
+  'footer',
+  'wifi',
+  'social',
+  'qris',
+  'receiptLink',
+  'barcode',
+] as const;
+
+export const receiptTemplateSchema = z.object({
+  sections: z.array(z.enum(RECEIPT_SECTIONS)).default([...RECEIPT_SECTIONS]),
+  headerText: z.string().default(''), // Supports {transactionNumber}, {cashier}, {customer}, {date}, {businessName}
+  wifiName: z.string().default(''),
+  wifiPassword: z.string().default(''),
+  socials: z.array(z.object({
+    platform: z.enum(['instagram', 'tiktok', 'facebook', 'x', 'whatsapp', 'website']),
+    handle: z.string(),
+  })).default([]),
+  receiptLinkUrl: z.string().default(''), // Digital receipt link printed as a QR code, same placeholders as headerText
+});
+
+export const DEFAULT_RECEIPT_TEMPLATE: z.infer<typeof receiptTemplateSchema> = {
+  sections: [...RECEIPT_SECTIONS],
+  headerText: '',
+  wifiName: '',
+  wifiPassword: '',
+  socials: [],
+  receiptLinkUrl: '',
+};
+
 // Receipt settings schema
 export const receiptSettingsSchema = z.object({
   showLogo: z.boolean().default(true),
@@ -15,8 +53,11 @@ export const receiptSettingsSchema = z.object({
   showTotal: z.boolean().default(true),
   showPaymentMethod: z.boolean().default(true),
   showChange: z.boolean().default(true),
-  customMessage: z.string().default("Terima kasih atas kunjungan Anda!"),
+  customMessage: z.string().default("Terima kasih atas kunjungan Anda!"), // Footer text, same placeholders as the header
   showBarcode: z.boolean().default(true),
+  printQris: z.boolean().default(false),
+  autoPrint: z.enum(['always', 'ask', 'never']).default('ask'), // Print the receipt after checkout
+  template: receiptTemplateSchema.default(DEFAULT_RECEIPT_TEMPLATE),
 });
 
 // Tax settings schema
@@ -33,6 +74,8 @@ export const businessSettingsSchema = z.object({
   businessAddress: z.string().optional(),
   businessEmail: z.string().email().optional(),
   businessWebsite: z.string().url().optional(),
+  qrisPayload: z.string().optional(), // Merchant's static QRIS string, used to generate per-payment dynamic codes
+  businessLogo: z.string().optional(), // Data URL of the logo printed on receipts
 });
 
 // Account settings schema
@@ -54,6 +97,7 @@ export const generalSettingsSchema = z.object({
 export const lockScreenSettingsSchema = z.object({
  lockScreenEnabled: z.boolean().default(false),
   lockScreenTimeout: z.number().min(1).max(60).default(15), // in minutes
+  offlineGraceDays: z.number().int().min(1).max(30).default(3), // Days a device may stay signed in without reaching Supabase
 });
 
 // Export settings schema
@@ -70,6 +114,62 @@ export const dataHealthSettingsSchema = z.object({
   autoOptimizeInterval: z.number().min(1).max(365).default(30),
 });
 
+// Document numbering schema. Patterns use the tokens {DEVICE}, {YYYY}, {YY}, {MM}, {DD} and {SEQ}
+export const numberingPatternSchema = z.object({
+  pattern: z.string().min(1).max(64).refine(value => value.includes('{SEQ}'), "Pattern must contain {SEQ}"),
+  reset: z.enum(['daily', 'monthly', 'never']).default('daily'),
+  padding: z.number().int().min(1).max(10).default(4),
+});
+
+export const numberingSettingsSchema = z.object({
+  TRX: numberingPatternSchema, // Sales transactions and saved orders
+  INV: numberingPatternSchema, // Purchase invoices
+  RT: numberingPatternSchema, // Stock returns to suppliers
+  PO: numberingPatternSchema, // Purchase orders
+  REFUND: numberingPatternSchema, // Customer refunds
+});
+
+// Notes and coins offered by the cash counter at open and close shift
+export const denominationSchema = z.object({
+  value: z.number().positive(),
+  kind: z.enum(['note', 'coin']),
+});
+
+export const cashCountSettingsSchema = z.object({
+  denominations: z.record(z.string(), z.array(denominationSchema)), // Keyed by currency code, e.g. 'IDR'
+  blindClose: z.boolean().default(false), // Hide the expected cash at close until the count is submitted
+});
+
+// Approval policy: cashier actions that need an owner's or supervisor's PIN
+export const approvalRuleSchema = z.object({
+  required: z.boolean().default(true),
+  threshold: z.number().min(0).max(100).default(0), // Percent; only discounts and price overrides have a size
+});
+
+export const approvalSettingsSchema = z.object({
+  discount: approvalRuleSchema, // Line or order discounts above `threshold` percent
+  priceOverride: approvalRuleSchema, // Price changes of more than `threshold` percent from the list price
+  void: approvalRuleSchema,
+  openDrawer: approvalRuleSchema, // Opening the cash drawer without a sale
+  deleteSavedOrder: approvalRuleSchema,
+});
+
+// How this device reaches its receipt printer. Kept per device (see lib/utils/device.ts), not synced.
+export const printerSettingsSchema = z.object({
+  transport: z.enum(['none', 'usb', 'serial', 'tcp']).default('none'),
+  name: z.string().default(''), // Shown in settings, e.g. the USB product name
+  usbVendorId: z.number().int().optional(), // WebUSB device, or the USB adapter behind a serial port
+  usbProductId: z.number().int().optional(),
+  baudRate: z.number().int().positive().default(9600), // Serial only
+  host: z.string().default(''), // Network printer, reached through the local printer bridge
+  port: z.number().int().min(1).max(65535).default(9100),
+  bridgeUrl: z.string().default('http://localhost:9101'),
+  // Paper profile, see lib/services/receiptLayout.ts
+  paperWidth: z.enum(['58mm', '80mm']).default('58mm'),
+  font: z.enum(['A', 'B']).default('A'), // Font B is smaller and fits more columns
+  codePage: z.enum(['cp437', 'cp850', 'cp858', 'cp1252']).default('cp437'),
+});
+
 // All settings schema
 export const allSettingsSchema = z.object({
   receipt: receiptSettingsSchema.optional(),
@@ -80,10 +180,15 @@ export const allSettingsSchema = z.object({
   lockScreen: lockScreenSettingsSchema.optional(),
   export: exportSettingsSchema.optional(),
   dataHealth: dataHealthSettingsSchema.optional(),
+  numbering: numberingSettingsSchema.optional(),
+  approvals: approvalSettingsSchema.optional(),
+  cashCount: cashCountSettingsSchema.optional(),
 });
 
 // Type inference
 export type ReceiptSettings = z.infer<typeof receiptSettingsSchema>;
+export type ReceiptTemplate = z.infer<typeof receiptTemplateSchema>;
+export type ReceiptSection = ReceiptTemplate['sections'][number];
 export type TaxSettings = z.infer<typeof taxSettingsSchema>;
 export type BusinessSettings = z.infer<typeof businessSettingsSchema>;
 export type AccountSettings = z.infer<typeof accountSettingsSchema>;
@@ -91,6 +196,15 @@ export type GeneralSettings = z.infer<typeof generalSettingsSchema>;
 export type LockScreenSettings = z.infer<typeof lockScreenSettingsSchema>;
 export type ExportSettings = z.infer<typeof exportSettingsSchema>;
 export type DataHealthSettings = z.infer<typeof dataHealthSettingsSchema>;
+export type NumberingPattern = z.infer<typeof numberingPatternSchema>;
+export type NumberingSettings = z.infer<typeof numberingSettingsSchema>;
+export type DocumentType = keyof NumberingSettings;
+export type ApprovalRule = z.infer<typeof approvalRuleSchema>;
+export type ApprovalSettings = z.infer<typeof approvalSettingsSchema>;
+export type ApprovalAction = keyof ApprovalSettings;
+export type Denomination = z.infer<typeof denominationSchema>;
+export type CashCountSettings = z.infer<typeof cashCountSettingsSchema>;
+export type PrinterSettings = z.infer<typeof printerSettingsSchema>;
 export type AllSettings = z.infer<typeof allSettingsSchema>;
 
 // Setting key types
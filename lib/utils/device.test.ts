@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDeviceId, getDevicePrefix, setDevicePrefix } from './device';
+import { NumberingService } from '../services/numberingService';
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  });
+});
+
+describe('getDevicePrefix', () => {
+  it('defaults to the random tail of the device id', () => {
+    storage.set('pos-device-id', '019a0b1c-2d3e-7f40-8a5b-6c7d8e9fa1b2');
+
+    expect(getDevicePrefix()).toBe('A1B2');
+  });
+
+  it('gives two new devices different prefixes', () => {
+    getDeviceId();
+    const first = getDevicePrefix();
+    storage.clear();
+    getDeviceId();
+
+    expect(getDevicePrefix()).not.toBe(first);
+  });
+
+  it('keeps {DEVICE} in document numbers when no prefix was set', () => {
+    storage.set('pos-device-id', '019a0b1c-2d3e-7f40-8a5b-6c7d8e9fa1b2');
+    const pattern = { pattern: 'TRX-{DEVICE}-{YYYY}{MM}{DD}-{SEQ}', reset: 'daily' as const, padding: 4 };
+
+    expect(NumberingService.format(pattern, 7, new Date(2026, 9, 19), getDevicePrefix())).toBe('TRX-A1B2-20261019-0007');
+  });
+
+  it('goes back to the default when the prefix is cleared', () => {
+    storage.set('pos-device-id', '019a0b1c-2d3e-7f40-8a5b-6c7d8e9fa1b2');
+    setDevicePrefix('k1');
+    expect(getDevicePrefix()).toBe('K1');
+
+    setDevicePrefix('');
+    expect(getDevicePrefix()).toBe('A1B2');
+  });
+});
@@ -0,0 +1,67 @@
+import { v7 as uuidv7 } from 'uuid';
+import { printerSettingsSchema, PrinterSettings } from '../types/settings';
+
+const DEVICE_ID_KEY = 'pos-device-id';
+
+// Stable identifier for this tablet/browser, generated once and kept in localStorage
+export const getDeviceId = (): string => {
+  if (typeof window === 'undefined') {
+    return 'server';
+  }
+
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = uuidv7();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+const DEVICE_PREFIX_KEY = 'pos-device-prefix';
+
+// Used until a prefix is set, so two fresh tablets never share one. The tail of the
+// device id is its random part; the head is a timestamp and alike on tablets set up together.
+export const getDefaultDevicePrefix = (): string => {
+  if (typeof window === 'undefined') {
+    return '';
+  }
+  return getDeviceId().replace(/-/g, '').slice(-4).toUpperCase();
+};
+
+// Short code printed in document numbers so several devices never issue the same number, e.g. "K1"
+export const getDevicePrefix = (): string => {
+  if (typeof window === 'undefined') {
+    return '';
+  }
+  return localStorage.getItem(DEVICE_PREFIX_KEY) || getDefaultDevicePrefix();
+};
+
+// An empty prefix goes back to the default one
+export const setDevicePrefix = (prefix: string): void => {
+  const normalized = prefix.trim().toUpperCase();
+  if (!normalized) {
+    localStorage.removeItem(DEVICE_PREFIX_KEY);
+    return;
+  }
+  if (!/^[A-Z0-9]{1,6}$/.test(normalized)) {
+    throw new Error('Device prefix must be 1-6 letters or digits');
+  }
+  localStorage.setItem(DEVICE_PREFIX_KEY, normalized);
+};
+
+const PRINTER_KEY = 'pos-printer';
+
+// The receipt printer paired with this device; a USB printer on one tablet means nothing on another
+export const getPrinterSettings = (): PrinterSettings => {
+  const stored = typeof window === 'undefined' ? null : localStorage.getItem(PRINTER_KEY);
+  try {
+    return printerSettingsSchema.parse(stored ? JSON.parse(stored) : {});
+  } catch (error) {
+    console.error('Invalid printer settings, using defaults:', error);
+    return printerSettingsSchema.parse({});
+  }
+};
+
+export const setPrinterSettings = (settings: PrinterSettings): void => {
+  localStorage.setItem(PRINTER_KEY, JSON.stringify(printerSettingsSchema.parse(settings)));
+};
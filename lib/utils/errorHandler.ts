@@ -36,6 +36,27 @@ export class AuthorizationError extends Error {
   }
 }
 
+export interface StockShortage {
+  reason: 'insufficient' | 'not_found';
+  productId: string; // Cart line product
+  productName: string;
+  materialId: string | null; // Set when the shortage is a recipe material
+  materialName: string | null;
+  requiredQty: number; // Total needed across the whole order
+  availableQty: number;
+  message: string;
+}
+
+export class InsufficientStockError extends Error {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super(shortages.map(shortage => shortage.message).join('; '));
+    this.name = 'InsufficientStockError';
+    this.shortages = shortages;
+  }
+}
+
 // General error handler function
 export const handleAppError = (error: any, context?: string): Error => {
   // Log error for debugging
@@ -61,6 +82,10 @@ export const handleAppError = (error: any, context?: string): Error => {
   if (error instanceof AuthorizationError) {
     return error;
   }
+
+  if (error instanceof InsufficientStockError) {
+    return error;
+  }
   
   // Handle common error types
   if (error.name === 'TypeError') {
@@ -1,5 +1,7 @@
 import { useAuthStore } from '../stores/authStore';
 import { useUIStore } from '../stores/uiStore';
+import { useSyncStore } from '../stores/syncStore';
+import { SYNC_INTERVAL_MS } from '../config/sync';
 import toast from 'react-hot-toast';
 
 // Function to check if we're online
@@ -21,6 +23,9 @@ export const monitorOnlineStatus = () => {
       toast.success('Kembali online. Data akan disinkronkan saat tersedia.', {
         position: 'bottom-right',
       });
+
+      // Push the outbox and pull remote changes
+      useSyncStore.getState().syncNow();
     } else {
       toast.error('Anda sedang offline. Beberapa fitur mungkin tidak tersedia.', {
         position: 'bottom-right',
@@ -28,17 +33,24 @@ export const monitorOnlineStatus = () => {
     }
   };
 
+  const handleOnline = () => updateOnlineStatus(true);
+  const handleOffline = () => updateOnlineStatus(false);
+
   // Initial status
   updateOnlineStatus(navigator.onLine);
 
   // Event listeners
-  window.addEventListener('online', () => updateOnlineStatus(true));
-  window.addEventListener('offline', () => updateOnlineStatus(false));
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+
+  // A device that stays online keeps syncing too; syncNow skips the run while offline
+  const syncTimer = setInterval(() => useSyncStore.getState().syncNow(), SYNC_INTERVAL_MS);
 
   // Return cleanup function
   return () => {
-    window.removeEventListener('online', () => updateOnlineStatus(true));
-    window.removeEventListener('offline', () => updateOnlineStatus(false));
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    clearInterval(syncTimer);
   };
 };
 
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import QRCode from 'qrcode';
+import { encodeQrCode } from './qrCode';
+import { QrisService } from '../services/qrisService';
+
+// ISO/IEC 18004 table C.1: 15-bit format information for level M, masks 0-7
+const FORMAT_BITS_M = [0x5412, 0x5125, 0x5E7C, 0x5B4B, 0x45F9, 0x40CE, 0x4F97, 0x4AA0];
+// Table D.1: 18-bit version information for version 9
+const VERSION_BITS_9 = 0x09A99;
+
+const STATIC_PAYLOAD =
+  '00020101021126660014ID.CO.QRIS.WWW01189360001400000000010215ID10200000000010303UMI5204581253033605802ID5912WARUNG BAKSO6007JAKARTA6105123456304DF64';
+
+const readBits = (matrix: boolean[][], positions: [number, number][]) =>
+  positions.reduce((bits, [x, y], i) => bits | (Number(matrix[y][x]) << i), 0);
+
+// Both copies of the format information, bit 0 first
+const formatBits = (matrix: boolean[][]) => {
+  const size = matrix.length;
+  const first: [number, number][] = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8],
+    [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8]
+  ];
+  const second: [number, number][] = [
+    ...Array.from({ length: 8 }, (_, i): [number, number] => [size - 1 - i, 8]),
+    ...Array.from({ length: 7 }, (_, i): [number, number] => [8, size - 7 + i])
+  ];
+  return [readBits(matrix, first), readBits(matrix, second)];
+};
+
+// Both copies of the version information, bit 0 first
+const versionBits = (matrix: boolean[][]) => {
+  const size = matrix.length;
+  const bottomLeft = Array.from({ length: 18 }, (_, i): [number, number] => [Math.floor(i / 3), size - 11 + (i % 3)]);
+  const topRight = Array.from({ length: 18 }, (_, i): [number, number] => [size - 11 + (i % 3), Math.floor(i / 3)]);
+  return [readBits(matrix, bottomLeft), readBits(matrix, topRight)];
+};
+
+// The same text, version and mask through the qrcode package
+const reference = (text: string, version: number, maskPattern: number): boolean[][] => {
+  const { modules } = QRCode.create([{ data: Buffer.from(text), mode: 'byte' }], {
+    errorCorrectionLevel: 'M',
+    version,
+    maskPattern: maskPattern as QRCode.QRCodeMaskPattern
+  });
+  return Array.from({ length: modules.size }, (_, y) =>
+    Array.from({ length: modules.size }, (_, x) => Boolean(modules.get(y, x)))
+  );
+};
+
+describe('encodeQrCode', () => {
+  it('encodes a short text as a version 1 symbol', () => {
+    const matrix = encodeQrCode('TRX-K1-0007');
+
+    expect(matrix).toHaveLength(21);
+    const [format, copy] = formatBits(matrix);
+    expect(copy).toBe(format);
+    const mask = FORMAT_BITS_M.indexOf(format);
+    expect(mask).toBeGreaterThanOrEqual(0);
+    expect(matrix).toEqual(reference('TRX-K1-0007', 1, mask));
+  });
+
+  it('encodes a dynamic QRIS payload with version information', () => {
+    const payload = QrisService.toDynamic(STATIC_PAYLOAD, 33966);
+    const matrix = encodeQrCode(payload);
+
+    expect(matrix).toHaveLength(53);
+    expect(versionBits(matrix)).toEqual([VERSION_BITS_9, VERSION_BITS_9]);
+    const [format, copy] = formatBits(matrix);
+    expect(copy).toBe(format);
+    const mask = FORMAT_BITS_M.indexOf(format);
+    expect(mask).toBeGreaterThanOrEqual(0);
+    expect(matrix).toEqual(reference(payload, 9, mask));
+  });
+
+  it('has a dark module next to the bottom-left format copy', () => {
+    const matrix = encodeQrCode('A');
+    expect(matrix[matrix.length - 8][8]).toBe(true);
+  });
+
+  it('refuses text that does not fit in version 40', () => {
+    expect(() => encodeQrCode('A'.repeat(3000))).toThrow('Text is too long for a QR code');
+  });
+});
@@ -4,10 +4,13 @@ import { z } from 'zod';
 export const userSchema = z.object({
   id: z.string().uuid(),
   supabaseId: z.string(),
-  email: z.string().email(),
+  email: z.string().email().or(z.literal('')), // Empty for PIN-only staff
   name: z.string().min(1, 'Name is required'),
   role: z.enum(['owner', 'kasir']),
   pin: z.string().optional(), // Can be empty initially
+  accessTemplateId: z.string().nullable().optional(),
+  lastLoginAt: z.date().nullable().optional(),
+  lastOnlineVerifiedAt: z.date().nullable().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
   deletedAt: z.date().nullable().optional(),
@@ -84,6 +87,12 @@ export const transactionSchema = z.object({
       name: z.string(),
       qty: z.number().min(1, 'Quantity must be at least 1'),
       price: z.number().min(0, 'Price must be non-negative'),
+      listPrice: z.number().min(0, 'List price must be non-negative').optional(),
+      discount: z.object({
+        type: z.enum(['percent', 'nominal']),
+        value: z.number().min(0, 'Discount value must be non-negative'),
+        amount: z.number().min(0, 'Discount amount must be non-negative'),
+      }).nullable().optional(),
       subtotal: z.number().min(0, 'Subtotal must be non-negative'),
     })
   ),
@@ -106,9 +115,17 @@ export const transactionSchema = z.object({
     })
   ),
   change: z.number(),
-  status: z.enum(['paid', 'unpaid', 'saved']),
+  status: z.enum(['paid', 'unpaid', 'saved', 'void']),
   savedAt: z.date().nullable().optional(),
   paidAt: z.date().nullable().optional(),
+  paidBy: z.string().uuid().nullable().optional(),
+  voidedAt: z.date().nullable().optional(),
+  voidedBy: z.string().uuid().nullable().optional(),
+  voidApprovedBy: z.string().uuid().nullable().optional(),
+  voidReason: z.enum(['wrong_item', 'customer_cancelled', 'payment_failed', 'duplicate', 'other']).nullable().optional(),
+  voidNote: z.string().nullable().optional(),
+  refundIds: z.array(z.string().uuid()).optional(),
+  refundedAmount: z.number().min(0, 'Refunded amount must be non-negative').optional(),
   createdBy: z.string().uuid(),
   createdAt: z.date(),
   updatedAt: z.date(),
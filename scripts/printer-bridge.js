@@ -0,0 +1,125 @@
+// Local bridge between the browser and raw TCP receipt printers (port 9100)
+// Browsers cannot open sockets, so the app POSTs the ESC/POS bytes here and the bridge forwards them unchanged.
+// Usage: npm run printer:bridge, then pick "Jaringan (TCP)" in the receipt printer settings.
+const http = require('http');
+const net = require('net');
+
+const PORT = Number(process.env.PRINTER_BRIDGE_PORT || 9101);
+// Pages allowed to print through the bridge; anything else on this machine is refused
+const ALLOWED_ORIGINS = (process.env.PRINTER_BRIDGE_ORIGINS || 'http://localhost:3000')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+const SOCKET_TIMEOUT_MS = 10000;
+const DISCOVER_TIMEOUT_MS = 400;
+const MAX_JOB_BYTES = 4 * 1024 * 1024;
+
+const send = (req, res, status, body) => {
+  const origin = req.headers.origin;
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...(origin && ALLOWED_ORIGINS.includes(origin) ? { 'Access-Control-Allow-Origin': origin } : {}),
+    'Access-Control-Allow-Headers': 'content-type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Private-Network': 'true',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBytes = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_JOB_BYTES) {
+      reject(new Error('Print job too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const getTarget = (params) => {
+  const host = params.get('host') || '';
+  const port = Number(params.get('port') || 9100);
+  if (!host || (net.isIP(host) === 0 && !/^[A-Za-z0-9.-]+$/.test(host))) {
+    throw new Error('Invalid printer host');
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error('Invalid printer port');
+  }
+  return { host, port };
+};
+
+// Write the job and resolve once all of it has been handed to the network
+const forward = (host, port, bytes) => new Promise((resolve, reject) => {
+  const socket = net.connect({ host, port });
+  socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new Error(`No response from ${host}:${port}`)));
+  socket.on('error', reject);
+  socket.on('connect', () => socket.end(bytes, resolve));
+});
+
+const probe = (host, port, timeout) => new Promise(resolve => {
+  const socket = net.connect({ host, port });
+  const done = (found) => {
+    socket.destroy();
+    resolve(found);
+  };
+  socket.setTimeout(timeout, () => done(false));
+  socket.on('connect', () => done(true));
+  socket.on('error', () => done(false));
+});
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.headers.origin && !ALLOWED_ORIGINS.includes(req.headers.origin)) {
+    return send(req, res, 403, { message: `Origin ${req.headers.origin} is not allowed` });
+  }
+  if (req.method === 'OPTIONS') return send(req, res, 204);
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/health') {
+      return send(req, res, 200, { ok: true });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/status') {
+      const { host, port } = getTarget(url.searchParams);
+      const online = await probe(host, port, SOCKET_TIMEOUT_MS / 5);
+      return send(req, res, online ? 200 : 502, { online });
+    }
+
+    // Printers answering on the port anywhere in a /24 network
+    if (req.method === 'GET' && url.pathname === '/discover') {
+      const subnet = url.searchParams.get('subnet') || '';
+      const port = Number(url.searchParams.get('port') || 9100);
+      if (!/^\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(subnet)) {
+        return send(req, res, 400, { message: 'Subnet must look like 192.168.1' });
+      }
+      const hosts = Array.from({ length: 254 }, (_, i) => `${subnet}.${i + 1}`);
+      const results = await Promise.all(hosts.map(host => probe(host, port, DISCOVER_TIMEOUT_MS)));
+      return send(req, res, 200, { printers: hosts.filter((_, i) => results[i]).map(host => ({ host, port })) });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/print') {
+      const { host, port } = getTarget(url.searchParams);
+      const bytes = await readBytes(req);
+      await forward(host, port, bytes);
+      console.log(`Sent ${bytes.length} bytes to ${host}:${port}`);
+      return send(req, res, 200, { bytes: bytes.length });
+    }
+
+    return send(req, res, 404, { message: 'Not found' });
+  } catch (error) {
+    console.error(error.message);
+    return send(req, res, 502, { message: error.message });
+  }
+});
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Printer bridge listening on http://localhost:${PORT}`);
+  console.log(`Accepting print jobs from: ${ALLOWED_ORIGINS.join(', ')}`);
+});
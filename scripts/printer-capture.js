@@ -0,0 +1,70 @@
+// Fake raw TCP printer for checking exactly which bytes the app sends
+// Usage: npm run printer:capture, point the TCP printer setting at 127.0.0.1 (port 9100) with the bridge
+// running, and print. Each job is saved as a .bin file and dumped as hex.
+// With PRINTER_CAPTURE_EXPECT=path/to/job.bin the first job is compared byte for byte against that file
+// and the process exits with 0 when identical, 1 otherwise.
+// lib/services/printerTransport.test.ts runs it this way, with the bridge, against a known receipt.
+const net = require('net');
+const fs = require('fs');
+const path = require('path');
+
+const PORT = Number(process.env.PRINTER_CAPTURE_PORT || 9100);
+const OUTPUT_DIR = path.resolve(process.env.PRINTER_CAPTURE_DIR || 'printer-captures');
+const EXPECT_FILE = process.env.PRINTER_CAPTURE_EXPECT ? path.resolve(process.env.PRINTER_CAPTURE_EXPECT) : null;
+
+// 16 bytes per row: offset, hex, printable ASCII
+const hexDump = (bytes) => {
+  const rows = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = bytes.subarray(offset, offset + 16);
+    const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(row, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+    rows.push(`${offset.toString(16).padStart(6, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return rows.join('\n');
+};
+
+const compare = (actual, expected) => {
+  const length = Math.min(actual.length, expected.length);
+  for (let i = 0; i < length; i++) {
+    if (actual[i] !== expected[i]) {
+      return `first difference at offset 0x${i.toString(16)}: got 0x${actual[i].toString(16).padStart(2, '0')}, expected 0x${expected[i].toString(16).padStart(2, '0')}`;
+    }
+  }
+  return actual.length === expected.length ? null : `length ${actual.length}, expected ${expected.length}`;
+};
+
+fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+let jobCount = 0;
+
+const server = net.createServer(socket => {
+  const chunks = [];
+  socket.on('data', chunk => chunks.push(chunk));
+  socket.on('error', error => console.error('Connection error:', error.message));
+  socket.on('end', () => {
+    const bytes = Buffer.concat(chunks);
+    // Status checks and discovery connect without sending anything
+    if (bytes.length === 0) {
+      socket.end();
+      return;
+    }
+    jobCount += 1;
+    const file = path.join(OUTPUT_DIR, `job-${String(jobCount).padStart(3, '0')}.bin`);
+    fs.writeFileSync(file, bytes);
+
+    console.log(`\nJob ${jobCount}: ${bytes.length} bytes from ${socket.remoteAddress}, saved to ${file}`);
+    console.log(hexDump(bytes));
+    socket.end();
+
+    if (EXPECT_FILE) {
+      const difference = compare(bytes, fs.readFileSync(EXPECT_FILE));
+      console.log(difference ? `\nMISMATCH with ${EXPECT_FILE}: ${difference}` : `\nMATCH with ${EXPECT_FILE}`);
+      server.close(() => process.exit(difference ? 1 : 0));
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake printer listening on tcp://localhost:${PORT}`);
+  if (EXPECT_FILE) console.log(`Comparing the first job against ${EXPECT_FILE}`);
+});
@@ -0,0 +1,142 @@
+// Local PostgREST-compatible stand-in for testing the sync engine without Supabase
+// Usage: npm run sync:stand-in, then set NEXT_PUBLIC_SYNC_REST_URL=http://localhost:54321/rest/v1
+// and NEXT_PUBLIC_SYNC_API_KEY to any value.
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+const PORT = Number(process.env.SYNC_STAND_IN_PORT || 54321);
+// Optional JSON file to keep data between restarts
+const DATA_FILE = process.env.SYNC_STAND_IN_FILE ? path.resolve(process.env.SYNC_STAND_IN_FILE) : null;
+
+let tables = {};
+if (DATA_FILE && fs.existsSync(DATA_FILE)) {
+  tables = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+}
+
+const save = () => {
+  if (DATA_FILE) {
+    fs.writeFileSync(DATA_FILE, JSON.stringify(tables, null, 2));
+  }
+};
+
+const getTable = (name) => {
+  if (!tables[name]) tables[name] = {};
+  return tables[name];
+};
+
+// Supports the operators the sync engine uses: eq, gt, gte, lt, lte, in
+const matches = (row, column, expression) => {
+  const [operator, ...rest] = expression.split('.');
+  const value = rest.join('.');
+  const current = row[column];
+
+  switch (operator) {
+    case 'eq': return String(current) === value;
+    case 'gt': return current > value;
+    case 'gte': return current >= value;
+    case 'lt': return current < value;
+    case 'lte': return current <= value;
+    case 'in': {
+      const list = value.replace(/^\(|\)$/g, '').split(',').map(item => item.replace(/^"|"$/g, ''));
+      return list.includes(String(current));
+    }
+    default: return true;
+  }
+};
+
+const RESERVED_PARAMS = ['select', 'order', 'limit', 'offset', 'on_conflict'];
+
+const filterRows = (rows, params) => {
+  let result = rows;
+  for (const [column, expression] of params.entries()) {
+    if (RESERVED_PARAMS.includes(column)) continue;
+    result = result.filter(row => matches(row, column, expression));
+  }
+  return result;
+};
+
+const sortRows = (rows, order) => {
+  if (!order) return rows;
+  const keys = order.split(',').map(part => {
+    const [column, direction] = part.split('.');
+    return { column, desc: direction === 'desc' };
+  });
+  return [...rows].sort((a, b) => {
+    for (const { column, desc } of keys) {
+      if (a[column] === b[column]) continue;
+      const result = a[column] > b[column] ? 1 : -1;
+      return desc ? -result : result;
+    }
+    return 0;
+  });
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'apikey, authorization, content-type, prefer',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/rest\/v1\/([A-Za-z0-9_]+)$/);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (!match) return send(res, 404, { message: 'Not found' });
+  if (!req.headers.apikey) return send(res, 401, { message: 'No API key found in request' });
+
+  const table = getTable(match[1]);
+  const params = url.searchParams;
+
+  try {
+    if (req.method === 'GET') {
+      let rows = sortRows(filterRows(Object.values(table), params), params.get('order'));
+      const offset = Number(params.get('offset') || 0);
+      const limit = params.get('limit') ? Number(params.get('limit')) : rows.length;
+      rows = rows.slice(offset, offset + limit);
+      return send(res, 200, rows);
+    }
+
+    if (req.method === 'POST') {
+      const body = JSON.parse((await readBody(req)) || '[]');
+      const rows = Array.isArray(body) ? body : [body];
+      const merge = String(req.headers.prefer || '').includes('resolution=merge-duplicates');
+
+      for (const row of rows) {
+        if (!row || row.id === undefined) return send(res, 400, { message: 'Row without id' });
+        if (table[row.id] && !merge) return send(res, 409, { message: `Duplicate key ${row.id}` });
+        table[row.id] = { ...(table[row.id] || {}), ...row };
+      }
+      save();
+      return send(res, 201);
+    }
+
+    if (req.method === 'DELETE') {
+      const rows = filterRows(Object.values(table), params);
+      rows.forEach(row => delete table[row.id]);
+      save();
+      return send(res, 204);
+    }
+
+    return send(res, 405, { message: 'Method not allowed' });
+  } catch (error) {
+    return send(res, 400, { message: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`PostgREST stand-in listening on http://localhost:${PORT}/rest/v1`);
+  if (DATA_FILE) console.log(`Persisting data to ${DATA_FILE}`);
+});